@@ -30,6 +30,9 @@ import SettingsPage from "@/pages/settings";
 import AdminDashboard from "@/pages/admin/index";
 // import AdminLogin from "@/pages/admin-login"; // Removed
 import ResetPasswordPage from "@/pages/reset-password-page";
+import QuotePortalPage from "@/pages/quote-portal";
+import AcceptInvitationPage from "@/pages/accept-invitation";
+import AuditLogPage from "@/pages/audit-log";
 import AdminUsers from "@/pages/admin/users";
 import SystemPrompts from "@/pages/admin/system-prompts";
 import MasterPromptPage from "@/pages/admin/master-prompt";
@@ -106,6 +109,8 @@ function RegularAppContent() {
       <Switch>
         <Route path="/auth" component={AuthPage} />
         <Route path="/reset-password" component={ResetPasswordPage} />
+        <Route path="/q/:token" component={QuotePortalPage} />
+        <Route path="/invite/:token" component={AcceptInvitationPage} />
         <DirectRoute path="/dashboard" component={Dashboard} title="Dashboard" />
         <DirectRoute path="/quotes" component={QuotesPage} title="Quotes" />
         <DirectRoute path="/new-quote" component={NewQuotePage} title="New Quote" />
@@ -114,6 +119,7 @@ function RegularAppContent() {
         <DirectRoute path="/training" component={TrainingPage} title="Training" />
         <DirectRoute path="/users" component={UsersPage} title="Users" />
         <DirectRoute path="/settings" component={SettingsPage} title="Settings" />
+        <DirectRoute path="/audit-log" component={AuditLogPage} title="Audit Log" />
         <Route path="/">
           <Redirect to="/quotes" />
         </Route>
@@ -17,6 +17,7 @@ import {
   Users,
   FileText,
   Plus,
+  BarChart3,
 } from "lucide-react";
 
 import {
@@ -65,6 +66,7 @@ import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import PromptEvaluation from "./prompt-evaluation";
 
 type PromptType = "core" | "industry" | "client";
 
@@ -354,8 +356,11 @@ export default function HierarchicalPromptManager() {
   // Switch between tabs
   const handleTabChange = (value: string) => {
     setSelectedTab(value);
-    // Reset form when changing tabs
-    if (editMode) {
+    // The evaluation tab has no prompt form
+    if (value === "evaluation") {
+      setEditMode(false);
+    } else if (editMode) {
+      // Reset form when changing tabs
       form.reset({
         name: "",
         content: "",
@@ -403,7 +408,7 @@ export default function HierarchicalPromptManager() {
       </div>
       
       <Tabs value={selectedTab} onValueChange={handleTabChange} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="core" className="flex items-center space-x-2">
             <Terminal className="h-4 w-4" />
             <span>Core Prompt</span>
@@ -412,6 +417,10 @@ export default function HierarchicalPromptManager() {
             <Factory className="h-4 w-4" />
             <span>Industry Prompts</span>
           </TabsTrigger>
+          <TabsTrigger value="evaluation" className="flex items-center space-x-2">
+            <BarChart3 className="h-4 w-4" />
+            <span>Evaluation</span>
+          </TabsTrigger>
         </TabsList>
         
         {/* Display editing form */}
@@ -970,8 +979,11 @@ export default function HierarchicalPromptManager() {
             </CardContent>
           </Card>
         </TabsContent>
-        
 
+        {/* Evaluation Tab */}
+        <TabsContent value="evaluation" className="space-y-4">
+          <PromptEvaluation />
+        </TabsContent>
       </Tabs>
       
       {/* Help section */}
@@ -0,0 +1,634 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { PromptEvalCase, PromptEvalRun, SystemPrompt } from "@shared/schema";
+import { Edit, Loader2, Play, Plus, Power, Trash } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+type Industry = { id: number; name: string };
+
+type ProviderStatus = { name: string; configured: boolean; isDefault: boolean; defaultModel: string };
+
+type CaseForm = {
+  name: string;
+  industryId: string;
+  description: string;
+  expectedLineItems: string; // One item per line
+  minTotal: string;
+  maxTotal: string;
+};
+
+type RunForm = {
+  name: string;
+  corePromptId: string;
+  industryId: string;
+  industryPromptId: string;
+  provider: string;
+  model: string;
+};
+
+const CASES_KEY = ["/api/admin/prompt-evals/cases"];
+const RUNS_KEY = ["/api/admin/prompt-evals/runs"];
+// How often to check on runs still being scored
+const POLL_INTERVAL_MS = 2000;
+// Select value standing for "no choice", since Select items can't be empty
+const ANY = "any";
+
+const emptyCase: CaseForm = { name: "", industryId: ANY, description: "", expectedLineItems: "", minTotal: "", maxTotal: "" };
+const emptyRun: RunForm = { name: "", corePromptId: ANY, industryId: ANY, industryPromptId: ANY, provider: ANY, model: "" };
+
+const readJson = async (response: Response) => {
+  const data = response.status === 204 ? null : await response.json();
+  if (!response.ok) {
+    throw new Error(data?.errors?.[0]?.message || data?.error || `Server responded with ${response.status}`);
+  }
+  return data;
+};
+
+const toCaseForm = (evalCase: PromptEvalCase): CaseForm => ({
+  name: evalCase.name,
+  industryId: evalCase.industryId ? String(evalCase.industryId) : ANY,
+  description: evalCase.description,
+  expectedLineItems: evalCase.expectedLineItems.map(item => item.description).join("\n"),
+  minTotal: evalCase.minTotal?.toString() ?? "",
+  maxTotal: evalCase.maxTotal?.toString() ?? "",
+});
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+const optionalId = (value: string) => (value === ANY ? null : Number(value));
+
+const percent = (value: number | undefined) => (value === undefined ? "–" : `${Math.round(value * 100)}%`);
+const formatMoney = (value: number | null) => (value === null ? "–" : `$${value.toFixed(2)}`);
+
+const formatRange = (evalCase: PromptEvalCase) =>
+  evalCase.minTotal === null && evalCase.maxTotal === null
+    ? "Any total"
+    : `${formatMoney(evalCase.minTotal)} – ${formatMoney(evalCase.maxTotal)}`;
+
+const runLabel = (run: PromptEvalRun) => run.name || `Run #${run.id}`;
+
+/**
+ * Golden cases for the quote drafting prompts, and scored runs of them
+ * against candidate prompts and models so prompts can be compared before
+ * they are activated
+ */
+export default function PromptEvaluation() {
+  const { toast } = useToast();
+  const [caseDialogOpen, setCaseDialogOpen] = useState(false);
+  const [editingCase, setEditingCase] = useState<PromptEvalCase | null>(null);
+  const [caseForm, setCaseForm] = useState<CaseForm>(emptyCase);
+  const [runForm, setRunForm] = useState<RunForm>(emptyRun);
+  const [compared, setCompared] = useState<number[]>([]);
+
+  const promptsQuery = useQuery<SystemPrompt[]>({
+    queryKey: ["/api/system-prompts"],
+    queryFn: async () => readJson(await apiRequest("GET", "/api/system-prompts")),
+  });
+
+  const industriesQuery = useQuery<Industry[]>({
+    queryKey: ["/api/admin/industries"],
+    queryFn: async () => readJson(await apiRequest("GET", "/api/admin/industries")),
+  });
+
+  const providersQuery = useQuery<{ providers: ProviderStatus[] }>({
+    queryKey: ["/api/ai/providers/status", { ping: false }],
+    queryFn: async () => readJson(await apiRequest("GET", "/api/ai/providers/status?ping=false")),
+  });
+
+  const casesQuery = useQuery<PromptEvalCase[]>({
+    queryKey: CASES_KEY,
+    queryFn: async () => readJson(await apiRequest("GET", "/api/admin/prompt-evals/cases")),
+  });
+
+  const runsQuery = useQuery<PromptEvalRun[]>({
+    queryKey: RUNS_KEY,
+    queryFn: async () => readJson(await apiRequest("GET", "/api/admin/prompt-evals/runs")),
+    refetchInterval: (query) =>
+      query.state.data?.some(run => run.status === "pending" || run.status === "running") ? POLL_INTERVAL_MS : false,
+  });
+
+  const prompts = promptsQuery.data ?? [];
+  const industries = industriesQuery.data ?? [];
+  const providers = (providersQuery.data?.providers ?? []).filter(provider => provider.configured);
+  const cases = casesQuery.data ?? [];
+  const runs = runsQuery.data ?? [];
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveCaseMutation = useMutation({
+    mutationFn: async (form: CaseForm) => {
+      const data = {
+        name: form.name,
+        industryId: optionalId(form.industryId),
+        description: form.description,
+        expectedLineItems: form.expectedLineItems
+          .split("\n")
+          .map(line => line.trim())
+          .filter(Boolean)
+          .map(description => ({ description })),
+        minTotal: optionalNumber(form.minTotal),
+        maxTotal: optionalNumber(form.maxTotal),
+      };
+      return readJson(editingCase
+        ? await apiRequest("PUT", `/api/admin/prompt-evals/cases/${editingCase.id}`, data)
+        : await apiRequest("POST", "/api/admin/prompt-evals/cases", data));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CASES_KEY });
+      setCaseDialogOpen(false);
+      toast({ title: "Success", description: editingCase ? "Evaluation case updated" : "Evaluation case added" });
+    },
+    onError,
+  });
+
+  const toggleCaseMutation = useMutation({
+    mutationFn: async (evalCase: PromptEvalCase) =>
+      readJson(await apiRequest("PUT", `/api/admin/prompt-evals/cases/${evalCase.id}`, { isActive: !evalCase.isActive })),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CASES_KEY }),
+    onError,
+  });
+
+  const deleteCaseMutation = useMutation({
+    mutationFn: async (id: number) => readJson(await apiRequest("DELETE", `/api/admin/prompt-evals/cases/${id}`)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CASES_KEY }),
+    onError,
+  });
+
+  const startRunMutation = useMutation({
+    mutationFn: async (form: RunForm): Promise<PromptEvalRun> =>
+      readJson(await apiRequest("POST", "/api/admin/prompt-evals/runs", {
+        name: form.name.trim() || null,
+        corePromptId: optionalId(form.corePromptId),
+        industryId: optionalId(form.industryId),
+        industryPromptId: optionalId(form.industryPromptId),
+        provider: form.provider === ANY ? undefined : form.provider,
+        model: form.model.trim() || undefined,
+      })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: RUNS_KEY });
+      toast({ title: "Evaluation started", description: "Scores appear here as each case finishes." });
+    },
+    onError,
+  });
+
+  const deleteRunMutation = useMutation({
+    mutationFn: async (id: number) => readJson(await apiRequest("DELETE", `/api/admin/prompt-evals/runs/${id}`)),
+    onSuccess: (_, id) => {
+      setCompared(compared.filter(runId => runId !== id));
+      queryClient.invalidateQueries({ queryKey: RUNS_KEY });
+    },
+    onError,
+  });
+
+  const activatePromptMutation = useMutation({
+    mutationFn: async (id: number) => readJson(await apiRequest("PUT", `/api/system-prompts/${id}`, { isActive: true })),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/system-prompts"] });
+      toast({ title: "Success", description: "System prompt activated" });
+    },
+    onError,
+  });
+
+  const openCaseDialog = (evalCase: PromptEvalCase | null) => {
+    setEditingCase(evalCase);
+    setCaseForm(evalCase ? toCaseForm(evalCase) : emptyCase);
+    setCaseDialogOpen(true);
+  };
+
+  // Keep the two most recently picked runs
+  const toggleCompared = (id: number) =>
+    setCompared(compared.includes(id) ? compared.filter(runId => runId !== id) : [...compared, id].slice(-2));
+
+  const industryName = (id: number | null) =>
+    id === null ? "All industries" : industries.find(industry => industry.id === id)?.name ?? `Industry #${id}`;
+
+  const promptById = (id: number | null) => prompts.find(prompt => prompt.id === id);
+
+  const corePrompts = prompts.filter(prompt => prompt.promptType === "core");
+  const industryPrompts = prompts.filter(prompt =>
+    prompt.promptType === "industry" && runForm.industryId !== ANY && prompt.industryId === Number(runForm.industryId));
+
+  const comparedRuns = compared
+    .map(id => runs.find(run => run.id === id))
+    .filter((run): run is PromptEvalRun => !!run);
+
+  // Candidate prompts of the compared runs that could be switched on from here
+  const activatable = (run: PromptEvalRun) =>
+    [promptById(run.corePromptId), promptById(run.industryPromptId)]
+      .filter((prompt): prompt is SystemPrompt => !!prompt && !prompt.isActive);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Evaluation Cases</CardTitle>
+            <CardDescription>
+              Job descriptions with the line items a good quote contains and the range its total should fall in
+            </CardDescription>
+          </div>
+          <Button onClick={() => openCaseDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Case
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {cases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No evaluation cases yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Industry</TableHead>
+                  <TableHead>Expected items</TableHead>
+                  <TableHead>Price range</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cases.map(evalCase => (
+                  <TableRow key={evalCase.id}>
+                    <TableCell className="font-medium">{evalCase.name}</TableCell>
+                    <TableCell>{industryName(evalCase.industryId)}</TableCell>
+                    <TableCell>{evalCase.expectedLineItems.length}</TableCell>
+                    <TableCell>{formatRange(evalCase)}</TableCell>
+                    <TableCell>
+                      <Switch checked={evalCase.isActive} onCheckedChange={() => toggleCaseMutation.mutate(evalCase)} />
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => openCaseDialog(evalCase)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteCaseMutation.mutate(evalCase.id)}>
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Evaluation</CardTitle>
+          <CardDescription>
+            Draft a quote for every active case with a candidate prompt and model. Prompts left on "Active" use
+            whatever is currently live; without an industry, each case uses its own industry's active prompt.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="Optional"
+                value={runForm.name}
+                onChange={(e) => setRunForm({ ...runForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Core prompt</Label>
+              <Select value={runForm.corePromptId} onValueChange={(value) => setRunForm({ ...runForm, corePromptId: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Active</SelectItem>
+                  {corePrompts.map(prompt => (
+                    <SelectItem key={prompt.id} value={String(prompt.id)}>
+                      {prompt.name}{prompt.isActive ? " (active)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Industry</Label>
+              <Select
+                value={runForm.industryId}
+                onValueChange={(value) => setRunForm({ ...runForm, industryId: value, industryPromptId: ANY })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All industries</SelectItem>
+                  {industries.map(industry => (
+                    <SelectItem key={industry.id} value={String(industry.id)}>{industry.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Industry prompt</Label>
+              <Select
+                value={runForm.industryPromptId}
+                onValueChange={(value) => setRunForm({ ...runForm, industryPromptId: value })}
+                disabled={runForm.industryId === ANY}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Active</SelectItem>
+                  {industryPrompts.map(prompt => (
+                    <SelectItem key={prompt.id} value={String(prompt.id)}>
+                      {prompt.name}{prompt.isActive ? " (active)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={runForm.provider} onValueChange={(value) => setRunForm({ ...runForm, provider: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Default</SelectItem>
+                  {providers.map(provider => (
+                    <SelectItem key={provider.name} value={provider.name}>{provider.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Model</Label>
+              <Input
+                placeholder={providers.find(provider =>
+                  runForm.provider === ANY ? provider.isDefault : provider.name === runForm.provider)?.defaultModel ?? "Default"}
+                value={runForm.model}
+                onChange={(e) => setRunForm({ ...runForm, model: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => startRunMutation.mutate(runForm)} disabled={startRunMutation.isPending}>
+              {startRunMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+              Run Evaluation
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Results</CardTitle>
+          <CardDescription>Tick two runs to compare them case by case</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No evaluation runs yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead>Run</TableHead>
+                  <TableHead>Prompts</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Recall</TableHead>
+                  <TableHead>Price deviation</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Overall</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell>
+                      <Checkbox checked={compared.includes(run.id)} onCheckedChange={() => toggleCompared(run.id)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{runLabel(run)}</div>
+                      <div className="text-xs text-muted-foreground">{new Date(run.createdAt).toLocaleString()}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{promptById(run.corePromptId)?.name ?? (run.corePrompt ? "Core prompt" : "No core prompt")}</div>
+                      <div className="text-muted-foreground">
+                        {run.industryId
+                          ? `${industryName(run.industryId)}: ${promptById(run.industryPromptId)?.name ?? "no prompt"}`
+                          : "Each case's industry prompt"}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{run.provider} / {run.model}</TableCell>
+                    <TableCell className="min-w-[120px]">
+                      {run.status === "pending" || run.status === "running" ? (
+                        <div className="space-y-1">
+                          <span className="text-xs">{run.completedCases}/{run.caseIds.length} cases</span>
+                          <Progress value={(run.completedCases / run.caseIds.length) * 100} />
+                        </div>
+                      ) : (
+                        <Badge variant={run.status === "failed" ? "destructive" : "secondary"} title={run.error ?? undefined}>
+                          {run.status}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{percent(run.scores?.lineItemRecall)}</TableCell>
+                    <TableCell>{percent(run.scores?.priceDeviation)}</TableCell>
+                    <TableCell>{percent(run.scores?.formatValidity)}</TableCell>
+                    <TableCell className="font-medium">{percent(run.scores?.overall)}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => deleteRunMutation.mutate(run.id)}>
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparedRuns.length === 2 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Comparison</CardTitle>
+            <CardDescription>
+              Overall score, line items found and draft total for each case
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Case</TableHead>
+                  {comparedRuns.map(run => <TableHead key={run.id}>{runLabel(run)}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Array.from(new Set(comparedRuns.flatMap(run => run.caseIds))).map(caseId => (
+                  <TableRow key={caseId}>
+                    <TableCell className="font-medium">
+                      {cases.find(evalCase => evalCase.id === caseId)?.name
+                        ?? comparedRuns.flatMap(run => run.results).find(result => result.caseId === caseId)?.name
+                        ?? `Case #${caseId}`}
+                    </TableCell>
+                    {comparedRuns.map(run => {
+                      const result = run.results.find(r => r.caseId === caseId);
+                      return (
+                        <TableCell key={run.id} className="text-sm align-top">
+                          {!result ? (
+                            <span className="text-muted-foreground">
+                              {run.caseIds.includes(caseId) ? "Not scored" : "Not in run"}
+                            </span>
+                          ) : (
+                            <div className="space-y-1">
+                              <div className="font-medium">{percent(result.overall)}</div>
+                              <div>{result.matched.length}/{result.matched.length + result.missing.length} items, {formatMoney(result.total)}</div>
+                              {result.missing.length > 0 && (
+                                <div className="text-muted-foreground">Missing: {result.missing.join(", ")}</div>
+                              )}
+                              {result.error && <div className="text-destructive">{result.error}</div>}
+                            </div>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-medium">Overall</TableCell>
+                  {comparedRuns.map(run => (
+                    <TableCell key={run.id} className="font-medium">{percent(run.scores?.overall)}</TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {comparedRuns.flatMap(run => activatable(run).map(prompt => (
+                <Button
+                  key={`${run.id}-${prompt.id}`}
+                  variant="outline"
+                  onClick={() => activatePromptMutation.mutate(prompt.id)}
+                  disabled={activatePromptMutation.isPending}
+                >
+                  <Power className="mr-2 h-4 w-4" />
+                  Activate "{prompt.name}"
+                </Button>
+              )))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={caseDialogOpen} onOpenChange={setCaseDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingCase ? "Edit Evaluation Case" : "Add Evaluation Case"}</DialogTitle>
+            <DialogDescription>
+              Describe the job as a customer would; list the items a good quote must include, one per line.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={caseForm.name} onChange={(e) => setCaseForm({ ...caseForm, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Industry</Label>
+                <Select value={caseForm.industryId} onValueChange={(value) => setCaseForm({ ...caseForm, industryId: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All industries</SelectItem>
+                    {industries.map(industry => (
+                      <SelectItem key={industry.id} value={String(industry.id)}>{industry.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Job description</Label>
+              <Textarea
+                rows={5}
+                value={caseForm.description}
+                onChange={(e) => setCaseForm({ ...caseForm, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expected line items</Label>
+              <Textarea
+                rows={5}
+                placeholder={"Remove old tiles\nSupply and lay floor tiles"}
+                value={caseForm.expectedLineItems}
+                onChange={(e) => setCaseForm({ ...caseForm, expectedLineItems: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Minimum total</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={caseForm.minTotal}
+                  onChange={(e) => setCaseForm({ ...caseForm, minTotal: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Maximum total</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={caseForm.maxTotal}
+                  onChange={(e) => setCaseForm({ ...caseForm, maxTotal: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCaseDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveCaseMutation.mutate(caseForm)} disabled={saveCaseMutation.isPending}>
+              {saveCaseMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
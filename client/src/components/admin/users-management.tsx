@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { formatDate, getStatusBadgeColor } from "@/lib/utils";
-import { Search, UserCog, Ban, Trash, Crown } from "lucide-react";
+import { Search, UserCog, Ban, Trash, Crown, LogOut } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { UserForm } from "@/components/users/user-form";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -87,6 +87,30 @@ export function UsersManagement() {
     }
   };
   
+  // Revokes every session; the user has to sign in again on each device
+  const handleForceLogout = async (user: User) => {
+    try {
+      const response = await apiRequest("POST", `/api/admin/users/${user.id}/force-logout`);
+      if (!response.ok) {
+        throw new Error("Failed to sign the user out");
+      }
+      const { revoked } = await response.json();
+      
+      toast({
+        title: "Success",
+        description: `${user.name} was signed out of ${revoked} ${revoked === 1 ? "session" : "sessions"}`,
+      });
+    } catch (error) {
+      console.error("Error forcing logout:", error);
+      
+      toast({
+        title: "Error",
+        description: "Failed to sign the user out",
+        variant: "destructive",
+      });
+    }
+  };
+  
   const handleDelete = async (userId: number) => {
     try {
       await apiRequest("DELETE", `/api/users/${userId}`);
@@ -226,6 +250,15 @@ export function UsersManagement() {
                       >
                         <Ban className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleForceLogout(user)}
+                        className="text-gray-600 hover:text-gray-900 mr-3"
+                        title="Sign out of all devices"
+                      >
+                        <LogOut className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -0,0 +1,262 @@
+import { useState } from "@/lib/react-compat";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth, type TokenResponse } from "@/lib/auth-context";
+import { fetchWithAuth } from "@/lib/api";
+import { Copy, Loader2 } from "lucide-react";
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || fallback);
+  }
+  return data;
+}
+
+/**
+ * POST to a 2FA endpoint as the signed-in user or, while signing in, with the
+ * login challenge instead of an access token
+ */
+export async function postTwoFactor(path: string, body: Record<string, unknown>, fallback: string, challengeToken?: string) {
+  const response = challengeToken
+    ? await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, challengeToken }),
+        credentials: 'include'
+      })
+    : await fetchWithAuth(path, { method: 'POST', body: JSON.stringify(body) });
+  return readJson(response, fallback);
+}
+
+/**
+ * The six digits from the authenticator app
+ */
+export function OneTimeCodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} autoFocus inputMode="numeric" pattern="^[0-9]*$">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, i) => <InputOTPSlot key={i} index={i} />)}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/**
+ * Backup codes are shown only once, right after they're made
+ */
+export function BackupCodeList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Keep these backup codes somewhere safe. Each one signs you in once if you lose your phone.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Scan a QR code, confirm a code from the app, then show the backup codes.
+ * onEnabled gets the enable response: the backup codes and, when enrolling
+ * while signing in, the new session.
+ */
+export function TwoFactorEnrollment({ challengeToken, onEnabled }: {
+  challengeToken?: string;
+  onEnabled: (result: { backupCodes: string[] } & Partial<TokenResponse>) => void;
+}) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const start = () => run(async () => {
+    setEnrollment(await postTwoFactor('/api/auth/2fa/setup', {}, 'Failed to start setup', challengeToken));
+  });
+
+  const confirm = () => run(async () => {
+    onEnabled(await postTwoFactor('/api/auth/2fa/enable', { code }, 'Invalid verification code', challengeToken));
+  });
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          You'll need an authenticator app such as Google Authenticator, 1Password or Authy.
+        </p>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button type="button" onClick={start} disabled={isWorking}>
+          {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Set up two-factor authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        confirm();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-muted-foreground">Scan this QR code with your authenticator app.</p>
+      <img src={enrollment.qrCode} alt="Two-factor authentication QR code" className="h-48 w-48 rounded-md border" />
+      <p className="text-xs text-muted-foreground">
+        Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+      </p>
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Enter the 6-digit code from the app</p>
+        <OneTimeCodeInput value={code} onChange={setCode} disabled={isWorking} />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button type="submit" disabled={isWorking || code.length !== 6}>
+        {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Turn on
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * The second login step after a correct password: a code from the app or a
+ * backup code, or enrolling first for accounts that must use 2FA
+ */
+export function TwoFactorStep() {
+  const { twoFactorChallenge, verifyTwoFactor, finishTwoFactorSetup, cancelTwoFactor } = useAuth();
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [session, setSession] = useState<({ backupCodes: string[] } & Partial<TokenResponse>) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!twoFactorChallenge) {
+    return null;
+  }
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await verifyTwoFactor(code);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+      setCode("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const backLink = (
+    <Button type="button" variant="link" className="p-0 h-auto text-sm text-muted-foreground" onClick={cancelTwoFactor}>
+      Back to login
+    </Button>
+  );
+
+  if (twoFactorChallenge.setupRequired) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Set up two-factor authentication</CardTitle>
+          <CardDescription>Your account needs a second factor before you can sign in.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {session ? (
+            <>
+              <BackupCodeList codes={session.backupCodes} />
+              <Button
+                className="w-full bg-black text-white hover:bg-black/90"
+                onClick={() => session.accessToken && finishTwoFactorSetup(session as TokenResponse)}
+              >
+                Continue
+              </Button>
+            </>
+          ) : (
+            <>
+              <TwoFactorEnrollment challengeToken={twoFactorChallenge.challengeToken} onEnabled={setSession} />
+              {backLink}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          {useBackupCode ? "Enter one of your backup codes" : "Enter the 6-digit code from your authenticator app"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={verify} className="space-y-4">
+          {useBackupCode ? (
+            <Input placeholder="xxxx-xxxx" value={code} onChange={(e) => setCode(e.target.value)} autoFocus autoComplete="off" />
+          ) : (
+            <OneTimeCodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button
+            type="submit"
+            className="w-full bg-black text-white hover:bg-black/90"
+            disabled={isSubmitting || (useBackupCode ? !code.trim() : code.length !== 6)}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              "Verify"
+            )}
+          </Button>
+          <div className="flex justify-between">
+            {backLink}
+            <Button
+              type="button"
+              variant="link"
+              className="p-0 h-auto text-sm text-muted-foreground"
+              onClick={() => {
+                setUseBackupCode(!useBackupCode);
+                setCode("");
+                setError(null);
+              }}
+            >
+              {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
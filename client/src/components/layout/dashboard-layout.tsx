@@ -5,6 +5,7 @@
 import { useState, useEffect } from "@/lib/react-compat";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/lib/auth-context";
+import { usePermissions } from "@/hooks/use-permissions";
 import {
   FileText,
   Brain,
@@ -15,7 +16,8 @@ import {
   X,
   Home,
   Shield,
-  Loader2
+  Loader2,
+  History
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -38,6 +40,7 @@ interface DashboardLayoutProps {
 
 export function DashboardLayout({ children, title }: DashboardLayoutProps) {
   const { user, logout } = useAuth();
+  const { can } = usePermissions();
   const [location] = useLocation();
   const [menuOpen, setMenuOpen] = useState(false);
 
@@ -69,6 +72,12 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
       icon: <Settings className="h-5 w-5" />,
       mobileIcon: <Settings className="h-5 w-5" />,
     },
+    ...(can("audit:read") ? [{
+      name: "Audit Log",
+      path: "/audit-log",
+      icon: <History className="h-5 w-5" />,
+      mobileIcon: <History className="h-5 w-5" />,
+    }] : []),
   ];
 
   const closeMenu = () => {
@@ -33,10 +33,12 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Save, Bot, Mic, Send, UploadCloud } from "lucide-react";
 import { format } from "date-fns";
+import { quoteStatuses, quoteStatusTransitions, type QuoteStatus } from "@shared/schema";
+import { formatStatusLabel, normalizeStatus } from "@/lib/utils";
 
 // Define the form schema with Zod
 const quoteFormSchema = z.object({
-  quoteNumber: z.string().min(1, "Quote number is required"),
+  quoteNumber: z.string().optional(), // Left blank, the server assigns the next number
   title: z.string().min(1, "Quote title is required"),
   clientName: z.string().min(1, "Client name is required"),
   description: z.string().min(1, "Description is required"),
@@ -64,16 +66,22 @@ export function QuoteForm({ defaultValues, onSubmit, isNew = false }: QuoteFormP
   const form = useForm<QuoteFormValues>({
     resolver: zodResolver(quoteFormSchema),
     defaultValues: defaultValues || {
-      quoteNumber: `Q-${format(new Date(), "yyyy")}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`,
+      quoteNumber: "",
       title: "",
       clientName: "",
       description: "",
       amount: 0,
       date: format(new Date(), "yyyy-MM-dd"),
-      status: "Draft",
+      status: "draft",
     },
   });
 
+  // An existing quote can only keep its status or move along the lifecycle
+  const initialStatus = normalizeStatus(defaultValues?.status || "draft") as QuoteStatus;
+  const statusOptions: readonly QuoteStatus[] = isNew || !quoteStatusTransitions[initialStatus]
+    ? quoteStatuses
+    : [initialStatus, ...quoteStatusTransitions[initialStatus]];
+
   const handleAiPromptSubmit = async () => {
     if (!aiPrompt.trim()) return;
     
@@ -169,7 +177,7 @@ export function QuoteForm({ defaultValues, onSubmit, isNew = false }: QuoteFormP
                         <FormItem>
                           <FormLabel>Quote Number</FormLabel>
                           <FormControl>
-                            <Input {...field} />
+                            <Input {...field} value={field.value || ""} placeholder="Assigned automatically" />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -266,7 +274,7 @@ export function QuoteForm({ defaultValues, onSubmit, isNew = false }: QuoteFormP
                           <FormLabel>Status</FormLabel>
                           <Select
                             onValueChange={field.onChange}
-                            defaultValue={field.value}
+                            defaultValue={normalizeStatus(field.value)}
                           >
                             <FormControl>
                               <SelectTrigger>
@@ -274,10 +282,9 @@ export function QuoteForm({ defaultValues, onSubmit, isNew = false }: QuoteFormP
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="Draft">Draft</SelectItem>
-                              <SelectItem value="Sent">Sent</SelectItem>
-                              <SelectItem value="Accepted">Accepted</SelectItem>
-                              <SelectItem value="Rejected">Rejected</SelectItem>
+                              {statusOptions.map(status => (
+                                <SelectItem key={status} value={status}>{formatStatusLabel(status)}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                           <FormMessage />
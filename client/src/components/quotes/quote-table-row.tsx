@@ -8,7 +8,7 @@ import { format } from "date-fns";
 import { TableRow, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Quote } from "@/types/quote";
-import { formatCurrency, normalizeStatus } from "@/lib/utils";
+import { formatCurrency, formatStatusLabel, normalizeStatus } from "@/lib/utils";
 
 interface QuoteTableRowProps {
   quote: Quote;
@@ -74,11 +74,13 @@ export function QuoteTableRow({ quote }: QuoteTableRowProps) {
           <div className={`px-2 py-1 rounded-full text-xs font-semibold text-center w-fit
             ${normalizeStatus(quote.status) === 'draft' ? 'bg-gray-100 text-gray-800' : ''}
             ${normalizeStatus(quote.status) === 'sent' ? 'bg-blue-100 text-blue-800' : ''}
+            ${normalizeStatus(quote.status) === 'viewed' ? 'bg-sky-100 text-sky-800' : ''}
             ${normalizeStatus(quote.status) === 'accepted' ? 'bg-green-100 text-green-800' : ''}
-            ${normalizeStatus(quote.status) === 'rejected' ? 'bg-red-100 text-red-800' : ''}
+            ${normalizeStatus(quote.status) === 'declined' ? 'bg-red-100 text-red-800' : ''}
+            ${normalizeStatus(quote.status) === 'expired' ? 'bg-amber-100 text-amber-800' : ''}
             ${normalizeStatus(quote.status) === 'invoiced' ? 'bg-purple-100 text-purple-800' : ''}
           `}>
-            {normalizeStatus(quote.status).charAt(0).toUpperCase() + normalizeStatus(quote.status).slice(1)}
+            {formatStatusLabel(quote.status)}
           </div>
         )}
       </TableCell>
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { QuoteVersion, QuoteVersionLineItem } from '@shared/schema';
+import { queryClient } from '@/lib/queryClient';
+import { fetchWithAuth } from '@/lib/api';
+import { formatCurrency, formatDate, formatStatusLabel } from '@/lib/utils';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+
+interface LineItemDiff {
+  description: string;
+  before?: QuoteVersionLineItem;
+  after?: QuoteVersionLineItem;
+  changes: Array<keyof QuoteVersionLineItem>;
+  delta: number;
+}
+
+interface QuoteVersionDiff {
+  from: number;
+  to: number;
+  fields: Array<{ field: string; before: unknown; after: unknown }>;
+  added: LineItemDiff[];
+  removed: LineItemDiff[];
+  changed: LineItemDiff[];
+  totals: { delta: number };
+}
+
+interface QuoteVersionsProps {
+  quoteId: number;
+}
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Server responded with ${response.status}`);
+  }
+  return data;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  quoteNumber: 'Quote number',
+  clientName: 'Client',
+  description: 'Description',
+  date: 'Date',
+  quantity: 'qty',
+  unitPrice: 'unit price',
+  unit: 'unit',
+  taxRate: 'tax rate',
+  category: 'category'
+};
+
+const formatDelta = (delta: number) => `${delta >= 0 ? '+' : '-'}${formatCurrency(Math.abs(delta))}`;
+
+// Describe what changed on a line, e.g. "qty 2 → 3, unit price $10.00 → $12.00"
+const describeChanges = (item: LineItemDiff) =>
+  item.changes
+    .filter(field => field !== 'description')
+    .map(field => {
+      const format = (value: unknown) => field === 'unitPrice' ? formatCurrency(value as number) : String(value ?? '-');
+      return `${FIELD_LABELS[field] || field} ${format(item.before?.[field])} → ${format(item.after?.[field])}`;
+    })
+    .join(', ');
+
+/**
+ * Revision history of a sent quote, with a diff against the previous version
+ * and the option to restore an earlier one
+ */
+export function QuoteVersions({ quoteId }: QuoteVersionsProps) {
+  const { toast } = useToast();
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [restoreVersion, setRestoreVersion] = useState<QuoteVersion | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<QuoteVersion[]>({
+    queryKey: ['/api/quotes', quoteId, 'versions'],
+    queryFn: async () => readJson(await fetchWithAuth(`/api/quotes/${quoteId}/versions`))
+  });
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<QuoteVersionDiff>({
+    queryKey: ['/api/quotes', quoteId, 'versions', 'diff', compareTo],
+    queryFn: async () => readJson(await fetchWithAuth(`/api/quotes/${quoteId}/versions/diff?to=${compareTo}`)),
+    enabled: compareTo !== null
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => readJson(
+      await fetchWithAuth(`/api/quotes/${quoteId}/versions/${version}/restore`, { method: 'POST' })
+    ),
+    onSuccess: (_data, version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quoteId] });
+      setRestoreVersion(null);
+      setCompareTo(null);
+      toast({
+        title: 'Version restored',
+        description: `The quote has been restored to version ${version}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to restore version: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  if (isLoading || versions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Versions
+        </CardTitle>
+        <CardDescription>
+          A version is saved each time this quote is changed after it was sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {versions.map((version, index) => (
+          <div key={version.id} className="border rounded-md p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm">
+                <span className="font-medium">Version {version.version}</span>
+                <span className="text-muted-foreground"> · {formatDate(version.createdAt)} · {formatCurrency(version.amount)}</span>
+                {version.note && <span className="text-muted-foreground"> · {version.note}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                {index === 0 && <Badge variant="secondary">Current</Badge>}
+                <Badge variant="outline">{formatStatusLabel(version.status)}</Badge>
+                {version.version > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCompareTo(compareTo === version.version ? null : version.version)}
+                  >
+                    {compareTo === version.version ? 'Hide changes' : 'Changes'}
+                  </Button>
+                )}
+                {index > 0 && (
+                  <Button variant="ghost" size="sm" className="gap-1" onClick={() => setRestoreVersion(version)}>
+                    <RotateCcw className="h-3 w-3" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {compareTo === version.version && (
+              isDiffLoading || !diff ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : (
+                <div className="text-sm space-y-1 bg-muted/40 rounded p-2">
+                  <p className="font-medium">
+                    Changes since version {diff.from}: {formatDelta(diff.totals.delta)}
+                  </p>
+                  {diff.fields.map(field => (
+                    <p key={field.field}>
+                      {FIELD_LABELS[field.field] || field.field}: {String(field.before ?? '-')} → {String(field.after ?? '-')}
+                    </p>
+                  ))}
+                  {diff.added.map((item, i) => (
+                    <p key={`added-${i}`} className="text-green-700">+ {item.description} ({formatDelta(item.delta)})</p>
+                  ))}
+                  {diff.removed.map((item, i) => (
+                    <p key={`removed-${i}`} className="text-red-700">- {item.description} ({formatDelta(item.delta)})</p>
+                  ))}
+                  {diff.changed.map((item, i) => (
+                    <p key={`changed-${i}`} className="text-amber-700">
+                      ~ {item.description}{describeChanges(item) ? `: ${describeChanges(item)}` : ''} ({formatDelta(item.delta)})
+                    </p>
+                  ))}
+                  {diff.fields.length + diff.added.length + diff.removed.length + diff.changed.length === 0 && (
+                    <p className="text-muted-foreground">No changes to the quote details or line items.</p>
+                  )}
+                </div>
+              )
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertDialog open={restoreVersion !== null} onOpenChange={(open) => !open && setRestoreVersion(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoreVersion?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The quote's details and line items will be replaced with this version. The current
+              state is kept in the version history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoreVersion && restoreMutation.mutate(restoreVersion.version)}
+              disabled={restoreMutation.isPending}
+            >
+              {restoreMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
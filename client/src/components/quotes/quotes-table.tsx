@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Quote } from "@shared/schema";
+import { Quote, quoteStatuses } from "@shared/schema";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -8,13 +8,13 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { QuoteForm } from "@/components/quotes/quote-form";
 import { Search, ArrowUpDown, Plus, PencilLine, Trash2 } from "lucide-react";
-import { formatCurrency, formatDate, getStatusBadgeColor } from "@/lib/utils";
+import { formatCurrency, formatDate, formatStatusLabel, getStatusBadgeColor, normalizeStatus } from "@/lib/utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 export function QuotesTable() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
   const [dateFilter, setDateFilter] = useState("all-time");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -54,8 +54,8 @@ export function QuotesTable() {
         })
         .filter((quote) => {
           // Apply status filter
-          if (statusFilter) {
-            return quote.status === statusFilter;
+          if (statusFilter !== "all") {
+            return normalizeStatus(quote.status) === statusFilter;
           }
           return true;
         })
@@ -173,10 +173,10 @@ export function QuotesTable() {
                 <SelectValue placeholder="All Status" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="">All Status</SelectItem>
-                <SelectItem value="approved">Approved</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="all">All Status</SelectItem>
+                {quoteStatuses.map(status => (
+                  <SelectItem key={status} value={status}>{formatStatusLabel(status)}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -282,7 +282,7 @@ export function QuotesTable() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatCurrency(quote.amount)}</td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeColor(quote.status)}`}>
-                        {quote.status.charAt(0).toUpperCase() + quote.status.slice(1)}
+                        {formatStatusLabel(quote.status)}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
@@ -37,10 +37,14 @@ export function SwipeableQuoteCard({ quote, onViewDetails }: SwipeableQuoteCardP
         return <Badge variant="outline" className="bg-zinc-100 text-zinc-700">Draft</Badge>;
       case 'sent':
         return <Badge variant="outline" className="bg-blue-50 text-blue-700">Sent</Badge>;
+      case 'viewed':
+        return <Badge variant="outline" className="bg-sky-50 text-sky-700">Viewed</Badge>;
       case 'accepted':
         return <Badge variant="outline" className="bg-green-50 text-green-700">Accepted</Badge>;
-      case 'rejected':
-        return <Badge variant="outline" className="bg-red-50 text-red-700">Rejected</Badge>;
+      case 'declined':
+        return <Badge variant="outline" className="bg-red-50 text-red-700">Declined</Badge>;
+      case 'expired':
+        return <Badge variant="outline" className="bg-amber-50 text-amber-700">Expired</Badge>;
       case 'invoiced':
         return <Badge variant="outline" className="bg-purple-50 text-purple-700">Invoiced</Badge>;
       default:
@@ -13,7 +13,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Quote } from '@shared/schema';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { queryClient } from '@/lib/queryClient';
+import { fetchWithAuth } from '@/lib/api';
 import { Loader2 } from 'lucide-react';
 
 interface XeroExportButtonProps {
@@ -33,7 +34,7 @@ export function XeroExportButton({ quote, onSuccess }: XeroExportButtonProps) {
   const handleExportToXero = async () => {
     setIsExporting(true);
     try {
-      const response = await apiRequest('POST', `/api/xero/export-quote/${quote.id}`);
+      const response = await fetchWithAuth(`/api/xero/export-quote/${quote.id}`, { method: 'POST' });
       
       if (!response.ok) {
         const error = await response.json();
@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { lineItemCategories, type PriceBookItem, type PriceBookMarkup } from "@shared/schema";
+import { Loader2, Plus, Save, Trash2, Upload } from "lucide-react";
+
+interface PriceBookEntry extends PriceBookItem {
+  price: number | null;
+}
+
+interface PriceBookData {
+  items: PriceBookEntry[];
+  markups: PriceBookMarkup[];
+}
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  errors: { row: number; message: string }[];
+}
+
+const PRICE_BOOK_KEY = ['/api/company/price-book'];
+
+const EMPTY_ITEM = { sku: '', name: '', category: 'material', unit: '', cost: '', sellPrice: '' };
+
+const toNumberOrNull = (value: string) => value.trim() === '' ? null : parseFloat(value);
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || fallback);
+  }
+  return data;
+}
+
+/**
+ * Company price book: the items, services and labour rates the AI prices
+ * quotes from, with per-category markup on cost and CSV import
+ */
+export function PriceBookSettings() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [newItem, setNewItem] = useState(EMPTY_ITEM);
+  const [markups, setMarkups] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<PriceBookData>({
+    queryKey: PRICE_BOOK_KEY,
+    queryFn: async () => readJson(await fetchWithAuth('/api/company/price-book'), 'Failed to load price book')
+  });
+
+  useEffect(() => {
+    if (data) {
+      setMarkups(Object.fromEntries(data.markups.map(rule => [rule.category, String(rule.markupPercent)])));
+    }
+  }, [data]);
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (item: typeof EMPTY_ITEM) => readJson(await fetchWithAuth('/api/company/price-book', {
+      method: 'POST',
+      body: JSON.stringify({
+        sku: item.sku.trim() || null,
+        name: item.name,
+        category: item.category,
+        unit: item.unit.trim() || null,
+        cost: toNumberOrNull(item.cost),
+        sellPrice: toNumberOrNull(item.sellPrice)
+      })
+    }), 'Failed to add item'),
+    onSuccess: () => {
+      setNewItem(EMPTY_ITEM);
+      queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY });
+    },
+    onError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => readJson(await fetchWithAuth(`/api/company/price-book/${id}`, {
+      method: 'DELETE'
+    }), 'Failed to delete item'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY }),
+    onError
+  });
+
+  const markupsMutation = useMutation({
+    mutationFn: async (values: Record<string, string>) => readJson(await fetchWithAuth('/api/company/price-book/markups', {
+      method: 'PUT',
+      body: JSON.stringify({
+        markups: Object.entries(values)
+          .filter(([, value]) => value.trim() !== '')
+          .map(([category, value]) => ({ category, markupPercent: parseFloat(value) }))
+      })
+    }), 'Failed to save markups'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY });
+      toast({ title: "Markups saved" });
+    },
+    onError
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (csv: string): Promise<ImportResult> => readJson(await fetchWithAuth('/api/company/price-book/import', {
+      method: 'POST',
+      body: JSON.stringify({ csv })
+    }), 'Failed to import price book'),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY });
+      const skipped = result.errors.length > 0
+        ? ` ${result.errors.length} row${result.errors.length > 1 ? 's' : ''} skipped (first: row ${result.errors[0].row}, ${result.errors[0].message}).`
+        : '';
+      toast({
+        title: "Price book imported",
+        description: `${result.created} added, ${result.updated} updated.${skipped}`,
+        variant: result.errors.length > 0 ? "destructive" : undefined,
+      });
+    },
+    onError
+  });
+
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      importMutation.mutate(await file.text());
+    }
+  };
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Price Book</CardTitle>
+        <CardDescription>
+          Items, services and labour rates the AI prices quotes from. Items it can't find here are flagged for you to price.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Markup on cost (%)</Label>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+            {lineItemCategories.map(category => (
+              <div key={category} className="space-y-1">
+                <span className="text-xs text-muted-foreground capitalize">{category}</span>
+                <Input
+                  type="number"
+                  value={markups[category] ?? ''}
+                  placeholder="0"
+                  onChange={(e) => setMarkups({ ...markups, [category]: e.target.value })}
+                />
+              </div>
+            ))}
+            <Button variant="outline" onClick={() => markupsMutation.mutate(markups)} disabled={markupsMutation.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>SKU</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Unit</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.items.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground italic">
+                  No items yet. Add them below or import a CSV.
+                </TableCell>
+              </TableRow>
+            )}
+            {data.items.map(item => (
+              <TableRow key={item.id}>
+                <TableCell className="font-mono text-xs">{item.sku}</TableCell>
+                <TableCell>
+                  {item.name}
+                  {!item.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                </TableCell>
+                <TableCell className="capitalize">{item.category}</TableCell>
+                <TableCell>{item.unit}</TableCell>
+                <TableCell className="text-right">{item.cost !== null ? `$${item.cost.toFixed(2)}` : ''}</TableCell>
+                <TableCell className="text-right">{item.price !== null ? `$${item.price.toFixed(2)}` : ''}</TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(item.id)} disabled={deleteMutation.isPending}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell>
+                <Input value={newItem.sku} placeholder="SKU" onChange={(e) => setNewItem({ ...newItem, sku: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Input value={newItem.name} placeholder="Name" onChange={(e) => setNewItem({ ...newItem, name: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Select value={newItem.category} onValueChange={(category) => setNewItem({ ...newItem, category })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {lineItemCategories.map(category => (
+                      <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Input value={newItem.unit} placeholder="hour" onChange={(e) => setNewItem({ ...newItem, unit: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Input type="number" value={newItem.cost} placeholder="Cost" onChange={(e) => setNewItem({ ...newItem, cost: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Input type="number" value={newItem.sellPrice} placeholder="Cost + markup" onChange={(e) => setNewItem({ ...newItem, sellPrice: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => createMutation.mutate(newItem)}
+                  disabled={!newItem.name.trim() || createMutation.isPending}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center gap-3">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportFile} />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+            {importMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import CSV
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Columns: sku, name, description, category, unit, cost, sell_price, markup_percent, taxable
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
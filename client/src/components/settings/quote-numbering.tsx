@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatQuoteNumber } from "@shared/schema";
+import { Loader2, Save } from "lucide-react";
+
+interface QuoteNumbering {
+  prefix: string;
+  includeYear: boolean;
+  padding: number;
+  resetYearly: boolean;
+  nextNumber: number;
+  preview: string;
+}
+
+/**
+ * Company quote numbering: the format new quote numbers use and the next
+ * number to allocate, e.g. to carry on from another quoting system
+ */
+export function QuoteNumberingSettings() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<QuoteNumbering | null>(null);
+
+  const { data, isLoading } = useQuery<QuoteNumbering>({
+    queryKey: ['/api/company/quote-numbering'],
+    queryFn: async () => {
+      const response = await fetchWithAuth('/api/company/quote-numbering');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to load quote numbering');
+      }
+      return result.numbering;
+    }
+  });
+
+  useEffect(() => {
+    if (data) setSettings(data);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: QuoteNumbering) => {
+      const { preview, ...body } = values;
+      const response = await fetchWithAuth('/api/company/quote-numbering', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.errors?.[0]?.message || result.message || 'Failed to save quote numbering');
+      }
+      return result.numbering as QuoteNumbering;
+    },
+    onSuccess: (numbering) => {
+      queryClient.setQueryData(['/api/company/quote-numbering'], numbering);
+      toast({
+        title: "Quote numbering saved",
+        description: `The next quote will be ${numbering.preview}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save quote numbering",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (isLoading || !settings) {
+    return null;
+  }
+
+  const update = (changes: Partial<QuoteNumbering>) => setSettings({ ...settings, ...changes });
+  const preview = formatQuoteNumber(settings, settings.nextNumber || 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Quote Numbering</CardTitle>
+        <CardDescription>
+          New quotes are numbered automatically. Next quote: <span className="font-mono">{preview}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="numbering-prefix">Prefix</Label>
+            <Input
+              id="numbering-prefix"
+              value={settings.prefix}
+              onChange={(e) => update({ prefix: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="numbering-padding">Digits</Label>
+            <Input
+              id="numbering-padding"
+              type="number"
+              min={1}
+              max={10}
+              value={settings.padding}
+              onChange={(e) => update({ padding: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="numbering-next">Next number</Label>
+            <Input
+              id="numbering-next"
+              type="number"
+              min={1}
+              value={settings.nextNumber}
+              onChange={(e) => update({ nextNumber: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="numbering-year">Include the year</Label>
+          <Switch
+            id="numbering-year"
+            checked={settings.includeYear}
+            onCheckedChange={(checked) => update({ includeYear: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="numbering-reset">Start again from 1 each year</Label>
+          <Switch
+            id="numbering-reset"
+            checked={settings.resetYearly}
+            onCheckedChange={(checked) => update({ resetYearly: checked })}
+          />
+        </div>
+        <Button onClick={() => saveMutation.mutate(settings)} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Numbering
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
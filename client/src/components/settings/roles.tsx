@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSIONS_KEY } from "@/hooks/use-permissions";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { CompanyPermission, CompanyRole } from "@shared/schema";
+import { Loader2, Pencil, Plus, Save, Trash2 } from "lucide-react";
+
+interface RolesOverview {
+  permissions: CompanyPermission[];
+  builtInRoles: { name: string; permissions: CompanyPermission[] }[];
+  roles: CompanyRole[];
+  members: { id: number; name: string; email: string; role: string; isActive: boolean }[];
+}
+
+interface RoleForm {
+  id?: number;
+  name: string;
+  description: string;
+  permissions: CompanyPermission[];
+}
+
+const ROLES_KEY = ['/api/company/roles'];
+
+const PERMISSION_LABELS: Record<CompanyPermission, string> = {
+  "quotes:read-all": "See everyone's quotes",
+  "quotes:approve": "Send quotes and mark them accepted",
+  "clients:read": "See clients",
+  "clients:edit": "Add and edit clients",
+  "pricebook:edit": "Edit the price book",
+  "prompts:edit": "Edit AI prompts",
+  "training:review": "Review and import AI training data",
+  "ai:manage": "Manage AI models and fine-tuning",
+  "company:edit": "Edit company details, templates and numbering",
+  "users:invite": "Invite teammates",
+  "roles:manage": "Manage roles",
+  "xero:export": "Export quotes to Xero",
+  "audit:read": "View the audit log"
+};
+
+const BUILT_IN_LABELS: Record<string, string> = {
+  owner: "Owner",
+  member: "Team Member"
+};
+
+const emptyForm: RoleForm = { name: "", description: "", permissions: [] };
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || fallback);
+  }
+  return data;
+}
+
+/**
+ * Company roles: what the built-in roles allow, custom roles with a chosen
+ * set of permissions, and which role each teammate has
+ */
+export function RoleSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<RoleForm | null>(null);
+
+  const { data, isLoading } = useQuery<RolesOverview>({
+    queryKey: ROLES_KEY,
+    queryFn: async () => readJson(await fetchWithAuth('/api/company/roles'), 'Failed to load roles')
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ROLES_KEY });
+    queryClient.invalidateQueries({ queryKey: PERMISSIONS_KEY });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, name, ...role }: RoleForm) => readJson(
+      await fetchWithAuth(id ? `/api/company/roles/${id}` : '/api/company/roles', {
+        method: id ? 'PUT' : 'POST',
+        body: JSON.stringify(id ? role : { name, ...role })
+      }),
+      'Failed to save role'
+    ),
+    onSuccess: () => {
+      onChanged();
+      setForm(null);
+      toast({ title: "Role saved" });
+    },
+    onError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => readJson(
+      await fetchWithAuth(`/api/company/roles/${id}`, { method: 'DELETE' }),
+      'Failed to delete role'
+    ),
+    onSuccess: onChanged,
+    onError
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: string }) => readJson(
+      await fetchWithAuth(`/api/company/users/${userId}/role`, {
+        method: 'PUT',
+        body: JSON.stringify({ role })
+      }),
+      'Failed to change role'
+    ),
+    onSuccess: onChanged,
+    onError
+  });
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  const togglePermission = (permission: CompanyPermission, checked: boolean) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      permissions: checked
+        ? [...form.permissions, permission]
+        : form.permissions.filter(p => p !== permission)
+    });
+  };
+
+  const roleNames = [...data.builtInRoles.map(role => role.name), ...data.roles.map(role => role.name)];
+  const roleLabel = (name: string) => BUILT_IN_LABELS[name] ?? name;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Roles & Permissions</CardTitle>
+          <CardDescription>
+            Create roles with exactly the permissions a teammate needs
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setForm(emptyForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Role
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Role</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.builtInRoles.map((role) => (
+              <TableRow key={role.name}>
+                <TableCell className="font-medium">
+                  {roleLabel(role.name)} <Badge variant="secondary" className="ml-1">Built in</Badge>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {role.permissions.map(p => PERMISSION_LABELS[p]).join(", ")}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            ))}
+            {data.roles.map((role) => (
+              <TableRow key={role.id}>
+                <TableCell className="font-medium">
+                  {role.name}
+                  {role.description && <p className="text-xs text-muted-foreground font-normal">{role.description}</p>}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {role.permissions.length > 0
+                    ? role.permissions.map(p => PERMISSION_LABELS[p] ?? p).join(", ")
+                    : "No permissions"}
+                </TableCell>
+                <TableCell className="text-right space-x-1 whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm({
+                      id: role.id,
+                      name: role.name,
+                      description: role.description ?? "",
+                      permissions: role.permissions
+                    })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(role.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Team Members</h4>
+          <Table>
+            <TableBody>
+              {data.members.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    <span className="font-medium">{member.name}</span>
+                    <p className="text-xs text-muted-foreground">{member.email}</p>
+                  </TableCell>
+                  <TableCell className="w-[200px]">
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => assignMutation.mutate({ userId: member.id, role })}
+                      disabled={assignMutation.isPending}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roleNames.map((name) => (
+                          <SelectItem key={name} value={name}>{roleLabel(name)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? `Edit ${form.name}` : "New Role"}</DialogTitle>
+            <DialogDescription>
+              People with this role can do only what's ticked.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveMutation.mutate(form);
+              }}
+              className="space-y-4 py-2"
+            >
+              {!form.id && (
+                <div className="grid gap-2">
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    placeholder="estimator"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Lowercase letters, numbers and dashes. It can't be changed later.
+                  </p>
+                </div>
+              )}
+
+              <div className="grid gap-2">
+                <Label htmlFor="role-description">Description</Label>
+                <Input
+                  id="role-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Permissions</Label>
+                {data.permissions.map((permission) => (
+                  <label key={permission} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.permissions.includes(permission)}
+                      onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                    />
+                    {PERMISSION_LABELS[permission]}
+                  </label>
+                ))}
+              </div>
+
+              <DialogFooter className="gap-2 mt-4">
+                <Button type="button" variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  Save Role
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
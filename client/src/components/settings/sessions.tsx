@@ -0,0 +1,152 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { Laptop, Loader2, LogOut, Smartphone } from "lucide-react";
+
+interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expires: string;
+  current: boolean;
+}
+
+const SESSIONS_KEY = ['/api/auth/sessions'];
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || fallback);
+  }
+  return data;
+}
+
+const BROWSERS: [RegExp, string][] = [[/Edg\//, "Edge"], [/OPR\//, "Opera"], [/Firefox\//, "Firefox"], [/Chrome\//, "Chrome"], [/Safari\//, "Safari"]];
+const SYSTEMS: [RegExp, string][] = [[/iPhone|iPad/, "iOS"], [/Android/, "Android"], [/Mac OS X/, "macOS"], [/Windows/, "Windows"], [/Linux/, "Linux"]];
+
+// "Chrome on macOS" from a user agent string
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return userAgent.slice(0, 60);
+  return [browser ?? "Browser", system].filter(Boolean).join(" on ");
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|iPhone|Android/.test(userAgent);
+
+/**
+ * The devices signed in to this account, with sign-out for any of them
+ */
+export function SessionSettings() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<Session[]>({
+    queryKey: SESSIONS_KEY,
+    queryFn: async () => (await readJson(await fetchWithAuth('/api/auth/sessions'), 'Failed to load sessions')).sessions
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => readJson(
+      await fetchWithAuth(`/api/auth/sessions/${id}`, { method: 'DELETE' }),
+      'Failed to sign out session'
+    ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SESSIONS_KEY }),
+    onError
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => readJson(
+      await fetchWithAuth('/api/auth/sessions/revoke-others', { method: 'POST' }),
+      'Failed to sign out other sessions'
+    ),
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_KEY });
+      toast({ title: `Signed out of ${data.revoked} other ${data.revoked === 1 ? "session" : "sessions"}` });
+    },
+    onError
+  });
+
+  const hasOthers = sessions?.some(session => !session.current);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>Devices signed in to your account</CardDescription>
+        </div>
+        {hasOthers && (
+          <Button variant="outline" size="sm" onClick={() => revokeOthersMutation.mutate()} disabled={revokeOthersMutation.isPending}>
+            {revokeOthersMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+            Sign out other sessions
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !sessions || sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP address</TableHead>
+                <TableHead>Last active</TableHead>
+                <TableHead>Signed in</TableHead>
+                <TableHead className="text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell className="text-sm">
+                    <div className="flex items-center gap-2" title={session.userAgent ?? ""}>
+                      {isMobile(session.userAgent) ? <Smartphone className="h-4 w-4" /> : <Laptop className="h-4 w-4" />}
+                      {describeDevice(session.userAgent)}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{session.ipAddress ?? "—"}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{new Date(session.lastUsedAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{new Date(session.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {!session.current && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(session.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        Sign out
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { BackupCodeList, OneTimeCodeInput, TwoFactorEnrollment, postTwoFactor } from "@/components/auth/two-factor";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+const TWO_FACTOR_KEY = ['/api/auth/2fa'];
+
+/**
+ * Turn two-factor authentication on or off for the signed-in user and
+ * replace backup codes. Admins can't turn it off.
+ */
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<"disable" | "backup-codes" | null>(null);
+  const [code, setCode] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: TWO_FACTOR_KEY,
+    queryFn: async () => {
+      const response = await fetchWithAuth('/api/auth/2fa');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to load two-factor status');
+      }
+      return result;
+    }
+  });
+
+  if (isLoading || !status) {
+    return null;
+  }
+
+  // Disabling and new backup codes both need a current code
+  const confirmAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction) return;
+
+    setIsWorking(true);
+    try {
+      const result = await postTwoFactor(`/api/auth/2fa/${pendingAction}`, { code }, 'Invalid verification code');
+      if (pendingAction === "backup-codes") {
+        setBackupCodes(result.backupCodes);
+      } else {
+        toast({ title: "Two-factor authentication turned off" });
+      }
+      setPendingAction(null);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_KEY });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status.enabled && <Badge variant="secondary"><ShieldCheck className="h-3 w-3 mr-1" />On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {status.required
+            ? "Your role requires a code from an authenticator app when signing in"
+            : "Ask for a code from an authenticator app as well as your password when signing in"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backupCodes ? (
+          <>
+            <BackupCodeList codes={backupCodes} />
+            <Button variant="outline" onClick={() => setBackupCodes(null)}>Done</Button>
+          </>
+        ) : !status.enabled ? (
+          <TwoFactorEnrollment
+            onEnabled={(result) => {
+              setBackupCodes(result.backupCodes);
+              queryClient.invalidateQueries({ queryKey: TWO_FACTOR_KEY });
+              toast({ title: "Two-factor authentication turned on" });
+            }}
+          />
+        ) : pendingAction ? (
+          <form onSubmit={confirmAction} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Enter a code from your authenticator app to {pendingAction === "disable" ? "turn off two-factor authentication" : "create new backup codes"}.
+            </p>
+            <OneTimeCodeInput value={code} onChange={setCode} disabled={isWorking} />
+            <div className="flex gap-2">
+              <Button type="submit" variant={pendingAction === "disable" ? "destructive" : "default"} disabled={isWorking || code.length !== 6}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Confirm
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => { setPendingAction(null); setCode(""); }}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {status.backupCodesRemaining} unused backup {status.backupCodesRemaining === 1 ? "code" : "codes"} left.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setPendingAction("backup-codes")}>
+                New backup codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setPendingAction("disable")}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
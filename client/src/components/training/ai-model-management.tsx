@@ -18,51 +18,37 @@ import * as z from "zod";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Progress } from "@/components/ui/progress";
-import { apiRequest } from "@/lib/queryClient";
+import { fetchWithAuth } from "@/lib/api";
+import type { AIModel, FinetuningSession, TrainingData } from "@shared/schema";
 
-// Define types for our AI models
-type AIModel = {
-  id: number;
+type ProviderHealth = {
   name: string;
-  provider: string;
-  baseModel: string;
-  description: string;
-  isActive: boolean;
-  status: string;
-  fineTuningId: string | null;
-  userId: number;
-  companyId: number;
-  createdAt: string;
-  updatedAt: string;
+  configured: boolean;
+  isDefault: boolean;
+  defaultModel: string;
+  ping?: { ok: boolean; latencyMs: number; error?: string; checkedAt: string };
 };
 
-type FinetuningSession = {
-  id: number;
-  status: string;
-  datasetSize: number;
-  providerJobId: string | null;
-  error: string | null;
-  modelId: number;
-  userId: number;
-  companyId: number;
-  trainingHyperparams: Record<string, any> | null;
-  resultMetrics: Record<string, any> | null;
-  createdAt: string;
-  updatedAt: string;
+type ProviderStatus = {
+  providers: ProviderHealth[];
 };
 
-type TrainingData = {
-  id: number;
-  input: string;
-  output: string;
-  category: string;
-  tags: string[];
-  userId: number;
-  companyId: number;
-  createdAt: string;
-  updatedAt: string;
+const readJson = async (response: Response) => {
+  if (response.status === 204) return null;
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.error || data.message || `Server responded with ${response.status}`);
+  }
+  return data;
 };
 
+const sendJson = async (url: string, method: string, body?: unknown) =>
+  readJson(await fetchWithAuth(url, {
+    method,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  }));
+
 // Define validation schemas
 const modelSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters"),
@@ -103,56 +89,45 @@ export default function AIModelManagement() {
     },
   });
 
-  // Define provider status type
-  type ProviderStatus = {
-    openai: boolean;
-    anthropic: boolean;
-  };
-
   // Fetch AI providers status
   const providersQuery = useQuery<ProviderStatus>({
     queryKey: ["/api/ai/providers/status"],
-    queryFn: async () => {
-      const result = await apiRequest({ url: "/api/ai/providers/status", method: "GET" });
-      return result as ProviderStatus;
-    },
+    queryFn: async () => readJson(await fetchWithAuth("/api/ai/providers/status")),
   });
 
+  const isProviderConfigured = (name: string) =>
+    !!providersQuery.data?.providers.find(provider => provider.name === name)?.configured;
+
   // Fetch AI models
   const modelsQuery = useQuery<AIModel[]>({
     queryKey: ["/api/ai/models"],
-    queryFn: async () => {
-      const result = await apiRequest({ url: "/api/ai/models", method: "GET" });
-      return result as AIModel[];
-    },
+    queryFn: async () => readJson(await fetchWithAuth("/api/ai/models")),
   });
 
-  // Fetch training data
+  // Fetch reviewed training data; examples still in the review queue can't be used for fine-tuning
   const trainingDataQuery = useQuery<TrainingData[]>({
-    queryKey: ["/api/training"],
-    queryFn: async () => {
-      const result = await apiRequest({ url: "/api/training", method: "GET" });
-      return result as TrainingData[];
-    },
+    queryKey: ["/api/training", "approved"],
+    queryFn: async () => readJson(await fetchWithAuth("/api/training?status=approved")),
   });
 
-  // Fetch fine-tuning sessions
+  // Fetch fine-tuning sessions, polling while any are still training
   const sessionsQuery = useQuery<FinetuningSession[]>({
     queryKey: ["/api/ai/finetune"],
-    queryFn: async () => {
-      const result = await apiRequest({ url: "/api/ai/finetune", method: "GET" });
-      return result as FinetuningSession[];
-    },
+    queryFn: async () => readJson(await fetchWithAuth("/api/ai/finetune")),
+    refetchInterval: (query) =>
+      query.state.data?.some(s => s.status === "pending" || s.status === "running") ? 5000 : false,
   });
 
+  // Pick up the fine-tuned model once a session finishes
+  const activeSessionCount = sessionsQuery.data?.filter(s => s.status === "pending" || s.status === "running").length;
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ["/api/ai/models"] });
+  }, [activeSessionCount]);
+
   // Create model mutation
   const createModelMutation = useMutation({
     mutationFn: (data: z.infer<typeof modelSchema>) =>
-      apiRequest({
-        url: "/api/ai/models",
-        method: "POST",
-        data,
-      }),
+      sendJson("/api/ai/models", "POST", data),
     onSuccess: () => {
       toast({
         title: "Model created",
@@ -174,11 +149,7 @@ export default function AIModelManagement() {
   // Start fine-tuning mutation
   const startFinetuningMutation = useMutation({
     mutationFn: (data: z.infer<typeof finetuneSchema>) =>
-      apiRequest({
-        url: "/api/ai/finetune",
-        method: "POST",
-        data,
-      }),
+      sendJson("/api/ai/finetune", "POST", data),
     onSuccess: () => {
       toast({
         title: "Fine-tuning started",
@@ -201,10 +172,7 @@ export default function AIModelManagement() {
   // Delete model mutation
   const deleteModelMutation = useMutation({
     mutationFn: (id: number) =>
-      apiRequest({
-        url: `/api/ai/models/${id}`,
-        method: "DELETE",
-      }),
+      sendJson(`/api/ai/models/${id}`, "DELETE"),
     onSuccess: () => {
       toast({
         title: "Model deleted",
@@ -253,7 +221,7 @@ export default function AIModelManagement() {
     if (modelSessions.length === 0) return { status: "Not fine-tuned", badge: "gray" };
     
     const latestSession = modelSessions.sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
     )[0];
     
     switch (latestSession.status) {
@@ -269,23 +237,8 @@ export default function AIModelManagement() {
     }
   };
 
-  const getProgressValue = (status: string) => {
-    switch (status) {
-      case "validating_files":
-        return 10;
-      case "queued":
-        return 20;
-      case "running":
-        return 50;
-      case "succeeded":
-      case "completed":
-        return 100;
-      case "failed":
-        return 100;
-      default:
-        return 0;
-    }
-  };
+  const getProgressValue = (session: FinetuningSession) =>
+    session.status === "completed" || session.status === "failed" ? 100 : session.progress;
 
   useEffect(() => {
     if (selectedModelId) {
@@ -324,8 +277,8 @@ export default function AIModelManagement() {
 
             {providersQuery.data && (
               <div className="flex gap-2">
-                <Badge variant={providersQuery.data.openai ? "default" : "outline"}>
-                  {providersQuery.data.openai ? (
+                <Badge variant={isProviderConfigured("openai") ? "default" : "outline"}>
+                  {isProviderConfigured("openai") ? (
                     <>
                       <Check className="h-3 w-3 mr-1" />
                       OpenAI
@@ -337,8 +290,8 @@ export default function AIModelManagement() {
                     </>
                   )}
                 </Badge>
-                <Badge variant={providersQuery.data.anthropic ? "default" : "outline"}>
-                  {providersQuery.data.anthropic ? (
+                <Badge variant={isProviderConfigured("anthropic") ? "default" : "outline"}>
+                  {isProviderConfigured("anthropic") ? (
                     <>
                       <Check className="h-3 w-3 mr-1" />
                       Anthropic
@@ -391,7 +344,7 @@ export default function AIModelManagement() {
                           setSelectedModelId(model.id);
                           setIsStartFinetuningOpen(true);
                         }}
-                        disabled={model.status === "training"}
+                        disabled={model.finetuneStatus === "in_progress"}
                       >
                         <RefreshCw className="h-4 w-4 mr-2" />
                         Train
@@ -469,12 +422,15 @@ export default function AIModelManagement() {
                           </Badge>
                         </TableCell>
                         <TableCell>{session.datasetSize} examples</TableCell>
-                        <TableCell>{new Date(session.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell>{new Date(session.startedAt).toLocaleDateString()}</TableCell>
                         <TableCell className="w-[200px]">
                           <div className="flex items-center gap-2">
-                            <Progress value={getProgressValue(session.status)} className="w-[60%]" />
+                            <Progress value={getProgressValue(session)} className="w-[60%]" />
+                            <span className="text-xs text-gray-500">{getProgressValue(session)}%</span>
                             {session.status === "failed" && (
-                              <AlertTriangle className="h-4 w-4 text-red-500" />
+                              <span title={session.error || undefined}>
+                                <AlertTriangle className="h-4 w-4 text-red-500" />
+                              </span>
                             )}
                           </div>
                         </TableCell>
@@ -551,11 +507,11 @@ export default function AIModelManagement() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="openai" disabled={!providersQuery.data?.openai}>
-                          OpenAI {!providersQuery.data?.openai && "(API key not configured)"}
+                        <SelectItem value="openai" disabled={!isProviderConfigured("openai")}>
+                          OpenAI {!isProviderConfigured("openai") && "(API key not configured)"}
                         </SelectItem>
-                        <SelectItem value="anthropic" disabled={!providersQuery.data?.anthropic}>
-                          Anthropic {!providersQuery.data?.anthropic && "(API key not configured)"}
+                        <SelectItem value="anthropic" disabled={!isProviderConfigured("anthropic")}>
+                          Anthropic {!isProviderConfigured("anthropic") && "(API key not configured)"}
                         </SelectItem>
                       </SelectContent>
                     </Select>
@@ -710,16 +666,16 @@ export default function AIModelManagement() {
                         >
                           <div className="flex justify-between items-start mb-2">
                             <div className="font-medium">
-                              {item.input.substring(0, 60)}
-                              {item.input.length > 60 ? "..." : ""}
+                              {item.prompt.substring(0, 60)}
+                              {item.prompt.length > 60 ? "..." : ""}
                             </div>
                             <div>
-                              <Badge variant="outline">{item.category}</Badge>
+                              {item.category && <Badge variant="outline">{item.category}</Badge>}
                             </div>
                           </div>
                           <div className="text-sm text-gray-600">
-                            {item.output.substring(0, 100)}
-                            {item.output.length > 100 ? "..." : ""}
+                            {item.response.substring(0, 100)}
+                            {item.response.length > 100 ? "..." : ""}
                           </div>
                         </div>
                       ))}
@@ -727,7 +683,7 @@ export default function AIModelManagement() {
                   ) : (
                     <div className="text-center py-4">
                       <p className="text-gray-500">
-                        No training data available. Add training data first.
+                        No approved training data available. Add or approve training data first.
                       </p>
                     </div>
                   )}
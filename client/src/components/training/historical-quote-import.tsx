@@ -0,0 +1,268 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { DocumentImport, HistoricalQuote } from "@shared/schema";
+import { AlertTriangle, Loader2, UploadCloud } from "lucide-react";
+
+type QuoteEdits = Partial<Record<"clientName" | "quoteNumber" | "date", string>>;
+
+const IMPORTS_KEY = ["/api/training", "documents"];
+// How often to check on documents still being read
+const POLL_INTERVAL_MS = 2000;
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || `Server responded with ${response.status}`);
+  }
+  return data;
+};
+
+// fetchWithAuth always sends JSON, so files travel base64 encoded
+const toBase64 = async (file: File) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+// Cleared fields become null rather than falling back to what was read
+const applyEdits = (quote: HistoricalQuote, edits: QuoteEdits = {}): HistoricalQuote => ({
+  ...quote,
+  ...Object.fromEntries(Object.entries(edits).map(([field, value]) => [field, value.trim() || null])),
+});
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * Upload past quotes as PDF, XLSX or CSV, follow along while the AI reads
+ * them, then check what it found and confirm the ones to keep as quotes and
+ * training examples
+ */
+export function HistoricalQuoteImport() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importId, setImportId] = useState<number | null>(null);
+  const [excluded, setExcluded] = useState<number[]>([]);
+  const [edits, setEdits] = useState<Record<number, QuoteEdits>>({});
+
+  // Pick up an import that was still being read or checked when the page was left
+  const { data: imports = [] } = useQuery<DocumentImport[]>({
+    queryKey: IMPORTS_KEY,
+    queryFn: async () => readJson(await fetchWithAuth("/api/training/documents")),
+  });
+  const currentId = importId ?? imports.find(i => ["pending", "processing", "ready", "confirming"].includes(i.status))?.id ?? null;
+
+  const { data: current } = useQuery<DocumentImport>({
+    queryKey: [...IMPORTS_KEY, currentId],
+    queryFn: async () => readJson(await fetchWithAuth(`/api/training/documents/${currentId}`)),
+    enabled: currentId !== null,
+    refetchInterval: (query) =>
+      query.state.data && ["pending", "processing"].includes(query.state.data.status) ? POLL_INTERVAL_MS : false,
+  });
+
+  const reset = () => {
+    setImportId(null);
+    setExcluded([]);
+    setEdits({});
+    queryClient.invalidateQueries({ queryKey: IMPORTS_KEY });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Import failed", description: error.message, variant: "destructive" });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]): Promise<DocumentImport> =>
+      readJson(await fetchWithAuth("/api/training/documents", {
+        method: "POST",
+        body: JSON.stringify({
+          files: await Promise.all(files.map(async file => ({ name: file.name, content: await toBase64(file) }))),
+        }),
+      })),
+    onSuccess: (documentImport) => {
+      setImportId(documentImport.id);
+      setExcluded([]);
+      setEdits({});
+      queryClient.setQueryData([...IMPORTS_KEY, documentImport.id], documentImport);
+    },
+    onError,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (documentImport: DocumentImport) =>
+      readJson(await fetchWithAuth(`/api/training/documents/${documentImport.id}/confirm`, {
+        method: "POST",
+        body: JSON.stringify({
+          documents: documentImport.documents.flatMap((document, index) =>
+            document.quote && !excluded.includes(index)
+              ? [{ index, quote: applyEdits(document.quote, edits[index]) }]
+              : []),
+        }),
+      })),
+    onSuccess: (result: { quotes: unknown[]; trainingExamples: number }) => {
+      reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/training"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({
+        title: "Quotes imported",
+        description: `${result.quotes.length} quote${result.quotes.length === 1 ? "" : "s"} and ${result.trainingExamples} training example${result.trainingExamples === 1 ? "" : "s"} added.`,
+      });
+    },
+    onError,
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readJson(await fetchWithAuth(`/api/training/documents/${id}`, { method: "DELETE" })),
+    onSuccess: reset,
+    onError,
+  });
+
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length > 0) {
+      uploadMutation.mutate(files);
+    }
+  };
+
+  const edit = (index: number, changes: QuoteEdits) => setEdits({ ...edits, [index]: { ...edits[index], ...changes } });
+
+  const toggle = (index: number) =>
+    setExcluded(excluded.includes(index) ? excluded.filter(i => i !== index) : [...excluded, index]);
+
+  const reading = current && ["pending", "processing"].includes(current.status);
+  const selectedCount = current?.documents.filter((document, index) => document.quote && !excluded.includes(index)).length ?? 0;
+
+  return (
+    <Card className="bg-background border-border">
+      <CardHeader>
+        <CardTitle className="text-lg">Import Past Quotes</CardTitle>
+        <CardDescription>
+          Upload previous quotes as PDF, XLSX or CSV. The AI reads the client, date, line items and total from each one;
+          check what it found, then import them as quotes and training examples.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!current || current.status === "confirmed" ? (
+          <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
+            <UploadCloud className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".pdf,.xlsx,.csv"
+              className="hidden"
+              onChange={handleFiles}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+              {uploadMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Select Files
+            </Button>
+            <p className="text-xs text-muted-foreground mt-2">
+              PDF, XLSX or CSV; each workbook sheet is read as a separate quote (up to about 7MB in total)
+            </p>
+          </div>
+        ) : reading ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Reading documents…</span>
+              <span>{current.processedDocuments}/{current.totalDocuments}</span>
+            </div>
+            <Progress value={current.totalDocuments ? (current.processedDocuments / current.totalDocuments) * 100 : 0} />
+          </div>
+        ) : (
+          <>
+            {current.error && <p className="text-sm text-destructive">{current.error}</p>}
+
+            {current.documents.map((document, index) => (
+              <div key={index} className="border rounded-md p-3 space-y-2 text-sm">
+                <div className="flex items-center gap-3">
+                  {document.quote && (
+                    <Checkbox checked={!excluded.includes(index)} onCheckedChange={() => toggle(index)} />
+                  )}
+                  <span className="font-medium truncate">{document.name}</span>
+                  {document.status === "failed" && <Badge variant="destructive" className="ml-auto">Not read</Badge>}
+                </div>
+
+                {document.error && <p className="text-destructive">{document.error}</p>}
+
+                {document.quote && (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      <Input
+                        className="flex-1 min-w-[160px]"
+                        placeholder="Client"
+                        value={edits[index]?.clientName ?? document.quote.clientName ?? ""}
+                        onChange={(e) => edit(index, { clientName: e.target.value })}
+                      />
+                      <Input
+                        className="w-36"
+                        type="date"
+                        value={edits[index]?.date ?? document.quote.date ?? ""}
+                        onChange={(e) => edit(index, { date: e.target.value })}
+                      />
+                      <Input
+                        className="w-36"
+                        placeholder="Quote number"
+                        value={edits[index]?.quoteNumber ?? document.quote.quoteNumber ?? ""}
+                        onChange={(e) => edit(index, { quoteNumber: e.target.value })}
+                      />
+                    </div>
+
+                    <ul className="text-muted-foreground space-y-1">
+                      {document.quote.lineItems.map((item, itemIndex) => (
+                        <li key={itemIndex} className="flex justify-between gap-4">
+                          <span className="truncate">
+                            {item.description} ({item.quantity}{item.unit ? ` ${item.unit}` : ""} × {formatMoney(item.unitPrice)})
+                          </span>
+                          <span>{formatMoney(item.quantity * item.unitPrice)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    {document.quote.total !== null && (
+                      <p className="text-right font-medium">Total {formatMoney(document.quote.total)}</p>
+                    )}
+                  </>
+                )}
+
+                {document.warnings?.map(warning => (
+                  <p key={warning} className="flex items-center gap-1 text-amber-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            ))}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => discardMutation.mutate(current.id)} disabled={discardMutation.isPending}>
+                Discard
+              </Button>
+              {current.status === "ready" && (
+                <Button
+                  onClick={() => confirmMutation.mutate(current)}
+                  disabled={selectedCount === 0 || confirmMutation.isPending}
+                >
+                  {confirmMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import {selectedCount} Quote{selectedCount === 1 ? "" : "s"}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { TrainingData } from "@shared/schema";
+import { Download, FileUp, Loader2 } from "lucide-react";
+
+type DatasetFormat = "jsonl" | "csv";
+
+interface ImportResult {
+  dryRun: boolean;
+  format: DatasetFormat;
+  created: number;
+  duplicates: number[];
+  errors: { row: number; message: string }[];
+  preview: Pick<TrainingData, "prompt" | "response">[];
+}
+
+// Rows listed before the rest are summarised as a count
+const MAX_LISTED_ERRORS = 10;
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || `Server responded with ${response.status}`);
+  }
+  return data;
+};
+
+/**
+ * Bulk import of training examples from JSONL or CSV, previewed with a dry
+ * run first, and export of the approved set in the same formats
+ */
+export function TrainingDatasetImport() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async ({ dryRun }: { dryRun: boolean }): Promise<ImportResult> =>
+      readJson(await fetchWithAuth(`/api/training/import${dryRun ? "?dryRun=true" : ""}`, {
+        method: "POST",
+        body: JSON.stringify({ content: file!.content, fileName: file!.name }),
+      })),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      setFile(null);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/training"] });
+      toast({
+        title: "Training data imported",
+        description: `${result.created} example${result.created === 1 ? "" : "s"} added.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+
+    setFile({ name: selected.name, content: await selected.text() });
+    setPreview(null);
+  };
+
+  const exportDataset = async (format: DatasetFormat) => {
+    const response = await fetchWithAuth(`/api/training/export?format=${format}`);
+    if (!response.ok) {
+      toast({ title: "Export failed", variant: "destructive" });
+      return;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `training-data.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="bg-background border-border">
+      <CardHeader>
+        <CardTitle className="text-lg">Import Training Data</CardTitle>
+        <CardDescription>
+          Add past estimates in bulk from JSONL (chat or prompt/response) or CSV with prompt and response columns.
+          You'll see what will be imported before anything is saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <input ref={fileInputRef} type="file" accept=".jsonl,.json,.csv" className="hidden" onChange={handleFile} />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Choose File
+          </Button>
+          {file && <span className="text-sm truncate">{file.name}</span>}
+          {file && !preview && (
+            <Button onClick={() => importMutation.mutate({ dryRun: true })} disabled={importMutation.isPending}>
+              {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Check File
+            </Button>
+          )}
+        </div>
+
+        {preview && (
+          <div className="border rounded-md p-3 space-y-3 text-sm">
+            <p>
+              <span className="font-medium">{preview.created}</span> new example{preview.created === 1 ? "" : "s"},{" "}
+              <span className="font-medium">{preview.duplicates.length}</span> duplicate{preview.duplicates.length === 1 ? "" : "s"} skipped,{" "}
+              <span className="font-medium">{preview.errors.length}</span> row{preview.errors.length === 1 ? "" : "s"} with errors.
+            </p>
+
+            {preview.errors.length > 0 && (
+              <ul className="text-destructive space-y-1">
+                {preview.errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+                  <li key={error.row}>Row {error.row}: {error.message}</li>
+                ))}
+                {preview.errors.length > MAX_LISTED_ERRORS && (
+                  <li>and {preview.errors.length - MAX_LISTED_ERRORS} more</li>
+                )}
+              </ul>
+            )}
+
+            {preview.preview.map((example, index) => (
+              <div key={index} className="border-l-2 pl-3">
+                <p className="font-medium truncate">{example.prompt}</p>
+                <p className="text-muted-foreground line-clamp-2">{example.response}</p>
+              </div>
+            ))}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => { setFile(null); setPreview(null); }}>Cancel</Button>
+              <Button
+                onClick={() => importMutation.mutate({ dryRun: false })}
+                disabled={preview.created === 0 || importMutation.isPending}
+              >
+                {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {preview.created} Example{preview.created === 1 ? "" : "s"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="gap-2">
+        <span className="text-sm text-muted-foreground mr-auto">Export approved examples</span>
+        <Button variant="outline" size="sm" onClick={() => exportDataset("jsonl")}>
+          <Download className="h-4 w-4 mr-1" />
+          JSONL
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => exportDataset("csv")}>
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import type { TrainingData } from "@shared/schema";
+import { Check, Loader2, ThumbsDown, ThumbsUp, Trash2 } from "lucide-react";
+
+interface ReviewEdits {
+  response?: string;
+  tags?: string;
+  category?: string;
+}
+
+const PENDING_KEY = ["/api/training", "pending"];
+
+const readJson = async (response: Response) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || `Server responded with ${response.status}`);
+  }
+  return data;
+};
+
+const parseTags = (value: string) => value.split(",").map(tag => tag.trim()).filter(Boolean);
+
+/**
+ * Queue of rated and corrected chat replies waiting for approval before they
+ * are used for fine-tuning and as reference examples
+ */
+export function TrainingReviewQueue() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [edits, setEdits] = useState<Record<number, ReviewEdits>>({});
+
+  const { data: examples = [], isLoading } = useQuery<TrainingData[]>({
+    queryKey: PENDING_KEY,
+    queryFn: async () => readJson(await fetchWithAuth("/api/training?status=pending")),
+  });
+
+  const onSuccess = () => {
+    // Approved examples move to the lists used for fine-tuning
+    queryClient.invalidateQueries({ queryKey: ["/api/training"] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (example: TrainingData) => {
+      const edit = edits[example.id] ?? {};
+      return readJson(await fetchWithAuth(`/api/training/${example.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          status: "approved",
+          ...(edit.response !== undefined && { response: edit.response }),
+          ...(edit.tags !== undefined && { tags: parseTags(edit.tags) }),
+          ...(edit.category !== undefined && { category: edit.category.trim() || null }),
+        }),
+      }));
+    },
+    onSuccess,
+    onError,
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async ({ action, ids }: { action: "approve" | "delete"; ids: number[] }) =>
+      readJson(await fetchWithAuth("/api/training/bulk", {
+        method: "POST",
+        body: JSON.stringify({ action, ids }),
+      })),
+    onSuccess: (result: { action: string; count: number }) => {
+      setSelected([]);
+      onSuccess();
+      toast({ title: `${result.count} example${result.count === 1 ? "" : "s"} ${result.action === "delete" ? "deleted" : "approved"}` });
+    },
+    onError,
+  });
+
+  const edit = (id: number, changes: ReviewEdits) => setEdits({ ...edits, [id]: { ...edits[id], ...changes } });
+
+  const toggle = (id: number) =>
+    setSelected(selected.includes(id) ? selected.filter(selectedId => selectedId !== id) : [...selected, id]);
+
+  const allSelected = examples.length > 0 && selected.length === examples.length;
+
+  return (
+    <Card className="bg-background border-border">
+      <CardHeader>
+        <CardTitle className="text-lg">Review Queue</CardTitle>
+        <CardDescription>
+          Rated and corrected replies from the quote chat. Approve the ones worth learning from; only approved examples are used for fine-tuning.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : examples.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">Nothing waiting for review</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={() => setSelected(allSelected ? [] : examples.map(example => example.id))}
+              />
+              <span className="text-sm text-muted-foreground">{selected.length} selected</span>
+              <div className="ml-auto flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selected.length === 0 || bulkMutation.isPending}
+                  onClick={() => bulkMutation.mutate({ action: "approve", ids: selected })}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selected.length === 0 || bulkMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Delete ${selected.length} example${selected.length === 1 ? "" : "s"}? This cannot be undone.`)) {
+                      bulkMutation.mutate({ action: "delete", ids: selected });
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {examples.map(example => (
+              <div key={example.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-start gap-3">
+                  <Checkbox checked={selected.includes(example.id)} onCheckedChange={() => toggle(example.id)} className="mt-1" />
+                  <div className="flex-1 space-y-2 min-w-0">
+                    <div className="flex items-center gap-2">
+                      {example.rating === "up" && <ThumbsUp className="h-4 w-4 text-green-600" />}
+                      {example.rating === "down" && <ThumbsDown className="h-4 w-4 text-destructive" />}
+                      {example.originalResponse && <Badge variant="outline">Corrected</Badge>}
+                      <span className="text-xs text-muted-foreground ml-auto">
+                        {new Date(example.timestamp).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="text-sm font-medium">{example.prompt}</p>
+                    {example.originalResponse && (
+                      <p className="text-xs text-muted-foreground whitespace-pre-wrap line-through">{example.originalResponse}</p>
+                    )}
+                    <Textarea
+                      value={edits[example.id]?.response ?? example.response}
+                      onChange={(e) => edit(example.id, { response: e.target.value })}
+                      rows={4}
+                      className="text-sm"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      <Input
+                        className="w-40"
+                        placeholder="Category"
+                        value={edits[example.id]?.category ?? example.category ?? ""}
+                        onChange={(e) => edit(example.id, { category: e.target.value })}
+                      />
+                      <Input
+                        className="flex-1 min-w-[160px]"
+                        placeholder="Tags, comma separated"
+                        value={edits[example.id]?.tags ?? example.tags?.join(", ") ?? ""}
+                        onChange={(e) => edit(example.id, { tags: e.target.value })}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => approveMutation.mutate(example)}
+                        disabled={approveMutation.isPending || !(edits[example.id]?.response ?? example.response).trim()}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
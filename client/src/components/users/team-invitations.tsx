@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { fetchWithAuth } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import type { Invitation, InvitationRole } from "@shared/schema";
+import { Loader2, Mail, RotateCw, Send, X } from "lucide-react";
+
+type InvitationView = Omit<Invitation, "token"> & {
+  state: "pending" | "accepted" | "revoked" | "expired";
+};
+
+interface SentInvitation {
+  invitation: InvitationView;
+  delivered: boolean;
+  inviteUrl: string;
+}
+
+const INVITATIONS_KEY = ['/api/company/invitations'];
+
+const ROLE_LABELS: Record<InvitationRole, string> = {
+  owner: "Owner",
+  member: "Team Member"
+};
+
+async function readJson(response: Response, fallback: string) {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || fallback);
+  }
+  return data;
+}
+
+function useInvitationToasts() {
+  const { toast } = useToast();
+
+  const onSent = (sent: SentInvitation) => {
+    queryClient.invalidateQueries({ queryKey: INVITATIONS_KEY });
+    toast(sent.delivered
+      ? { title: "Invitation sent", description: `We emailed an invitation to ${sent.invitation.email}.` }
+      : {
+          title: "Invitation created",
+          description: `The email could not be sent. Share this link with ${sent.invitation.email}: ${sent.inviteUrl}`,
+          duration: 15000
+        });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  return { onSent, onError };
+}
+
+/**
+ * Button and dialog for inviting a colleague into the company by email
+ */
+export function InviteTeammateDialog() {
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<InvitationRole>("member");
+  const { onSent, onError } = useInvitationToasts();
+  // Inviting an owner hands out every permission, so it takes roles:manage
+  const { can } = usePermissions();
+
+  const inviteMutation = useMutation({
+    mutationFn: async (): Promise<SentInvitation> => readJson(await fetchWithAuth('/api/company/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email, role })
+    }), 'Failed to send invitation'),
+    onSuccess: (sent) => {
+      onSent(sent);
+      setOpen(false);
+      setEmail("");
+      setRole("member");
+    },
+    onError
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Button onClick={() => setOpen(true)} className="gap-2">
+        <Mail className="h-4 w-4" />
+        Invite by Email
+      </Button>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite a Colleague</DialogTitle>
+          <DialogDescription>
+            They'll get an email with a link to join your company. The link expires after 7 days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            inviteMutation.mutate();
+          }}
+          className="space-y-4 py-4"
+        >
+          <div className="grid gap-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="colleague@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="invite-role">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as InvitationRole)}>
+              <SelectTrigger id="invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {can("roles:manage") && <SelectItem value="owner">{ROLE_LABELS.owner}</SelectItem>}
+                <SelectItem value="member">{ROLE_LABELS.member}</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Owners can manage company settings and invite others; Team Members work on quotes.
+            </p>
+          </div>
+
+          <DialogFooter className="gap-2 mt-4">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={inviteMutation.isPending}>
+              {inviteMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
+              Send Invitation
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Invitations that haven't been accepted yet, with resend and revoke.
+ * Expired ones stay listed so they can be sent again.
+ */
+export function PendingInvitations() {
+  const { onSent, onError } = useInvitationToasts();
+
+  const { data } = useQuery<{ invitations: InvitationView[] }>({
+    queryKey: INVITATIONS_KEY,
+    queryFn: async () => readJson(await fetchWithAuth('/api/company/invitations'), 'Failed to load invitations')
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: number): Promise<SentInvitation> => readJson(
+      await fetchWithAuth(`/api/company/invitations/${id}/resend`, { method: 'POST' }),
+      'Failed to resend invitation'
+    ),
+    onSuccess: onSent,
+    onError
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => readJson(
+      await fetchWithAuth(`/api/company/invitations/${id}/revoke`, { method: 'POST' }),
+      'Failed to revoke invitation'
+    ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INVITATIONS_KEY }),
+    onError
+  });
+
+  const outstanding = data?.invitations.filter(invitation =>
+    invitation.state === "pending" || invitation.state === "expired"
+  ) ?? [];
+
+  if (outstanding.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Pending Invitations</CardTitle>
+        <CardDescription>People you've invited who haven't joined yet</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outstanding.map((invitation) => (
+              <TableRow key={invitation.id}>
+                <TableCell className="font-medium">{invitation.email}</TableCell>
+                <TableCell>{ROLE_LABELS[invitation.role as InvitationRole] ?? invitation.role}</TableCell>
+                <TableCell>
+                  <Badge variant={invitation.state === "pending" ? "outline" : "secondary"}>
+                    {invitation.state === "pending"
+                      ? (invitation.sentAt ? "Sent" : "Not sent")
+                      : "Expired"}
+                  </Badge>
+                </TableCell>
+                <TableCell>{formatDate(invitation.expiresAt)}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resendMutation.mutate(invitation.id)}
+                    disabled={resendMutation.isPending}
+                  >
+                    <RotateCw className="h-4 w-4 mr-1" />
+                    Resend
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
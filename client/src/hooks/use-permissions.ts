@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchWithAuth } from "@/lib/api";
+import { useAuth } from "@/lib/auth-context";
+import type { Permission } from "@shared/schema";
+
+export const PERMISSIONS_KEY = ['/api/company/permissions'];
+
+/**
+ * What the signed-in user's role allows, for showing and hiding parts of
+ * the app. The server checks every request again, so this is only cosmetic.
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<Permission[]>({
+    queryKey: [...PERMISSIONS_KEY, user?.id, user?.role],
+    queryFn: async () => {
+      const response = await fetchWithAuth('/api/company/permissions');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to load permissions');
+      }
+      return result.permissions;
+    },
+    enabled: !!user
+  });
+
+  const can = (permission: Permission) => data?.includes(permission) ?? false;
+
+  return { permissions: data ?? [], can, isLoading };
+}
@@ -19,6 +19,8 @@ type AdminAuthContextType = {
   isLoading: boolean;
   error: string | null;
   login: (credentials: AdminLoginCredentials) => Promise<void>;
+  twoFactorRequired: boolean; // the password was right; a code is needed to finish signing in
+  verifyTwoFactor: (code: string) => Promise<void>;
   logout: () => Promise<void>;
   reloadAdminUser: () => Promise<void>;
 };
@@ -31,6 +33,7 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
   const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
   // Check if user is already logged in
   useEffect(() => {
@@ -87,6 +90,10 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
       }
       
       const data = await response.json();
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        return;
+      }
       localStorage.setItem('adminToken', data.token);
       setAdminUser(data.user);
     } catch (error) {
@@ -98,6 +105,32 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Second login step for accounts with two-factor authentication
+  const verifyTwoFactor = async (code: string) => {
+    setError(null);
+    setIsLoading(true);
+    
+    try {
+      const response = await apiRequest('POST', '/api/admin-auth/verify-2fa', { challengeToken, code });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Verification failed');
+      }
+      
+      const data = await response.json();
+      localStorage.setItem('adminToken', data.token);
+      setChallengeToken(null);
+      setAdminUser(data.user);
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      setError(error instanceof Error ? error.message : 'An error occurred');
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Logout function - handles both admin token and regular session
   const logout = async () => {
     setIsLoading(true);
@@ -146,6 +179,8 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
     isLoading,
     error,
     login,
+    twoFactorRequired: !!challengeToken,
+    verifyTwoFactor,
     logout,
     reloadAdminUser
   };
@@ -1,6 +1,8 @@
 import { Message } from "ai";
 import { useChat, useCompletion } from "ai/react";
+import type { PricedLineItem, Quote, QuoteDraft, TrainingData, TrainingFeedback } from "@shared/schema";
 import { apiRequest } from "./queryClient";
+import { fetchWithAuth } from "./api";
 
 // AI message interface
 export interface AIMessage {
@@ -23,26 +25,46 @@ export async function saveTrainingData(prompt: string, response: string) {
   }
 }
 
+// Save a rated or corrected chat reply as training data, pending review
+export async function sendChatFeedback(feedback: TrainingFeedback): Promise<TrainingData> {
+  const response = await apiRequest("POST", "/api/training/feedback", feedback);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || "Failed to save feedback");
+  }
+  return data;
+}
+
 // Re-export the AI hooks
 export { useChat, useCompletion };
 
-// Function to help generate a quote using AI
-export async function generateQuoteWithAI(projectDescription: string): Promise<string> {
-  try {
-    const response = await fetch("/api/ai/generate-quote", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ description: projectDescription }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return data.quote;
-  } catch (error) {
-    console.error("Error generating quote with AI:", error);
-    throw error;
+export interface GeneratedQuote {
+  draft: Omit<QuoteDraft, 'lineItems'> & { lineItems: PricedLineItem[] };
+  unmatched: string[];
+  warnings: string[];
+  attempts: number;
+  quote?: Quote; // Set when the draft was saved
+}
+
+export interface GenerateQuoteOptions {
+  clientId?: number;
+  persist?: boolean;
+  attachments?: { name: string; text: string }[];
+}
+
+// Draft a structured quote from a project description, optionally saving it as a draft quote
+export async function generateQuoteWithAI(
+  projectDescription: string,
+  options: GenerateQuoteOptions = {}
+): Promise<GeneratedQuote> {
+  const response = await fetchWithAuth("/api/ai/generate-quote", {
+    method: "POST",
+    body: JSON.stringify({ description: projectDescription, ...options }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.error || `Error: ${response.status}`);
   }
+  return data;
 }
@@ -24,7 +24,7 @@ interface User {
 }
 
 // Interface for token response
-interface TokenResponse {
+export interface TokenResponse {
   accessToken: string;
   refreshToken?: string; // Added for fallback storage
   user: User;
@@ -33,6 +33,20 @@ interface TokenResponse {
   message?: string;
 }
 
+// Login response when a second factor is needed before tokens are issued
+interface TwoFactorLoginResponse {
+  success: boolean;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken?: string;
+}
+
+// A correct password waiting for its second factor
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  setupRequired: boolean; // the account has to enroll in 2FA before it can sign in
+}
+
 // Interface for auth status response
 interface AuthStatusResponse {
   authenticated: boolean;
@@ -61,6 +75,10 @@ type AuthContextType = {
   isLoading: boolean;
   error: string | null;
   login: (credentials: LoginCredentials) => Promise<void>;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  finishTwoFactorSetup: (session: TokenResponse) => Promise<void>;
+  cancelTwoFactor: () => void;
   register: (data: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
   reloadUser: () => Promise<void>;
@@ -70,6 +88,13 @@ type AuthContextType = {
 // Create the auth context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Pages that never redirect to login, including the customer quote portal (/q/:token)
+// and team invitation links (/invite/:token)
+const PUBLIC_PATHS = ['/auth', '/login', '/'];
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.includes(pathname) || pathname.startsWith('/q/') || pathname.startsWith('/invite/');
+}
+
 // Auth provider component
 
 // Auth provider component
@@ -77,6 +102,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true); // Start with loading true
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
   const [, navigate] = useLocation();
   const { toast } = useToast();
 
@@ -305,8 +331,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
               setUser(null);
               setIsLoading(false);
               // Only redirect if on a protected page
-              const publicPaths = ['/auth', '/login', '/'];
-              if (!publicPaths.includes(window.location.pathname)) {
+              if (!isPublicPath(window.location.pathname)) {
                 window.location.href = '/auth?redirect=' + encodeURIComponent(window.location.pathname);
               }
               return;
@@ -398,8 +423,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           setUser(null);
 
           // Only redirect if on a protected page and we're not already loading another page
-          const publicPaths = ['/auth', '/login', '/'];
-          if (!publicPaths.includes(window.location.pathname) && !isLoading) {
+          if (!isPublicPath(window.location.pathname) && !isLoading) {
             console.log('Redirecting unauthenticated user to auth page');
             // For admin pages, use window.location for a clean redirect with no state
             if (window.location.pathname.startsWith('/admin')) {
@@ -414,8 +438,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setUser(null);
         
         // Only redirect if on a protected page
-        const publicPaths = ['/auth', '/login', '/'];
-        if (!publicPaths.includes(window.location.pathname)) {
+        if (!isPublicPath(window.location.pathname)) {
           // For admin pages, use window.location for a clean redirect
           if (window.location.pathname.startsWith('/admin')) {
             window.location.href = '/auth?redirect=' + encodeURIComponent(window.location.pathname);
@@ -442,6 +465,71 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return currentTime + TOKEN_REFRESH_THRESHOLD >= expiryTime;
   };
 
+  // Keep the tokens from a successful sign-in and go on into the app
+  const startSession = useCallback(async (data: TokenResponse, loginAttemptTime = Date.now()) => {
+    // Set user state
+    setUser(data.user);
+
+    // Store the access token in localStorage for subsequent API calls
+    localStorage.setItem(ACCESS_TOKEN_KEY, data.accessToken);
+    
+    // Store the refresh token as a fallback mechanism (cookies should be primary)
+    if (data.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+    }
+    
+    // Calculate and store token expiry time (default to 15 minutes if not specified)
+    const expiresIn = data.expiresIn || 15 * 60 * 1000; // 15 minutes in milliseconds
+    const expiryTime = Date.now() + expiresIn;
+    localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString());
+    
+    // Add a timestamp to localStorage to prevent loops
+    localStorage.setItem('lastLoginSuccess', loginAttemptTime.toString());
+
+    // Use React navigation instead of window.location
+    console.log('Login successful, navigating with react router');
+
+    // Show toast before redirect
+    toast({
+      title: "Login successful",
+      description: "Welcome back!",
+      duration: 3000,
+    });
+    
+    // Verify the session was established by making a test request
+    try {
+      const headers = await getAuthHeaders();
+      const verifyResponse = await fetch('/api/auth/status', {
+        credentials: 'include',
+        headers
+      });
+      
+      const verifyData = await verifyResponse.json();
+      console.log('Session verification:', verifyData);
+      
+      if (!verifyData.authenticated) {
+        console.warn('Session verified but not authenticated - retrying...');
+        
+        // Wait a moment and try again once more
+        await new Promise(resolve => setTimeout(resolve, 500));
+        
+        const retryHeaders = await getAuthHeaders();
+        const retryResponse = await fetch('/api/auth/status', {
+          credentials: 'include',
+          headers: retryHeaders
+        });
+        
+        const retryData = await retryResponse.json();
+        console.log('Session re-verification:', retryData);
+      }
+    } catch (verifyError) {
+      console.warn('Session verification failed (but continuing):', verifyError);
+    }
+    
+    // Go back to where the user was sent from (e.g. an invitation link), or to quotes
+    handleAuthRedirect();
+  }, [toast, getAuthHeaders, handleAuthRedirect]);
+
   // Real login function that connects to the server
   const login = useCallback(async (credentials: LoginCredentials) => {
     setIsLoading(true);
@@ -504,74 +592,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error(errorMessage);
       }
 
-      const data: TokenResponse = await response.json();
+      const data: TokenResponse & TwoFactorLoginResponse = await response.json();
       console.log('Login response data:', data);
 
-      if (data.success && data.user && data.accessToken) {
-        // Set user state
-        setUser(data.user);
-
-        // Store the access token in localStorage for subsequent API calls
-        localStorage.setItem(ACCESS_TOKEN_KEY, data.accessToken);
-        
-        // Store the refresh token as a fallback mechanism (cookies should be primary)
-        if (data.refreshToken) {
-          localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
-        }
-        
-        // Calculate and store token expiry time (default to 15 minutes if not specified)
-        const expiresIn = data.expiresIn || 15 * 60 * 1000; // 15 minutes in milliseconds
-        const expiryTime = Date.now() + expiresIn;
-        localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString());
-        
-        // Add a timestamp to localStorage to prevent loops
-        localStorage.setItem('lastLoginSuccess', loginAttemptTime.toString());
-
-        // Use React navigation instead of window.location
-        console.log('Login successful, navigating with react router');
-
-        // Show toast before redirect
-        toast({
-          title: "Login successful",
-          description: "Welcome back!",
-          duration: 3000,
+      // The password was right, but a second factor is needed before any tokens
+      if (data.challengeToken && (data.twoFactorRequired || data.twoFactorSetupRequired)) {
+        setTwoFactorChallenge({
+          challengeToken: data.challengeToken,
+          setupRequired: !!data.twoFactorSetupRequired
         });
-        
-        // Verify the session was established by making a test request
-        try {
-          const headers = await getAuthHeaders();
-          const verifyResponse = await fetch('/api/auth/status', {
-            credentials: 'include',
-            headers
-          });
-          
-          const verifyData = await verifyResponse.json();
-          console.log('Session verification:', verifyData);
-          
-          if (!verifyData.authenticated) {
-            console.warn('Session verified but not authenticated - retrying...');
-            
-            // Wait a moment and try again once more
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
-            const retryHeaders = await getAuthHeaders();
-            const retryResponse = await fetch('/api/auth/status', {
-              credentials: 'include',
-              headers: retryHeaders
-            });
-            
-            const retryData = await retryResponse.json();
-            console.log('Session re-verification:', retryData);
-          }
-        } catch (verifyError) {
-          console.warn('Session verification failed (but continuing):', verifyError);
-        }
-        
-        // Navigate after a longer delay to ensure session is fully established
-        setTimeout(() => {
-          // For more reliable navigation, use full page reload instead of React Router
-          window.location.href = '/quotes';
-        }, 800); // Increased delay to ensure session is established
+        return;
+      }
+
+      if (data.success && data.user && data.accessToken) {
+        await startSession(data, loginAttemptTime);
       } else {
         throw new Error('Login response missing user data');
       }
@@ -587,7 +621,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, [navigate, toast, getAuthHeaders]);
+  }, [startSession]);
+
+  // Second login step: exchange the challenge and a code for tokens
+  const verifyTwoFactor = useCallback(async (code: string) => {
+    if (!twoFactorChallenge) {
+      throw new Error('Sign-in expired, please log in again');
+    }
+
+    const response = await fetch('/api/auth/2fa/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challengeToken: twoFactorChallenge.challengeToken, code }),
+      credentials: 'include'
+    });
+    const data = await response.json();
+    if (!response.ok || !data.accessToken) {
+      throw new Error(data.message || 'Verification failed');
+    }
+
+    setTwoFactorChallenge(null);
+    await startSession(data);
+  }, [twoFactorChallenge, startSession]);
+
+  // Sign in with the session returned when enrolling during login
+  const finishTwoFactorSetup = useCallback(async (session: TokenResponse) => {
+    setTwoFactorChallenge(null);
+    await startSession(session);
+  }, [startSession]);
+
+  const cancelTwoFactor = useCallback(() => setTwoFactorChallenge(null), []);
 
   // Register function that connects to the server
   const register = useCallback(async (data: RegisterData) => {
@@ -811,11 +874,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isLoading,
     error,
     login,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    finishTwoFactorSetup,
+    cancelTwoFactor,
     register,
     logout,
     reloadUser,
     updateUser
-  }), [user, isLoading, error, login, register]);
+  }), [user, isLoading, error, login, twoFactorChallenge, verifyTwoFactor, finishTwoFactorSetup, cancelTwoFactor, register]);
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
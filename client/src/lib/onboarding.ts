@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { apiRequest } from './queryClient';
+import { fetchWithAuth } from './api';
 
 // Define the onboarding state type
 export interface OnboardingState {
@@ -105,14 +105,17 @@ export const useOnboardingStore = create<OnboardingState>((set, get) => ({
 // API functions
 const fetchOnboardingData = async () => {
   try {
-    const response = await apiRequest('GET', '/api/onboarding');
-    return await response.json();
-  } catch (err) {
-    console.error('Error fetching onboarding data:', err);
+    const response = await fetchWithAuth('/api/onboarding');
     // 404 is expected if onboarding hasn't been created yet
-    if (err instanceof Error && err.message.includes('404')) {
+    if (response.status === 404) {
       return null;
     }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch onboarding data: ${response.status}`);
+    }
+    return await response.json();
+  } catch (err) {
+    console.error('Error fetching onboarding data:', err);
     throw err;
   }
 };
@@ -130,7 +133,7 @@ const createOnboardingData = async () => {
       adminSeen: false
     };
     
-    const response = await apiRequest('POST', '/api/onboarding', data);
+    const response = await fetchWithAuth('/api/onboarding', { method: 'POST', body: JSON.stringify(data) });
     return await response.json();
   } catch (err) {
     console.error('Error creating onboarding data:', err);
@@ -151,7 +154,7 @@ const updateOnboardingState = async (data: Partial<OnboardingState>) => {
       ...onboardingData 
     } = data as any;
     
-    const response = await apiRequest('PUT', '/api/onboarding', onboardingData);
+    const response = await fetchWithAuth('/api/onboarding', { method: 'PUT', body: JSON.stringify(onboardingData) });
     return await response.json();
   } catch (err) {
     console.error('Error updating onboarding state:', err);
@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { format, parseISO } from "date-fns";
+import { normalizeQuoteStatus } from "@shared/schema";
 
 /**
  * Combines class names using clsx and tailwind-merge
@@ -52,15 +53,19 @@ export function getStatusColor(status: string): {
   bgColor: string; 
   textColor: string;
 } {
-  switch (status.toLowerCase()) {
+  switch (normalizeStatus(status)) {
     case "draft":
       return { bgColor: "bg-gray-100", textColor: "text-gray-800" };
     case "sent":
       return { bgColor: "bg-blue-100", textColor: "text-blue-800" };
+    case "viewed":
+      return { bgColor: "bg-sky-100", textColor: "text-sky-800" };
     case "accepted":
       return { bgColor: "bg-green-100", textColor: "text-green-700" };
-    case "rejected":
+    case "declined":
       return { bgColor: "bg-red-100", textColor: "text-red-700" };
+    case "expired":
+      return { bgColor: "bg-amber-100", textColor: "text-amber-800" };
     case "invoiced":
       return { bgColor: "bg-purple-100", textColor: "text-purple-700" };
     default:
@@ -71,27 +76,33 @@ export function getStatusColor(status: string): {
 /**
  * Get a badge color based on status for shadcn UI badge component
  */
-// This function normalizes status values, converting 'pending' to 'draft'
+// Normalizes quote status values onto the canonical lifecycle, e.g. 'Pending' to 'draft'
 export function normalizeStatus(status: string): string {
-  // Convert any 'pending' status to 'draft'
-  if (status.toLowerCase() === 'pending') {
-    return 'draft';
-  }
-  return status;
+  return normalizeQuoteStatus(status) ?? status.toLowerCase();
+}
+
+/**
+ * Display label for a quote status, e.g. "draft" to "Draft"
+ */
+export function formatStatusLabel(status: string): string {
+  const normalized = normalizeStatus(status);
+  return normalized.charAt(0).toUpperCase() + normalized.slice(1);
 }
 
 export function getStatusBadgeColor(status: string): string {
   // Normalize the status first (converts 'pending' to 'draft')
   status = normalizeStatus(status);
   
-  switch (status.toLowerCase()) {
+  switch (status) {
     case "draft":
       return "secondary";
     case "sent":
+    case "viewed":
       return "blue";
     case "accepted":
       return "green";
-    case "rejected":
+    case "declined":
+    case "expired":
       return "destructive";
     case "invoiced":
       return "purple";
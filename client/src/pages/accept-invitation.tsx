@@ -0,0 +1,204 @@
+/**
+ * Accept Invitation Page
+ * Public page behind the /invite/:token links emailed to invited colleagues.
+ * New people pick a username and password; people who already have an account
+ * sign in first. Accepting signs them in and opens the onboarding tutorial.
+ */
+import { useState } from "@/lib/react-compat";
+import { useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { fetchWithAuth } from "@/lib/api";
+import { formatDate } from "@/lib/utils";
+import { ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY, TOKEN_EXPIRY_KEY } from "@/lib/auth-constants";
+
+interface InvitationDetails {
+  invitation: {
+    email: string;
+    role: "owner" | "member";
+    companyName: string | null;
+    inviterName: string | null;
+    expiresAt: string;
+    state: "pending" | "accepted" | "revoked" | "expired";
+  };
+  hasAccount: boolean;
+}
+
+interface AcceptedInvitation {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
+const STATE_MESSAGES: Record<Exclude<InvitationDetails["invitation"]["state"], "pending">, string> = {
+  accepted: "This invitation has already been accepted. Sign in to continue.",
+  revoked: "This invitation has been withdrawn. Ask the person who invited you for a new one.",
+  expired: "This invitation has expired. Ask the person who invited you to send it again."
+};
+
+// Read the server's error message so the invitee sees why an action failed
+async function readInvitationResponse<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || "Something went wrong. Please try again.");
+  }
+  return data;
+}
+
+export default function AcceptInvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const [name, setName] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const accessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+
+  const { data, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ['/api/invitations', token],
+    queryFn: async () => readInvitationResponse(await apiRequest('GET', `/api/invitations/${token}`)),
+    retry: false
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (account?: { name: string; username: string; password: string }) => readInvitationResponse<AcceptedInvitation>(
+      // Sends the access token when there is one, so a signed-in account is linked instead
+      await fetchWithAuth(`/api/invitations/${token}/accept`, { method: 'POST', body: JSON.stringify(account ?? {}) })
+    ),
+    onSuccess: (result) => {
+      // Sign in the same way the login form does, then start the tutorial
+      localStorage.setItem(ACCESS_TOKEN_KEY, result.accessToken);
+      if (result.refreshToken) {
+        localStorage.setItem(REFRESH_TOKEN_KEY, result.refreshToken);
+      }
+      localStorage.setItem(TOKEN_EXPIRY_KEY, (Date.now() + (result.expiresIn || 15 * 60 * 1000)).toString());
+      window.location.href = '/dashboard?welcome=1';
+    }
+  });
+
+  const handleCreateAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setFormError("Passwords don't match");
+      return;
+    }
+    setFormError(null);
+    acceptMutation.mutate({ name, username, password });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Invitation unavailable</CardTitle>
+            <CardDescription>
+              {error instanceof Error ? error.message : "This invitation link is not valid."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { invitation, hasAccount } = data;
+  const companyName = invitation.companyName || "a company";
+  const signInUrl = `/auth?redirect=${encodeURIComponent(`/invite/${token}`)}`;
+  const actionError = formError || (acceptMutation.error instanceof Error ? acceptMutation.error.message : null);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-muted/30 p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <div className="flex items-center gap-2 text-primary mb-2">
+            <Users className="h-5 w-5" />
+            <span className="text-sm font-medium">Team invitation</span>
+          </div>
+          <CardTitle>Join {companyName}</CardTitle>
+          <CardDescription>
+            {invitation.inviterName || "Someone"} invited {invitation.email} to join
+            as {invitation.role === "owner" ? "an owner" : "a member"}.
+            {invitation.state === "pending" && <> The invitation expires on {formatDate(invitation.expiresAt)}.</>}
+          </CardDescription>
+        </CardHeader>
+
+        {invitation.state !== "pending" ? (
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">{STATE_MESSAGES[invitation.state]}</p>
+            <Button variant="outline" asChild>
+              <a href="/auth">Go to sign in</a>
+            </Button>
+          </CardContent>
+        ) : hasAccount ? (
+          <>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {accessToken
+                  ? "Accept to move your account into this company."
+                  : `You already have an account for ${invitation.email}. Sign in to accept the invitation.`}
+              </p>
+              {actionError && <p className="text-sm text-destructive">{actionError}</p>}
+            </CardContent>
+            <CardFooter className="flex gap-2">
+              {accessToken ? (
+                <Button onClick={() => acceptMutation.mutate(undefined)} disabled={acceptMutation.isPending}>
+                  {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Accept invitation
+                </Button>
+              ) : null}
+              <Button variant={accessToken ? "outline" : "default"} asChild>
+                <a href={signInUrl}>{accessToken ? "Use another account" : "Sign in"}</a>
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <form onSubmit={handleCreateAccount}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input id="invite-email" value={invitation.email} disabled />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-name">Full name</Label>
+                <Input id="invite-name" value={name} onChange={(e) => setName(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-username">Username</Label>
+                <Input id="invite-username" value={username} onChange={(e) => setUsername(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-password">Password</Label>
+                <Input id="invite-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-confirm">Confirm password</Label>
+                <Input id="invite-confirm" type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} required />
+              </div>
+              {actionError && <p className="text-sm text-destructive">{actionError}</p>}
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={acceptMutation.isPending}>
+                {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create account and join
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
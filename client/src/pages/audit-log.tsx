@@ -0,0 +1,262 @@
+/**
+ * Audit Log Page
+ * Who changed what and when. Owners see their company's changes, admins
+ * everyone's; the current filters can be downloaded as CSV.
+ */
+import { useState } from "@/lib/react-compat";
+import { useQuery } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { fetchWithAuth } from "@/lib/api";
+import type { AuditEvent } from "@shared/schema";
+import { ChevronLeft, ChevronRight, Download, Loader2 } from "lucide-react";
+
+interface AuditPage {
+  events: AuditEvent[];
+  hasMore: boolean;
+  entityTypes: string[];
+}
+
+interface AuditFilters {
+  entityType: string;
+  action: string;
+  actorId: string;
+  entityId: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+
+const emptyFilters: AuditFilters = { entityType: "", action: "", actorId: "", entityId: "", from: "", to: "" };
+
+// Query string for the filters that are set; dates cover whole days
+function filterParams(filters: AuditFilters) {
+  const params = new URLSearchParams();
+  if (filters.entityType) params.set("entityType", filters.entityType);
+  if (filters.action.trim()) params.set("action", filters.action.trim());
+  if (filters.actorId.trim()) params.set("actorId", filters.actorId.trim());
+  if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim());
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+const formatEntityType = (type: string) => type.replace(/_/g, " ");
+
+// The changed fields as "field: old → new" lines
+function describeChanges(event: AuditEvent): string[] {
+  const { before, after } = event.changes;
+  const fields = Object.keys(after ?? before ?? {});
+  const show = (value: unknown) => value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+  if (!before) return [`created with ${fields.length} fields`];
+  if (!after) return ["deleted"];
+  return fields.map(field => `${field}: ${show(before[field])} → ${show(after[field])}`);
+}
+
+export default function AuditLogPage() {
+  const { toast } = useToast();
+  const { can, isLoading: permissionsLoading } = usePermissions();
+  const [draft, setDraft] = useState<AuditFilters>(emptyFilters);
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [page, setPage] = useState(0);
+  const [exporting, setExporting] = useState(false);
+
+  const allowed = can("audit:read");
+
+  const { data, isLoading, error } = useQuery<AuditPage>({
+    queryKey: ['/api/audit-events', filters, page],
+    queryFn: async () => {
+      const params = filterParams(filters);
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(page * PAGE_SIZE));
+      const response = await fetchWithAuth(`/api/audit-events?${params}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.errors?.[0]?.message || result.message || 'Failed to load the audit log');
+      }
+      return result;
+    },
+    enabled: allowed
+  });
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+    setPage(0);
+  };
+
+  const exportCsv = async () => {
+    setExporting(true);
+    try {
+      const response = await fetchWithAuth(`/api/audit-events/export?${filterParams(filters)}`);
+      if (!response.ok) {
+        throw new Error('Export failed');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "audit-log.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({ title: "Export failed", variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!permissionsLoading && !allowed) {
+    return (
+      <DashboardLayout title="Audit Log">
+        <div className="max-w-screen-xl mx-auto px-4 md:px-6">
+          <p className="text-muted-foreground">You don't have access to the audit log.</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout title="Audit Log">
+      <div className="space-y-6 max-w-screen-xl mx-auto px-4 md:px-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Audit Log</CardTitle>
+              <CardDescription>Every change to quotes, clients, users, prompts and settings, newest first</CardDescription>
+            </div>
+            <Button variant="outline" onClick={exportCsv} disabled={exporting}>
+              {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export CSV
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={applyFilters} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end">
+              <div className="grid gap-1">
+                <Label htmlFor="audit-type">Record</Label>
+                <Select
+                  value={draft.entityType || "all"}
+                  onValueChange={(value) => setDraft({ ...draft, entityType: value === "all" ? "" : value })}
+                >
+                  <SelectTrigger id="audit-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All records</SelectItem>
+                    {data?.entityTypes.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">{formatEntityType(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="audit-action">Action</Label>
+                <Input id="audit-action" placeholder="client.delete" value={draft.action} onChange={(e) => setDraft({ ...draft, action: e.target.value })} />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="audit-actor">User ID</Label>
+                <Input id="audit-actor" inputMode="numeric" value={draft.actorId} onChange={(e) => setDraft({ ...draft, actorId: e.target.value })} />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="audit-entity">Record ID</Label>
+                <Input id="audit-entity" inputMode="numeric" value={draft.entityId} onChange={(e) => setDraft({ ...draft, entityId: e.target.value })} />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit">Filter</Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    setDraft(emptyFilters);
+                    setFilters(emptyFilters);
+                    setPage(0);
+                  }}
+                >
+                  Clear
+                </Button>
+              </div>
+            </form>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">{error instanceof Error ? error.message : "Failed to load the audit log"}</p>
+            ) : !data || data.events.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No matching changes.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>From</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">
+                        {event.actorName ?? <span className="text-muted-foreground">System</span>}
+                        {event.actorId && <span className="text-xs text-muted-foreground"> #{event.actorId}</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={event.action.endsWith(".delete") ? "destructive" : "outline"}>{event.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm capitalize">
+                        {formatEntityType(event.entityType)} {event.entityId && `#${event.entityId}`}
+                      </TableCell>
+                      <TableCell className="text-xs max-w-md">
+                        {describeChanges(event).map((line, i) => (
+                          <div key={i} className="truncate" title={line}>{line}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[160px]">
+                        <div>{event.ipAddress}</div>
+                        <div className="truncate" title={event.userAgent ?? ""}>{event.userAgent}</div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Newer
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={!data?.hasMore}>
+                Older
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -35,6 +35,7 @@ import { Loader2, Bell } from "lucide-react";
 import { useLocation, Link } from "wouter";
 import { useAuth } from "@/lib/auth-context";
 import { parseAndStoreRedirectParam } from '@/lib/auth-helpers';
+import { TwoFactorStep } from "@/components/auth/two-factor";
 
 // Login Form Schema
 const loginSchema = z.object({
@@ -66,7 +67,7 @@ const forgotPasswordSchema = z.object({
 function AuthForm() {
   const { toast } = useToast();
   const [_, navigate] = useLocation();
-  const { login, register } = useAuth();
+  const { login, register, twoFactorChallenge } = useAuth();
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState<string>("login");
@@ -192,69 +193,73 @@ function AuthForm() {
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
 
             <TabsContent value="login" className="mt-6">
-              <Card>
-                <CardHeader>
-                  <CardDescription>
-                    Enter your credentials to access your account
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Form {...loginForm}>
-                    <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username or Email</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter your username or email" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="Enter your password" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <Button 
-                        type="submit" 
-                        className="w-full mt-4 bg-black text-white hover:bg-black/90" 
-                        disabled={isSubmitting}
-                      >
-                        {isSubmitting ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Logging in...
-                          </>
-                        ) : (
-                          "Login"
-                        )}
-                      </Button>
-                      <div className="mt-2 text-right">
+              {twoFactorChallenge ? (
+                <TwoFactorStep />
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardDescription>
+                      Enter your credentials to access your account
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...loginForm}>
+                      <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username or Email</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter your username or email" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <Input type="password" placeholder="Enter your password" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                         <Button 
-                          type="button" 
-                          variant="link" 
-                          className="p-0 h-auto text-sm text-muted-foreground hover:text-foreground"
-                          onClick={() => setActiveTab("forgot-password")}
+                          type="submit" 
+                          className="w-full mt-4 bg-black text-white hover:bg-black/90" 
+                          disabled={isSubmitting}
                         >
-                          Forgot password?
+                          {isSubmitting ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Logging in...
+                            </>
+                          ) : (
+                            "Login"
+                          )}
                         </Button>
-                      </div>
-                    </form>
-                  </Form>
-                </CardContent>
-              </Card>
+                        <div className="mt-2 text-right">
+                          <Button 
+                            type="button" 
+                            variant="link" 
+                            className="p-0 h-auto text-sm text-muted-foreground hover:text-foreground"
+                            onClick={() => setActiveTab("forgot-password")}
+                          >
+                            Forgot password?
+                          </Button>
+                        </div>
+                      </form>
+                    </Form>
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
 
             <TabsContent value="forgot-password">
@@ -1,3 +1,4 @@
+import { useState } from "@/lib/react-compat";
 import { useAuth } from "@/lib/auth-context";
 import { useLocation, Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,7 +7,11 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { DashboardStatCard } from "@/components/dashboard/dashboard-stat-card";
+import { OnboardingTutorial } from "@/components/onboarding";
 import { useQuery } from "@tanstack/react-query";
+import { fetchWithAuth } from "@/lib/api";
+import { formatStatusLabel } from "@/lib/utils";
+import { quoteStatuses, type QuoteStatus } from "@shared/schema";
 import { 
   FileText, 
   Brain, 
@@ -16,12 +21,31 @@ import {
   UserCircle
 } from "lucide-react";
 
+interface QuoteStatusStats {
+  totalQuotes: number;
+  statusCounts: Record<QuoteStatus, number>;
+}
+
 export default function Dashboard() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
+  // Set when arriving from an accepted team invitation
+  const [showTutorial] = useState(() => new URLSearchParams(window.location.search).has("welcome"));
+
+  const { data: quoteStats } = useQuery<QuoteStatusStats>({
+    queryKey: ['/api/dashboard/stats'],
+    queryFn: async () => {
+      const response = await fetchWithAuth('/api/dashboard/stats');
+      if (!response.ok) {
+        throw new Error('Failed to load dashboard stats');
+      }
+      return response.json();
+    }
+  });
 
   return (
     <DashboardLayout title="Dashboard">
+      {showTutorial && <OnboardingTutorial />}
       <div className="space-y-6">
         <div>
           <h1 className="text-2xl font-semibold mb-2">Welcome back, {user?.name}</h1>
@@ -46,7 +70,20 @@ export default function Dashboard() {
                 <div className="space-y-1">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Total Quotes</span>
-                    <span className="font-medium">24</span>
+                    <span className="font-medium">{quoteStats?.totalQuotes ?? 0}</span>
+                  </div>
+                  {/* Each status opens the quotes list filtered to it */}
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {quoteStatuses.map(status => (
+                      <Badge
+                        key={status}
+                        variant="outline"
+                        className="cursor-pointer hover:bg-muted"
+                        onClick={() => navigate(`/quotes?status=${status}`)}
+                      >
+                        {formatStatusLabel(status)} {quoteStats?.statusCounts?.[status] ?? 0}
+                      </Badge>
+                    ))}
                   </div>
                 </div>
                 <div className="flex gap-2 pt-3">
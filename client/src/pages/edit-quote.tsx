@@ -1,4 +1,4 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useLocation, useParams } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,12 +7,16 @@ import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertQuoteSchema, Quote } from "@shared/schema";
+import { insertQuoteSchema, Quote, quoteStatusTransitions, type QuoteStatus } from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fetchWithAuth } from "@/lib/api";
+import { formatStatusLabel, normalizeStatus } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft, Save } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Loader2, ArrowLeft, Save, FileDown, Link2, Mail } from "lucide-react";
 import { useAuth } from "@/lib/auth-context";
+import { QuoteVersions } from "@/components/quotes/quote-versions";
 import { 
   Form, 
   FormControl, 
@@ -28,6 +32,14 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
 
 // Extend the insertQuoteSchema with validation
 const quoteFormSchema = insertQuoteSchema.extend({
@@ -67,7 +79,7 @@ const EditQuotePage = () => {
       description: "",
       amount: 0,
       date: new Date(),
-      status: "pending",
+      status: "draft",
       userId: user?.id || null,
       companyId: (user as any)?.companyId || null
     }
@@ -82,7 +94,7 @@ const EditQuotePage = () => {
         description: quote.description || "",
         amount: quote.amount || 0,
         date: new Date(quote.date),
-        status: quote.status,
+        status: normalizeStatus(quote.status),
         userId: quote.userId,
         companyId: quote.companyId,
         xeroQuoteId: quote.xeroQuoteId,
@@ -92,6 +104,10 @@ const EditQuotePage = () => {
     }
   }, [quote, form]);
 
+  // The server only accepts lifecycle transitions, so offer the current status and its next steps
+  const currentStatus = normalizeStatus(quote?.status || "draft") as QuoteStatus;
+  const statusOptions: QuoteStatus[] = [currentStatus, ...(quoteStatusTransitions[currentStatus] || [])];
+
   // Update quote mutation
   const updateQuoteMutation = useMutation({
     mutationFn: async (data: QuoteFormValues) => {
@@ -120,6 +136,105 @@ const EditQuotePage = () => {
     updateQuoteMutation.mutate(data);
   };
 
+  // The PDF endpoint needs the auth header, so fetch it and open the blob
+  const [isOpeningPdf, setIsOpeningPdf] = useState(false);
+  const openPdf = async () => {
+    setIsOpeningPdf(true);
+    try {
+      const response = await fetchWithAuth(`/api/quotes/${quoteId}/pdf`);
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, '_blank');
+      // Give the new tab time to load before releasing the blob
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to generate PDF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsOpeningPdf(false);
+    }
+  };
+
+  // Create a customer portal link and copy it. Sharing a draft marks it as sent.
+  const [isSharing, setIsSharing] = useState(false);
+  const shareWithCustomer = async () => {
+    setIsSharing(true);
+    try {
+      const response = await fetchWithAuth(`/api/quotes/${quoteId}/share-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Server responded with ${response.status}`);
+      }
+
+      // Clipboard access can be denied, in which case the link is only shown
+      let copied = false;
+      try {
+        await navigator.clipboard.writeText(data.url);
+        copied = true;
+      } catch {}
+
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quoteId] });
+      toast({
+        title: "Customer link created",
+        description: copied ? `Copied to clipboard: ${data.url}` : data.url,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to create customer link: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  // Email the quote to the client. Leaving "To" blank uses the client's email on file.
+  const [sendDialogOpen, setSendDialogOpen] = useState(false);
+  const [sendTo, setSendTo] = useState("");
+  const [sendMessage, setSendMessage] = useState("");
+  const sendQuoteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetchWithAuth(`/api/quotes/${quoteId}/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to: sendTo.trim() || undefined, message: sendMessage.trim() || undefined })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message || `Server responded with ${response.status}`);
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quoteId] });
+      setSendDialogOpen(false);
+      setSendMessage("");
+      toast({
+        title: "Quote sent",
+        description: `Emailed to ${data.email.toAddress}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to send quote: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    }
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -142,11 +257,25 @@ const EditQuotePage = () => {
 
   return (
     <div className="p-8">
-      <div className="mb-6">
+      <div className="mb-6 flex items-center justify-between">
         <Button variant="ghost" onClick={() => navigate("/quotes")} className="gap-2">
           <ArrowLeft className="h-4 w-4" />
           Back to Quotes
         </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setSendDialogOpen(true)} className="gap-2">
+            <Mail className="h-4 w-4" />
+            Send to Client
+          </Button>
+          <Button variant="outline" onClick={shareWithCustomer} disabled={isSharing} className="gap-2">
+            {isSharing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            Share with Customer
+          </Button>
+          <Button variant="outline" onClick={openPdf} disabled={isOpeningPdf} className="gap-2">
+            {isOpeningPdf ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+            View PDF
+          </Button>
+        </div>
       </div>
 
       <Card className="max-w-2xl mx-auto">
@@ -256,10 +385,9 @@ const EditQuotePage = () => {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="pending">Pending</SelectItem>
-                          <SelectItem value="approved">Approved</SelectItem>
-                          <SelectItem value="rejected">Rejected</SelectItem>
-                          <SelectItem value="invoiced">Invoiced</SelectItem>
+                          {statusOptions.map(status => (
+                            <SelectItem key={status} value={status}>{formatStatusLabel(status)}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -300,6 +428,49 @@ const EditQuotePage = () => {
           </Form>
         </CardContent>
       </Card>
+
+      <QuoteVersions quoteId={quoteId} />
+
+      <Dialog open={sendDialogOpen} onOpenChange={setSendDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send Quote #{quote.quoteNumber}</DialogTitle>
+            <DialogDescription>
+              The client receives the quote as a PDF with a link to view and accept it online.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="send-to">To</Label>
+              <Input
+                id="send-to"
+                type="email"
+                value={sendTo}
+                onChange={(e) => setSendTo(e.target.value)}
+                placeholder="Client's email on file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="send-message">Message (optional)</Label>
+              <Textarea
+                id="send-message"
+                value={sendMessage}
+                onChange={(e) => setSendMessage(e.target.value)}
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSendDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => sendQuoteMutation.mutate()} disabled={sendQuoteMutation.isPending}>
+              {sendQuoteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
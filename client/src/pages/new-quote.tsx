@@ -16,17 +16,9 @@ const NewQuotePage = () => {
   const { toast } = useToast();
   const { user } = useAuth();
 
-  // Create simpler React state instead of form state
-  // Generate a shorter quote number starting with 001
-  const generateQuoteNumber = () => {
-    const today = new Date();
-    const year = today.getFullYear();
-    // Get a random number between 1 and 999, format with leading zeros
-    const randomNum = Math.floor(Math.random() * 999) + 1;
-    return `Q-${randomNum.toString().padStart(3, '0')}`;
-  };
-  
-  const [quoteNumber, setQuoteNumber] = useState(generateQuoteNumber());
+  // Create simpler React state instead of form state.
+  // The quote number is assigned by the server from the company's sequence unless one is entered.
+  const [quoteNumber, setQuoteNumber] = useState("");
   const [companyName, setCompanyName] = useState("");
   const [contactName, setContactName] = useState("");
   const [description, setDescription] = useState("");
@@ -90,12 +82,12 @@ const NewQuotePage = () => {
     
     // Create the quote data for submission
     const quoteData = {
-      quoteNumber,
+      quoteNumber: quoteNumber.trim() || undefined,
       clientName,
       description,
       date: new Date(date),
       amount: 0, // Default amount
-      status: "pending",
+      status: "draft",
       userId: user?.id,
       companyId: (user as any)?.companyId
     };
@@ -137,7 +129,7 @@ const NewQuotePage = () => {
                   id="quoteNumber"
                   value={quoteNumber}
                   onChange={(e) => setQuoteNumber(e.target.value)}
-                  required
+                  placeholder="Assigned automatically"
                 />
               </div>
 
@@ -12,13 +12,16 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Send, ArrowLeft, Save, Mic, X, Plus, Trash2, FileText, Pencil } from "lucide-react";
+import { Loader2, Send, ArrowLeft, Save, Mic, X, Plus, Trash2, FileText, Pencil, ThumbsUp, ThumbsDown } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { sendChatFeedback } from "@/lib/ai";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
-import { Quote } from "@shared/schema";
+import { Quote, Conversation, ConversationMessage, quoteStatusTransitions, type PricedLineItem, type QuoteStatus } from "@shared/schema";
+import { formatStatusLabel, getStatusColor, normalizeStatus } from "@/lib/utils";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@/lib/auth-context";
 
 // TypeScript declarations for Web Speech API
@@ -60,8 +63,33 @@ interface LineItem {
   quantity: number;
   unitPrice: number;
   total: number;
+  unit?: string | null;
+  category?: string | null;
+  taxRate?: number;
+  // Set on AI-suggested items; below LOW_CONFIDENCE they are flagged for checking
+  confidence?: number;
+  // AI-suggested item the company price book had no entry for, so its price needs checking
+  notInPriceBook?: boolean;
 }
 
+const LOW_CONFIDENCE = 0.6;
+
+interface MessageFeedback {
+  trainingDataId: number;
+  rating: 'up' | 'down';
+  corrected: boolean;
+}
+
+interface ConversationWithMessages extends Conversation {
+  messages: ConversationMessage[];
+}
+
+const WELCOME_MESSAGE = {
+  id: 'welcome-msg',
+  role: 'assistant' as const,
+  content: 'Hi! I\'m your AI quote assistant. How can I help you create or update this quote?'
+};
+
 interface CompanyData {
   id?: number;
   name?: string;
@@ -73,28 +101,25 @@ interface CompanyData {
   xeroTenantId?: string | null;
 }
 
-// Helper function to extract AI-generated line items from text
-function extractLineItems(aiText: string): LineItem[] {
-  const result: LineItem[] = [];
-  // Simple regex to match patterns like: "- Service name: $100 per hour"
-  const itemRegex = /[-•*]\s+(.*?):\s*\$?(\d+(?:\.\d+)?)\s*(?:per\s+(\w+))?/gi;
-  
-  let match;
-  while ((match = itemRegex.exec(aiText)) !== null) {
-    const description = match[1].trim();
-    const price = parseFloat(match[2]);
-    
-    if (description && !isNaN(price)) {
-      result.push({
-        description,
-        quantity: 1, // Default quantity
-        unitPrice: price,
-        total: price // Default total (quantity * price)
-      });
-    }
+// Ask the server to extract line items from an AI reply
+async function extractLineItems(aiText: string): Promise<LineItem[]> {
+  const response = await apiRequest('POST', '/api/ai/extract-line-items', { text: aiText });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to extract line items');
   }
-  
-  return result;
+
+  const unmatched = new Set<string>(data.unmatched || []);
+  return data.items.map((item: PricedLineItem) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    total: item.quantity * item.unitPrice,
+    unit: item.unit,
+    category: item.category,
+    confidence: item.confidence,
+    notInPriceBook: unmatched.has(item.description)
+  }));
 }
 
 export default function QuoteAiChat() {
@@ -111,7 +136,14 @@ export default function QuoteAiChat() {
   const [voiceInput, setVoiceInput] = useState(false);
   const [recognitionInstance, setRecognitionInstance] = useState<SpeechRecognition | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
+  // Last status the server accepted; the status badge only offers transitions from it
+  const [savedStatus, setSavedStatus] = useState<QuoteStatus>('draft');
   const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  // Ratings given in this session, by chat message ID, so a changed vote replaces the earlier one
+  const [feedback, setFeedback] = useState<Record<string, MessageFeedback>>({});
+  const [correction, setCorrection] = useState<{ messageId: string; text: string } | null>(null);
   const [newItem, setNewItem] = useState<LineItem>({
     description: '',
     quantity: 1,
@@ -133,14 +165,23 @@ export default function QuoteAiChat() {
       
       if (response.ok) {
         setQuote(data);
+        setSavedStatus(normalizeStatus(data.status) as QuoteStatus);
         
         // Load line items
-        if (data.lineItems) {
-          try {
-            setLineItems(JSON.parse(data.lineItems));
-          } catch (e) {
-            console.error('Failed to parse line items:', e);
-          }
+        const itemsResponse = await apiRequest('GET', `/api/quotes/${quoteId}/items`);
+        if (itemsResponse.ok) {
+          const items = await itemsResponse.json();
+          setLineItems(items.map((item: any) => ({
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            total: item.quantity * item.unitPrice,
+            unit: item.unit,
+            category: item.category,
+            taxRate: item.taxRate
+          })));
+        } else {
+          console.error('Failed to load line items:', itemsResponse.status);
         }
         
         return data;
@@ -203,7 +244,8 @@ YOUR GUIDELINES:
     handleInputChange,
     handleSubmit: handleChatSubmit,
     isLoading: isSubmitting,
-    append
+    append,
+    setMessages
   } = useChat({
     api: "/api/ai/chat",
     body: {
@@ -212,13 +254,20 @@ YOUR GUIDELINES:
       companyId: quote?.companyId || user?.companyId || undefined
     },
     id: `quote-chat-${quoteId || 'new'}`,
-    initialMessages: [
-      {
-        id: 'welcome-msg',
-        role: 'assistant',
-        content: 'Hi! I\'m your AI quote assistant. How can I help you create or update this quote?'
+    initialMessages: [WELCOME_MESSAGE],
+    // The server keeps the history for persisted conversations, so only send the new turn
+    experimental_prepareRequestBody: ({ messages: chatMessages, requestBody }) => {
+      if (!conversationId) {
+        return { ...requestBody, messages: chatMessages };
       }
-    ],
+      
+      const lastUserMessage = [...chatMessages].reverse().find(m => m.role === 'user');
+      return {
+        ...requestBody,
+        conversationId,
+        message: lastUserMessage?.content || ''
+      };
+    },
     onError: (error) => {
       console.error('AI Chat error:', error);
       
@@ -252,29 +301,181 @@ YOUR GUIDELINES:
     },
     onFinish: (message) => {
       console.log('AI Chat message completed:', message.id);
-      // Extract line items from AI response
-      const newItems = extractLineItems(message.content);
       
-      if (newItems.length > 0) {
-        // Only add new unique line items
-        const existingDescriptions = lineItems.map((item: LineItem) => item.description.toLowerCase());
-        const validItems = newItems.filter((item: LineItem) => 
-          !existingDescriptions.includes(item.description.toLowerCase())
-        );
-        
-        if (validItems.length > 0) {
-          setLineItems(prev => [...prev, ...validItems]);
-          setHasChanges(true);
-          
+      // The server titles new conversations from their first message
+      if (conversations.some(c => c.id === conversationId && c.title === 'New conversation')) {
+        apiRequest('GET', `/api/conversations?quoteId=${quoteId}`)
+          .then(response => response.ok ? response.json() : null)
+          .then(data => data && setConversations(data))
+          .catch(error => console.error('Failed to refresh conversations:', error));
+      }
+      
+      // Extract line items from AI response
+      extractLineItems(message.content)
+        .then(newItems => {
+          // Only add new unique line items
+          const existingDescriptions = lineItems.map((item: LineItem) => item.description.toLowerCase());
+          const validItems = newItems.filter((item: LineItem) =>
+            !existingDescriptions.includes(item.description.toLowerCase())
+          );
+
+          if (validItems.length > 0) {
+            setLineItems(prev => [...prev, ...validItems]);
+            setHasChanges(true);
+
+            const uncertain = validItems.filter(item => (item.confidence ?? 1) < LOW_CONFIDENCE || item.notInPriceBook).length;
+            toast({
+              title: `${validItems.length} new item${validItems.length > 1 ? 's' : ''} added`,
+              description: uncertain > 0
+                ? `${uncertain} of them should be checked before sending`
+                : "The AI has suggested new line items for your quote",
+            });
+          }
+        })
+        .catch(error => {
           toast({
-            title: `${validItems.length} new item${validItems.length > 1 ? 's' : ''} added`,
-            description: "The AI has suggested new line items for your quote",
+            title: "Couldn't extract line items",
+            description: error instanceof Error ? error.message : "An unknown error occurred",
+            variant: "destructive"
           });
-        }
+        });
+    }
+  });
+  
+  // Save a rating or correction of an assistant reply, with the question it answered, for review as training data
+  const rateMessage = async (messageId: string, rating: 'up' | 'down', correctionText?: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const question = [...messages.slice(0, index)].reverse().find(m => m.role === 'user');
+    if (index === -1 || !question) return;
+    
+    try {
+      const saved = await sendChatFeedback({
+        prompt: question.content,
+        response: messages[index].content,
+        rating,
+        correction: correctionText,
+        conversationId,
+        trainingDataId: feedback[messageId]?.trainingDataId
+      });
+      setFeedback(current => ({
+        ...current,
+        [messageId]: { trainingDataId: saved.id, rating, corrected: !!correctionText }
+      }));
+      if (correctionText) {
+        setCorrection(null);
+        toast({
+          title: "Correction saved",
+          description: "It will be used for training once it has been reviewed."
+        });
       }
+    } catch (error) {
+      toast({
+        title: "Failed to save feedback",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Show a stored conversation in the chat window
+  const openConversation = async (id: number) => {
+    const response = await apiRequest('GET', `/api/conversations/${id}`);
+    if (!response.ok) {
+      toast({
+        title: "Failed to load conversation",
+        variant: "destructive"
+      });
+      return;
     }
+    
+    const data: ConversationWithMessages = await response.json();
+    setConversationId(data.id);
+    setMessages([
+      WELCOME_MESSAGE,
+      ...data.messages.map(m => ({
+        id: `conversation-msg-${m.id}`,
+        role: m.role as 'user' | 'assistant',
+        content: m.content
+      }))
+    ]);
+  };
+  
+  // Start a fresh conversation for this quote
+  const startConversation = async () => {
+    const response = await apiRequest('POST', '/api/conversations', { quoteId });
+    if (!response.ok) {
+      toast({
+        title: "Failed to start conversation",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const data: ConversationWithMessages = await response.json();
+    setConversations(prev => [data, ...prev]);
+    setConversationId(data.id);
+    setMessages([WELCOME_MESSAGE]);
+  };
+  
+  // Load this quote's conversations, resuming the most recent one
+  useQuery({
+    queryKey: ['/api/conversations', quoteId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/conversations?quoteId=${quoteId}`);
+      if (!response.ok) {
+        return [];
+      }
+      
+      const data: Conversation[] = await response.json();
+      setConversations(data);
+      
+      if (data.length > 0) {
+        await openConversation(data[0].id);
+      } else {
+        await startConversation();
+      }
+      
+      return data;
+    },
+    enabled: !!quoteId,
+    refetchOnWindowFocus: false
   });
   
+  const renameConversation = async () => {
+    const current = conversations.find(c => c.id === conversationId);
+    if (!current) return;
+    
+    const title = prompt("Rename conversation:", current.title);
+    if (!title || !title.trim()) return;
+    
+    const response = await apiRequest('PATCH', `/api/conversations/${current.id}`, { title });
+    if (response.ok) {
+      const updated: Conversation = await response.json();
+      setConversations(prev => prev.map(c => c.id === updated.id ? updated : c));
+    }
+  };
+  
+  const deleteConversation = async () => {
+    if (!conversationId || !confirm("Delete this conversation? This cannot be undone.")) return;
+    
+    const response = await apiRequest('DELETE', `/api/conversations/${conversationId}`);
+    if (!response.ok) {
+      toast({
+        title: "Failed to delete conversation",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const remaining = conversations.filter(c => c.id !== conversationId);
+    setConversations(remaining);
+    if (remaining.length > 0) {
+      await openConversation(remaining[0].id);
+    } else {
+      await startConversation();
+    }
+  };
+  
   // Handle voice input
   const handleVoiceInput = () => {
     if (voiceInput) {
@@ -407,18 +608,25 @@ YOUR GUIDELINES:
     if (!quote || !user) return;
     
     try {
-      // Calculate total from line items
-      const total = lineItems.reduce((sum, item) => sum + item.total, 0);
-      
+      // The server stores the items and recalculates the amount from them
       const payload = {
         ...quote,
-        lineItems: JSON.stringify(lineItems),
-        amount: total
+        lineItems: lineItems.map(({ description, quantity, unitPrice, unit, category, taxRate }) => ({
+          description,
+          quantity,
+          unitPrice,
+          unit,
+          category,
+          taxRate
+        }))
       };
       
       const response = await apiRequest('PUT', `/api/quotes/${quoteId}`, payload);
       
       if (response.ok) {
+        const updatedQuote = await response.json();
+        setQuote(prevQuote => prevQuote ? { ...prevQuote, amount: updatedQuote.amount } : prevQuote);
+        setSavedStatus(normalizeStatus(updatedQuote.status) as QuoteStatus);
         setHasChanges(false);
         toast({
           title: "Auto-saved", 
@@ -715,17 +923,13 @@ YOUR GUIDELINES:
                   <span className="text-sm">
                     <div 
                       className={`px-2 py-1 rounded-full text-xs font-semibold text-center w-fit cursor-pointer
-                        ${quote.status.toLowerCase() === 'pending' ? 'bg-yellow-100 text-yellow-800' : ''}
-                        ${quote.status.toLowerCase() === 'draft' ? 'bg-gray-100 text-gray-800' : ''}
-                        ${quote.status.toLowerCase() === 'sent' ? 'bg-blue-100 text-blue-800' : ''}
-                        ${quote.status.toLowerCase() === 'accepted' ? 'bg-green-100 text-green-800' : ''}
-                        ${quote.status.toLowerCase() === 'rejected' ? 'bg-red-100 text-red-800' : ''}
-                        ${quote.status.toLowerCase() === 'invoiced' ? 'bg-purple-100 text-purple-800' : ''}
+                        ${getStatusColor(quote.status).bgColor} ${getStatusColor(quote.status).textColor}
                       `}
                       onClick={() => {
-                        const statuses = ["Pending", "Draft", "Sent", "Accepted", "Rejected", "Invoiced"];
+                        // Cycle through the saved status and the statuses it may move to
+                        const statuses = [savedStatus, ...quoteStatusTransitions[savedStatus]];
                         const currentIndex = statuses.findIndex(s => 
-                          s.toLowerCase() === quote.status.toLowerCase());
+                          s === normalizeStatus(quote.status));
                         const nextIndex = (currentIndex + 1) % statuses.length;
                         
                         setQuote(prevQuote => {
@@ -738,7 +942,7 @@ YOUR GUIDELINES:
                         setHasChanges(true);
                       }}
                     >
-                      {quote.status} <Pencil className="inline h-3 w-3 ml-1" />
+                      {formatStatusLabel(quote.status)} <Pencil className="inline h-3 w-3 ml-1" />
                     </div>
                   </span>
                 </div>
@@ -752,6 +956,35 @@ YOUR GUIDELINES:
           {/* AI Assistant Card - Optimized for mobile with chat-like experience */}
           <Card className="mb-4">
             <CardContent className="pt-3 pb-3 sm:py-4">
+              {/* Conversation threads for this quote */}
+              <div className="mb-2 flex items-center gap-1">
+                <Select
+                  value={conversationId ? String(conversationId) : undefined}
+                  onValueChange={(value) => openConversation(parseInt(value, 10))}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue placeholder="Conversation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {conversations.map((conversation) => (
+                      <SelectItem key={conversation.id} value={String(conversation.id)}>
+                        {conversation.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={startConversation} disabled={isSubmitting} title="New conversation">
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={renameConversation} disabled={!conversationId} title="Rename conversation">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={deleteConversation} disabled={!conversationId || isSubmitting} title="Delete conversation">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              
               {/* Chat messages container - WhatsApp-style with shorter height on mobile */}
               <div 
                 ref={chatContainerRef}
@@ -768,12 +1001,49 @@ YOUR GUIDELINES:
                           <AvatarFallback className="bg-black text-white text-xs">AI</AvatarFallback>
                         )}
                       </Avatar>
-                      <div className={`rounded-lg py-2 px-3 ${
-                        message.role === "user" 
-                          ? "bg-primary text-primary-foreground" 
-                          : "bg-muted"
-                      }`}>
-                        <p className="whitespace-pre-wrap text-sm">{message.content}</p>
+                      <div>
+                        <div className={`rounded-lg py-2 px-3 ${
+                          message.role === "user" 
+                            ? "bg-primary text-primary-foreground" 
+                            : "bg-muted"
+                        }`}>
+                          <p className="whitespace-pre-wrap text-sm">{message.content}</p>
+                        </div>
+                        {/* Rate or correct replies to build the company's training data */}
+                        {message.role === "assistant" && !isSubmitting && (
+                          <div className="mt-1 flex items-center gap-1 text-muted-foreground">
+                            <Button variant="ghost" size="icon" className="h-6 w-6" title="Good answer" onClick={() => rateMessage(message.id, 'up')}>
+                              <ThumbsUp className={`h-3 w-3 ${feedback[message.id]?.rating === 'up' ? 'fill-current' : ''}`} />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" title="Poor answer" onClick={() => rateMessage(message.id, 'down')}>
+                              <ThumbsDown className={`h-3 w-3 ${feedback[message.id]?.rating === 'down' ? 'fill-current' : ''}`} />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" title="Correct this answer" onClick={() => setCorrection({ messageId: message.id, text: message.content })}>
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            {feedback[message.id]?.corrected && <span className="text-xs">Corrected</span>}
+                          </div>
+                        )}
+                        {correction?.messageId === message.id && (
+                          <div className="mt-2 space-y-2">
+                            <Textarea
+                              value={correction.text}
+                              onChange={(e) => setCorrection({ messageId: message.id, text: e.target.value })}
+                              rows={5}
+                              className="text-sm"
+                            />
+                            <div className="flex justify-end gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => setCorrection(null)}>Cancel</Button>
+                              <Button
+                                size="sm"
+                                disabled={!correction.text.trim() || correction.text.trim() === message.content.trim()}
+                                onClick={() => rateMessage(message.id, 'down', correction.text)}
+                              >
+                                Save correction
+                              </Button>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -874,8 +1144,15 @@ YOUR GUIDELINES:
                             <TableCell className="py-2 text-xs sm:text-sm">
                               {/* Use line-clamp for long descriptions but still allow wrapping for readability */}
                               <div className="line-clamp-2 break-words">{item.description}</div>
+                              {item.notInPriceBook ? (
+                                <Badge variant="outline" className="mt-1 text-[10px] text-amber-600 border-amber-300">Not in price book</Badge>
+                              ) : (item.confidence ?? 1) < LOW_CONFIDENCE && (
+                                <Badge variant="outline" className="mt-1 text-[10px] text-amber-600 border-amber-300">Check</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="py-2 text-center text-xs sm:text-sm font-medium bg-muted/30 rounded-sm">
+                              {item.quantity}{item.unit ? ` ${item.unit}` : ''}
                             </TableCell>
-                            <TableCell className="py-2 text-center text-xs sm:text-sm font-medium bg-muted/30 rounded-sm">{item.quantity}</TableCell>
                             <TableCell className="py-2 text-xs sm:text-sm">${item.unitPrice.toFixed(2)}</TableCell>
                             <TableCell className="py-2 text-xs sm:text-sm">${item.total.toFixed(2)}</TableCell>
                             <TableCell className="py-2">
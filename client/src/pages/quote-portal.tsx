@@ -0,0 +1,276 @@
+/**
+ * Customer Quote Portal
+ * Public page behind the /q/:token links we send customers. Shows the quote
+ * read-only and lets the customer accept it with a typed signature or decline it.
+ */
+import { useState } from "@/lib/react-compat";
+import { useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2, CheckCircle2, XCircle, FileDown } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, formatStatusLabel } from "@/lib/utils";
+
+interface PortalQuote {
+  quote: {
+    quoteNumber: string;
+    description: string | null;
+    date: string;
+    status: string;
+  };
+  items: Array<{
+    description: string;
+    quantity: number;
+    unit: string | null;
+    unitPrice: number;
+    taxRate: number;
+    total: number;
+  }>;
+  totals: { subtotal: number; tax: number; total: number };
+  company: { name: string; logo: string | null } | null;
+  client: { name: string; contactName: string | null };
+  terms: string | null;
+  link: {
+    state: "active" | "expired" | "revoked" | "responded";
+    expiresAt: string | null;
+    response: "accepted" | "declined" | null;
+    signatureName: string | null;
+    respondedAt: string | null;
+  };
+  canRespond: boolean;
+}
+
+// Read the server's error message so the customer sees why an action failed
+async function readPortalResponse(response: Response): Promise<PortalQuote> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.errors?.[0]?.message || data.message || "Something went wrong. Please try again.");
+  }
+  return data;
+}
+
+export default function QuotePortalPage() {
+  const { token } = useParams<{ token: string }>();
+  const [mode, setMode] = useState<"view" | "accept" | "decline">("view");
+  const [signatureName, setSignatureName] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const [reason, setReason] = useState("");
+  const [responded, setResponded] = useState<PortalQuote | null>(null);
+
+  const { data: fetched, isLoading, error } = useQuery<PortalQuote>({
+    queryKey: ['/api/portal/quotes', token],
+    queryFn: async () => readPortalResponse(await apiRequest('GET', `/api/portal/quotes/${token}`)),
+    retry: false
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => readPortalResponse(
+      await apiRequest('POST', `/api/portal/quotes/${token}/accept`, { signatureName, agreed })
+    ),
+    onSuccess: setResponded
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async () => readPortalResponse(
+      await apiRequest('POST', `/api/portal/quotes/${token}/decline`, { reason })
+    ),
+    onSuccess: setResponded
+  });
+
+  const data = responded || fetched;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Quote unavailable</CardTitle>
+            <CardDescription>
+              {error instanceof Error ? error.message : "This quote link is not valid."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const actionError = (acceptMutation.error || declineMutation.error) as Error | null;
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Company branding */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            {data.company?.logo && (
+              <img src={data.company.logo} alt={data.company.name} className="h-12 max-w-[160px] object-contain" />
+            )}
+            <h1 className="text-xl font-semibold">{data.company?.name}</h1>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/portal/quotes/${token}/pdf`} target="_blank" rel="noreferrer">
+              <FileDown className="h-4 w-4 mr-2" />
+              Download PDF
+            </a>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <CardTitle>Quote {data.quote.quoteNumber}</CardTitle>
+                <CardDescription>
+                  Prepared for {data.client.contactName ? `${data.client.contactName}, ` : ""}{data.client.name} on {formatDate(data.quote.date)}
+                </CardDescription>
+              </div>
+              <span className="text-sm text-muted-foreground">{formatStatusLabel(data.quote.status)}</span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {data.quote.description && (
+              <p className="text-sm whitespace-pre-line">{data.quote.description}</p>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit price</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{item.unit ? `${item.description} (per ${item.unit})` : item.description}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.unitPrice)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="ml-auto w-full max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between"><span>Subtotal</span><span>{formatCurrency(data.totals.subtotal)}</span></div>
+              <div className="flex justify-between"><span>Tax</span><span>{formatCurrency(data.totals.tax)}</span></div>
+              <div className="flex justify-between font-semibold text-base"><span>Total</span><span>{formatCurrency(data.totals.total)}</span></div>
+            </div>
+
+            {data.terms && (
+              <div>
+                <h3 className="text-sm font-semibold mb-1">Terms &amp; conditions</h3>
+                <p className="text-xs text-muted-foreground whitespace-pre-line">{data.terms}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Response */}
+        <Card>
+          <CardContent className="pt-6">
+            {data.link.response === "accepted" ? (
+              <div className="flex items-center gap-3 text-green-700">
+                <CheckCircle2 className="h-6 w-6" />
+                <p>Accepted by {data.link.signatureName} on {formatDate(data.link.respondedAt || undefined)}. Thank you!</p>
+              </div>
+            ) : data.link.response === "declined" ? (
+              <div className="flex items-center gap-3 text-muted-foreground">
+                <XCircle className="h-6 w-6" />
+                <p>You declined this quote on {formatDate(data.link.respondedAt || undefined)}.</p>
+              </div>
+            ) : !data.canRespond ? (
+              <p className="text-sm text-muted-foreground">
+                {data.link.state === "expired"
+                  ? "This quote link has expired. Please contact us for an updated quote."
+                  : "This quote can no longer be accepted or declined online."}
+              </p>
+            ) : mode === "accept" ? (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="signature">Type your full name to sign</Label>
+                  <Input
+                    id="signature"
+                    value={signatureName}
+                    onChange={(e) => setSignatureName(e.target.value)}
+                    className="font-serif italic text-lg"
+                    autoComplete="name"
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox id="agree" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+                  <Label htmlFor="agree" className="text-sm font-normal">
+                    I accept this quote and its terms on behalf of {data.client.name}
+                  </Label>
+                </div>
+                {actionError && <p className="text-sm text-destructive">{actionError.message}</p>}
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => acceptMutation.mutate()}
+                    disabled={!agreed || signatureName.trim().length < 2 || acceptMutation.isPending}
+                  >
+                    {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Accept quote
+                  </Button>
+                  <Button variant="ghost" onClick={() => setMode("view")}>Cancel</Button>
+                </div>
+              </div>
+            ) : mode === "decline" ? (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reason">Reason (optional)</Label>
+                  <Textarea
+                    id="reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Let us know why, so we can improve our quote"
+                  />
+                </div>
+                {actionError && <p className="text-sm text-destructive">{actionError.message}</p>}
+                <div className="flex gap-2">
+                  <Button
+                    variant="destructive"
+                    onClick={() => declineMutation.mutate()}
+                    disabled={declineMutation.isPending}
+                  >
+                    {declineMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Decline quote
+                  </Button>
+                  <Button variant="ghost" onClick={() => setMode("view")}>Cancel</Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button className="flex-1" onClick={() => setMode("accept")}>Accept quote</Button>
+                <Button className="flex-1" variant="outline" onClick={() => setMode("decline")}>Decline</Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
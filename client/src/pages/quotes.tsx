@@ -37,13 +37,18 @@ import {
 } from "@/components/ui/dialog";
 import { QuoteListMobile } from "@/components/quotes/quote-list-mobile";
 import { QuoteTableRow } from "@/components/quotes/quote-table-row";
-import { formatCurrency, formatDate } from "@/lib/utils";
+import { formatCurrency, formatDate, formatStatusLabel, normalizeStatus } from "@/lib/utils";
+import { quoteStatuses } from "@shared/schema";
 
 const QuotesPage = () => {
   const [location, navigate] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  // The dashboard links here with ?status= to open a filtered list
+  const [statusFilter, setStatusFilter] = useState<string>(() => {
+    const status = new URLSearchParams(window.location.search).get("status");
+    return status ? normalizeStatus(status) : "all";
+  });
   const [deleteId, setDeleteId] = useState<number | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
@@ -166,10 +171,9 @@ const QuotesPage = () => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Quotes</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="approved">Approved</SelectItem>
-                <SelectItem value="rejected">Rejected</SelectItem>
-                <SelectItem value="invoiced">Invoiced</SelectItem>
+                {quoteStatuses.map(status => (
+                  <SelectItem key={status} value={status}>{formatStatusLabel(status)}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -45,6 +45,12 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { QuoteNumberingSettings } from "@/components/settings/quote-numbering";
+import { PriceBookSettings } from "@/components/settings/price-book";
+import { RoleSettings } from "@/components/settings/roles";
+import { TwoFactorSettings } from "@/components/settings/two-factor";
+import { SessionSettings } from "@/components/settings/sessions";
+import { usePermissions } from "@/hooks/use-permissions";
 
 // Xero integration component
 const XeroIntegration = () => {
@@ -310,6 +316,7 @@ const XeroIntegration = () => {
 
 export default function SettingsPage() {
   const { user, logout, updateUser } = useAuth();
+  const { can } = usePermissions();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("profile");
@@ -518,7 +525,7 @@ export default function SettingsPage() {
           {/* Mobile tabs selector - optimized for iPhone 16 */}
           <div className="block lg:hidden mb-6">
             <Tabs defaultValue={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid grid-cols-3 w-full mb-6 p-1 h-12 bg-gray-100 gap-1">
+              <TabsList className="grid grid-cols-4 w-full mb-6 p-1 h-12 bg-gray-100 gap-1">
                 <TabsTrigger 
                   value="profile" 
                   className="flex flex-col items-center justify-center h-full rounded-md data-[state=active]:bg-black data-[state=active]:text-white transition-all"
@@ -526,6 +533,13 @@ export default function SettingsPage() {
                   <User className="h-4 w-4 mb-0.5" />
                   <span className="text-[10px] font-medium">Profile</span>
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="security" 
+                  className="flex flex-col items-center justify-center h-full rounded-md data-[state=active]:bg-black data-[state=active]:text-white transition-all"
+                >
+                  <Lock className="h-4 w-4 mb-0.5" />
+                  <span className="text-[10px] font-medium">Security</span>
+                </TabsTrigger>
                 <TabsTrigger 
                   value="billing" 
                   className="flex flex-col items-center justify-center h-full rounded-md data-[state=active]:bg-black data-[state=active]:text-white transition-all"
@@ -562,6 +576,13 @@ export default function SettingsPage() {
                       <User className="h-4 w-4" />
                       Profile
                     </TabsTrigger>
+                    <TabsTrigger 
+                      value="security" 
+                      className="justify-start py-2 px-3 gap-2 rounded-md border-transparent text-sm data-[state=active]:bg-black data-[state=active]:text-white"
+                    >
+                      <Lock className="h-4 w-4" />
+                      Security
+                    </TabsTrigger>
 
                     <TabsTrigger 
                       value="integrations" 
@@ -912,6 +933,23 @@ export default function SettingsPage() {
                     </form>
                   </CardContent>
                 </Card>
+                
+                {can("company:edit") && user.companyId && (
+                  <QuoteNumberingSettings />
+                )}
+                
+                {can("pricebook:edit") && user.companyId && (
+                  <PriceBookSettings />
+                )}
+                
+                {can("roles:manage") && user.companyId && (
+                  <RoleSettings />
+                )}
+              </TabsContent>
+              
+              <TabsContent value="security" className="m-0 space-y-6">
+                <TwoFactorSettings />
+                <SessionSettings />
               </TabsContent>
               
               <TabsContent value="integrations" className="m-0 space-y-6">
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import { useAuth } from "@/lib/auth-context";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useLocation } from "wouter";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { 
@@ -16,7 +17,8 @@ import {
   Mic,
   FileUp,
   Upload,
-  Loader2
+  Loader2,
+  ListChecks
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { 
@@ -47,6 +49,9 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { TrainingReviewQueue } from "@/components/training/training-review-queue";
+import { TrainingDatasetImport } from "@/components/training/training-dataset-import";
+import { HistoricalQuoteImport } from "@/components/training/historical-quote-import";
 
 type Message = {
   id: string;
@@ -59,6 +64,9 @@ export default function TrainingPage() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
   const [activeTab, setActiveTab] = useState("chat");
+  // Only reviewers decide which examples the company's models learn from
+  const { can } = usePermissions();
+  const canReview = can("training:review");
   const [messages, setMessages] = useState<Message[]>([
     {
       id: "welcome",
@@ -431,7 +439,7 @@ export default function TrainingPage() {
             <Card className="bg-background border-border h-full flex flex-col">
               <CardHeader className="pb-0">
                 <Tabs defaultValue={activeTab} onValueChange={setActiveTab} className="w-full h-full flex flex-col">
-                  <TabsList className="grid w-full grid-cols-2">
+                  <TabsList className={`grid w-full ${canReview ? 'grid-cols-3' : 'grid-cols-2'}`}>
                     <TabsTrigger value="chat" className="flex items-center gap-1">
                       <MessageCircle className="h-4 w-4" />
                       Chat Training
@@ -440,6 +448,12 @@ export default function TrainingPage() {
                       <Upload className="h-4 w-4" />
                       Document Uploads
                     </TabsTrigger>
+                    {canReview && (
+                      <TabsTrigger value="review" className="flex items-center gap-1">
+                        <ListChecks className="h-4 w-4" />
+                        Review
+                      </TabsTrigger>
+                    )}
                   </TabsList>
                 
                   <TabsContent value="chat" className="m-0 pt-6 flex-1 flex flex-col">
@@ -774,93 +788,17 @@ export default function TrainingPage() {
                   <TabsContent value="tasks" className="m-0 pt-6 flex-1 flex flex-col">
                     <div className="space-y-6">
                       
-                      {/* Upload area */}
-                      <Card className="bg-background border-border">
-                        <CardHeader>
-                          <CardTitle className="text-lg">Upload Documents</CardTitle>
-                          <CardDescription>
-                            Upload your existing quotes, pricing sheets, and business documents to help train the AI
-                          </CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
-                            <UploadCloud className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-                            <h3 className="text-lg font-medium mb-2">Drag and drop files here</h3>
-                            <p className="text-sm text-muted-foreground mb-4">
-                              or click to browse for files on your device
-                            </p>
-                            <Input 
-                              type="file" 
-                              multiple 
-                              className="hidden" 
-                              id="document-upload" 
-                              onChange={handleFileUpload}
-                            />
-                            <Button 
-                              className="mb-2 bg-black hover:bg-black/80 text-white" 
-                              onClick={() => document.getElementById('document-upload')?.click()}
-                            >
-                              Select Files
-                            </Button>
-                            <p className="text-xs text-muted-foreground mt-2">
-                              Supported formats: PDF, DOCX, XLSX, CSV, TXT (max 10MB per file)
-                            </p>
-                          </div>
-                        </CardContent>
-                      </Card>
+                      {canReview && <TrainingDatasetImport />}
                       
-                      {/* Uploaded files */}
-                      <Card className="bg-background border-border">
-                        <CardHeader>
-                          <CardTitle className="text-lg">Uploaded Documents</CardTitle>
-                          <CardDescription>
-                            Files that have been processed for AI training
-                          </CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                          {uploadedFiles.length > 0 ? (
-                            <div className="space-y-2">
-                              {uploadedFiles.map((file) => (
-                                <div key={file} className="flex items-center justify-between border rounded-md p-3">
-                                  <div className="flex items-center gap-3">
-                                    <FileText className="h-5 w-5 text-muted-foreground" />
-                                    <div>
-                                      <p className="font-medium">{file}</p>
-                                      <p className="text-xs text-muted-foreground">Uploaded just now</p>
-                                    </div>
-                                  </div>
-                                  <Button 
-                                    className="h-8 w-8 p-0 bg-black hover:bg-black/80 text-white"
-                                    size="sm" 
-                                    onClick={() => removeFile(file)} 
-                                  >
-                                    <X className="h-4 w-4" />
-                                  </Button>
-                                </div>
-                              ))}
-                            </div>
-                          ) : (
-                            <div className="text-center py-8 text-muted-foreground">
-                              <p>No documents have been uploaded yet</p>
-                            </div>
-                          )}
-                        </CardContent>
-                        <CardFooter className="flex-col space-y-4">
-                          <p className="text-sm text-muted-foreground">
-                            Once you process your documents, the AI will analyze them to understand your pricing structure, 
-                            quote formats, and common terms. This helps PriceWith.AI generate more accurate quotes aligned 
-                            with your business practices.
-                          </p>
-                          <Button 
-                            className="w-full bg-black hover:bg-black/80 text-white" 
-                            disabled={uploadedFiles.length === 0}
-                          >
-                            Process Documents for Training
-                          </Button>
-                        </CardFooter>
-                      </Card>
+                      {canReview && <HistoricalQuoteImport />}
                     </div>
                   </TabsContent>
+                  
+                  {canReview && (
+                    <TabsContent value="review" className="m-0 pt-6 flex-1 flex flex-col">
+                      <TrainingReviewQueue />
+                    </TabsContent>
+                  )}
                 </Tabs>
               </CardHeader>
             </Card>
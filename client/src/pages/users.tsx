@@ -2,8 +2,10 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { User } from "@shared/schema";
 import { useAuth } from "@/lib/auth-context";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useLocation } from "wouter";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { InviteTeammateDialog, PendingInvitations } from "@/components/users/team-invitations";
 import { 
   Users as UsersIcon, 
   UserPlus, 
@@ -80,6 +82,7 @@ type NewUserFormValues = z.infer<typeof newUserSchema>;
 
 export default function UsersPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
@@ -214,6 +217,8 @@ export default function UsersPage() {
 
   // Check if user is admin
   const isAdmin = user.role === "admin";
+  // Anyone whose role may invite can bring people into their own company by email
+  const canInvite = can("users:invite") && !!user.companyId;
 
   // Handle form submission
   const onSubmit = (data: NewUserFormValues) => {
@@ -286,8 +291,8 @@ export default function UsersPage() {
     <DashboardLayout title="Users">
       {/* Action bar with white background */}
       <div className="bg-background py-4 px-6 border-b mb-6">
-        <div className="flex justify-between items-center max-w-screen-xl mx-auto">
-          <div className="flex gap-4 items-center">
+        <div className="flex justify-between items-center gap-2 max-w-screen-xl mx-auto">
+          <div className="flex gap-4 items-center mr-auto">
             <div className="relative w-[260px]">
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
               <Input
@@ -327,17 +332,18 @@ export default function UsersPage() {
             </Select>
           </div>
 
+          {canInvite && <InviteTeammateDialog />}
           {isAdmin && (
             <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
-              <Button onClick={() => setInviteDialogOpen(true)} className="gap-2">
+              <Button onClick={() => setInviteDialogOpen(true)} variant={canInvite ? "outline" : "default"} className="gap-2">
                 <UserPlus className="h-4 w-4" />
-                Invite User
+                Add User
               </Button>
               <DialogContent>
                 <DialogHeader>
-                  <DialogTitle>Invite New User</DialogTitle>
+                  <DialogTitle>Add New User</DialogTitle>
                   <DialogDescription>
-                    Create a new user account for your team.
+                    Create a user account directly with a temporary password.
                   </DialogDescription>
                 </DialogHeader>
 
@@ -579,6 +585,8 @@ export default function UsersPage() {
       {/* Main content with user cards */}
       <div className="bg-background p-6 rounded-none min-h-[calc(100vh-12rem)]">
         <div className="max-w-screen-xl mx-auto">
+          {canInvite && <PendingInvitations />}
+
           {/* User cards grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
             {filteredUsers.map((u) => (
@@ -590,7 +598,7 @@ export default function UsersPage() {
                     </Badge>
 
                     <Badge variant="outline">
-                      {u.role === "admin" ? "Admin" : u.role === "owner" ? "Owner" : "Team Member"}
+                      {u.role === "admin" ? "Admin" : u.role === "owner" ? "Owner" : u.role === "member" ? "Team Member" : u.role}
                     </Badge>
                   </div>
                 </CardHeader>
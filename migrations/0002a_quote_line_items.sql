@@ -0,0 +1,16 @@
+-- Structured line items belonging to a quote; the quote's amount is derived from these
+CREATE TABLE IF NOT EXISTS "quote_line_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"description" text NOT NULL,
+	"quantity" double precision DEFAULT 1 NOT NULL,
+	"unit_price" double precision DEFAULT 0 NOT NULL,
+	"unit" text,
+	"tax_rate" double precision DEFAULT 0 NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"category" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quote_line_items" ADD CONSTRAINT "quote_line_items_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,17 @@
+-- Branded layouts used when rendering quotes as PDF documents
+CREATE TABLE IF NOT EXISTS "quote_templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"header_text" text,
+	"footer_text" text,
+	"primary_color" text DEFAULT '#111827' NOT NULL,
+	"accent_color" text DEFAULT '#6b7280' NOT NULL,
+	"terms_text" text,
+	"show_logo" boolean DEFAULT true NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quote_templates" ADD CONSTRAINT "quote_templates_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;
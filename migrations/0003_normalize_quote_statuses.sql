@@ -0,0 +1,9 @@
+-- Rewrite free-text quote statuses onto the canonical lifecycle
+-- (draft, sent, viewed, accepted, declined, expired, invoiced)
+UPDATE "quotes" SET "status" = lower(trim("status")) WHERE "status" <> lower(trim("status"));
+--> statement-breakpoint
+UPDATE "quotes" SET "status" = 'draft' WHERE "status" = 'pending';
+--> statement-breakpoint
+UPDATE "quotes" SET "status" = 'accepted' WHERE "status" = 'approved';
+--> statement-breakpoint
+UPDATE "quotes" SET "status" = 'declined' WHERE "status" = 'rejected';
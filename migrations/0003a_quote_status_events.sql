@@ -0,0 +1,15 @@
+-- History of quote status changes, who made them and from where
+CREATE TABLE IF NOT EXISTS "quote_status_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"user_id" integer,
+	"source" text DEFAULT 'user' NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quote_status_events" ADD CONSTRAINT "quote_status_events_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "quote_status_events" ADD CONSTRAINT "quote_status_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,23 @@
+-- Unauthenticated links customers use to view and accept or decline a quote (/q/:token)
+CREATE TABLE IF NOT EXISTS "quote_share_links" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"token" text NOT NULL,
+	"created_by" integer,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"first_viewed_at" timestamp,
+	"last_viewed_at" timestamp,
+	"response" text,
+	"signature_name" text,
+	"decline_reason" text,
+	"responded_at" timestamp,
+	"responded_ip" text,
+	"responded_user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quote_share_links_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+ALTER TABLE "quote_share_links" ADD CONSTRAINT "quote_share_links_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "quote_share_links" ADD CONSTRAINT "quote_share_links_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,23 @@
+-- Log of every email the app sends to customers, successful or not
+CREATE TABLE IF NOT EXISTS "outbound_emails" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer,
+	"company_id" integer,
+	"user_id" integer,
+	"to_address" text NOT NULL,
+	"from_address" text NOT NULL,
+	"subject" text NOT NULL,
+	"kind" text DEFAULT 'quote' NOT NULL,
+	"transport" text NOT NULL,
+	"status" text NOT NULL,
+	"message_id" text,
+	"error" text,
+	"attachments" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "outbound_emails" ADD CONSTRAINT "outbound_emails_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "outbound_emails" ADD CONSTRAINT "outbound_emails_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "outbound_emails" ADD CONSTRAINT "outbound_emails_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,21 @@
+-- Immutable snapshots of a quote once it has been sent, numbered per quote
+CREATE TABLE IF NOT EXISTS "quote_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quote_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"quote_number" text NOT NULL,
+	"client_name" text NOT NULL,
+	"description" text,
+	"amount" integer DEFAULT 0 NOT NULL,
+	"date" timestamp NOT NULL,
+	"status" text NOT NULL,
+	"line_items" jsonb NOT NULL,
+	"created_by" integer,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quote_versions_quote_id_version_unique" UNIQUE("quote_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "quote_versions" ADD CONSTRAINT "quote_versions_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "quote_versions" ADD CONSTRAINT "quote_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,20 @@
+-- Quote numbers are unique per company instead of globally, and allocated
+-- from a per-company sequence
+ALTER TABLE "quotes" DROP CONSTRAINT IF EXISTS "quotes_quote_number_unique";
+--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_company_quote_number_unique" UNIQUE ("company_id", "quote_number");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "quote_number_sequences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"prefix" text DEFAULT 'Q-' NOT NULL,
+	"include_year" boolean DEFAULT true NOT NULL,
+	"padding" integer DEFAULT 4 NOT NULL,
+	"reset_yearly" boolean DEFAULT true NOT NULL,
+	"next_number" integer DEFAULT 1 NOT NULL,
+	"year" integer,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quote_number_sequences_company_id_unique" UNIQUE("company_id")
+);
+--> statement-breakpoint
+ALTER TABLE "quote_number_sequences" ADD CONSTRAINT "quote_number_sequences_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;
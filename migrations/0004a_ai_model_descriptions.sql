@@ -0,0 +1,2 @@
+-- Optional description shown with each AI model
+ALTER TABLE "ai_models" ADD COLUMN IF NOT EXISTS "description" text;
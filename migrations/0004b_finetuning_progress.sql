@@ -0,0 +1,4 @@
+-- Provider job tracking for fine-tuning sessions run by the background worker
+ALTER TABLE "finetuning_sessions" ADD COLUMN IF NOT EXISTS "provider_job_id" text;
+--> statement-breakpoint
+ALTER TABLE "finetuning_sessions" ADD COLUMN IF NOT EXISTS "progress" integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,17 @@
+-- Embedded past quotes and training examples that AI answers are grounded in
+CREATE TABLE IF NOT EXISTS "knowledge_embeddings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"source_type" text NOT NULL,
+	"source_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"content" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"metadata" jsonb,
+	"embedding_model" text NOT NULL,
+	"embedding" real[] NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "knowledge_embeddings_source_unique" UNIQUE("company_id","source_type","source_id")
+);
+--> statement-breakpoint
+ALTER TABLE "knowledge_embeddings" ADD CONSTRAINT "knowledge_embeddings_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,30 @@
+-- Company price book items and per-category markup rules used to price AI-drafted quotes
+CREATE TABLE IF NOT EXISTS "price_book_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"sku" text,
+	"name" text NOT NULL,
+	"description" text,
+	"category" text DEFAULT 'material' NOT NULL,
+	"unit" text,
+	"cost" double precision,
+	"sell_price" double precision,
+	"markup_percent" double precision,
+	"taxable" boolean DEFAULT true NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "price_book_items_sku_unique" UNIQUE("company_id","sku")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "price_book_markups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"category" text NOT NULL,
+	"markup_percent" double precision NOT NULL,
+	CONSTRAINT "price_book_markups_category_unique" UNIQUE("company_id","category")
+);
+--> statement-breakpoint
+ALTER TABLE "price_book_items" ADD CONSTRAINT "price_book_items_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "price_book_markups" ADD CONSTRAINT "price_book_markups_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,12 @@
+-- Review state and provenance for training examples, so rated chat replies can be curated before fine-tuning
+ALTER TABLE "training_data" ADD COLUMN IF NOT EXISTS "source" text DEFAULT 'manual' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "training_data" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'approved' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "training_data" ADD COLUMN IF NOT EXISTS "rating" text;
+--> statement-breakpoint
+ALTER TABLE "training_data" ADD COLUMN IF NOT EXISTS "original_response" text;
+--> statement-breakpoint
+ALTER TABLE "training_data" ADD COLUMN IF NOT EXISTS "conversation_id" integer;
+--> statement-breakpoint
+ALTER TABLE "training_data" ADD CONSTRAINT "training_data_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,18 @@
+-- Uploaded past quote documents read by AI in the background, before they are confirmed into quotes and training data
+CREATE TABLE IF NOT EXISTS "document_imports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"user_id" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"total_documents" integer NOT NULL,
+	"processed_documents" integer DEFAULT 0 NOT NULL,
+	"documents" jsonb NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"confirmed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "document_imports" ADD CONSTRAINT "document_imports_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "document_imports" ADD CONSTRAINT "document_imports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,47 @@
+-- Golden test cases for the quote drafting prompts, and scored runs of them against candidate prompts and models
+CREATE TABLE IF NOT EXISTS "prompt_eval_cases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"industry_id" integer,
+	"description" text NOT NULL,
+	"expected_line_items" jsonb NOT NULL,
+	"min_total" double precision,
+	"max_total" double precision,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "prompt_eval_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text,
+	"industry_id" integer,
+	"core_prompt_id" integer,
+	"industry_prompt_id" integer,
+	"core_prompt" text,
+	"industry_prompt" text,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"case_ids" integer[] NOT NULL,
+	"completed_cases" integer DEFAULT 0 NOT NULL,
+	"scores" jsonb,
+	"results" jsonb NOT NULL,
+	"error" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "prompt_eval_cases" ADD CONSTRAINT "prompt_eval_cases_industry_id_industries_id_fk" FOREIGN KEY ("industry_id") REFERENCES "public"."industries"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "prompt_eval_cases" ADD CONSTRAINT "prompt_eval_cases_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "prompt_eval_runs" ADD CONSTRAINT "prompt_eval_runs_industry_id_industries_id_fk" FOREIGN KEY ("industry_id") REFERENCES "public"."industries"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "prompt_eval_runs" ADD CONSTRAINT "prompt_eval_runs_core_prompt_id_system_prompts_id_fk" FOREIGN KEY ("core_prompt_id") REFERENCES "public"."system_prompts"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "prompt_eval_runs" ADD CONSTRAINT "prompt_eval_runs_industry_prompt_id_system_prompts_id_fk" FOREIGN KEY ("industry_prompt_id") REFERENCES "public"."system_prompts"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "prompt_eval_runs" ADD CONSTRAINT "prompt_eval_runs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
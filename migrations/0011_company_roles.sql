@@ -0,0 +1,13 @@
+-- Custom per-company roles; users.role holds the role's name
+CREATE TABLE IF NOT EXISTS "company_roles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"permissions" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "company_roles_company_id_name_unique" UNIQUE("company_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "company_roles" ADD CONSTRAINT "company_roles_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,25 @@
+-- Append-only log of who changed what, kept without foreign keys so it outlives the records
+CREATE TABLE IF NOT EXISTS "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"actor_name" text,
+	"company_id" integer,
+	"action" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer,
+	"changes" jsonb NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION "audit_events_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "audit_events_append_only" ON "audit_events";
+--> statement-breakpoint
+CREATE TRIGGER "audit_events_append_only" BEFORE UPDATE OR DELETE ON "audit_events"
+	FOR EACH STATEMENT EXECUTE FUNCTION "audit_events_append_only"();
@@ -0,0 +1,16 @@
+-- TOTP two-factor authentication secrets and hashed backup codes
+CREATE TABLE IF NOT EXISTS "two_factor_credentials" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"secret" text NOT NULL,
+	"backup_codes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_used_step" integer,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp,
+	"enabled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "two_factor_credentials_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "two_factor_credentials" ADD CONSTRAINT "two_factor_credentials_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
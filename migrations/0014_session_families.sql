@@ -0,0 +1,8 @@
+-- Refresh tokens grouped into sessions (one family per login) with the device that holds them
+ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "user_agent" text;
+--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "family_id" uuid DEFAULT gen_random_uuid() NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "session_started_at" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+UPDATE "refresh_tokens" SET "session_started_at" = "created_at";
@@ -2,12 +2,19 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { hasDatabaseConnection } from "./db";
+import { startFinetuneWorker } from "./lib/finetune-runner";
+import { startDocumentImportWorker } from "./lib/document-import";
+import { startPromptEvalWorker } from "./lib/prompt-eval";
+import { startKnowledgeIndexWorker } from "./lib/knowledge-index";
+import { auditContext } from "./lib/audit";
 import path from "path";
 
 const app = express();
 // Increase JSON payload limit to 10MB for handling larger image uploads
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
+// Let the audit trail see which request each change was made in
+app.use(auditContext);
 
 // Add headers to handle Cross-Origin Resource Sharing issues in Chrome
 app.use((req, res, next) => {
@@ -137,5 +144,14 @@ app.use((req, res, next) => {
       log("WARNING: Memory-based session storage may cause memory leaks in production");
       log("For deployment, make sure to set the DATABASE_URL environment variable");
     }
+
+    // Submit and track model fine-tuning jobs in the background
+    startFinetuneWorker();
+    // Read uploaded past quotes in the background
+    startDocumentImportWorker();
+    // Score prompt evaluation runs in the background
+    startPromptEvalWorker();
+    // Embed new and changed quotes and training data for AI chat to look up
+    startKnowledgeIndexWorker();
   });
 })();
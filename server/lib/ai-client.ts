@@ -1,73 +1,56 @@
-import { OpenAI } from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-// AI stream handling
-import { Response } from 'express';
+import { quoteDraftSchema, type PricedLineItem, type QuoteDraft } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  completeValidated,
+  getDefaultProvider,
+  getProvider,
+  resolveModel,
+  type ChatMessage,
+  type CompletionOptions,
+  type LLMProvider,
+  type StructuredOutputSchema,
+  type ValidatedCompletion
+} from './llm-provider';
+import { getFineTuneProvider, type FineTuneHyperparams, type FineTuneJobStatus } from './finetune-providers';
+import type { AttachmentText } from './attachments';
+import { formatKnowledgeContext, searchKnowledge, type KnowledgeMatch } from './knowledge-index';
+import { loadPromptLayers } from './langchain-ai';
+import { LINE_ITEM_JSON_SCHEMA_ITEM, repairLineItems } from './line-item-extraction';
+import { applyPriceBook, formatPriceBookContext, loadPriceBook } from './price-book';
 
-// Initialize clients
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-// Check if AI providers are configured
-export function isConfigured(provider: string): boolean {
-  switch (provider) {
-    case 'openai':
-      return !!process.env.OPENAI_API_KEY;
-    case 'anthropic':
-      return !!process.env.ANTHROPIC_API_KEY;
-    default:
-      return false;
+// Look up a provider by name, defaulting to whichever one is configured
+function providerFor(name?: string): LLMProvider {
+  if (!name) {
+    return getDefaultProvider();
   }
+  
+  const provider = getProvider(name);
+  if (!provider) {
+    throw new Error(`Unsupported provider: ${name}`);
+  }
+  return provider;
 }
 
-// Handle streaming chat completions
-export async function streamingChatCompletion(
-  messages: any[],
+// Handle streaming chat completions, yielding text chunks
+export async function* streamingChatCompletion(
+  messages: ChatMessage[],
   options: {
     provider?: string;
     model?: string;
     temperature?: number;
     maxTokens?: number;
   } = {}
-) {
-  const provider = options.provider || 'openai';
+): AsyncGenerator<string, void, unknown> {
+  const provider = providerFor(options.provider);
   
   try {
-    if (provider === 'openai') {
-      // The newest OpenAI model is "gpt-4o" which was released May 13, 2024
-      const response = await openai.chat.completions.create({
-        model: options.model || 'gpt-4o',
-        messages: messages,
-        temperature: options.temperature || 0.7,
-        max_tokens: options.maxTokens || 1000,
-        stream: true,
-      });
-      
-      // Return the response directly to be handled by the client
-      return response;
-    } 
-    else if (provider === 'anthropic') {
-      // The newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-      const response = await anthropic.messages.create({
-        model: options.model || 'claude-3-7-sonnet-20250219',
-        max_tokens: options.maxTokens || 1000,
-        temperature: options.temperature || 0.7,
-        system: messages.find(m => m.role === 'system')?.content || '',
-        messages: messages.filter(m => m.role !== 'system'),
-        stream: true,
-      });
-      
-      // Return the response directly to be handled by the client
-      return response;
-    }
-    
-    throw new Error(`Unsupported provider: ${provider}`);
+    yield* provider.stream(messages, {
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens
+    });
   } catch (error) {
-    console.error(`Error in ${provider} streaming chat completion:`, error);
+    console.error(`Error in ${provider.name} streaming chat completion:`, error);
     throw error;
   }
 }
@@ -94,7 +77,7 @@ export function validateAndFormatMessages(messages: any[]) {
 
 // Generate text with AI
 export async function generateText(
-  provider: string,
+  provider: string | undefined,
   prompt: string,
   options: {
     systemPrompt?: string;
@@ -104,80 +87,158 @@ export async function generateText(
   } = {}
 ): Promise<string> {
   try {
-    if (provider === 'openai') {
-      const response = await openai.chat.completions.create({
-        model: options.model || 'gpt-4o',
-        messages: [
-          { role: 'system', content: options.systemPrompt || 'You are a helpful assistant.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: options.temperature || 0.7,
-        max_tokens: options.maxTokens || 1000,
-      });
-      
-      return response.choices[0].message.content || '';
-    } 
-    else if (provider === 'anthropic') {
-      const response = await anthropic.messages.create({
-        model: options.model || 'claude-3-7-sonnet-20250219',
-        max_tokens: options.maxTokens || 1000,
-        temperature: options.temperature || 0.7,
-        system: options.systemPrompt || 'You are a helpful assistant.',
-        messages: [{ role: 'user', content: prompt }]
-      });
-      
-      const content = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : '';
-      
-      return content;
-    }
-    
-    throw new Error(`Unsupported provider: ${provider}`);
+    return await providerFor(provider).complete([
+      { role: 'system', content: options.systemPrompt || 'You are a helpful assistant.' },
+      { role: 'user', content: prompt }
+    ], {
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens
+    });
   } catch (error) {
     console.error(`Error generating text with ${provider}:`, error);
     throw error;
   }
 }
 
-// Generate a quote with AI
-export async function generateQuote(
+export interface QuoteGenerationInput {
+  description: string;
+  companyId: number;
+  clientId?: number | null;
+  attachments?: AttachmentText[];
+}
+
+export type GeneratedQuoteDraft = Omit<QuoteDraft, 'lineItems'> & { lineItems: PricedLineItem[] };
+
+export interface QuoteGenerationResult {
+  success: boolean;
+  draft?: GeneratedQuoteDraft;
+  // Line items the price book had no entry for
+  unmatched: string[];
+  warnings: string[];
+  attempts: number;
+  provider: string;
+  error?: string;
+}
+
+// Keeps a long attachment from crowding the description out of the prompt
+const MAX_ATTACHMENT_LENGTH = 12000;
+
+// Mirrors quoteDraftSchema
+const QUOTE_DRAFT_JSON_SCHEMA: StructuredOutputSchema = {
+  name: 'record_quote_draft',
+  description: 'Record a draft quote for the described job',
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Short name for the job' },
+      scope: { type: 'string', description: 'What the job involves, written for the client' },
+      lineItems: { type: 'array', items: LINE_ITEM_JSON_SCHEMA_ITEM },
+      assumptions: { type: 'array', items: { type: 'string' } },
+      exclusions: { type: 'array', items: { type: 'string' } },
+      timeline: { type: ['string', 'null'], description: 'Expected duration or schedule; null if it cannot be estimated' }
+    },
+    required: ['title', 'scope', 'lineItems', 'assumptions', 'exclusions', 'timeline'],
+    additionalProperties: false
+  }
+};
+
+const QUOTE_DRAFT_INSTRUCTIONS = `Draft a complete quote for the job described by the user, using any attached documents.
+- Give every line item a price per unit excluding tax. Use the price book where it has the item, then similar past quotes; otherwise estimate realistically and give the item a low confidence.
+- Put the unit of measure (hour, day, m2, each...) in "unit", not in the description.
+- Category is "labour" for work and time, "material" for supplies and parts, "equipment" for plant, tools and hire, otherwise "other".
+- List the assumptions the prices depend on and what the quote does not cover.`;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string' && !!entry.trim()).map(entry => entry.trim()) : [];
+
+// Fill what the model left out from the request itself, rather than failing the whole draft
+function repairQuoteDraft(description: string) {
+  return (raw: unknown, warnings: string[]): unknown => {
+    const reply = (raw ?? {}) as Record<string, unknown>;
+    const rawItems = reply.lineItems ?? reply.line_items ?? reply.items;
+    const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+    return {
+      title: text(reply.title) ?? description.split(/[.\n]/)[0].trim().slice(0, 80),
+      scope: text(reply.scope) ?? description,
+      lineItems: Array.isArray(rawItems) ? repairLineItems(rawItems, warnings) : rawItems,
+      assumptions: stringList(reply.assumptions),
+      exclusions: stringList(reply.exclusions),
+      timeline: text(reply.timeline) ?? null
+    };
+  };
+}
+
+/**
+ * Ask a model for a quote draft under the given system prompts, before any
+ * pricing from the price book. Shared by quote generation and prompt
+ * evaluation so both exercise the same instructions and schema.
+ */
+export function draftQuote(
+  provider: LLMProvider,
+  options: CompletionOptions,
+  systemPrompts: string[],
   description: string,
-  model: any,
-  additionalContext?: string,
-  systemPrompt?: string
-): Promise<string> {
-  const provider = model?.provider || 'openai';
-  const baseModel = model?.baseModel || (provider === 'openai' ? 'gpt-4o' : 'claude-3-7-sonnet-20250219');
-  
-  const prompt = `
-    Create a detailed quote for this project: "${description}"
-    ${additionalContext ? `\nAdditional context: ${additionalContext}` : ''}
-    
-    Your response should include:
-    1. Line items with descriptions, quantities, and unit prices
-    2. Any assumptions made
-    3. Terms and conditions
-    4. Timeline estimates
-    
-    Format prices as numbers (e.g., use 500 instead of $500) to help with extraction.
-  `;
-  
-  const defaultSystemPrompt = `
-    You are a professional quote creator. Your task is to create detailed, realistic quotes 
-    based on project descriptions. Include all necessary line items, pricing, and terms.
-    Be specific about what's included and what's not. Use industry-standard pricing and terms.
-  `;
-  
-  return generateText(
-    provider,
-    prompt,
-    {
-      model: baseModel,
-      systemPrompt: systemPrompt || defaultSystemPrompt,
-      temperature: 0.7
-    }
+  attachments: string[] = []
+): Promise<ValidatedCompletion<QuoteDraft>> {
+  const messages: ChatMessage[] = [
+    ...systemPrompts.map(content => ({ role: 'system' as const, content })),
+    { role: 'system', content: QUOTE_DRAFT_INSTRUCTIONS },
+    { role: 'user', content: [description, ...attachments].join('\n\n') }
+  ];
+
+  return completeValidated(provider, messages, QUOTE_DRAFT_JSON_SCHEMA, quoteDraftSchema, {
+    completion: options,
+    repair: repairQuoteDraft(description)
+  });
+}
+
+/**
+ * Draft a structured quote from a job description in one step, using the
+ * company's model and hierarchical prompts, the client's history, similar
+ * past work and the price book. Never throws for a bad model reply.
+ */
+export async function generateQuote(input: QuoteGenerationInput): Promise<QuoteGenerationResult> {
+  const { provider, options } = await resolveModel(input.companyId);
+  const description = input.description.trim();
+
+  let knowledge: KnowledgeMatch[] = [];
+  try {
+    knowledge = await searchKnowledge(input.companyId, description);
+  } catch (error) {
+    console.error('Error searching company knowledge, generating without it:', error);
+  }
+
+  const layers = await loadPromptLayers(
+    storage,
+    input.companyId,
+    input.clientId ?? undefined,
+    knowledge.length > 0 ? formatKnowledgeContext(knowledge) : undefined
   );
+  const priceBook = await loadPriceBook(input.companyId);
+
+  const attachments = (input.attachments ?? [])
+    .filter(attachment => attachment.text)
+    .map(attachment => `ATTACHMENT ${attachment.name}:\n${attachment.text.slice(0, MAX_ATTACHMENT_LENGTH)}`);
+
+  const result = await draftQuote(provider, options, [
+    ...layers.map(layer => layer.content),
+    ...(priceBook.length > 0 ? [formatPriceBookContext(priceBook, description)] : [])
+  ], description, attachments);
+  if (!result.success || !result.data) {
+    return { success: false, unmatched: [], warnings: [], attempts: result.attempts, provider: provider.name, error: result.error };
+  }
+
+  const priced = applyPriceBook(result.data.lineItems, priceBook);
+  return {
+    success: true,
+    draft: { ...result.data, lineItems: priced.items },
+    unmatched: priced.unmatched,
+    warnings: [...result.warnings, ...priced.warnings],
+    attempts: result.attempts,
+    provider: provider.name
+  };
 }
 
 // Convert training data to the format expected by the provider
@@ -186,7 +247,8 @@ export function convertTrainingData(
   data: Array<{ prompt: string; response: string }>,
   systemPrompt?: string
 ): any[] {
-  if (provider === 'openai') {
+  // Local OpenAI-compatible servers and the fake provider take the OpenAI chat format
+  if (provider === 'openai' || provider === 'local' || provider === 'fake') {
     return data.map(item => ({
       messages: [
         { role: 'system', content: systemPrompt || 'You are a helpful assistant.' },
@@ -208,143 +270,31 @@ export function convertTrainingData(
   throw new Error(`Unsupported provider: ${provider}`);
 }
 
-// Create a fine-tuning job
+// Submit a converted training set as a fine-tuning job, returning the provider's job ID
 export async function createFineTuningJob(
   provider: string,
   baseModel: string,
   trainingData: any[],
-  hyperparams: any = {}
+  hyperparams: FineTuneHyperparams = {}
 ): Promise<string> {
-  try {
-    if (provider === 'openai') {
-      // In a real implementation, we'd upload these files and get file IDs
-      // For stub purposes, we're returning a mock job ID
-      console.log('Fine-tuning with data:', trainingData.length, 'examples');
-      
-      return `ft-job-${Date.now()}`;
-    }
-    else if (provider === 'anthropic') {
-      // Anthropic doesn't have a direct fine-tuning API yet
-      throw new Error('Fine-tuning not supported for Anthropic');
-    }
-    
-    throw new Error(`Unsupported provider: ${provider}`);
-  } catch (error) {
-    console.error(`Error creating fine-tuning job with ${provider}:`, error);
-    throw error;
+  const finetuneProvider = getFineTuneProvider(provider);
+  if (!finetuneProvider) {
+    throw new Error(`Fine-tuning is not supported for ${provider}`);
+  }
+  if (!finetuneProvider.isConfigured()) {
+    throw new Error(`Fine-tuning provider ${finetuneProvider.name} is not configured`);
   }
+
+  const dataset = trainingData.map(example => JSON.stringify(example)).join('\n');
+  return finetuneProvider.createJob(baseModel, dataset, hyperparams);
 }
 
 // Get fine-tuning job status
-export async function getFineTuningStatus(
-  provider: string,
-  jobId: string
-): Promise<{
-  status: string;
-  model?: string;
-  error?: string;
-  createdAt?: Date;
-  finishedAt?: Date;
-}> {
-  try {
-    if (provider === 'openai') {
-      // For stub purposes, using a mock response
-      console.log('Getting fine-tuning status for job:', jobId);
-      
-      // Generate a deterministic status based on the job ID
-      const jobCreationTime = parseInt(jobId.split('-').pop() || '0', 10);
-      const elapsedTime = Date.now() - jobCreationTime;
-      
-      let status = 'running';
-      if (elapsedTime > 30000) status = 'succeeded';
-      
-      return {
-        status: status,
-        model: `ft:gpt-4o:${jobId}`,
-        createdAt: new Date(jobCreationTime),
-        finishedAt: status === 'succeeded' ? new Date() : undefined,
-        error: undefined
-      };
-    }
-    else if (provider === 'anthropic') {
-      // Anthropic doesn't have a direct fine-tuning API yet
-      throw new Error('Fine-tuning status check not supported for Anthropic');
-    }
-    
-    throw new Error(`Unsupported provider: ${provider}`);
-  } catch (error) {
-    console.error(`Error checking fine-tuning status with ${provider}:`, error);
-    throw error;
+export async function getFineTuningStatus(provider: string, jobId: string): Promise<FineTuneJobStatus> {
+  const finetuneProvider = getFineTuneProvider(provider);
+  if (!finetuneProvider) {
+    throw new Error(`Fine-tuning is not supported for ${provider}`);
   }
-}
 
-export async function extractLineItemsFromText(text: string, provider = 'openai') {
-  try {
-    const systemPrompt = `
-      You are a helpful assistant that extracts structured line items from text.
-      Look for items, quantities, prices, and descriptions.
-      Format your response as a valid JSON array of objects with these properties:
-      - description: string (the item or service description)
-      - quantity: number (the quantity, default to 1 if not specified)
-      - unitPrice: number (the price per unit in dollars)
-      
-      Only respond with the JSON array and nothing else.
-    `;
-    
-    if (provider === 'openai') {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: text }
-        ],
-        temperature: 0.1,
-        response_format: { type: 'json_object' }
-      });
-      
-      const content = response.choices[0].message.content;
-      if (!content) return [];
-      
-      try {
-        const parsed = JSON.parse(content);
-        return Array.isArray(parsed.items) ? parsed.items : [];
-      } catch (e) {
-        console.error('Failed to parse JSON response from OpenAI:', e);
-        return [];
-      }
-    } 
-    else if (provider === 'anthropic') {
-      const response = await anthropic.messages.create({
-        model: 'claude-3-7-sonnet-20250219',
-        max_tokens: 1000,
-        temperature: 0.1,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: text }]
-      });
-      
-      // Handle structured content from Anthropic
-      const content = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : JSON.stringify(response.content[0]);
-      
-      if (!content) return [];
-      
-      try {
-        // Extract JSON from the response in case Claude adds extra text
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) return [];
-        
-        const parsed = JSON.parse(jsonMatch[0]);
-        return Array.isArray(parsed.items) ? parsed.items : [];
-      } catch (e) {
-        console.error('Failed to parse JSON response from Anthropic:', e);
-        return [];
-      }
-    }
-    
-    return [];
-  } catch (error) {
-    console.error('Error extracting line items:', error);
-    return [];
-  }
-}
\ No newline at end of file
+  return finetuneProvider.getJob(jobId);
+}
@@ -1,67 +1,127 @@
-import { OpenAI } from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { createHierarchicalPromptChain } from './langchain-ai';
-import { IStorage } from '../storage';
+import { loadPromptLayers } from './langchain-ai';
+import { hasConfiguredProvider, resolveModel, toChatMessages } from './llm-provider';
+import { storage } from '../storage';
+import { formatKnowledgeCitations, formatKnowledgeContext, searchKnowledge, type KnowledgeMatch } from './knowledge-index';
+import { formatPriceBookContext, loadPriceBook } from './price-book';
+import { canAccessConversation } from './permissions';
+import type { Conversation } from '@shared/schema';
 
-// Initialize clients
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Conversation titles are derived from the opening request until the user renames them
+const DEFAULT_CONVERSATION_TITLE = 'New conversation';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-// Check if AI providers are configured
-export function isProviderConfigured(provider: string): boolean {
-  switch (provider) {
-    case 'openai':
-      return !!process.env.OPENAI_API_KEY;
-    case 'anthropic':
-      return !!process.env.ANTHROPIC_API_KEY;
-    default:
-      return false;
-  }
+function titleFromMessage(content: string): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 60 ? `${singleLine.substring(0, 57)}...` : singleLine;
 }
 
 // Handle streaming chat responses
 export async function handleAIChat(req: any, res: any) {
   console.log('AI Chat handler called');
   
-  // Extract data from request body
-  const { messages, clientId, companyId, systemPrompt } = req.body;
-  
-  console.log(`AI Chat request data: clientId=${clientId}, companyId=${companyId}, hasSystemPrompt=${!!systemPrompt}`);
-  console.log(`Messages count: ${messages?.length || 0}`);
+  // Extract data from request body. Persisted chats send a conversationId and only the new
+  // user turn in `message`; stateless callers still send the whole `messages` array.
+  const { messages, message, conversationId, systemPrompt } = req.body;
   
-  if (!messages || !Array.isArray(messages)) {
-    console.error('Invalid messages format in request:', req.body);
-    return res.status(400).json({ error: "Invalid messages format" });
-  }
+  // Models, prompts and client records only ever come from the signed-in user's own company
+  const companyId: number | undefined = req.user?.companyId ?? undefined;
   
-  // Get the last message from the user
-  const lastMessage = messages[messages.length - 1];
-  if (!lastMessage || lastMessage.role !== 'user') {
-    console.error('Last message must be from user. Last message:', lastMessage);
-    return res.status(400).json({ error: "Last message must be from user" });
-  }
+  console.log(`AI Chat request data: clientId=${req.body.clientId}, companyId=${companyId}, conversationId=${conversationId || 'none'}, hasSystemPrompt=${!!systemPrompt}`);
+  console.log(`Messages count: ${messages?.length || 0}`);
   
-  // Check API key configuration
-  if (!isProviderConfigured('openai') && !isProviderConfigured('anthropic')) {
-    console.error('No AI provider configured. Missing API keys.');
-    return res.status(500).json({ 
-      error: "No AI provider configured. Please add an OpenAI or Anthropic API key."
-    });
-  }
+  let conversation: Conversation | undefined;
+  let chatMessages: { role: string; content: string }[];
   
-  // Set up server-sent events
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
+  // Set once the event stream has started, after which errors are reported in the stream
+  let streaming = false;
   
   try {
+    if (conversationId) {
+      conversation = await storage.getConversation(parseInt(conversationId));
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+    
+      if (!canAccessConversation(req.user, conversation)) {
+        return res.status(403).json({ error: "You do not have permission to access this conversation" });
+      }
+    
+      const newTurn = typeof message === 'string'
+        ? message
+        : Array.isArray(messages) ? messages[messages.length - 1]?.content : undefined;
+    
+      if (!newTurn || !newTurn.trim()) {
+        return res.status(400).json({ error: "Message is required" });
+      }
+    
+      // Rebuild the history from storage rather than trusting the browser's copy
+      const history = await storage.getConversationMessages(conversation.id);
+      chatMessages = [
+        ...history.map(m => ({ role: m.role, content: m.content })),
+        { role: 'user', content: newTurn }
+      ];
+    } else {
+      if (!messages || !Array.isArray(messages)) {
+        console.error('Invalid messages format in request:', req.body);
+        return res.status(400).json({ error: "Invalid messages format" });
+      }
+      chatMessages = messages;
+    }
+    
+    // A conversation keeps the client it was started for; otherwise the client must be one of the company's
+    let clientId: number | undefined;
+    if (conversation) {
+      clientId = conversation.clientId ?? undefined;
+    } else if (req.body.clientId) {
+      const client = await storage.getClient(parseInt(req.body.clientId));
+      if (!client || client.companyId !== companyId) {
+        return res.status(404).json({ error: "Client not found" });
+      }
+      clientId = client.id;
+    }
+    
+    // Get the last message from the user
+    const lastMessage = chatMessages[chatMessages.length - 1];
+    if (!lastMessage || lastMessage.role !== 'user') {
+      console.error('Last message must be from user. Last message:', lastMessage);
+      return res.status(400).json({ error: "Last message must be from user" });
+    }
+    
+    // Check API key configuration
+    if (!hasConfiguredProvider()) {
+      console.error('No AI provider configured. Missing API keys.');
+      return res.status(500).json({ 
+        error: "No AI provider configured. Please add an OpenAI or Anthropic API key."
+      });
+    }
+    
+    // Store the user's turn before generating, so it survives a failed completion
+    if (conversation) {
+      await storage.createConversationMessage({
+        conversationId: conversation.id,
+        role: 'user',
+        content: lastMessage.content
+      });
+    
+      if (conversation.title === DEFAULT_CONVERSATION_TITLE) {
+        await storage.updateConversation(conversation.id, { title: titleFromMessage(lastMessage.content) });
+      }
+    }
+    
+    // Set up server-sent events
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    streaming = true;
+    
+    // Collect the streamed reply so it can be stored with the conversation
+    let assistantReply = '';
+    const writeChunk = (text: string) => {
+      assistantReply += text;
+      res.write(`data: ${JSON.stringify({ text, done: false })}\n\n`);
+    };
+    
     // If a custom system prompt was provided, inject it into the messages
-    let processedMessages = [...messages];
+    let processedMessages = [...chatMessages];
     if (systemPrompt) {
       // Replace any existing system message or add a new one at the beginning
       const hasSystemMsg = processedMessages.some(m => m.role === 'system');
@@ -83,60 +143,73 @@ export async function handleAIChat(req: any, res: any) {
       contentLength: m.content.length,
       preview: m.content.substring(0, 50) + (m.content.length > 50 ? '...' : '')
     })));
-    // Check if we should use hierarchical prompts (requires OpenAI)
-    const useHierarchicalPrompts = 
-      isProviderConfigured('openai') && 
-      (companyId !== undefined);
+    // Pick the provider and model from the company's AI model settings
+    const { provider, options } = await resolveModel(companyId);
+    console.log(`AI Chat using provider=${provider.name}, model=${options.model || provider.defaultModel}`);
     
-    if (useHierarchicalPrompts) {
-      await handleHierarchicalPrompt(req, res, lastMessage.content, companyId, clientId);
-    }
-    // Fall back to the standard AI completion if no hierarchical data or OpenAI not available
-    else if (isProviderConfigured('openai')) {
-      // Create a streaming chat completion with OpenAI
-      const stream = await openai.chat.completions.create({
-        model: 'gpt-4o', // The newest OpenAI model (May 2024)
-        messages: formatMessagesForProvider(messages, 'openai'),
-        temperature: 0.7,
-        stream: true,
-      });
-      
-      // Stream chunks to the client
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        if (content) {
-          res.write(`data: ${JSON.stringify({ text: content, done: false })}\n\n`);
-        }
+    // Look up the company's most similar past quotes and training examples to ground the answer
+    // (only the signed-in user's own company, whatever the request body says)
+    let knowledge: KnowledgeMatch[] = [];
+    if (companyId) {
+      try {
+        knowledge = await searchKnowledge(companyId, lastMessage.content);
+        console.log(`AI Chat retrieved ${knowledge.length} similar past records`);
+      } catch (error) {
+        console.error('Error searching company knowledge, answering without it:', error);
       }
-    } 
-    else if (isProviderConfigured('anthropic')) {
-      // Format messages for Anthropic
-      const systemMessage = messages.find(m => m.role === 'system');
-      const userMessages = messages.filter(m => m.role !== 'system');
-      
-      // Create a streaming chat completion with Anthropic
-      const stream = await anthropic.messages.create({
-        model: 'claude-3-7-sonnet-20250219', // The newest Anthropic model (Feb 2025)
-        system: systemMessage?.content || '',
-        messages: userMessages.map(m => ({ role: m.role, content: m.content })),
-        max_tokens: 1000,
-        temperature: 0.7,
-        stream: true,
-      });
-      
-      // Stream chunks to the client
-      for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-          const content = chunk.delta.text || '';
-          if (content) {
-            res.write(`data: ${JSON.stringify({ text: content, done: false })}\n\n`);
-          }
+    }
+    
+    // Price from the company's own price book rather than guessing
+    let priceBookContext: string | undefined;
+    if (companyId) {
+      try {
+        const priceBook = await loadPriceBook(companyId);
+        if (priceBook.length > 0) {
+          priceBookContext = formatPriceBookContext(priceBook, lastMessage.content);
         }
+      } catch (error) {
+        console.error('Error loading the price book, answering without it:', error);
       }
     }
-    else {
-      // No AI provider configured
-      res.write(`data: ${JSON.stringify({ text: "No AI provider configured. Please add an OpenAI or Anthropic API key.", done: false })}\n\n`);
+    
+    const groundingContext = [
+      priceBookContext,
+      knowledge.length > 0 ? formatKnowledgeContext(knowledge) : undefined
+    ].filter(Boolean).join('\n\n') || undefined;
+    
+    // Every provider gets the company's prompt stack (core, industry, company, client and
+    // grounding) as system messages ahead of the conversation
+    if (companyId !== undefined) {
+      const layers = await loadPromptLayers(storage, companyId, clientId, groundingContext);
+      processedMessages = [
+        ...layers.map(layer => ({ role: 'system', content: layer.content })),
+        ...processedMessages
+      ];
+    }
+    
+    for await (const chunk of provider.stream(toChatMessages(processedMessages), options)) {
+      writeChunk(chunk);
+    }
+    
+    // Cite the past quotes the answer was grounded in, in the reply itself so it's kept with the conversation
+    const citations = formatKnowledgeCitations(knowledge);
+    if (citations) {
+      writeChunk(`\n\n${citations}`);
+    }
+    if (knowledge.length > 0) {
+      res.write(`data: ${JSON.stringify({
+        text: '',
+        done: false,
+        sources: knowledge.map(({ sourceType, sourceId, title, score }) => ({ sourceType, sourceId, title, score }))
+      })}\n\n`);
+    }
+    
+    if (conversation && assistantReply) {
+      await storage.createConversationMessage({
+        conversationId: conversation.id,
+        role: 'assistant',
+        content: assistantReply
+      });
     }
     
     // End the stream
@@ -146,6 +219,10 @@ export async function handleAIChat(req: any, res: any) {
   catch (error) {
     console.error('Error in AI chat endpoint:', error);
     
+    if (!streaming) {
+      return res.status(500).json({ error: "Failed to process chat request" });
+    }
+    
     // Send error message in the stream format
     res.write(`data: ${JSON.stringify({ 
       text: "Sorry, I encountered an error processing your request. Please try again later.", 
@@ -155,121 +232,3 @@ export async function handleAIChat(req: any, res: any) {
     res.end();
   }
 }
-
-// Handle hierarchical prompts using LangChain
-async function handleHierarchicalPrompt(req: any, res: any, userMessage: string, companyId: number, clientId?: number) {
-  try {
-    // Get storage from app
-    const storage: IStorage = req.app.locals.storage;
-    
-    console.log(`Creating hierarchical prompt chain for company=${companyId}, client=${clientId || 'none'}`);
-    
-    // Create the chain with appropriate prompts
-    const chain = await createHierarchicalPromptChain(storage, companyId, clientId);
-    
-    // Stream the response
-    const stream = chain.streamMessage(userMessage);
-    
-    for await (const chunk of stream) {
-      if (chunk) {
-        res.write(`data: ${JSON.stringify({ text: chunk, done: false })}\n\n`);
-      }
-    }
-    
-    console.log('Hierarchical prompt chain completed successfully');
-    return true;
-  } catch (error) {
-    console.error('Error handling hierarchical prompt:', error);
-    res.write(`data: ${JSON.stringify({ 
-      text: "Sorry, I encountered an error processing your hierarchical prompt. Falling back to standard AI.", 
-      done: false 
-    })}\n\n`);
-    return false;
-  }
-}
-
-// Format messages for specific providers
-function formatMessagesForProvider(messages: any[], provider: string) {
-  // Clean and validate messages
-  return messages.map(msg => ({
-    role: msg.role,
-    content: msg.content
-  }));
-}
-
-// Generate line items from conversation
-export async function generateLineItems(conversation: any[]) {
-  try {
-    // Get the full conversation text
-    const conversationText = conversation
-      .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
-      .join('\n\n');
-    
-    // System prompt for extracting line items
-    const systemPrompt = `
-      You are a helpful assistant that extracts structured line items from a conversation.
-      Look for items, quantities, prices, and descriptions in the conversation.
-      Format your response as a valid JSON array of objects with these properties:
-      - description: string (the item or service description)
-      - quantity: number (the quantity, default to 1 if not specified)
-      - unitPrice: number (the price per unit in dollars)
-      
-      Your response should be a JSON object with an "items" key containing the array.
-    `;
-    
-    if (isProviderConfigured('openai')) {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: conversationText }
-        ],
-        temperature: 0.1,
-        response_format: { type: 'json_object' }
-      });
-      
-      const content = response.choices[0].message.content;
-      if (content) {
-        try {
-          const parsed = JSON.parse(content);
-          return parsed.items || [];
-        } catch (e) {
-          console.error('Failed to parse JSON from OpenAI:', e);
-          return [];
-        }
-      }
-    }
-    else if (isProviderConfigured('anthropic')) {
-      const response = await anthropic.messages.create({
-        model: 'claude-3-7-sonnet-20250219',
-        system: systemPrompt,
-        messages: [{ role: 'user', content: conversationText }],
-        max_tokens: 1000,
-        temperature: 0.1,
-      });
-      
-      const content = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : '';
-        
-      if (content) {
-        try {
-          // Extract JSON object from potential text
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            return parsed.items || [];
-          }
-        } catch (e) {
-          console.error('Failed to parse JSON from Anthropic:', e);
-          return [];
-        }
-      }
-    }
-    
-    return [];
-  } catch (error) {
-    console.error('Error generating line items:', error);
-    return [];
-  }
-}
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Plain text from uploaded documents (PDFs, spreadsheets, notes and emails)
+ * so it can be given to the AI as context
+ */
+import path from 'path';
+import pdfParse from 'pdf-parse';
+import { toCsv } from './csv';
+import { readXlsx } from './xlsx';
+
+export interface AttachmentText {
+  name: string;
+  text: string;
+}
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+const TEXT_EXTENSIONS = new Set(['.txt', '.csv', '.md', '.eml', '.json']);
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const isPdf = (file: Pick<UploadedFile, 'originalname' | 'mimetype'>) =>
+  file.mimetype === 'application/pdf' || path.extname(file.originalname).toLowerCase() === '.pdf';
+
+const isXlsx = (file: Pick<UploadedFile, 'originalname' | 'mimetype'>) =>
+  file.mimetype === XLSX_MIME_TYPE || path.extname(file.originalname).toLowerCase() === '.xlsx';
+
+export function isReadableAttachment(file: Pick<UploadedFile, 'originalname' | 'mimetype'>): boolean {
+  return isPdf(file) || isXlsx(file) || file.mimetype.startsWith('text/') || TEXT_EXTENSIONS.has(path.extname(file.originalname).toLowerCase());
+}
+
+/**
+ * Extract a file's text, one entry per sheet for workbooks (as CSV, named
+ * "file.xlsx: Sheet"). Scanned PDFs have no text, so it may be empty.
+ */
+export async function readAttachmentSections(file: UploadedFile): Promise<AttachmentText[]> {
+  if (isXlsx(file)) {
+    const sheets = readXlsx(file.buffer).filter(sheet => sheet.rows.length > 0);
+    return sheets.map(sheet => ({
+      name: sheets.length > 1 ? `${file.originalname}: ${sheet.name}` : file.originalname,
+      text: toCsv(sheet.rows[0], sheet.rows.slice(1), { guardFormulas: false }).trim()
+    }));
+  }
+
+  const text = isPdf(file) ? (await pdfParse(file.buffer)).text : file.buffer.toString('utf-8');
+  return [{ name: file.originalname, text: text.trim() }];
+}
+
+/**
+ * Extract a file's text. Scanned PDFs have none, so the result may be empty.
+ */
+export async function readAttachmentText(file: UploadedFile): Promise<AttachmentText> {
+  const sections = await readAttachmentSections(file);
+  return {
+    name: file.originalname,
+    text: sections.length > 1
+      ? sections.map(section => `${section.name}\n${section.text}`).join('\n\n')
+      : sections[0]?.text ?? ''
+  };
+}
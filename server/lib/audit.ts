@@ -0,0 +1,203 @@
+/**
+ * Audit trail
+ * Records who changed what. The shared storage is wrapped so every audited
+ * create, update and delete appends an audit event holding the fields that
+ * changed; the request being served supplies the actor, IP address and user
+ * agent. Changes made outside a request (background jobs) have no actor.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+import type { AuditChanges, AuditEvent } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { toCsv } from './csv';
+
+type AuditedRecord = { id: number; companyId?: number | null };
+type MutationKind = 'create' | 'update' | 'delete';
+
+interface AuditedMutation {
+  entityType: string;
+  kind: MutationKind;
+  // Reads the record as it was before an update or delete
+  load: (storage: IStorage, id: number) => Promise<AuditedRecord | undefined>;
+  // The owning company, for records without a companyId column
+  companyOf?: (record: AuditedRecord, storage: IStorage) => number | null | Promise<number | null>;
+  // Reads the record again after the change, for methods that don't return it
+  reload?: boolean;
+}
+
+// Never copied into the log, only noted as changed
+const REDACTED_FIELDS = new Set(['password', 'token', 'xeroTokenSet', 'secret', 'backupCodes']);
+// Bookkeeping that changes on its own and would drown out real changes
+const IGNORED_FIELDS = new Set(['updatedAt', 'lastLogin', 'lastUsedStep', 'failedAttempts', 'lastViewedAt']);
+
+const REDACTED = '[redacted]';
+
+const requestContext = new AsyncLocalStorage<Request>();
+
+/**
+ * Middleware that lets the audit trail see the request a change was made in
+ */
+export const auditContext = (req: Request, _res: Response, next: NextFunction) => {
+  requestContext.run(req, next);
+};
+
+function entity(
+  entityType: string,
+  load: AuditedMutation['load'],
+  methods: Partial<Record<MutationKind, keyof IStorage>>,
+  companyOf?: AuditedMutation['companyOf']
+): Record<string, AuditedMutation> {
+  return Object.fromEntries(
+    Object.entries(methods).map(([kind, method]) => [method, { entityType, kind: kind as MutationKind, load, companyOf }])
+  );
+}
+
+// Line items and share links belong to the company of their quote
+const quoteCompany = async (record: AuditedRecord, storage: IStorage) =>
+  (await storage.getQuote((record as AuditedRecord & { quoteId: number }).quoteId))?.companyId ?? null;
+
+// A quote's line items as one record, leaving out the ids and timestamps that replacing them renews
+async function quoteLineItemsOf(storage: IStorage, quoteId: number): Promise<AuditedRecord | undefined> {
+  const quote = await storage.getQuote(quoteId);
+  if (!quote) return undefined;
+
+  const lineItems = (await storage.getQuoteLineItems(quoteId)).map(({ id: _id, quoteId: _quoteId, createdAt: _createdAt, updatedAt: _updatedAt, ...item }) => item);
+  return { id: quote.id, companyId: quote.companyId, lineItems } as AuditedRecord;
+}
+
+// Storage mutations that are recorded, by method name
+const AUDITED_MUTATIONS: Record<string, AuditedMutation> = {
+  ...entity('user', (s, id) => s.getUser(id), { create: 'createUser', update: 'updateUser' }),
+  ...entity('company', (s, id) => s.getCompany(id), { create: 'createCompany', update: 'updateCompany' }, company => company.id),
+  // Keyed by user: enrolling, enabling, using a backup code and turning 2FA off
+  ...entity('two_factor', (s, userId) => s.getTwoFactorCredential(userId), { update: 'saveTwoFactorCredential', delete: 'deleteTwoFactorCredential' }),
+  updateTwoFactorCredential: { entityType: 'two_factor', kind: 'update', load: (s, userId) => s.getTwoFactorCredential(userId) },
+  ...entity('invitation', (s, id) => s.getInvitation(id), { create: 'createInvitation', update: 'updateInvitation' }),
+  ...entity('company_role', (s, id) => s.getCompanyRole(id), { create: 'createCompanyRole', update: 'updateCompanyRole', delete: 'deleteCompanyRole' }),
+  ...entity('client', (s, id) => s.getClient(id), { create: 'createClient', update: 'updateClient', delete: 'deleteClient' }),
+  ...entity('quote', (s, id) => s.getQuote(id), { create: 'createQuote', update: 'updateQuote', delete: 'deleteQuote' }),
+  // Keyed by quote: saving all of a quote's items at once is a change to its lineItems
+  replaceQuoteLineItems: { entityType: 'quote', kind: 'update', load: quoteLineItemsOf, reload: true },
+  ...entity('quote_line_item', (s, id) => s.getQuoteLineItem(id), { create: 'createQuoteLineItem', update: 'updateQuoteLineItem', delete: 'deleteQuoteLineItem' }, quoteCompany),
+  ...entity('quote_share_link', (s, id) => s.getQuoteShareLink(id), { create: 'createQuoteShareLink', update: 'updateQuoteShareLink' }, quoteCompany),
+  ...entity('quote_template', (s, id) => s.getQuoteTemplate(id), { create: 'createQuoteTemplate', update: 'updateQuoteTemplate', delete: 'deleteQuoteTemplate' }),
+  ...entity('price_book_item', (s, id) => s.getPriceBookItem(id), { create: 'createPriceBookItem', update: 'updatePriceBookItem', delete: 'deletePriceBookItem' }),
+  // Training examples are created on every rated reply; reviews and removals are what matter
+  ...entity('training_data', (s, id) => s.getTrainingData(id), { update: 'updateTrainingData', delete: 'deleteTrainingData' }),
+  ...entity('ai_model', (s, id) => s.getAIModel(id), { create: 'createAIModel', update: 'updateAIModel', delete: 'deleteAIModel' }),
+  ...entity('industry', (s, id) => s.getIndustry(id), { create: 'createIndustry', update: 'updateIndustry', delete: 'deleteIndustry' }),
+  ...entity('system_prompt', (s, id) => s.getSystemPrompt(id), { create: 'createSystemPrompt', update: 'updateSystemPrompt', delete: 'deleteSystemPrompt' }),
+  ...entity('prompt_eval_case', (s, id) => s.getPromptEvalCase(id), { create: 'createPromptEvalCase', update: 'updatePromptEvalCase', delete: 'deletePromptEvalCase' }),
+};
+
+export const auditedEntityTypes = Array.from(new Set(Object.values(AUDITED_MUTATIONS).map(mutation => mutation.entityType)));
+
+// A JSON copy of a record with secrets blanked
+function snapshot(record: object, fields = Object.keys(record)): Record<string, unknown> {
+  const values = JSON.parse(JSON.stringify(record));
+  return Object.fromEntries(fields.map(field => [field, REDACTED_FIELDS.has(field) && values[field] != null ? REDACTED : values[field] ?? null]));
+}
+
+/**
+ * The fields that differ between two versions of a record. A missing
+ * version means the record was created or deleted.
+ */
+export function diffRecords(before: object | undefined, after: object | undefined): AuditChanges {
+  if (!before || !after) {
+    return { before: before ? snapshot(before) : null, after: after ? snapshot(after) : null };
+  }
+
+  const oldValues = JSON.parse(JSON.stringify(before));
+  const newValues = JSON.parse(JSON.stringify(after));
+  const changed = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)])).filter(field =>
+    !IGNORED_FIELDS.has(field) && JSON.stringify(oldValues[field]) !== JSON.stringify(newValues[field])
+  );
+
+  return { before: snapshot(before, changed), after: snapshot(after, changed) };
+}
+
+async function recordAuditEvent(
+  storage: IStorage,
+  mutation: AuditedMutation,
+  before: AuditedRecord | undefined,
+  after: AuditedRecord | undefined
+) {
+  const record = (after ?? before)!;
+  const changes = diffRecords(before, after);
+  if (mutation.kind === 'update' && Object.keys(changes.after ?? {}).length === 0) {
+    return;
+  }
+
+  const req = requestContext.getStore();
+  const companyId = mutation.companyOf
+    ? await mutation.companyOf(record, storage)
+    : 'companyId' in record ? record.companyId ?? null : req?.user?.companyId ?? null;
+
+  await storage.createAuditEvent({
+    actorId: req?.user?.id ?? null,
+    actorName: req?.user?.username ?? null,
+    companyId,
+    action: `${mutation.entityType}.${mutation.kind}`,
+    entityType: mutation.entityType,
+    entityId: record.id,
+    changes,
+    ipAddress: req?.ip ?? null,
+    userAgent: req?.get('user-agent') ?? null
+  });
+}
+
+/**
+ * Wrap a storage so audited mutations are recorded. The change itself is
+ * never undone or failed because the audit event could not be written.
+ */
+export function withAuditTrail(target: IStorage): IStorage {
+  return new Proxy(target, {
+    get(obj, property) {
+      const value = Reflect.get(obj, property);
+      if (typeof value !== 'function') return value;
+
+      const mutation = typeof property === 'string' ? AUDITED_MUTATIONS[property] : undefined;
+      if (!mutation) return value.bind(obj);
+
+      return async (...args: unknown[]) => {
+        const before = mutation.kind === 'create' ? undefined : await mutation.load(obj, args[0] as number);
+        const result = await value.apply(obj, args);
+
+        const changed = mutation.kind === 'delete' ? result === true && !!before : !!result;
+        if (changed) {
+          try {
+            const after = mutation.kind === 'delete'
+              ? undefined
+              : mutation.reload ? await mutation.load(obj, args[0] as number) : result as AuditedRecord;
+            await recordAuditEvent(obj, mutation, before, after);
+          } catch (error) {
+            console.error(`Failed to record audit event for ${mutation.entityType}.${mutation.kind}:`, error);
+          }
+        }
+        return result;
+      };
+    }
+  });
+}
+
+/**
+ * Audit events as CSV, one row per event with the changes as JSON
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  return toCsv(
+    ['time', 'actor_id', 'actor', 'company_id', 'action', 'entity_type', 'entity_id', 'before', 'after', 'ip_address', 'user_agent'],
+    events.map(event => [
+      event.createdAt,
+      event.actorId,
+      event.actorName,
+      event.companyId,
+      event.action,
+      event.entityType,
+      event.entityId,
+      event.changes.before ? JSON.stringify(event.changes.before) : '',
+      event.changes.after ? JSON.stringify(event.changes.after) : '',
+      event.ipAddress,
+      event.userAgent
+    ])
+  );
+}
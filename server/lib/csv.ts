@@ -0,0 +1,88 @@
+/**
+ * CSV reading and writing (RFC 4180): quoted fields may contain commas,
+ * quotes and line breaks. Enough for spreadsheet imports and exports without
+ * pulling in a parser.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Excel adds a byte order mark to UTF-8 exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * Parse CSV with a header row into one record per line, keyed by the
+ * lower-cased header with spaces and dashes turned into underscores
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  return rows.map(cells => Object.fromEntries(keys.map((key, i) => [key, unguardFormula((cells[i] ?? '').trim())])));
+}
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Text that would start a formula gets a leading apostrophe, which spreadsheets show as plain text
+const guardFormula = (text: string) => FORMULA_START.test(text) ? `'${text}` : text;
+// Undo guardFormula, so our own exports import unchanged
+const unguardFormula = (text: string) => text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+
+function escapeCsvField(value: unknown, guardFormulas: boolean): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'string' && guardFormulas ? guardFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write CSV. Text that a spreadsheet would run as a formula is escaped unless
+ * guardFormulas is off, for CSV that is only read by the app or a model.
+ */
+export function toCsv(header: string[], rows: unknown[][], { guardFormulas = true } = {}): string {
+  return [header, ...rows]
+    .map(row => row.map(value => escapeCsvField(value, guardFormulas)).join(','))
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,408 @@
+/**
+ * Historical quote import
+ * Past quotes uploaded as PDFs, spreadsheets or CSV are read in the
+ * background: each document's client, date, line items and total are
+ * extracted by the company's model and saved on the import for someone to
+ * check. Confirming the import turns the chosen documents into quotes and
+ * approved training examples. Like the fine-tuning runner, everything the
+ * worker needs is stored on the import, so it resumes after a restart.
+ */
+import {
+  historicalQuoteSchema,
+  type DocumentImport,
+  type HistoricalQuote,
+  type ImportedDocument,
+  type Quote,
+  type QuoteStatus
+} from '@shared/schema';
+import { storage } from '../storage';
+import { completeValidated, resolveModel, type ChatMessage, type StructuredOutputSchema } from './llm-provider';
+import { LINE_ITEM_JSON_SCHEMA_ITEM, repairLineItems, toNumber } from './line-item-extraction';
+import { readAttachmentSections, type UploadedFile } from './attachments';
+import { calculateQuoteAmount, calculateQuoteTotals } from './quote-totals';
+import { recordInitialQuoteStatus } from './quote-status';
+import { createPollingWorker } from './polling-worker';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_MAX_ATTEMPTS = 2;
+// A confirmation that hasn't saved anything for this long (e.g. the server restarted) is given up on
+const CONFIRMING_TIMEOUT_MS = 10 * 60 * 1000;
+// Text given to the model per document; quotes longer than this are usually padded with terms and conditions
+const MAX_DOCUMENT_CHARS = 20000;
+// Most documents (files, or sheets of a workbook) in one import
+export const MAX_IMPORT_DOCUMENTS = 50;
+
+const worker = createPollingWorker('document imports', processImports, 'DOCUMENT_IMPORT_POLL_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS);
+
+export interface HistoricalQuoteExtraction {
+  success: boolean;
+  quote?: HistoricalQuote;
+  warnings: string[];
+  error?: string;
+}
+
+export interface DocumentImportSelection {
+  index: number;
+  quote?: HistoricalQuote; // The extracted quote as corrected by the reviewer
+}
+
+export interface DocumentImportConfirmation {
+  quotes: Quote[];
+  trainingExamples: number;
+}
+
+// Mirrors historicalQuoteSchema
+const HISTORICAL_QUOTE_JSON_SCHEMA: StructuredOutputSchema = {
+  name: 'record_historical_quote',
+  description: 'Record the details of a past quote',
+  schema: {
+    type: 'object',
+    properties: {
+      clientName: { type: ['string', 'null'], description: 'Customer the quote was addressed to' },
+      quoteNumber: { type: ['string', 'null'], description: 'Quote or estimate number as printed' },
+      date: { type: ['string', 'null'], description: 'Date of the quote as YYYY-MM-DD' },
+      description: { type: ['string', 'null'], description: 'One or two sentences on the job that was quoted' },
+      lineItems: { type: 'array', items: LINE_ITEM_JSON_SCHEMA_ITEM },
+      total: { type: ['number', 'null'], description: 'Grand total as printed, without currency symbols' }
+    },
+    required: ['clientName', 'quoteNumber', 'date', 'description', 'lineItems', 'total'],
+    additionalProperties: false
+  }
+};
+
+const SYSTEM_PROMPT = `You read a past quote or estimate (text from a PDF, or a spreadsheet as CSV) and record its details.
+- Copy prices exactly as they appear; never invent an item or a price.
+- Give each line item's price per unit, excluding tax. If only a line total is given, divide it by the quantity.
+- Put the unit of measure (hour, day, m2, each...) in "unit", not in the description.
+- Category is "labour" for work and time, "material" for supplies and parts, "equipment" for plant, tools and hire, otherwise "other".
+- Skip subtotal, tax, discount and total rows; put the grand total in "total".
+- Use null for anything the document doesn't show.`;
+
+// Extracted items carry no tax rate, so this is the total before tax
+const itemsSubtotal = (items: HistoricalQuote['lineItems']) =>
+  calculateQuoteTotals(items.map(item => ({ quantity: item.quantity, unitPrice: item.unitPrice, taxRate: 0 }))).subtotal;
+
+const text = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim()
+    : typeof value === 'number' ? String(value) : null;
+
+// Dates come back as 2024-03-05, 5 March 2024, 03/05/2024 and so on
+function toIsoDate(value: unknown): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+  const parsed = new Date(raw);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+// Accepts items under other names and client details under common synonyms
+function repairHistoricalQuote(raw: unknown, warnings: string[]): unknown {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return raw;
+  }
+  const reply = raw as Record<string, unknown>;
+  const rawItems = reply.lineItems ?? reply.line_items ?? reply.items;
+
+  const date = toIsoDate(reply.date ?? reply.quoteDate);
+  if (!date && (reply.date ?? reply.quoteDate)) {
+    warnings.push(`Couldn't read the date "${reply.date ?? reply.quoteDate}"`);
+  }
+
+  return {
+    clientName: text(reply.clientName ?? reply.client ?? reply.customer ?? reply.customerName),
+    quoteNumber: text(reply.quoteNumber ?? reply.number ?? reply.reference),
+    date,
+    description: text(reply.description ?? reply.scope ?? reply.summary),
+    lineItems: Array.isArray(rawItems) ? repairLineItems(rawItems, warnings) : rawItems,
+    total: toNumber(reply.total ?? reply.grandTotal) ?? null
+  };
+}
+
+/**
+ * Read a past quote from a document's text using the company's model. Never
+ * throws for a bad model reply; the result says what went wrong instead.
+ */
+export async function extractHistoricalQuote(documentText: string, companyId: number): Promise<HistoricalQuoteExtraction> {
+  const { provider, options } = await resolveModel(companyId);
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: documentText }
+  ];
+
+  const result = await completeValidated(provider, messages, HISTORICAL_QUOTE_JSON_SCHEMA, historicalQuoteSchema, {
+    completion: options,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    repair: repairHistoricalQuote
+  });
+  if (!result.success || !result.data) {
+    return { success: false, warnings: result.warnings, error: result.error };
+  }
+
+  const warnings = [...result.warnings];
+  const { lineItems, total } = result.data;
+  if (lineItems.length === 0) {
+    warnings.push('No line items were found');
+  } else if (total !== null) {
+    const itemsTotal = itemsSubtotal(lineItems);
+    // Printed totals usually include tax, so only flag totals the items can't account for
+    if (itemsTotal > total + 0.01) {
+      warnings.push(`Line items add up to ${itemsTotal.toFixed(2)}, more than the total of ${total.toFixed(2)}`);
+    }
+  }
+
+  return { success: true, quote: result.data, warnings };
+}
+
+/**
+ * Read the text of uploaded files, one document per file or per sheet of a
+ * workbook. Files that can't be read become failed documents so they still
+ * show up in the import.
+ */
+export async function readImportDocuments(files: UploadedFile[]): Promise<ImportedDocument[]> {
+  const documents: ImportedDocument[] = [];
+
+  for (const file of files) {
+    try {
+      const sections = await readAttachmentSections(file);
+      if (sections.every(section => !section.text)) {
+        documents.push({ name: file.originalname, text: '', status: 'failed', error: 'No text found; scanned documents are not supported' });
+        continue;
+      }
+      for (const section of sections.filter(section => section.text)) {
+        documents.push({
+          name: section.name,
+          text: section.text.slice(0, MAX_DOCUMENT_CHARS),
+          status: 'pending',
+          ...(section.text.length > MAX_DOCUMENT_CHARS && { warnings: ['Only the start of this document was read'] })
+        });
+      }
+    } catch (error) {
+      documents.push({ name: file.originalname, text: '', status: 'failed', error: `Couldn't read the file: ${(error as Error).message}` });
+    }
+  }
+
+  return documents;
+}
+
+// Extract each pending document in turn, saving after every one so progress can be shown
+async function processImport(documentImport: DocumentImport): Promise<void> {
+  const documents = [...documentImport.documents];
+  let current: DocumentImport | undefined = documentImport;
+
+  if (documentImport.status === 'pending') {
+    current = await storage.updateDocumentImport(documentImport.id, { status: 'processing' });
+  }
+
+  for (let i = 0; i < documents.length && current; i++) {
+    const document = documents[i];
+    if (document.status !== 'pending') continue;
+
+    try {
+      const extraction = await extractHistoricalQuote(document.text, documentImport.companyId);
+      const warnings = [...(document.warnings ?? []), ...extraction.warnings];
+      documents[i] = extraction.success
+        ? { ...document, status: 'extracted', quote: extraction.quote, warnings }
+        : { ...document, status: 'failed', warnings, error: extraction.error || 'Nothing could be extracted' };
+    } catch (error) {
+      documents[i] = { ...document, status: 'failed', error: (error as Error).message };
+    }
+
+    // Stops if the import was discarded while this document was being read
+    current = await storage.updateDocumentImport(documentImport.id, {
+      documents,
+      processedDocuments: documents.filter(d => d.status !== 'pending').length
+    });
+  }
+
+  if (!current) return;
+
+  const extracted = documents.some(d => d.status === 'extracted');
+  await storage.updateDocumentImport(documentImport.id, extracted
+    ? { status: 'ready' }
+    : { status: 'failed', error: 'None of the documents could be read' });
+}
+
+// Hand stalled confirmations back so the import can be confirmed again
+async function releaseStaleConfirmations(): Promise<void> {
+  for (const documentImport of await storage.getDocumentImportsByStatus('confirming')) {
+    if (Date.now() - new Date(documentImport.updatedAt).getTime() > CONFIRMING_TIMEOUT_MS) {
+      await storage.updateDocumentImport(documentImport.id, { status: 'ready' }, { status: 'confirming', updatedAt: documentImport.updatedAt });
+    }
+  }
+}
+
+async function processImports(): Promise<void> {
+  await releaseStaleConfirmations();
+
+  const imports = [
+    ...await storage.getDocumentImportsByStatus('processing'),
+    ...await storage.getDocumentImportsByStatus('pending')
+  ];
+
+  for (const documentImport of imports) {
+    try {
+      await processImport(documentImport);
+    } catch (error) {
+      console.error(`Document import ${documentImport.id} failed:`, error);
+      await storage.updateDocumentImport(documentImport.id, { status: 'failed', error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Run one pass over pending and unfinished imports. Overlapping calls share
+ * the pass already under way.
+ */
+export function processDocumentImports(): Promise<void> {
+  return worker.run();
+}
+
+/**
+ * Save uploaded documents as a new import and start reading them
+ */
+export async function startDocumentImport(companyId: number, userId: number, files: UploadedFile[]): Promise<DocumentImport> {
+  const documents = await readImportDocuments(files);
+  const pending = documents.some(document => document.status === 'pending');
+
+  const documentImport = await storage.createDocumentImport({
+    companyId,
+    userId,
+    status: pending ? 'pending' : 'failed',
+    totalDocuments: documents.length,
+    processedDocuments: documents.filter(document => document.status !== 'pending').length,
+    documents,
+    error: pending ? null : 'None of the documents could be read'
+  });
+
+  if (pending) {
+    void processDocumentImports();
+  }
+  return documentImport;
+}
+
+const formatMoney = (value: number) => value.toFixed(2);
+
+// The quote as the AI should learn to answer it: the job as asked for, and the priced items
+function toTrainingExample(quote: HistoricalQuote, clientName: string): { prompt: string; response: string } {
+  const prompt = quote.description
+    ? `Quote for ${clientName}: ${quote.description}`
+    : `Quote for ${clientName} covering ${quote.lineItems.map(item => item.description.toLowerCase()).join(', ')}`;
+
+  const lines = quote.lineItems.map(item =>
+    `- ${item.description}: ${item.quantity}${item.unit ? ` ${item.unit}` : ''} × $${formatMoney(item.unitPrice)}`);
+  const total = quote.total ?? itemsSubtotal(quote.lineItems);
+
+  return { prompt, response: [...lines, '', `Total: $${formatMoney(total)}`].join('\n') };
+}
+
+/**
+ * Turn the chosen documents of an import into quotes for the company, with a
+ * training example for each quote that has line items. Existing clients are
+ * matched by name and the document's quote number is kept when it is free.
+ *
+ * Returns undefined when the import is no longer ready, e.g. because another
+ * confirmation got there first. Each document is marked with its quote once
+ * the quote, its line items and its training example are saved, and a quote
+ * that fails partway is removed again, so an import that fails partway can be
+ * confirmed again without duplicating the quotes already made.
+ */
+export async function confirmDocumentImport(
+  documentImport: DocumentImport,
+  userId: number,
+  selections: DocumentImportSelection[],
+  status: QuoteStatus
+): Promise<DocumentImportConfirmation | undefined> {
+  const claimed = await storage.updateDocumentImport(documentImport.id, { status: 'confirming' }, { status: 'ready' });
+  if (!claimed) {
+    return undefined;
+  }
+
+  try {
+    const result = await createImportedQuotes(claimed, userId, selections, status);
+    await storage.updateDocumentImport(documentImport.id, { status: 'confirmed', confirmedAt: new Date() });
+    return result;
+  } catch (error) {
+    await storage.updateDocumentImport(documentImport.id, { status: 'ready' });
+    throw error;
+  }
+}
+
+async function createImportedQuotes(
+  documentImport: DocumentImport,
+  userId: number,
+  selections: DocumentImportSelection[],
+  status: QuoteStatus
+): Promise<DocumentImportConfirmation> {
+  const companyId = documentImport.companyId;
+  const clients = await storage.getClientsByCompanyId(companyId);
+  const documents = [...documentImport.documents];
+  const result: DocumentImportConfirmation = { quotes: [], trainingExamples: 0 };
+
+  for (const selection of selections) {
+    const document = documents[selection.index];
+    const historical = selection.quote ?? document?.quote;
+    if (!document || !historical || document.quoteId) continue;
+
+    const client = historical.clientName
+      ? clients.find(c => c.companyName.trim().toLowerCase() === historical.clientName!.toLowerCase())
+      : undefined;
+    const clientName = client?.companyName ?? historical.clientName ?? 'Unknown client';
+    const numberTaken = historical.quoteNumber
+      ? !!(await storage.getQuoteByNumber(companyId, historical.quoteNumber))
+      : true;
+
+    const quote = await storage.createQuote({
+      ...(!numberTaken && { quoteNumber: historical.quoteNumber! }),
+      clientId: client?.id ?? null,
+      clientName,
+      description: historical.description,
+      date: historical.date ? new Date(historical.date) : new Date(),
+      status,
+      userId,
+      companyId
+    });
+
+    try {
+      const items = await storage.replaceQuoteLineItems(quote.id, historical.lineItems.map((item, index) => ({
+        quoteId: quote.id,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        unit: item.unit,
+        category: item.category,
+        sortOrder: index
+      })));
+      await recordInitialQuoteStatus(quote, { userId, source: 'system', note: `Imported from ${document.name}` });
+
+      const amount = items.length > 0 ? calculateQuoteAmount(items) : historical.total ?? 0;
+      result.quotes.push((await storage.updateQuote(quote.id, { amount })) ?? quote);
+
+      if (historical.lineItems.length > 0) {
+        await storage.createTrainingData({
+          ...toTrainingExample(historical, clientName),
+          category: 'historical_quote',
+          source: 'document',
+          status: 'approved',
+          userId,
+          companyId
+        });
+        result.trainingExamples++;
+      }
+    } catch (error) {
+      await storage.deleteQuote(quote.id);
+      throw error;
+    }
+
+    documents[selection.index] = { ...document, quote: historical, quoteId: quote.id };
+    await storage.updateDocumentImport(documentImport.id, { documents });
+  }
+
+  return result;
+}
+
+/**
+ * Start reading imports in the background, every DOCUMENT_IMPORT_POLL_INTERVAL_MS
+ */
+export function startDocumentImportWorker(): void {
+  worker.start();
+}
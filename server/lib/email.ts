@@ -1,4 +1,8 @@
-import * as mailgun from 'mailgun-js';
+import mailgun from 'mailgun-js';
+import nodemailer, { type Transporter } from 'nodemailer';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
 
 // Email sending options interface
 export interface EmailOptions {
@@ -7,6 +11,45 @@ export interface EmailOptions {
   subject: string;
   html?: string;
   text?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+/**
+ * Result of handing a message to a transport. Messages the console fallback
+ * only logged are not delivered.
+ */
+export interface EmailDeliveryResult {
+  transport: string;
+  messageId?: string;
+  delivered: boolean;
+}
+
+/**
+ * Something that can deliver an email: a provider API, an SMTP server, or a
+ * local sink for development and tests
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailOptions): Promise<{ messageId?: string }>;
+}
+
+/**
+ * Options for inviting someone to join a company
+ */
+export interface InvitationEmailOptions {
+  to: string;
+  companyName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+  expiresAt: Date;
 }
 
 /**
@@ -19,45 +62,165 @@ export interface PasswordResetEmailOptions {
   resetUrl: string;
 }
 
+// Mailgun HTTP API, configured with MAILGUN_API_KEY and MAILGUN_DOMAIN
+class MailgunTransport implements EmailTransport {
+  readonly name = 'mailgun';
+
+  async send(message: EmailOptions) {
+    const mg = mailgun({
+      apiKey: process.env.MAILGUN_API_KEY!,
+      domain: process.env.MAILGUN_DOMAIN!
+    });
+
+    const response = await mg.messages().send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text || convertHtmlToText(message.html || ''),
+      'h:Reply-To': message.replyTo,
+      attachment: message.attachments?.map(attachment => new mg.Attachment({
+        data: attachment.content,
+        filename: attachment.filename,
+        contentType: attachment.contentType
+      }))
+    });
+
+    return { messageId: response.id };
+  }
+}
+
+// Any SMTP server, configured with SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD and SMTP_SECURE
+class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter?: Transporter;
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const port = parseInt(process.env.SMTP_PORT || '587', 10);
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+          : undefined
+      });
+    }
+    return this.transporter;
+  }
+
+  async send(message: EmailOptions) {
+    const info = await this.getTransporter().sendMail({
+      from: message.from,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      html: message.html,
+      text: message.text || convertHtmlToText(message.html || ''),
+      attachments: message.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        contentType: attachment.contentType
+      }))
+    });
+
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Development sink. "file" writes each message and its attachments to
+ * EMAIL_OUTBOX_DIR (default a folder under the OS temp dir); "console" only logs it.
+ */
+class LocalTransport implements EmailTransport {
+  constructor(readonly name: 'file' | 'console') {}
+
+  async send(message: EmailOptions) {
+    const messageId = `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    if (this.name === 'file') {
+      const dir = path.join(process.env.EMAIL_OUTBOX_DIR || path.join(os.tmpdir(), 'email-outbox'), messageId);
+      await fs.promises.mkdir(dir, { recursive: true });
+
+      const { attachments, ...envelope } = message;
+      await fs.promises.writeFile(
+        path.join(dir, 'message.json'),
+        JSON.stringify({ ...envelope, attachments: attachments?.map(a => a.filename) || [] }, null, 2)
+      );
+      for (const attachment of attachments || []) {
+        await fs.promises.writeFile(path.join(dir, path.basename(attachment.filename)), attachment.content);
+      }
+      console.log(`Email to ${message.to} written to ${dir}`);
+      return { messageId };
+    }
+
+    console.log('=============================================');
+    console.log('DEVELOPMENT EMAIL (no email transport configured):');
+    console.log('To:', message.to);
+    console.log('From:', message.from);
+    console.log('Subject:', message.subject);
+    // Bodies can carry sign-in links (password resets, invitations), so production logs only get the envelope
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('Content:', message.html || message.text);
+    }
+    if (message.attachments?.length) {
+      console.log('Attachments:', message.attachments.map(a => `${a.filename} (${a.content.length} bytes)`).join(', '));
+    }
+    console.log('=============================================');
+    return { messageId };
+  }
+}
+
+const transports: Record<string, EmailTransport> = {
+  mailgun: new MailgunTransport(),
+  smtp: new SmtpTransport(),
+  file: new LocalTransport('file'),
+  console: new LocalTransport('console')
+};
+
+/**
+ * The transport named by EMAIL_TRANSPORT, otherwise Mailgun or SMTP when
+ * configured, falling back to logging to the console
+ */
+export function getEmailTransport(): EmailTransport {
+  const preferred = process.env.EMAIL_TRANSPORT;
+  if (preferred) {
+    if (transports[preferred]) {
+      return transports[preferred];
+    }
+    console.warn(`EMAIL_TRANSPORT "${preferred}" is not supported, falling back`);
+  }
+
+  if (process.env.MAILGUN_API_KEY && process.env.MAILGUN_DOMAIN) {
+    return transports.mailgun;
+  }
+  if (process.env.SMTP_HOST) {
+    return transports.smtp;
+  }
+  return transports.console;
+}
+
+/**
+ * Deliver an email through the configured transport, throwing if it fails.
+ * With no transport configured the message is only logged and reported as
+ * not delivered.
+ */
+export async function deliverEmail(options: EmailOptions): Promise<EmailDeliveryResult> {
+  const transport = getEmailTransport();
+  const { messageId } = await transport.send(options);
+  return { transport: transport.name, messageId, delivered: transport.name !== 'console' };
+}
+
 /**
- * Send an email using Mailgun
+ * Send an email using the configured transport
  * 
  * @param options Email options including to, from, subject, and content
  * @returns A promise that resolves when the email is sent
  */
 export async function sendEmail(options: EmailOptions): Promise<boolean> {
   try {
-    // Check if Mailgun API key is configured
-    if (!process.env.MAILGUN_API_KEY || !process.env.MAILGUN_DOMAIN) {
-      // For development, log to console
-      console.log('=============================================');
-      console.log('DEVELOPMENT EMAIL (Mailgun not configured):');
-      console.log('To:', options.to);
-      console.log('From:', options.from);
-      console.log('Subject:', options.subject);
-      console.log('Content:', options.html || options.text);
-      console.log('=============================================');
-      return true;
-    }
-
-    // Initialize Mailgun with API key and domain
-    const mg = mailgun({
-      apiKey: process.env.MAILGUN_API_KEY,
-      domain: process.env.MAILGUN_DOMAIN
-    });
-
-    // Prepare email data
-    const data = {
-      from: options.from,
-      to: options.to,
-      subject: options.subject,
-      html: options.html,
-      text: options.text || convertHtmlToText(options.html || '')
-    };
-
-    // Send the email
-    await mg.messages().send(data);
-    return true;
+    return (await deliverEmail(options)).delivered;
   } catch (error) {
     console.error('Error sending email:', error);
     return false;
@@ -141,4 +304,224 @@ If you didn't request a password reset, please ignore this email or contact supp
     html,
     text
   });
-}
\ No newline at end of file
+}
+/**
+ * Options for emailing a quote to a client
+ */
+export interface QuoteEmailOptions {
+  to: string;
+  companyName: string;
+  senderName: string;
+  replyTo?: string;
+  recipientName: string;
+  quoteNumber: string;
+  total: string; // Already formatted for display
+  viewUrl: string;
+  message?: string; // Personal note from the sender
+  pdf: EmailAttachment;
+}
+
+/**
+ * Compose the email that delivers a quote to a client, with a link to the
+ * online portal and the PDF attached
+ * 
+ * @param options Quote details and the sender's personal note
+ * @returns The message, ready for deliverEmail
+ */
+export function buildQuoteEmail(options: QuoteEmailOptions): EmailOptions {
+  const senderEmail = process.env.SYSTEM_EMAIL || 'noreply@pricebetter.ai';
+  const note = options.message?.trim();
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background-color: #f8f9fa; padding: 20px; text-align: center;">
+        <h1 style="color: #333;">${escapeHtml(options.companyName)}</h1>
+      </div>
+      <div style="padding: 20px; border: 1px solid #e9ecef; border-top: none;">
+        <p>Hello ${escapeHtml(options.recipientName)},</p>
+        ${note ? `<p style="white-space: pre-line;">${escapeHtml(note)}</p>` : `<p>Please find our quote ${escapeHtml(options.quoteNumber)} attached.</p>`}
+        <p>Quote ${escapeHtml(options.quoteNumber)} &mdash; total <strong>${escapeHtml(options.total)}</strong></p>
+        <p>You can review the quote online and accept or decline it there:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(options.viewUrl)}" 
+             style="background-color: #000; color: #fff; padding: 12px 20px; text-decoration: none; border-radius: 4px; display: inline-block; font-weight: bold;">
+            View Quote
+          </a>
+        </div>
+        <p>Or copy and paste the following link into your browser:</p>
+        <p style="word-break: break-all; color: #0066cc;">${escapeHtml(options.viewUrl)}</p>
+        <p>Kind regards,<br>${escapeHtml(options.senderName)}<br>${escapeHtml(options.companyName)}</p>
+      </div>
+    </div>
+  `;
+  
+  const text = `
+Hello ${options.recipientName},
+
+${note || `Please find our quote ${options.quoteNumber} attached.`}
+
+Quote ${options.quoteNumber} - total ${options.total}
+
+You can review the quote online and accept or decline it here:
+${options.viewUrl}
+
+Kind regards,
+${options.senderName}
+${options.companyName}
+  `;
+  
+  return {
+    to: options.to,
+    from: `${options.companyName} <${senderEmail}>`,
+    replyTo: options.replyTo,
+    subject: `Quote ${options.quoteNumber} from ${options.companyName}`,
+    html,
+    text,
+    attachments: [options.pdf]
+  };
+}
+
+/**
+ * Options for telling a quote owner that their customer responded
+ */
+export interface QuoteResponseEmailOptions {
+  to: string;
+  ownerName: string;
+  quoteNumber: string;
+  clientName: string;
+  response: 'accepted' | 'declined';
+  signatureName?: string;
+  declineReason?: string;
+  respondedAt: Date;
+  quoteUrl?: string;
+}
+
+/**
+ * Notify a quote's owner that the customer accepted or declined it through the portal
+ * 
+ * @param options Details of the quote and the customer's response
+ * @returns A promise that resolves to a boolean indicating success or failure
+ */
+export async function sendQuoteResponseEmail(options: QuoteResponseEmailOptions): Promise<boolean> {
+  const appName = process.env.APP_NAME || 'PriceBetter.ai';
+  const senderEmail = process.env.SYSTEM_EMAIL || 'noreply@pricebetter.ai';
+  const accepted = options.response === 'accepted';
+  const when = options.respondedAt.toUTCString();
+  
+  const detail = accepted
+    ? `Signed by: ${options.signatureName}`
+    : `Reason: ${options.declineReason || 'No reason given'}`;
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background-color: #f8f9fa; padding: 20px; text-align: center;">
+        <h1 style="color: #333;">${appName}</h1>
+      </div>
+      <div style="padding: 20px; border: 1px solid #e9ecef; border-top: none;">
+        <p>Hello ${escapeHtml(options.ownerName)},</p>
+        <p>${escapeHtml(options.clientName)} has <strong>${options.response}</strong> quote ${escapeHtml(options.quoteNumber)}.</p>
+        <p>${escapeHtml(detail)}<br>${when}</p>
+        ${options.quoteUrl ? `<div style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(options.quoteUrl)}" 
+             style="background-color: #000; color: #fff; padding: 12px 20px; text-decoration: none; border-radius: 4px; display: inline-block; font-weight: bold;">
+            View Quote
+          </a>
+        </div>` : ''}
+        <p>Thank you,<br>The ${appName} Team</p>
+      </div>
+    </div>
+  `;
+  
+  const text = `
+Hello ${options.ownerName},
+
+${options.clientName} has ${options.response} quote ${options.quoteNumber}.
+
+${detail}
+${when}
+${options.quoteUrl ? `\nView the quote: ${options.quoteUrl}\n` : ''}
+Thank you,
+The ${appName} Team
+  `;
+  
+  return sendEmail({
+    to: options.to,
+    from: `${appName} <${senderEmail}>`,
+    subject: `Quote ${options.quoteNumber} ${accepted ? 'accepted' : 'declined'} by ${options.clientName}`,
+    html,
+    text
+  });
+}
+
+/**
+ * Escape customer-supplied text before placing it in an email body
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Invite someone to join a company's team
+ * 
+ * @param options The company, who sent the invitation and the link to accept it
+ * @returns A promise that resolves to a boolean indicating success or failure
+ */
+export async function sendInvitationEmail(options: InvitationEmailOptions): Promise<boolean> {
+  const appName = process.env.APP_NAME || 'PriceBetter.ai';
+  const senderEmail = process.env.SYSTEM_EMAIL || 'noreply@pricebetter.ai';
+  const role = options.role === 'owner' ? 'an owner' : 'a team member';
+  const expires = options.expiresAt.toUTCString();
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background-color: #f8f9fa; padding: 20px; text-align: center;">
+        <h1 style="color: #333;">${appName}</h1>
+      </div>
+      <div style="padding: 20px; border: 1px solid #e9ecef; border-top: none;">
+        <p>Hello,</p>
+        <p>${escapeHtml(options.inviterName)} has invited you to join <strong>${escapeHtml(options.companyName)}</strong> on ${appName} as ${role}.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(options.acceptUrl)}" 
+             style="background-color: #000; color: #fff; padding: 12px 20px; text-decoration: none; border-radius: 4px; display: inline-block; font-weight: bold;">
+            Accept Invitation
+          </a>
+        </div>
+        <p>Or copy and paste the following link into your browser:</p>
+        <p style="word-break: break-all; color: #0066cc;">${escapeHtml(options.acceptUrl)}</p>
+        <p>This invitation expires on ${expires}.</p>
+        <p>Thank you,<br>The ${appName} Team</p>
+      </div>
+      <div style="background-color: #f8f9fa; padding: 15px; text-align: center; font-size: 12px; color: #6c757d;">
+        <p>If you weren't expecting this invitation, you can ignore this email.</p>
+      </div>
+    </div>
+  `;
+  
+  const text = `
+Hello,
+
+${options.inviterName} has invited you to join ${options.companyName} on ${appName} as ${role}.
+
+To accept, visit the following link:
+${options.acceptUrl}
+
+This invitation expires on ${expires}.
+
+Thank you,
+The ${appName} Team
+
+If you weren't expecting this invitation, you can ignore this email.
+  `;
+  
+  return sendEmail({
+    to: options.to,
+    from: `${appName} <${senderEmail}>`,
+    subject: `${options.inviterName} invited you to join ${options.companyName}`,
+    html,
+    text
+  });
+}
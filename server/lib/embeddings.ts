@@ -0,0 +1,158 @@
+/**
+ * Embedding providers
+ * Turn text into vectors for similarity search. OpenAI embeddings are used
+ * when a key is configured; otherwise a deterministic hashing embedder works
+ * offline, so retrieval behaves the same in development and tests.
+ */
+import { OpenAI } from 'openai';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Identifies the vector space; vectors from different models can't be compared
+  readonly model: string;
+  // Cosine similarity below which a match is unlikely to be related, in this model's vector space
+  readonly relevanceThreshold: number;
+  isConfigured(): boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const EMBED_BATCH_SIZE = 100;
+
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly relevanceThreshold = 0.3;
+  private client?: OpenAI;
+
+  get model(): string {
+    return process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const response = await this.getClient().embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + EMBED_BATCH_SIZE)
+      });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+    return vectors;
+  }
+}
+
+const HASH_DIMENSIONS = 512;
+
+// 32-bit FNV-1a, so the same token always lands in the same dimension
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Words too common to say anything about what a job is
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'me', 'much', 'my', 'of', 'on', 'or', 'our', 'please', 'quote', 'so', 'some',
+  'that', 'the', 'this', 'to', 'us', 'we', 'what', 'with', 'would', 'you', 'your'
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:\.[0-9]+)?/g) || []).filter(token => !STOP_WORDS.has(token));
+}
+
+// Word tokens with simple plurals folded, so "tiles" matches "tile"
+export function matchTokens(text: string): Set<string> {
+  return new Set(tokenize(text).map(token => token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Offline embedder using feature hashing: words and word pairs are hashed into
+ * a fixed number of dimensions and the vector is normalised. It only captures
+ * shared vocabulary, not meaning, but it is fast, free and deterministic.
+ */
+class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash';
+  readonly model = `hash-${HASH_DIMENSIONS}`;
+  readonly relevanceThreshold = 0.1;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign, so unrelated features tend to cancel out rather than pile up
+      vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+}
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+/**
+ * Add or replace an embedding provider, e.g. to register a test double
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProviders.set(provider.name, provider);
+}
+
+registerEmbeddingProvider(new OpenAIEmbeddingProvider());
+registerEmbeddingProvider(new HashingEmbeddingProvider());
+
+/**
+ * The provider named by EMBEDDING_PROVIDER, else OpenAI when it has a key,
+ * else the offline hashing embedder
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const preferred = process.env.EMBEDDING_PROVIDER;
+  if (preferred) {
+    const provider = embeddingProviders.get(preferred);
+    if (provider?.isConfigured()) {
+      return provider;
+    }
+    console.warn(`EMBEDDING_PROVIDER "${preferred}" is not registered or not configured, falling back`);
+  }
+
+  const openai = embeddingProviders.get('openai');
+  return openai?.isConfigured() ? openai : embeddingProviders.get('hash')!;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
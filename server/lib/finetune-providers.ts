@@ -0,0 +1,197 @@
+/**
+ * Fine-tuning providers
+ * Adapters that submit a JSONL training dataset to a vendor and report on the
+ * resulting job. The fine-tuning runner only talks to this interface, so the
+ * whole lifecycle can run offline against the mock provider.
+ */
+import { OpenAI, toFile } from 'openai';
+
+export type FineTuneJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface FineTuneHyperparams {
+  epochs?: number;
+  batchSize?: number;
+  learningRateMultiplier?: number;
+}
+
+export interface FineTuneJobStatus {
+  state: FineTuneJobState;
+  progress: number; // 0-100
+  fineTunedModel?: string;
+  metrics?: Record<string, number>;
+  error?: string;
+}
+
+export interface FineTuneProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  createJob(baseModel: string, dataset: string, hyperparams?: FineTuneHyperparams): Promise<string>;
+  getJob(jobId: string): Promise<FineTuneJobStatus>;
+}
+
+// Check each JSONL line is a chat example with at least a user and an assistant turn
+export function validateChatDataset(dataset: string): number {
+  const lines = dataset.split('\n').filter(line => line.trim());
+  if (lines.length === 0) {
+    throw new Error('Training dataset is empty');
+  }
+
+  lines.forEach((line, index) => {
+    let example: { messages?: Array<{ role: string; content: string }> };
+    try {
+      example = JSON.parse(line);
+    } catch {
+      throw new Error(`Training example ${index + 1} is not valid JSON`);
+    }
+
+    const roles = new Set((example.messages || []).filter(m => m.content?.trim()).map(m => m.role));
+    if (!roles.has('user') || !roles.has('assistant')) {
+      throw new Error(`Training example ${index + 1} needs a user prompt and an assistant response`);
+    }
+  });
+
+  return lines.length;
+}
+
+/**
+ * OpenAI fine-tuning: upload the dataset as a file, then start a job on it.
+ * Progress comes from the step counts in the job's metrics events.
+ */
+class OpenAIFineTuneProvider implements FineTuneProvider {
+  readonly name = 'openai';
+  private client?: OpenAI;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+
+  async createJob(baseModel: string, dataset: string, hyperparams: FineTuneHyperparams = {}): Promise<string> {
+    validateChatDataset(dataset);
+
+    const file = await this.getClient().files.create({
+      file: await toFile(Buffer.from(dataset, 'utf-8'), 'training.jsonl'),
+      purpose: 'fine-tune'
+    });
+
+    const job = await this.getClient().fineTuning.jobs.create({
+      model: baseModel,
+      training_file: file.id,
+      hyperparameters: {
+        n_epochs: hyperparams.epochs,
+        batch_size: hyperparams.batchSize,
+        learning_rate_multiplier: hyperparams.learningRateMultiplier
+      }
+    });
+
+    return job.id;
+  }
+
+  async getJob(jobId: string): Promise<FineTuneJobStatus> {
+    const job = await this.getClient().fineTuning.jobs.retrieve(jobId);
+
+    const metrics: Record<string, number> = {};
+    let progress = job.status === 'succeeded' ? 100 : 0;
+
+    // Events are newest first; the latest metrics event has the current step
+    const events = await this.getClient().fineTuning.jobs.listEvents(jobId, { limit: 20 });
+    const latest = events.data.find(event => event.type === 'metrics');
+    const data = latest?.data as { step?: number; total_steps?: number; train_loss?: number } | undefined;
+    if (data?.step && data.total_steps) {
+      progress = Math.max(progress, Math.round((data.step / data.total_steps) * 100));
+      metrics.step = data.step;
+      metrics.totalSteps = data.total_steps;
+    }
+    if (typeof data?.train_loss === 'number') metrics.trainingLoss = data.train_loss;
+    if (job.trained_tokens) metrics.trainedTokens = job.trained_tokens;
+
+    return {
+      state: job.status === 'validating_files' ? 'queued' : job.status,
+      progress,
+      fineTunedModel: job.fine_tuned_model || undefined,
+      metrics,
+      error: job.error?.message || undefined
+    };
+  }
+}
+
+/**
+ * Offline stand-in that trains nothing. The job ID records when the job
+ * started and how big it is, so its progress can be worked out after a server
+ * restart without keeping any state. Jobs take FINETUNE_MOCK_DURATION_MS to finish.
+ */
+class MockFineTuneProvider implements FineTuneProvider {
+  readonly name = 'mock';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private get duration(): number {
+    return parseInt(process.env.FINETUNE_MOCK_DURATION_MS || '', 10) || 20000;
+  }
+
+  async createJob(baseModel: string, dataset: string, hyperparams: FineTuneHyperparams = {}): Promise<string> {
+    const examples = validateChatDataset(dataset);
+    const model = baseModel.replace(/[^a-zA-Z0-9.]+/g, '_');
+    return `mockft-${Date.now()}-${examples}-${hyperparams.epochs || 3}-${model}`;
+  }
+
+  async getJob(jobId: string): Promise<FineTuneJobStatus> {
+    const match = /^mockft-(\d+)-(\d+)-(\d+)-(.+)$/.exec(jobId);
+    if (!match) {
+      throw new Error(`Unknown mock fine-tuning job: ${jobId}`);
+    }
+
+    const [, startedAt, examples, epochs, model] = match;
+    const fraction = Math.min(1, Math.max(0, (Date.now() - parseInt(startedAt, 10)) / this.duration));
+    const totalSteps = parseInt(examples, 10) * parseInt(epochs, 10);
+
+    return {
+      state: fraction >= 1 ? 'succeeded' : 'running',
+      progress: Math.round(fraction * 100),
+      fineTunedModel: fraction >= 1 ? `ft:${model}:mock:${startedAt}` : undefined,
+      metrics: {
+        step: Math.round(fraction * totalSteps),
+        totalSteps,
+        // Loss that falls steadily from 2.0 as training goes on
+        trainingLoss: Math.round((2 - 1.6 * fraction) * 1000) / 1000
+      }
+    };
+  }
+}
+
+const finetuneProviders = new Map<string, FineTuneProvider>();
+
+/**
+ * Add or replace a fine-tuning provider, e.g. to register a test double
+ */
+export function registerFineTuneProvider(provider: FineTuneProvider): void {
+  finetuneProviders.set(provider.name, provider);
+}
+
+registerFineTuneProvider(new OpenAIFineTuneProvider());
+registerFineTuneProvider(new MockFineTuneProvider());
+
+/**
+ * The fine-tuning provider for a model's LLM provider, if it can be trained.
+ * FINETUNE_PROVIDER=mock sends every job to the mock provider, and models on
+ * the fake LLM provider always use it.
+ */
+export function getFineTuneProvider(llmProvider: string): FineTuneProvider | undefined {
+  const override = process.env.FINETUNE_PROVIDER;
+  if (override) {
+    return finetuneProviders.get(override);
+  }
+
+  if (llmProvider === 'fake') {
+    return finetuneProviders.get('mock');
+  }
+  return finetuneProviders.get(llmProvider);
+}
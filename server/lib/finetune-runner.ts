@@ -0,0 +1,146 @@
+/**
+ * Fine-tuning runner
+ * Background worker that submits pending fine-tuning sessions to their
+ * provider and polls the jobs until they finish, writing progress, metrics and
+ * errors back to the session. Everything it needs is stored on the session, so
+ * after a restart it picks up whatever was still pending or running.
+ */
+import type { FinetuningSession } from '@shared/schema';
+import { storage } from '../storage';
+import { convertTrainingData, createFineTuningJob, getFineTuningStatus } from './ai-client';
+import type { FineTuneHyperparams } from './finetune-providers';
+import { createPollingWorker } from './polling-worker';
+
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+// Status checks can fail for a while (network, provider outage) before the session is given up on
+const MAX_POLL_FAILURES = 5;
+
+const worker = createPollingWorker('fine-tuning sessions', processSessions, 'FINETUNE_POLL_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS);
+const pollFailures = new Map<number, number>();
+
+interface SessionHyperparams extends FineTuneHyperparams {
+  trainingDataIds?: number[];
+}
+
+async function failSession(session: FinetuningSession, message: string): Promise<void> {
+  console.error(`Fine-tuning session ${session.id} failed: ${message}`);
+  pollFailures.delete(session.id);
+
+  await storage.updateFinetuningSession(session.id, {
+    status: 'failed',
+    error: message,
+    completedAt: new Date()
+  });
+  if (session.modelId) {
+    await storage.updateAIModel(session.modelId, { finetuneStatus: 'failed' });
+  }
+}
+
+// Build the JSONL dataset from the session's training examples and start the provider job
+async function submitSession(session: FinetuningSession): Promise<void> {
+  const model = session.modelId ? await storage.getAIModel(session.modelId) : undefined;
+  if (!model) {
+    return failSession(session, 'The model for this session no longer exists');
+  }
+
+  const { trainingDataIds = [], ...hyperparams } = (session.trainingHyperparams || {}) as SessionHyperparams;
+  const examples = (await storage.getTrainingDataByIds(trainingDataIds))
+    .filter(example => example.companyId === session.companyId);
+  if (examples.length === 0) {
+    return failSession(session, 'None of the selected training examples exist any more');
+  }
+
+  try {
+    const configuration = (model.configuration || {}) as { systemPrompt?: string };
+    const dataset = convertTrainingData(model.provider, examples, configuration.systemPrompt);
+    const jobId = await createFineTuningJob(model.provider, model.baseModel, dataset, hyperparams);
+
+    await storage.updateFinetuningSession(session.id, {
+      status: 'running',
+      providerJobId: jobId,
+      datasetSize: examples.length,
+      progress: 0
+    });
+  } catch (error) {
+    await failSession(session, (error as Error).message);
+  }
+}
+
+// Check on a submitted job and record how it's going
+async function pollSession(session: FinetuningSession): Promise<void> {
+  const model = session.modelId ? await storage.getAIModel(session.modelId) : undefined;
+  if (!model || !session.providerJobId) {
+    return failSession(session, model ? 'The session has no provider job to check' : 'The model for this session no longer exists');
+  }
+
+  let status;
+  try {
+    status = await getFineTuningStatus(model.provider, session.providerJobId);
+    pollFailures.delete(session.id);
+  } catch (error) {
+    const failures = (pollFailures.get(session.id) || 0) + 1;
+    pollFailures.set(session.id, failures);
+    console.warn(`Couldn't check fine-tuning session ${session.id} (attempt ${failures}):`, (error as Error).message);
+    if (failures >= MAX_POLL_FAILURES) {
+      await failSession(session, `Couldn't check the job status: ${(error as Error).message}`);
+    }
+    return;
+  }
+
+  switch (status.state) {
+    case 'queued':
+    case 'running':
+      await storage.updateFinetuningSession(session.id, {
+        progress: status.progress,
+        ...(status.metrics && { resultMetrics: status.metrics })
+      });
+      return;
+
+    case 'succeeded':
+      if (!status.fineTunedModel) {
+        return failSession(session, 'The job finished without producing a model');
+      }
+      await storage.updateFinetuningSession(session.id, {
+        status: 'completed',
+        progress: 100,
+        completedAt: new Date(),
+        ...(status.metrics && { resultMetrics: status.metrics })
+      });
+      await storage.updateAIModel(model.id, {
+        finetuneId: status.fineTunedModel,
+        finetuneStatus: 'completed',
+        ...(status.metrics && { metrics: status.metrics })
+      });
+      return;
+
+    default:
+      return failSession(session, status.error || `The fine-tuning job was ${status.state}`);
+  }
+}
+
+async function processSessions(): Promise<void> {
+  const pending = await storage.getFinetuningSessionsByStatus('pending');
+  const running = await storage.getFinetuningSessionsByStatus('running');
+
+  for (const session of pending) {
+    await submitSession(session);
+  }
+  for (const session of running) {
+    await pollSession(session);
+  }
+}
+
+/**
+ * Run one pass over pending and running sessions. Overlapping calls share the
+ * pass already under way.
+ */
+export function processFinetuningSessions(): Promise<void> {
+  return worker.run();
+}
+
+/**
+ * Start polling in the background, every FINETUNE_POLL_INTERVAL_MS
+ */
+export function startFinetuneWorker(): void {
+  worker.start();
+}
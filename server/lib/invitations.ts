@@ -0,0 +1,137 @@
+/**
+ * Team invitations
+ * Company owners invite colleagues by email with a role. The emailed
+ * /invite/:token link is the only credential: accepting it creates an account,
+ * or links the existing one signed in with the invited address, to the
+ * company and starts the onboarding tutorial. Resending issues a fresh token,
+ * so older emails for the same invitation stop working.
+ */
+import { randomBytes } from 'crypto';
+import type { Invitation, InvitationRole, User } from '@shared/schema';
+import { storage } from '../storage';
+import { sendInvitationEmail } from './email';
+
+export const INVITATION_DAYS = 7;
+
+export type InvitationState = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface InvitationSender {
+  name?: string | null;
+  username: string;
+}
+
+export interface SentInvitation {
+  invitation: Invitation;
+  delivered: boolean;
+  inviteUrl: string;
+}
+
+export function generateInvitationToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+const invitationExpiry = () => new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Public URL for accepting an invitation. APP_URL wins so links in emails
+ * point at the public site rather than whichever host served the request.
+ */
+export function invitationUrl(token: string, requestOrigin?: string): string {
+  const base = (process.env.APP_URL || requestOrigin || '').replace(/\/$/, '');
+  return `${base}/invite/${token}`;
+}
+
+export function getInvitationState(invitation: Pick<Invitation, 'acceptedAt' | 'revokedAt' | 'expiresAt'>): InvitationState {
+  if (invitation.acceptedAt) return 'accepted';
+  if (invitation.revokedAt) return 'revoked';
+  if (invitation.expiresAt.getTime() < Date.now()) return 'expired';
+  return 'pending';
+}
+
+// Email the invitation link and note when it went out
+async function deliverInvitation(invitation: Invitation, sender: InvitationSender, requestOrigin?: string): Promise<SentInvitation> {
+  const company = await storage.getCompany(invitation.companyId);
+  const inviteUrl = invitationUrl(invitation.token, requestOrigin);
+
+  const delivered = await sendInvitationEmail({
+    to: invitation.email,
+    companyName: company?.name || 'your company',
+    inviterName: sender.name || sender.username,
+    role: invitation.role,
+    acceptUrl: inviteUrl,
+    expiresAt: invitation.expiresAt
+  });
+
+  const updated = delivered
+    ? await storage.updateInvitation(invitation.id, { sentAt: new Date(), sendCount: invitation.sendCount + 1 })
+    : undefined;
+
+  return { invitation: updated ?? invitation, delivered, inviteUrl };
+}
+
+/**
+ * Invite an email address into a company. A failed delivery is reported
+ * rather than thrown, so the link can still be shared by hand.
+ */
+export async function inviteToCompany(
+  companyId: number,
+  email: string,
+  role: InvitationRole,
+  sender: InvitationSender & { id: number },
+  requestOrigin?: string
+): Promise<SentInvitation> {
+  const invitation = await storage.createInvitation({
+    companyId,
+    email,
+    role,
+    token: generateInvitationToken(),
+    invitedBy: sender.id,
+    expiresAt: invitationExpiry()
+  });
+
+  return deliverInvitation(invitation, sender, requestOrigin);
+}
+
+/**
+ * Send an invitation again with a new token and a fresh expiry
+ */
+export async function resendInvitation(invitation: Invitation, sender: InvitationSender, requestOrigin?: string): Promise<SentInvitation> {
+  const renewed = await storage.updateInvitation(invitation.id, {
+    token: generateInvitationToken(),
+    expiresAt: invitationExpiry()
+  });
+
+  return deliverInvitation(renewed ?? invitation, sender, requestOrigin);
+}
+
+/**
+ * Mark an invitation used before any account is touched. Returns undefined when
+ * it was accepted, withdrawn or resent since it was loaded, so each link can
+ * only be used once.
+ */
+export async function claimInvitation(invitation: Invitation): Promise<Invitation | undefined> {
+  return storage.updateInvitation(
+    invitation.id,
+    { acceptedAt: new Date() },
+    { acceptedAt: null, revokedAt: null, token: invitation.token }
+  );
+}
+
+/**
+ * Move a user into a claimed invitation's company and start them on the
+ * onboarding tutorial. Someone already in the company keeps their role.
+ */
+export async function acceptInvitation(invitation: Invitation, user: User): Promise<User> {
+  const role = user.companyId === invitation.companyId ? user.role : invitation.role;
+  const joined = await storage.updateUser(user.id, { companyId: invitation.companyId, role });
+  await storage.updateInvitation(invitation.id, { acceptedBy: user.id });
+
+  const onboarding = { tutorialCompleted: false, currentStep: 1 };
+  if (await storage.getUserOnboarding(user.id)) {
+    await storage.updateUserOnboarding(user.id, onboarding);
+  } else {
+    await storage.createUserOnboarding({ userId: user.id, ...onboarding });
+  }
+
+  return joined ?? user;
+}
@@ -1,12 +1,17 @@
 /**
  * JWT Token Service
  * Handles creating and validating access and refresh tokens
+ *
+ * Each login starts a session: a family of refresh tokens, each replaced by the
+ * next when it is used. Access tokens carry the family as their session id, so
+ * revoking a session also stops its access tokens. A replaced refresh token
+ * being presented again means it was copied, and the whole family is revoked.
  */
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import { users, refreshTokens } from '../../shared/schema';
 import { db } from '../db';
-import { eq, and, lt, gte } from 'drizzle-orm';
+import { eq, and, lt, gte, ne, desc, type SQL } from 'drizzle-orm';
 
 // Types from schema
 import type { User, RefreshToken } from '../../shared/schema';
@@ -16,6 +21,9 @@ const ACCESS_TOKEN_SECRET = process.env.ACCESS_TOKEN_SECRET || 'your-access-toke
 const REFRESH_TOKEN_SECRET = process.env.REFRESH_TOKEN_SECRET || 'your-refresh-token-secret';
 const ACCESS_TOKEN_EXPIRY = '15m'; // 15 minutes
 const REFRESH_TOKEN_EXPIRY = '7d'; // 7 days
+const ACCESS_TOKEN_LIFETIME_MS = 15 * 60 * 1000; // matches ACCESS_TOKEN_EXPIRY
+// Two tabs refreshing at once both present the same token; that isn't theft
+const REUSE_GRACE_MS = 10 * 1000;
 
 // Interfaces
 export interface TokenPayload {
@@ -24,6 +32,7 @@ export interface TokenPayload {
   email: string;
   role: string;
   companyId: number | null;
+  sid?: string; // session (refresh token family) the token was issued for
 }
 
 export interface TokenPair {
@@ -32,25 +41,56 @@ export interface TokenPair {
   expires: Date;
 }
 
+// A signed-in device, as listed on the sessions page
+export interface UserSession {
+  id: string; // the token family
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date; // when the user signed in
+  lastUsedAt: Date; // when the session last refreshed its tokens
+  expires: Date;
+}
+
+// Where a refresh token belongs; a new login leaves familyId out to start a session
+interface SessionDetails {
+  familyId?: string;
+  sessionStartedAt?: Date;
+  userAgent?: string | null;
+}
+
 // Helper to create token payload from user
-const createTokenPayload = (user: User): TokenPayload => {
+const createTokenPayload = (user: User, sessionId?: string): TokenPayload => {
   return {
     id: user.id,
     username: user.username,
     email: user.email,
     role: user.role,
-    companyId: user.companyId
+    companyId: user.companyId,
+    ...(sessionId ? { sid: sessionId } : {})
   };
 };
 
+// Sessions revoked while their access tokens may still be live, with when the
+// last of those expires. Kept per process: with several servers a revoked
+// session's access token can outlive it by up to ACCESS_TOKEN_EXPIRY.
+const revokedSessions = new Map<string, number>();
+
+const markSessionsRevoked = (familyIds: string[]) => {
+  const now = Date.now();
+  revokedSessions.forEach((until, familyId) => {
+    if (until < now) revokedSessions.delete(familyId);
+  });
+  familyIds.forEach(familyId => revokedSessions.set(familyId, now + ACCESS_TOKEN_LIFETIME_MS));
+};
+
 // Generate access token
-export const generateAccessToken = (user: User): string => {
-  const payload = createTokenPayload(user);
+export const generateAccessToken = (user: User, sessionId?: string): string => {
+  const payload = createTokenPayload(user, sessionId);
   return jwt.sign(payload, ACCESS_TOKEN_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY });
 };
 
 // Generate refresh token and store in database
-export const generateRefreshToken = async (user: User, ipAddress?: string): Promise<string> => {
+export const generateRefreshToken = async (user: User, ipAddress?: string, session: SessionDetails = {}): Promise<string> => {
   // Create token
   const token = uuidv4();
   
@@ -63,17 +103,21 @@ export const generateRefreshToken = async (user: User, ipAddress?: string): Prom
       token,
       userId: user.id,
       expires,
-      createdByIp: ipAddress
+      createdByIp: ipAddress,
+      userAgent: session.userAgent,
+      familyId: session.familyId,
+      sessionStartedAt: session.sessionStartedAt
     });
   }
   
   return token;
 };
 
-// Generate both tokens for user authentication
-export const generateTokens = async (user: User, ipAddress?: string): Promise<TokenPair> => {
-  const accessToken = generateAccessToken(user);
-  const refreshToken = await generateRefreshToken(user, ipAddress);
+// Generate both tokens for user authentication, starting a new session
+export const generateTokens = async (user: User, ipAddress?: string, userAgent?: string): Promise<TokenPair> => {
+  const familyId = uuidv4();
+  const accessToken = generateAccessToken(user, familyId);
+  const refreshToken = await generateRefreshToken(user, ipAddress, { familyId, userAgent });
   const expires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
   
   return { accessToken, refreshToken, expires };
@@ -93,6 +137,10 @@ export const verifyAccessToken = (token: string): TokenPayload | null => {
       'role' in payload && 
       'companyId' in payload
     ) {
+      // Signed out from the sessions page or by an admin
+      if (typeof payload.sid === 'string' && revokedSessions.has(payload.sid)) {
+        return null;
+      }
       return payload as TokenPayload;
     }
     return null;
@@ -101,28 +149,60 @@ export const verifyAccessToken = (token: string): TokenPayload | null => {
   }
 };
 
+// Revoke every active token matching a condition, returning the sessions that ended
+const revokeActiveTokens = async (condition: SQL | undefined, ipAddress?: string): Promise<string[]> => {
+  if (!db) return [];
+  
+  const revoked = await db
+    .update(refreshTokens)
+    .set({
+      revokedAt: new Date(),
+      revokedByIp: ipAddress,
+      isActive: false,
+      isRevoked: true
+    })
+    .where(and(condition, eq(refreshTokens.isActive, true)))
+    .returning({ familyId: refreshTokens.familyId });
+  
+  const familyIds = Array.from(new Set(revoked.map(token => token.familyId)));
+  markSessionsRevoked(familyIds);
+  return familyIds;
+};
+
+// A replaced or revoked token was presented again: revoke its session, unless it was only just replaced
+const handleReusedToken = async (refreshToken: RefreshToken, ipAddress?: string) => {
+  const justReplaced = !refreshToken.isRevoked && refreshToken.revokedAt &&
+    Date.now() - refreshToken.revokedAt.getTime() < REUSE_GRACE_MS;
+  if (!justReplaced) {
+    console.warn(`Refresh token reuse for user ${refreshToken.userId}, revoking session ${refreshToken.familyId}`);
+    await revokeActiveTokens(eq(refreshTokens.familyId, refreshToken.familyId), ipAddress);
+  }
+};
+
 // Verify and use refresh token to generate new tokens
 export const refreshTokensWithRefreshToken = async (
   token: string, 
-  ipAddress?: string
+  ipAddress?: string,
+  userAgent?: string
 ): Promise<TokenPair | null> => {
   if (!db) return null;
   
   try {
-    // Find token in database
-    const foundTokens = await db.select().from(refreshTokens).where(
-      and(
-        eq(refreshTokens.token, token),
-        eq(refreshTokens.isRevoked, false),
-        eq(refreshTokens.isExpired, false),
-        gte(refreshTokens.expires, new Date())
-      )
-    );
+    // Find token in database, whatever its state
+    const foundTokens = await db.select().from(refreshTokens).where(eq(refreshTokens.token, token));
     
     if (!foundTokens.length) return null;
     
     const refreshToken = foundTokens[0];
     
+    if (refreshToken.isExpired || refreshToken.expires < new Date()) return null;
+    
+    // A token that was already replaced or revoked is being reused
+    if (!refreshToken.isActive || refreshToken.isRevoked) {
+      await handleReusedToken(refreshToken, ipAddress);
+      return null;
+    }
+    
     // Get user from token
     const foundUsers = await db
       .select()
@@ -133,20 +213,38 @@ export const refreshTokensWithRefreshToken = async (
     
     const user = foundUsers[0];
     
-    // Replace old refresh token with a new one
-    const newRefreshToken = await generateRefreshToken(user, ipAddress);
-    
-    // Mark the old token as replaced
-    await db
+    // Retire the old token before minting its replacement; only one request can win
+    const retired = await db
       .update(refreshTokens)
       .set({
-        replacedByToken: newRefreshToken,
+        revokedAt: new Date(),
+        revokedByIp: ipAddress,
         isActive: false
       })
-      .where(eq(refreshTokens.token, token));
+      .where(and(eq(refreshTokens.token, token), eq(refreshTokens.isActive, true)))
+      .returning();
+    
+    if (!retired.length) {
+      // Another request used it since it was read
+      const current = await db.select().from(refreshTokens).where(eq(refreshTokens.token, token));
+      if (current.length) await handleReusedToken(current[0], ipAddress);
+      return null;
+    }
+    
+    // Replace old refresh token with a new one in the same session
+    const newRefreshToken = await generateRefreshToken(user, ipAddress, {
+      familyId: refreshToken.familyId,
+      sessionStartedAt: refreshToken.sessionStartedAt,
+      userAgent: userAgent ?? refreshToken.userAgent
+    });
+    
+    await db
+      .update(refreshTokens)
+      .set({ replacedByToken: newRefreshToken })
+      .where(eq(refreshTokens.id, retired[0].id));
     
     // Generate new access token
-    const accessToken = generateAccessToken(user);
+    const accessToken = generateAccessToken(user, refreshToken.familyId);
     const expires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
     
     return { accessToken, refreshToken: newRefreshToken, expires };
@@ -156,21 +254,19 @@ export const refreshTokensWithRefreshToken = async (
   }
 };
 
-// Revoke refresh token (for logout)
+// Revoke refresh token (for logout), ending its whole session so the access tokens stop working too
 export const revokeRefreshToken = async (token: string, ipAddress?: string): Promise<boolean> => {
   if (!db) return false;
   
   try {
-    await db
-      .update(refreshTokens)
-      .set({
-        revokedAt: new Date(),
-        revokedByIp: ipAddress,
-        isActive: false,
-        isRevoked: true
-      })
+    const found = await db
+      .select({ familyId: refreshTokens.familyId })
+      .from(refreshTokens)
       .where(eq(refreshTokens.token, token));
     
+    if (!found.length) return false;
+    
+    await revokeActiveTokens(eq(refreshTokens.familyId, found[0].familyId), ipAddress);
     return true;
   } catch (error) {
     console.error('Error revoking token:', error);
@@ -178,30 +274,57 @@ export const revokeRefreshToken = async (token: string, ipAddress?: string): Pro
   }
 };
 
-// Revoke all refresh tokens for a user (for force logout all devices)
-export const revokeAllUserRefreshTokens = async (userId: number): Promise<boolean> => {
-  if (!db) return false;
+// Revoke all of a user's sessions, or all but the current one (for force logout all devices)
+export const revokeAllUserRefreshTokens = async (
+  userId: number,
+  ipAddress?: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const sessions = await revokeActiveTokens(
+    and(
+      eq(refreshTokens.userId, userId),
+      exceptSessionId ? ne(refreshTokens.familyId, exceptSessionId) : undefined
+    ),
+    ipAddress
+  );
+  return sessions.length;
+};
+
+// Revoke one of a user's sessions; false when it isn't theirs or already ended
+export const revokeUserSession = async (userId: number, sessionId: string, ipAddress?: string): Promise<boolean> => {
+  const sessions = await revokeActiveTokens(
+    and(eq(refreshTokens.userId, userId), eq(refreshTokens.familyId, sessionId)),
+    ipAddress
+  );
+  return sessions.length > 0;
+};
+
+// A user's signed-in devices, most recently used first
+export const getUserSessions = async (userId: number): Promise<UserSession[]> => {
+  if (!db) return [];
   
-  try {
-    await db
-      .update(refreshTokens)
-      .set({
-        revokedAt: new Date(),
-        isActive: false,
-        isRevoked: true
-      })
-      .where(
-        and(
-          eq(refreshTokens.userId, userId),
-          eq(refreshTokens.isActive, true)
-        )
-      );
-    
-    return true;
-  } catch (error) {
-    console.error('Error revoking all user tokens:', error);
-    return false;
-  }
+  const tokens = await db
+    .select()
+    .from(refreshTokens)
+    .where(
+      and(
+        eq(refreshTokens.userId, userId),
+        eq(refreshTokens.isActive, true),
+        eq(refreshTokens.isRevoked, false),
+        eq(refreshTokens.isExpired, false),
+        gte(refreshTokens.expires, new Date())
+      )
+    )
+    .orderBy(desc(refreshTokens.createdAt));
+  
+  return tokens.map(token => ({
+    id: token.familyId,
+    userAgent: token.userAgent,
+    ipAddress: token.createdByIp,
+    createdAt: token.sessionStartedAt,
+    lastUsedAt: token.createdAt,
+    expires: token.expires
+  }));
 };
 
 // Check if refresh token is active
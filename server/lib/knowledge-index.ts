@@ -0,0 +1,235 @@
+/**
+ * Company knowledge index
+ * Embeds each company's past quotes (with their line items) and training
+ * examples so the AI can look up similar past jobs and their prices before
+ * answering. Vectors are stored per company and searched in-process; a
+ * background worker keeps the index up to date, re-embedding only sources
+ * whose text changed.
+ */
+import { createHash } from 'crypto';
+import type { KnowledgeSourceType, Quote, QuoteLineItem, TrainingData } from '@shared/schema';
+import { storage } from '../storage';
+import { cosineSimilarity, getEmbeddingProvider } from './embeddings';
+import { calculateQuoteTotals } from './quote-totals';
+import { createPollingWorker } from './polling-worker';
+
+export interface KnowledgeMatch {
+  sourceType: KnowledgeSourceType;
+  sourceId: number;
+  title: string;
+  content: string;
+  score: number;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface KnowledgeSyncResult {
+  indexed: number; // Sources embedded in this sync
+  removed: number; // Entries whose source no longer exists
+  total: number;
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  minScore?: number;
+}
+
+interface KnowledgeDocument {
+  sourceType: KnowledgeSourceType;
+  sourceId: number;
+  title: string;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+const DEFAULT_SYNC_INTERVAL_MS = 60000;
+// Keep documents well inside embedding model input limits
+const MAX_DOCUMENT_LENGTH = 4000;
+
+const syncsInProgress = new Map<number, Promise<KnowledgeSyncResult>>();
+
+const worker = createPollingWorker('knowledge index', syncAllKnowledgeIndexes, 'KNOWLEDGE_SYNC_INTERVAL_MS', DEFAULT_SYNC_INTERVAL_MS);
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+function quoteDocument(quote: Quote, items: QuoteLineItem[]): KnowledgeDocument {
+  const total = items.length > 0 ? calculateQuoteTotals(items).total : quote.amount ?? 0;
+  const lines = [
+    `Quote ${quote.quoteNumber} for ${quote.clientName} (${quote.status}, ${new Date(quote.date).toISOString().slice(0, 10)})`
+  ];
+  if (quote.description) lines.push(quote.description);
+  for (const item of items) {
+    const unit = item.unit ? ` ${item.unit}` : '';
+    const category = item.category ? ` [${item.category}]` : '';
+    lines.push(`- ${item.description}: ${item.quantity}${unit} x ${formatMoney(item.unitPrice)}${category}`);
+  }
+  lines.push(`Total: ${formatMoney(total)}`);
+
+  return {
+    sourceType: 'quote',
+    sourceId: quote.id,
+    title: quote.quoteNumber,
+    content: lines.join('\n').slice(0, MAX_DOCUMENT_LENGTH),
+    metadata: { quoteNumber: quote.quoteNumber, clientName: quote.clientName, status: quote.status, total }
+  };
+}
+
+function trainingDocument(example: TrainingData): KnowledgeDocument {
+  return {
+    sourceType: 'training',
+    sourceId: example.id,
+    title: `Example ${example.id}`,
+    content: `Request: ${example.prompt}\nResponse: ${example.response}`.slice(0, MAX_DOCUMENT_LENGTH),
+    metadata: { category: example.category, quality: example.quality }
+  };
+}
+
+async function loadDocuments(companyId: number): Promise<KnowledgeDocument[]> {
+  const documents: KnowledgeDocument[] = [];
+
+  const quotes = await storage.getQuotesByCompanyId(companyId);
+  const itemsByQuote = new Map<number, QuoteLineItem[]>();
+  for (const item of await storage.getQuoteLineItemsByQuoteIds(quotes.map(quote => quote.id))) {
+    itemsByQuote.set(item.quoteId, [...(itemsByQuote.get(item.quoteId) ?? []), item]);
+  }
+
+  for (const quote of quotes) {
+    const items = itemsByQuote.get(quote.id) ?? [];
+    // A quote with nothing but a number says nothing about pricing
+    if (items.length > 0 || quote.description) {
+      documents.push(quoteDocument(quote, items));
+    }
+  }
+
+  // Unreviewed chat feedback may be wrong, so it waits for approval
+  for (const example of await storage.getTrainingDataByCompanyId(companyId)) {
+    if (example.status === 'approved') {
+      documents.push(trainingDocument(example));
+    }
+  }
+
+  return documents;
+}
+
+const sourceKey = (sourceType: string, sourceId: number) => `${sourceType}:${sourceId}`;
+
+/**
+ * Bring a company's index in line with its quotes and training data:
+ * embed new and changed sources and drop entries for deleted ones
+ */
+export function syncKnowledgeIndex(companyId: number): Promise<KnowledgeSyncResult> {
+  const inProgress = syncsInProgress.get(companyId);
+  if (inProgress) return inProgress;
+
+  const sync = (async () => {
+    const provider = getEmbeddingProvider();
+    const documents = await loadDocuments(companyId);
+    const existing = new Map((await storage.getKnowledgeEmbeddings(companyId))
+      .map(entry => [sourceKey(entry.sourceType, entry.sourceId), entry]));
+
+    // The model is part of the hash so switching embedding providers re-embeds everything
+    const hashed = documents.map(document => ({
+      document,
+      hash: createHash('sha256').update(`${provider.model}\n${document.content}`).digest('hex')
+    }));
+    const changed = hashed.filter(({ document, hash }) =>
+      existing.get(sourceKey(document.sourceType, document.sourceId))?.contentHash !== hash
+    );
+
+    const vectors = changed.length > 0 ? await provider.embed(changed.map(({ document }) => document.content)) : [];
+    for (let i = 0; i < changed.length; i++) {
+      const { document, hash } = changed[i];
+      await storage.saveKnowledgeEmbedding({
+        companyId,
+        ...document,
+        contentHash: hash,
+        embeddingModel: provider.model,
+        embedding: vectors[i]
+      });
+    }
+
+    const current = new Set(documents.map(document => sourceKey(document.sourceType, document.sourceId)));
+    let removed = 0;
+    for (const [key, entry] of Array.from(existing.entries())) {
+      if (!current.has(key)) {
+        await storage.deleteKnowledgeEmbedding(entry.id);
+        removed++;
+      }
+    }
+
+    return { indexed: changed.length, removed, total: documents.length };
+  })().finally(() => syncsInProgress.delete(companyId));
+
+  syncsInProgress.set(companyId, sync);
+  return sync;
+}
+
+async function syncAllKnowledgeIndexes(): Promise<void> {
+  for (const company of await storage.getAllCompanies()) {
+    try {
+      await syncKnowledgeIndex(company.id);
+    } catch (error) {
+      console.error(`Error syncing the knowledge index for company ${company.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Start syncing in the background, every KNOWLEDGE_SYNC_INTERVAL_MS
+ */
+export function startKnowledgeIndexWorker(): void {
+  worker.start();
+}
+
+/**
+ * The company's past quotes and training examples most similar to the query,
+ * best match first. Sources changed since the worker's last pass aren't found yet.
+ */
+export async function searchKnowledge(
+  companyId: number,
+  query: string,
+  options: KnowledgeSearchOptions = {}
+): Promise<KnowledgeMatch[]> {
+  if (!query.trim()) return [];
+
+  const provider = getEmbeddingProvider();
+  const [queryVector] = await provider.embed([query]);
+  const minScore = options.minScore ?? (parseFloat(process.env.KNOWLEDGE_MIN_SCORE || '') || provider.relevanceThreshold);
+
+  return (await storage.getKnowledgeEmbeddings(companyId))
+    .filter(entry => entry.embeddingModel === provider.model)
+    .map(entry => ({
+      sourceType: entry.sourceType as KnowledgeSourceType,
+      sourceId: entry.sourceId,
+      title: entry.title,
+      content: entry.content,
+      score: Math.round(cosineSimilarity(queryVector, entry.embedding) * 1000) / 1000,
+      metadata: entry.metadata as Record<string, unknown> | null
+    }))
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 5);
+}
+
+/**
+ * System prompt section presenting the matches as reference material, with
+ * instructions to cite the quotes the answer relies on
+ */
+export function formatKnowledgeContext(matches: KnowledgeMatch[]): string {
+  const sections = matches.map(match => `[${match.title}]\n${match.content}`);
+  return `SIMILAR PAST WORK from this company's records. Use these prices as a reference ` +
+    `and cite the quote number in square brackets, e.g. [${matches.find(m => m.sourceType === 'quote')?.title || 'Q-0001'}], ` +
+    `whenever you rely on one:\n\n${sections.join('\n\n')}`;
+}
+
+/**
+ * One-line list of the past quotes an answer was grounded in, or an empty
+ * string when no quotes matched
+ */
+export function formatKnowledgeCitations(matches: KnowledgeMatch[]): string {
+  const quotes = matches.filter(match => match.sourceType === 'quote');
+  if (quotes.length === 0) return '';
+
+  return `Based on similar past quotes: ${quotes
+    .map(match => match.metadata?.clientName ? `${match.title} (${match.metadata.clientName})` : match.title)
+    .join(', ')}`;
+}
@@ -2,105 +2,174 @@ import { ChatOpenAI } from "@langchain/openai";
 import {
   ChatPromptTemplate,
   HumanMessagePromptTemplate,
-  SystemMessagePromptTemplate,
+  MessagesPlaceholder,
 } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { RunnableSequence } from "@langchain/core/runnables";
-import { BaseMessage } from "@langchain/core/messages";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
 
 // Create a simplified Memory interface for our needs
 interface Memory {
   saveContext(input: Record<string, any>, output: Record<string, any>): Promise<void>;
   loadMemoryVariables(values: Record<string, any>): Promise<Record<string, any>>;
 }
-import type { SystemPrompt, Company, Client } from "@shared/schema";
+import type { SystemPrompt, Company, Client, Quote } from "@shared/schema";
+
+/**
+ * A prior turn in the conversation, as stored in conversation_messages
+ */
+export interface ChatHistoryMessage {
+  role: string;
+  content: string;
+}
 
 export interface HierarchicalPromptOptions {
   masterPrompt: SystemPrompt | null;
   industryPrompt: SystemPrompt | null;
+  // The company's own "client" type system prompt
+  companyPrompt?: SystemPrompt | null;
   clientData?: string;
+  // Similar past quotes and training examples retrieved for the current request
+  knowledgeContext?: string;
   memory?: Memory;
+  // Overrides the default OpenAI model, e.g. with a company's fine-tuned model
+  model?: string;
+}
+
+/**
+ * One layer of the assembled prompt, labelled with where it came from
+ */
+export interface PromptLayer {
+  source: 'core' | 'industry' | 'company' | 'client' | 'knowledge';
+  promptId?: number;
+  name?: string;
+  content: string;
+}
+
+/**
+ * Stack the prompts from most general to most specific
+ */
+export function buildPromptLayers(options: HierarchicalPromptOptions): PromptLayer[] {
+  const layers: PromptLayer[] = [];
+
+  // Master prompt (always included)
+  if (options.masterPrompt) {
+    layers.push({ source: 'core', promptId: options.masterPrompt.id, name: options.masterPrompt.name, content: options.masterPrompt.content });
+  }
+  
+  // Industry prompt (if available)
+  if (options.industryPrompt) {
+    layers.push({ source: 'industry', promptId: options.industryPrompt.id, name: options.industryPrompt.name, content: options.industryPrompt.content });
+  }
+  
+  // Company-specific prompt (if available)
+  if (options.companyPrompt) {
+    layers.push({ source: 'company', promptId: options.companyPrompt.id, name: options.companyPrompt.name, content: options.companyPrompt.content });
+  }
+  
+  // Client data context (if available)
+  if (options.clientData) {
+    layers.push({ source: 'client', content: `Additional client-specific context: ${options.clientData}` });
+  }
+  
+  // Retrieved past work (if any matched the request)
+  if (options.knowledgeContext) {
+    layers.push({ source: 'knowledge', content: options.knowledgeContext });
+  }
+  
+  return layers;
 }
 
 export class HierarchicalPromptChain {
   private openai: ChatOpenAI;
+  private prompt: ChatPromptTemplate;
   private chain: RunnableSequence;
   private outputParser: StringOutputParser;
   private memory?: Memory;
+  private model: string;
+  readonly layers: PromptLayer[];
 
   constructor(options: HierarchicalPromptOptions) {
     // Initialize the LLM model
+    this.model = options.model || process.env.OPENAI_MODEL || "gpt-4o";
     this.openai = new ChatOpenAI({
       openAIApiKey: process.env.OPENAI_API_KEY,
-      model: "gpt-4o",
+      model: this.model,
       temperature: 0.7,
       streaming: true
     });
 
     this.outputParser = new StringOutputParser();
     
-    // Memory will be optional for now
+    // Memory is only used when the caller doesn't pass history explicitly
     this.memory = options.memory;
 
-    // Build the prompt templates
-    const promptTemplates = [];
+    this.layers = buildPromptLayers(options);
     
-    // Master prompt (always included)
-    if (options.masterPrompt) {
-      promptTemplates.push(
-        SystemMessagePromptTemplate.fromTemplate(options.masterPrompt.content)
-      );
-    }
-    
-    // Industry prompt (if available)
-    if (options.industryPrompt) {
-      promptTemplates.push(
-        SystemMessagePromptTemplate.fromTemplate(options.industryPrompt.content)
-      );
-    }
-    
-    // Client data context (if available)
-    if (options.clientData) {
-      promptTemplates.push(
-        SystemMessagePromptTemplate.fromTemplate(
-          `Additional client-specific context: ${options.clientData}`
-        )
-      );
-    }
-    
-    // Add a template for the user's message
-    promptTemplates.push(
+    // System layers are added as literal messages rather than templates, so braces
+    // in prompt text or client notes aren't treated as template variables
+    this.prompt = ChatPromptTemplate.fromMessages([
+      ...this.layers.map(layer => new SystemMessage(layer.content)),
+      new MessagesPlaceholder("chat_history"),
       HumanMessagePromptTemplate.fromTemplate("{input}")
-    );
-    
-    // Create the chat prompt from all templates
-    const chatPrompt = ChatPromptTemplate.fromMessages(promptTemplates);
+    ]);
     
     // Create the chain
     this.chain = RunnableSequence.from([
-      {
-        input: (input: string) => input,
-        // If needed, retrieve chat history from memory
-        // chat_history: this.memory.loadMemoryVariables
-      },
-      chatPrompt,
+      this.prompt,
       this.openai,
       this.outputParser
     ]);
   }
 
+  /**
+   * Convert stored conversation turns into LangChain messages. System turns are
+   * dropped because the prompt stack already supplies the system context.
+   */
+  static toChatHistory(history: ChatHistoryMessage[]): BaseMessage[] {
+    return history
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => message.role === 'user'
+        ? new HumanMessage(message.content)
+        : new AIMessage(message.content));
+  }
+
+  private async resolveHistory(history?: ChatHistoryMessage[]): Promise<BaseMessage[]> {
+    if (history) {
+      return HierarchicalPromptChain.toChatHistory(history);
+    }
+    
+    if (this.memory) {
+      const variables = await this.memory.loadMemoryVariables({});
+      return Array.isArray(variables.chat_history) ? variables.chat_history : [];
+    }
+    
+    return [];
+  }
+
+  /**
+   * The exact messages the model receives for an input and history
+   */
+  async formatMessages(input: string, history?: ChatHistoryMessage[]): Promise<BaseMessage[]> {
+    return this.prompt.formatMessages({
+      input,
+      chat_history: await this.resolveHistory(history)
+    });
+  }
+
   /**
    * Process an input message through the hierarchical prompt chain
    */
-  async processMessage(input: string, callbacks?: any[]): Promise<string> {
+  async processMessage(input: string, history?: ChatHistoryMessage[], callbacks?: any[]): Promise<string> {
     try {
       const response = await this.chain.invoke(
-        { input },
+        { input, chat_history: await this.resolveHistory(history) },
         { callbacks }
       );
       
-      // Save to memory if needed
-      // await this.memory.saveContext({ human_input: input }, { ai_output: response });
+      if (this.memory) {
+        await this.memory.saveContext({ input }, { output: response });
+      }
       
       return response;
     } catch (error) {
@@ -112,34 +181,24 @@ export class HierarchicalPromptChain {
   /**
    * Process an input message with streaming responses
    */
-  async *streamMessage(input: string, callbacks?: any[]): AsyncGenerator<string, void, unknown> {
+  async *streamMessage(input: string, history?: ChatHistoryMessage[], callbacks?: any[]): AsyncGenerator<string, void, unknown> {
     try {
-      // Create a streaming version of the chain
-      const streamingModel = new ChatOpenAI({
-        openAIApiKey: process.env.OPENAI_API_KEY,
-        model: "gpt-4o",
-        temperature: 0.7,
-        streaming: true
-      });
-      
-      // For simplicity, we'll just stream directly from the model 
-      // rather than trying to integrate with the entire chain
-      
-      const stream = await streamingModel.stream(input);
+      const stream = await this.chain.stream(
+        { input, chat_history: await this.resolveHistory(history) },
+        { callbacks }
+      );
       
+      let response = '';
       for await (const chunk of stream) {
-        // Handle different content types that might come from the stream
-        if (typeof chunk.content === 'string') {
-          yield chunk.content;
-        } else if (Array.isArray(chunk.content)) {
-          // For complex message content, extract text parts
-          for (const content of chunk.content) {
-            if (content.type === 'text') {
-              yield content.text;
-            }
-          }
+        if (chunk) {
+          response += chunk;
+          yield chunk;
         }
       }
+      
+      if (this.memory) {
+        await this.memory.saveContext({ input }, { output: response });
+      }
     } catch (error) {
       console.error('Error streaming message with LangChain:', error);
       throw error;
@@ -176,45 +235,79 @@ export class HierarchicalPromptChain {
   }
 }
 
+/**
+ * Load the core, industry and company prompts and the client's context from storage
+ */
+async function loadHierarchicalPromptOptions(
+  storage: any,
+  companyId: number,
+  clientId?: number
+): Promise<HierarchicalPromptOptions> {
+  // 1. Get the master prompt
+  const masterPrompt = await storage.getCoreSystemPrompt();
+  
+  // 2. Get company and its industry
+  const company = await storage.getCompany(companyId);
+  
+  // 3. Get industry prompt if available
+  let industryPrompt = null;
+  if (company?.industryId) {
+    industryPrompt = await storage.getIndustrySystemPrompt(company.industryId);
+  }
+  
+  // 4. Get the company's own prompt if it has one
+  const companyPrompt = await storage.getClientSystemPrompt(companyId);
+  
+  // 5. Get client-specific data if available
+  let clientData = '';
+  if (clientId) {
+    const client = await storage.getClient(clientId);
+    if (client) {
+      const quotes = (await storage.getQuotesByCompanyId(companyId))
+        .filter((quote: Quote) => quote.clientId === clientId);
+      clientData = HierarchicalPromptChain.buildClientContext(client, quotes);
+    }
+  }
+  
+  return {
+    masterPrompt,
+    industryPrompt,
+    companyPrompt,
+    clientData: clientData || undefined
+  };
+}
+
 /**
  * Create a hierarchical prompt chain using the storage interface
  */
 export async function createHierarchicalPromptChain(
   storage: any,
   companyId: number,
-  clientId?: number
+  clientId?: number,
+  model?: string,
+  knowledgeContext?: string
 ): Promise<HierarchicalPromptChain> {
   try {
-    // 1. Get the master prompt
-    const masterPrompt = await storage.getCoreSystemPrompt();
-    
-    // 2. Get company and its industry
-    const company = await storage.getCompany(companyId);
-    
-    // 3. Get industry prompt if available
-    let industryPrompt = null;
-    if (company?.industryId) {
-      industryPrompt = await storage.getIndustrySystemPrompt(company.industryId);
-    }
-    
-    // 4. Get client-specific data if available
-    let clientData = '';
-    if (clientId) {
-      const client = await storage.getClient(clientId);
-      if (client) {
-        const quotes = await storage.getQuotesByClientId(clientId);
-        clientData = HierarchicalPromptChain.buildClientContext(client, quotes);
-      }
-    }
+    const options = await loadHierarchicalPromptOptions(storage, companyId, clientId);
     
     // Create the chain
-    return new HierarchicalPromptChain({
-      masterPrompt,
-      industryPrompt,
-      clientData: clientData || undefined
-    });
+    return new HierarchicalPromptChain({ ...options, knowledgeContext, model });
   } catch (error) {
     console.error('Error creating hierarchical prompt chain:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The same prompt layers the chain would use, for callers that talk to the
+ * company's model directly rather than through LangChain
+ */
+export async function loadPromptLayers(
+  storage: any,
+  companyId: number,
+  clientId?: number,
+  knowledgeContext?: string
+): Promise<PromptLayer[]> {
+  const options = await loadHierarchicalPromptOptions(storage, companyId, clientId);
+  return buildPromptLayers({ ...options, knowledgeContext });
+}
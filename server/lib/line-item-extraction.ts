@@ -0,0 +1,224 @@
+/**
+ * Line item extraction
+ * The one place quote line items are pulled out of a conversation or free
+ * text. The model is asked for schema-shaped output through its provider's
+ * native structured output, the reply is repaired where the intent is clear
+ * (string prices, "labor" for "labour", items under the wrong key) and then
+ * validated; if it still doesn't fit, the model is shown what was wrong and
+ * asked again. Valid items are then priced from the company's price book.
+ */
+import {
+  lineItemCategories,
+  lineItemExtractionSchema,
+  type LineItemCategory,
+  type PricedLineItem
+} from '@shared/schema';
+import { completeValidated, resolveModel, type ChatMessage, type StructuredOutputSchema } from './llm-provider';
+import { applyPriceBook, formatPriceBookContext, loadPriceBook, type PriceBookEntry } from './price-book';
+
+export interface LineItemExtractionInput {
+  text?: string;
+  messages?: { role: string; content: string }[];
+}
+
+export interface LineItemExtractionOptions {
+  companyId?: number | null;
+  maxAttempts?: number;
+}
+
+export interface LineItemExtractionResult {
+  success: boolean;
+  items: PricedLineItem[];
+  // Descriptions of items the price book had no entry for; empty when the company has no price book
+  unmatched: string[];
+  notes: string | null;
+  // Things the repair and pricing steps changed or dropped, for showing alongside the items
+  warnings: string[];
+  attempts: number;
+  provider: string;
+  error?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+const DEFAULT_CONFIDENCE = 0.5;
+
+// JSON Schema for one extractedLineItemSchema item, within what strict structured output modes accept
+export const LINE_ITEM_JSON_SCHEMA_ITEM = {
+  type: 'object',
+  properties: {
+    description: { type: 'string', description: 'What is being supplied or done' },
+    quantity: { type: 'number', description: 'How many units; 1 if not stated' },
+    unit: { type: ['string', 'null'], description: 'Unit of measure, e.g. hour, m2, each; null if not stated' },
+    unitPrice: { type: 'number', description: 'Price per unit excluding tax, without currency symbols' },
+    category: { type: 'string', enum: [...lineItemCategories] },
+    taxable: { type: 'boolean', description: 'Whether sales tax applies to this item' },
+    confidence: { type: 'number', description: 'From 0 to 1, how clearly the item and its price were stated' }
+  },
+  required: ['description', 'quantity', 'unit', 'unitPrice', 'category', 'taxable', 'confidence'],
+  additionalProperties: false
+};
+
+// Mirrors lineItemExtractionSchema
+const LINE_ITEM_JSON_SCHEMA: StructuredOutputSchema = {
+  name: 'record_line_items',
+  description: 'Record the billable line items for a quote',
+  schema: {
+    type: 'object',
+    properties: {
+      items: { type: 'array', items: LINE_ITEM_JSON_SCHEMA_ITEM },
+      notes: { type: ['string', 'null'], description: 'Anything that could not be itemised, such as work mentioned without a price' }
+    },
+    required: ['items', 'notes'],
+    additionalProperties: false
+  }
+};
+
+const SYSTEM_PROMPT = `You extract billable line items for a quote from a conversation or job description.
+- Only include items whose price is stated, clearly agreed or in the price book; never invent prices.
+- Split combined items and give the price per unit, excluding tax. If only a total is given for several units, divide it.
+- Put the unit of measure (hour, day, m2, linear metre, each...) in "unit", not in the description.
+- Category is "labour" for work and time, "material" for supplies and parts, "equipment" for plant, tools and hire, otherwise "other".
+- Mark an item taxable unless it is stated to be tax exempt.
+- Confidence is 1 when the item, quantity and price are all stated outright, lower the more you had to infer.
+- Use "notes" for anything mentioned that could not be priced.`;
+
+const CATEGORY_SYNONYMS: Record<string, LineItemCategory> = {
+  labor: 'labour',
+  labour: 'labour',
+  service: 'labour',
+  services: 'labour',
+  material: 'material',
+  materials: 'material',
+  supplies: 'material',
+  parts: 'material',
+  equipment: 'equipment',
+  plant: 'equipment',
+  hire: 'equipment',
+  rental: 'equipment'
+};
+
+// Fallbacks for when the model leaves the category out, matched against the description
+const CATEGORY_KEYWORDS: [RegExp, LineItemCategory][] = [
+  [/\b(labou?r|install\w*|hours?|hrs?|call[- ]?out|fitting|design|consult\w*|service)\b/i, 'labour'],
+  [/\b(hire|rental|skip|scaffold\w*|excavator|machine|equipment)\b/i, 'equipment'],
+  [/\b(materials?|supplies|timber|paint|cable|pipe|tiles?|parts?|fixtures?|sheets?|bags?)\b/i, 'material']
+];
+
+// Accepts "$1,200.50" and similar as well as plain numbers
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toCategory(value: unknown, description: string): LineItemCategory {
+  if (typeof value === 'string') {
+    const category = CATEGORY_SYNONYMS[value.trim().toLowerCase()];
+    if (category) return category;
+  }
+  return CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(description))?.[1] ?? 'other';
+}
+
+function toConfidence(value: unknown): number {
+  const confidence = toNumber(value);
+  if (confidence === undefined) return DEFAULT_CONFIDENCE;
+  // Some models answer as a percentage
+  return Math.min(1, Math.max(0, confidence > 1 ? confidence / 100 : confidence));
+}
+
+/**
+ * Bring loosely-shaped line items as close to the schema as they can be
+ * without guessing: fill in defaults, normalise types and drop items with no
+ * description or price. Anything still wrong is left for validation to catch.
+ */
+export function repairLineItems(rawItems: unknown[], warnings: string[]) {
+  return rawItems.flatMap((rawItem, index) => {
+    const item = (rawItem ?? {}) as Record<string, unknown>;
+    const description = typeof item.description === 'string' ? item.description.trim()
+      : typeof item.name === 'string' ? item.name.trim() : '';
+    const unitPrice = toNumber(item.unitPrice ?? item.unit_price ?? item.price ?? item.rate);
+
+    if (!description || unitPrice === undefined) {
+      warnings.push(`Skipped item ${index + 1}: ${description ? `no price for "${description}"` : 'no description'}`);
+      return [];
+    }
+
+    const unit = typeof item.unit === 'string' && item.unit.trim() ? item.unit.trim() : null;
+    return [{
+      description,
+      quantity: toNumber(item.quantity ?? item.qty) ?? 1,
+      unit,
+      unitPrice,
+      category: toCategory(item.category, description),
+      taxable: typeof item.taxable === 'boolean' ? item.taxable : true,
+      confidence: toConfidence(item.confidence)
+    }];
+  });
+}
+
+// Accepts the items under the wrong key, or a bare array of them
+function repairExtraction(raw: unknown, warnings: string[]): unknown {
+  const reply = (raw ?? {}) as Record<string, unknown>;
+  const rawItems = Array.isArray(raw) ? raw : reply.items ?? reply.lineItems ?? reply.line_items;
+  if (!Array.isArray(rawItems)) {
+    return raw;
+  }
+
+  const items = repairLineItems(rawItems, warnings);
+  const notes = typeof reply.notes === 'string' && reply.notes.trim() ? reply.notes.trim() : null;
+  return { items, notes };
+}
+
+function conversationText(input: LineItemExtractionInput): string {
+  const parts: string[] = [];
+  if (input.messages?.length) {
+    parts.push(input.messages
+      .filter(message => message.role !== 'system' && message.content?.trim())
+      .map(message => `${message.role.toUpperCase()}: ${message.content}`)
+      .join('\n\n'));
+  }
+  if (input.text?.trim()) {
+    parts.push(input.text.trim());
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Extract line items using the company's model. Never throws for a bad model
+ * reply; the result says what went wrong instead, so callers can show it.
+ */
+export async function extractLineItems(
+  input: LineItemExtractionInput,
+  options: LineItemExtractionOptions = {}
+): Promise<LineItemExtractionResult> {
+  const { provider, options: completionOptions } = await resolveModel(options.companyId);
+
+  const text = conversationText(input);
+  const priceBook: PriceBookEntry[] = options.companyId ? await loadPriceBook(options.companyId) : [];
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    ...(priceBook.length > 0 ? [{ role: 'system' as const, content: formatPriceBookContext(priceBook, text) }] : []),
+    { role: 'user', content: text }
+  ];
+
+  const result = await completeValidated(provider, messages, LINE_ITEM_JSON_SCHEMA, lineItemExtractionSchema, {
+    completion: completionOptions,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    repair: repairExtraction
+  });
+  if (!result.success || !result.data) {
+    return { success: false, items: [], unmatched: [], notes: null, warnings: [], attempts: result.attempts, provider: provider.name, error: result.error };
+  }
+
+  const priced = applyPriceBook(result.data.items, priceBook);
+  return {
+    success: true,
+    items: priced.items,
+    unmatched: priced.unmatched,
+    notes: result.data.notes,
+    warnings: [...result.warnings, ...priced.warnings],
+    attempts: result.attempts,
+    provider: provider.name
+  };
+}
@@ -0,0 +1,623 @@
+/**
+ * LLM provider registry
+ * One place that knows how to talk to each model vendor. Callers ask for a
+ * provider (or let a company's active AI model pick one) and use the same
+ * completion, streaming, JSON-mode and structured output interface regardless
+ * of vendor.
+ */
+import { OpenAI } from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod';
+import type { AIModel } from '@shared/schema';
+import { storage } from '../storage';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * JSON Schema for a structured reply. Keep it within what strict modes accept:
+ * every property required, nullable fields typed as [type, "null"] and
+ * additionalProperties false.
+ */
+export interface StructuredOutputSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string, void, unknown>;
+  /**
+   * Ask for a single JSON object back and parse it
+   */
+  completeJSON<T = any>(messages: ChatMessage[], options?: CompletionOptions): Promise<T>;
+  /**
+   * Ask for a reply shaped by the schema, using the vendor's native structured
+   * output where there is one. The result is parsed but not validated.
+   */
+  completeStructured<T = unknown>(messages: ChatMessage[], schema: StructuredOutputSchema, options?: CompletionOptions): Promise<T>;
+}
+
+/**
+ * A provider plus the options a company's model configuration resolved to
+ */
+export interface ResolvedModel {
+  provider: LLMProvider;
+  options: CompletionOptions;
+  aiModel?: AIModel;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1000;
+
+// Normalise loosely-typed messages from request bodies into chat messages
+export function toChatMessages(messages: { role: string; content: string }[]): ChatMessage[] {
+  return messages
+    .filter(m => m.role === 'system' || m.role === 'user' || m.role === 'assistant')
+    .map(m => ({ role: m.role as ChatRole, content: m.content }));
+}
+
+// Models sometimes wrap JSON in prose or code fences, so pull out the outermost object
+export function parseJSONResponse<T = any>(content: string): T {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('AI response did not contain a JSON object');
+    }
+    return JSON.parse(jsonMatch[0]);
+  }
+}
+
+// For providers without native structured output, spell the schema out instead
+function schemaInstruction(schema: StructuredOutputSchema): ChatMessage {
+  return {
+    role: 'system',
+    content: `${schema.description}. Respond with a single JSON object matching this JSON Schema:\n${JSON.stringify(schema.schema)}`
+  };
+}
+
+/**
+ * OpenAI, and any server that speaks the OpenAI chat completions API
+ * (Ollama, llama.cpp, vLLM, LM Studio...)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  private client?: OpenAI;
+
+  constructor(
+    readonly name: string,
+    private config: {
+      apiKey: () => string | undefined;
+      baseURL?: () => string | undefined;
+      defaultModel: () => string;
+      // Local servers don't need a key, only an address
+      requiresApiKey: boolean;
+      // Whether the server honours response_format json_schema; otherwise the schema goes in the prompt
+      supportsJsonSchema: () => boolean;
+    }
+  ) {}
+
+  get defaultModel(): string {
+    return this.config.defaultModel();
+  }
+
+  isConfigured(): boolean {
+    if (this.config.requiresApiKey) {
+      return !!this.config.apiKey();
+    }
+    return !!this.config.baseURL?.();
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey() || 'not-needed',
+        baseURL: this.config.baseURL?.()
+      });
+    }
+    return this.client;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      model: options.model || this.defaultModel,
+      messages,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<string, void, unknown> {
+    const stream = await this.getClient().chat.completions.create({
+      model: options.model || this.defaultModel,
+      messages,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: true
+    });
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content || '';
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  async completeJSON<T = any>(messages: ChatMessage[], options: CompletionOptions = {}): Promise<T> {
+    const response = await this.getClient().chat.completions.create({
+      model: options.model || this.defaultModel,
+      messages,
+      temperature: options.temperature ?? 0.1,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      response_format: { type: 'json_object' }
+    });
+
+    return parseJSONResponse<T>(response.choices[0]?.message?.content || '');
+  }
+
+  async completeStructured<T = unknown>(
+    messages: ChatMessage[],
+    schema: StructuredOutputSchema,
+    options: CompletionOptions = {}
+  ): Promise<T> {
+    if (!this.config.supportsJsonSchema()) {
+      return this.completeJSON<T>([...messages, schemaInstruction(schema)], options);
+    }
+
+    const response = await this.getClient().chat.completions.create({
+      model: options.model || this.defaultModel,
+      messages,
+      temperature: options.temperature ?? 0.1,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: schema.name, description: schema.description, schema: schema.schema, strict: true }
+      }
+    });
+
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      throw new Error(`The model declined to answer: ${message.refusal}`);
+    }
+    return parseJSONResponse<T>(message?.content || '');
+  }
+}
+
+/**
+ * Anthropic messages API. System prompts are passed separately and JSON mode
+ * is done by instruction, since there is no response_format equivalent.
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client?: Anthropic;
+
+  get defaultModel(): string {
+    return process.env.ANTHROPIC_MODEL || 'claude-3-7-sonnet-20250219';
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return this.client;
+  }
+
+  private splitSystem(messages: ChatMessage[]) {
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const conversation = messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    return { system, conversation };
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const { system, conversation } = this.splitSystem(messages);
+    const response = await this.getClient().messages.create({
+      model: options.model || this.defaultModel,
+      system,
+      messages: conversation,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE
+    });
+
+    return response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncGenerator<string, void, unknown> {
+    const { system, conversation } = this.splitSystem(messages);
+    const stream = await this.getClient().messages.create({
+      model: options.model || this.defaultModel,
+      system,
+      messages: conversation,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      stream: true
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta' && chunk.delta.text) {
+        yield chunk.delta.text;
+      }
+    }
+  }
+
+  async completeJSON<T = any>(messages: ChatMessage[], options: CompletionOptions = {}): Promise<T> {
+    const content = await this.complete(
+      [...messages, { role: 'system', content: 'Respond with a single valid JSON object and nothing else.' }],
+      { ...options, temperature: options.temperature ?? 0.1 }
+    );
+
+    return parseJSONResponse<T>(content);
+  }
+
+  // Forcing a single tool call makes the tool input the structured reply
+  async completeStructured<T = unknown>(
+    messages: ChatMessage[],
+    schema: StructuredOutputSchema,
+    options: CompletionOptions = {}
+  ): Promise<T> {
+    const { system, conversation } = this.splitSystem(messages);
+    const response = await this.getClient().messages.create({
+      model: options.model || this.defaultModel,
+      system,
+      messages: conversation,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? 0.1,
+      tools: [{
+        name: schema.name,
+        description: schema.description,
+        input_schema: schema.schema as Anthropic.Tool.InputSchema
+      }],
+      tool_choice: { type: 'tool', name: schema.name }
+    });
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error('AI response did not include the requested structured output');
+    }
+    return toolUse.input as T;
+  }
+}
+
+/**
+ * Deterministic offline provider for development and tests. Replies echo the
+ * last user message, and JSON mode returns any "- Item: $price" lines found
+ * in the conversation as line items.
+ */
+class FakeProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly defaultModel = 'fake-model';
+
+  // Canned replies are never served in production unless explicitly chosen
+  isConfigured(): boolean {
+    return process.env.AI_PROVIDER === 'fake' || process.env.NODE_ENV !== 'production';
+  }
+
+  private reply(messages: ChatMessage[]): string {
+    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+    return `This is a test response to: ${lastUserMessage?.content || ''}`;
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    return this.reply(messages);
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncGenerator<string, void, unknown> {
+    // Stream word by word so clients exercise their chunk handling
+    for (const word of this.reply(messages).match(/\S+\s*/g) || []) {
+      yield word;
+    }
+  }
+
+  async completeJSON<T = any>(messages: ChatMessage[]): Promise<T> {
+    const items: { description: string; quantity: number; unitPrice: number }[] = [];
+
+    for (const message of messages.filter(m => m.role !== 'system')) {
+      const itemRegex = /[-•*]\s+(.*?):\s*\$?(\d+(?:\.\d+)?)/g;
+      let match;
+      while ((match = itemRegex.exec(message.content)) !== null) {
+        items.push({ description: match[1].trim(), quantity: 1, unitPrice: parseFloat(match[2]) });
+      }
+    }
+
+    return { items } as T;
+  }
+
+  async completeStructured<T = unknown>(messages: ChatMessage[]): Promise<T> {
+    return this.completeJSON<T>(messages);
+  }
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Add or replace a provider, e.g. to register a test double
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerProvider(new OpenAICompatibleProvider('openai', {
+  apiKey: () => process.env.OPENAI_API_KEY,
+  defaultModel: () => process.env.OPENAI_MODEL || 'gpt-4o',
+  requiresApiKey: true,
+  supportsJsonSchema: () => true
+}));
+registerProvider(new AnthropicProvider());
+registerProvider(new OpenAICompatibleProvider('local', {
+  apiKey: () => process.env.LOCAL_LLM_API_KEY,
+  baseURL: () => process.env.LOCAL_LLM_BASE_URL, // e.g. http://localhost:11434/v1 for Ollama
+  defaultModel: () => process.env.LOCAL_LLM_MODEL || 'llama3.1',
+  requiresApiKey: false,
+  supportsJsonSchema: () => process.env.LOCAL_LLM_JSON_SCHEMA === 'true'
+}));
+registerProvider(new FakeProvider());
+
+// Order used when nothing more specific is configured. The fake provider is never picked implicitly.
+const FALLBACK_ORDER = ['openai', 'anthropic', 'local'];
+
+export function getProvider(name: string): LLMProvider | undefined {
+  return providers.get(name);
+}
+
+export function getRegisteredProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+export function isProviderConfigured(name: string): boolean {
+  return !!providers.get(name)?.isConfigured();
+}
+
+export interface ProviderHealth {
+  name: string;
+  configured: boolean; // API key (or local endpoint) present
+  isDefault: boolean;
+  defaultModel: string;
+  ping?: {
+    ok: boolean;
+    latencyMs: number;
+    error?: string;
+    checkedAt: Date;
+  };
+}
+
+const PING_TIMEOUT_MS = 10000;
+const PING_CACHE_MS = 60000;
+const pingResults = new Map<string, NonNullable<ProviderHealth['ping']>>();
+
+// Send the smallest possible completion to prove the key and endpoint work
+async function pingProvider(provider: LLMProvider): Promise<NonNullable<ProviderHealth['ping']>> {
+  const cached = pingResults.get(provider.name);
+  if (cached && Date.now() - cached.checkedAt.getTime() < PING_CACHE_MS) {
+    return cached;
+  }
+
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  let result: NonNullable<ProviderHealth['ping']>;
+  try {
+    await Promise.race([
+      provider.complete([{ role: 'user', content: 'Reply with OK.' }], { maxTokens: 5, temperature: 0 }),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`No response within ${PING_TIMEOUT_MS / 1000}s`)), PING_TIMEOUT_MS);
+      })
+    ]);
+    result = { ok: true, latencyMs: Date.now() - startedAt, checkedAt: new Date() };
+  } catch (error) {
+    result = { ok: false, latencyMs: Date.now() - startedAt, error: (error as Error).message, checkedAt: new Date() };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  pingResults.set(provider.name, result);
+  return result;
+}
+
+/**
+ * Report which providers are configured and, optionally, whether they answer
+ * a live request. Ping results are cached for a minute so the status screen
+ * doesn't spend tokens on every load. The fake provider is only listed when selected.
+ */
+export async function getProviderHealth(options: { ping?: boolean } = {}): Promise<ProviderHealth[]> {
+  let defaultName: string | undefined;
+  try {
+    defaultName = getDefaultProvider().name;
+  } catch {
+    defaultName = undefined;
+  }
+
+  const listed = getRegisteredProviders()
+    .filter(provider => provider.name !== 'fake' || process.env.AI_PROVIDER === 'fake');
+
+  return Promise.all(listed.map(async provider => {
+    const configured = provider.isConfigured();
+    return {
+      name: provider.name,
+      configured,
+      isDefault: provider.name === defaultName,
+      defaultModel: provider.defaultModel,
+      ping: configured && options.ping !== false ? await pingProvider(provider) : undefined
+    };
+  }));
+}
+
+/**
+ * True when at least one real or explicitly selected provider can serve requests
+ */
+export function hasConfiguredProvider(): boolean {
+  try {
+    getDefaultProvider();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The provider named by AI_PROVIDER, or the first configured one
+ */
+export function getDefaultProvider(): LLMProvider {
+  const preferred = process.env.AI_PROVIDER;
+  if (preferred) {
+    const provider = providers.get(preferred);
+    if (provider?.isConfigured()) {
+      return provider;
+    }
+    console.warn(`AI_PROVIDER "${preferred}" is not registered or not configured, falling back`);
+  }
+
+  for (const name of FALLBACK_ORDER) {
+    const provider = providers.get(name);
+    if (provider?.isConfigured()) {
+      return provider;
+    }
+  }
+
+  throw new Error('No AI provider configured. Please add an OpenAI or Anthropic API key, or a local model endpoint.');
+}
+
+// Models trained by the offline mock fine-tuning provider, which no real provider can serve
+const MOCK_FINETUNE_ID = /^ft:[^:]+:mock:\d+$/;
+
+// The fine-tuned model once training has completed, if the model's provider can serve it
+function fineTunedModel(aiModel: AIModel): string | undefined {
+  if (aiModel.finetuneStatus !== 'completed' || !aiModel.finetuneId) {
+    return undefined;
+  }
+  if (MOCK_FINETUNE_ID.test(aiModel.finetuneId) && aiModel.provider !== 'fake') {
+    return undefined;
+  }
+  return aiModel.finetuneId;
+}
+
+/**
+ * Choose the provider and model for a company. The company's most recently
+ * updated active AI model wins, using its fine-tuned model once training has
+ * completed (mock-trained ones only on the fake provider); otherwise the
+ * default provider and its default model are used.
+ */
+export async function resolveModel(companyId?: number | null): Promise<ResolvedModel> {
+  if (companyId) {
+    const activeModels = await storage.getActiveAIModels(companyId);
+    const aiModel = activeModels
+      .filter(m => isProviderConfigured(m.provider))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0];
+
+    if (aiModel) {
+      const configuration = (aiModel.configuration || {}) as { temperature?: number; maxTokens?: number };
+      return {
+        provider: providers.get(aiModel.provider)!,
+        aiModel,
+        options: {
+          model: fineTunedModel(aiModel) ?? aiModel.baseModel,
+          temperature: typeof configuration.temperature === 'number' ? configuration.temperature : undefined,
+          maxTokens: typeof configuration.maxTokens === 'number' ? configuration.maxTokens : undefined
+        }
+      };
+    }
+  }
+
+  return { provider: getDefaultProvider(), options: {} };
+}
+
+export interface ValidatedCompletion<T> {
+  success: boolean;
+  data?: T;
+  // Notes from the repair step about what it changed or dropped
+  warnings: string[];
+  attempts: number;
+  error?: string;
+}
+
+export interface ValidatedCompletionOptions {
+  completion?: CompletionOptions;
+  maxAttempts?: number;
+  // Fix what can be fixed without guessing before validating, noting changes in warnings
+  repair?: (raw: unknown, warnings: string[]) => unknown;
+}
+
+function describeIssues(issues: ZodIssue[]): string {
+  return issues
+    .slice(0, 10)
+    .map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Ask for structured output and check it against a zod schema. A reply that
+ * can't be read or doesn't validate is sent back to the model with what was
+ * wrong, up to maxAttempts times. Never throws for a bad reply; the result
+ * says what went wrong instead.
+ */
+export async function completeValidated<T>(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  schema: StructuredOutputSchema,
+  validator: ZodType<T, ZodTypeDef, unknown>,
+  options: ValidatedCompletionOptions = {}
+): Promise<ValidatedCompletion<T>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 2);
+  const conversation = [...messages];
+  let error = 'No valid response was produced';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const warnings: string[] = [];
+    let raw: unknown;
+    try {
+      raw = await provider.completeStructured(conversation, schema, {
+        ...options.completion,
+        temperature: 0.1,
+        maxTokens: Math.max(options.completion?.maxTokens ?? 0, 2000)
+      });
+    } catch (err) {
+      error = `The AI response could not be read: ${(err as Error).message}`;
+      console.warn(`${schema.name} attempt ${attempt} failed:`, (err as Error).message);
+      continue;
+    }
+
+    const parsed = validator.safeParse(options.repair ? options.repair(raw, warnings) : raw);
+    if (parsed.success) {
+      return { success: true, data: parsed.data, warnings, attempts: attempt };
+    }
+
+    const issues = describeIssues(parsed.error.issues);
+    error = `The AI response didn't match the expected format (${issues})`;
+    console.warn(`${schema.name} attempt ${attempt} was invalid: ${issues}`);
+
+    // Show the model its own reply and what was wrong with it
+    conversation.push(
+      { role: 'assistant', content: JSON.stringify(raw ?? null).slice(0, 4000) },
+      { role: 'user', content: `That reply was invalid: ${issues}. Reply again in full, fixing these problems.` }
+    );
+  }
+
+  return { success: false, warnings: [], attempts: maxAttempts, error };
+}
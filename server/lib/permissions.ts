@@ -0,0 +1,86 @@
+/**
+ * Permission policy
+ * The one place that decides what a user may do. Routes ask for a named
+ * permission, optionally on a record; the answer comes from the user's role,
+ * which is either built in (admin, owner, member) or one of their company's
+ * custom roles, and from whether the record belongs to them or their company.
+ */
+import {
+  companyPermissions,
+  type Conversation,
+  permissions,
+  type BuiltInRole,
+  type Permission
+} from '@shared/schema';
+import type { TokenPayload } from './jwt';
+import { storage } from '../storage';
+
+export type PolicyUser = Pick<TokenPayload, 'id' | 'role' | 'companyId'>;
+
+// The owning company and, where there is one, the user who created the record
+export interface PolicyResource {
+  companyId: number | null;
+  userId?: number | null;
+}
+
+// Admins hold every permission; members keep what they could always do
+export const BUILT_IN_ROLE_PERMISSIONS: Record<BuiltInRole, readonly Permission[]> = {
+  admin: permissions,
+  owner: companyPermissions,
+  member: ['quotes:read-all', 'quotes:approve', 'clients:read', 'clients:edit', 'xero:export']
+};
+
+// Permissions that only matter for other people's records: your own quotes are always yours
+const OTHERS_RECORDS_PERMISSIONS: readonly Permission[] = ['quotes:read-all'];
+
+export const isBuiltInRole = (role: string): role is BuiltInRole =>
+  Object.prototype.hasOwnProperty.call(BUILT_IN_ROLE_PERMISSIONS, role);
+
+/**
+ * Everything the user's role allows. A role that is neither built in nor one
+ * of the company's custom roles (e.g. a deleted role) allows nothing.
+ */
+export async function getPermissions(user: PolicyUser): Promise<Permission[]> {
+  if (isBuiltInRole(user.role)) {
+    return [...BUILT_IN_ROLE_PERMISSIONS[user.role]];
+  }
+  if (!user.companyId) {
+    return [];
+  }
+
+  const role = await storage.getCompanyRoleByName(user.companyId, user.role);
+  return role ? role.permissions.filter(permission => companyPermissions.includes(permission)) : [];
+}
+
+/**
+ * Whether the user has the permission, and on the resource when one is given.
+ * Records of another company are off limits to everyone but admins.
+ */
+export async function can(user: PolicyUser, permission: Permission, resource?: PolicyResource): Promise<boolean> {
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  if (resource) {
+    const ownRecord = resource.userId != null && resource.userId === user.id;
+    const sameCompany = resource.companyId != null && resource.companyId === user.companyId;
+    if (!ownRecord && !sameCompany) {
+      return false;
+    }
+    if (ownRecord && OTHERS_RECORDS_PERMISSIONS.includes(permission)) {
+      return true;
+    }
+  }
+
+  return (await getPermissions(user)).includes(permission);
+}
+
+/**
+ * Users can see threads they started, threads belonging to their company, or anything if admin
+ */
+export const canAccessConversation = (user: PolicyUser | undefined, conversation: Conversation): boolean => {
+  if (!user) return false;
+  return conversation.userId === user.id ||
+    (conversation.companyId !== null && conversation.companyId === user.companyId) ||
+    user.role === 'admin';
+};
@@ -0,0 +1,48 @@
+/**
+ * Polling workers
+ * Fine-tuning, document imports, prompt evaluations and the knowledge index
+ * are worked through in the background on a timer. All their state is stored on the records they
+ * process, so a pass simply picks up whatever is still pending or unfinished,
+ * including work left over from before a restart.
+ */
+
+export interface PollingWorker {
+  // Run one pass now; overlapping calls share the pass already under way
+  run(): Promise<void>;
+  // Run a pass straight away and then every interval
+  start(): void;
+}
+
+/**
+ * A worker that runs `pass` every `intervalEnvVar` milliseconds (or
+ * `defaultIntervalMs`). Errors are logged under `name` and don't stop the timer.
+ */
+export function createPollingWorker(
+  name: string,
+  pass: () => Promise<void>,
+  intervalEnvVar: string,
+  defaultIntervalMs: number
+): PollingWorker {
+  let timer: NodeJS.Timeout | undefined;
+  let inProgress: Promise<void> | undefined;
+
+  const run = (): Promise<void> => {
+    if (!inProgress) {
+      inProgress = pass()
+        .catch(error => console.error(`Error processing ${name}:`, error))
+        .finally(() => { inProgress = undefined; });
+    }
+    return inProgress;
+  };
+
+  const start = (): void => {
+    if (timer) return;
+
+    const intervalMs = parseInt(process.env[intervalEnvVar] || '', 10) || defaultIntervalMs;
+    timer = setInterval(() => { void run(); }, intervalMs);
+    timer.unref();
+    void run();
+  };
+
+  return { run, start };
+}
@@ -0,0 +1,262 @@
+/**
+ * Company price book
+ * Works out what each price book entry sells for (a fixed price, or cost plus
+ * the item's or its category's markup), matches AI-extracted line items to
+ * entries so they carry the company's own prices, and presents the book to
+ * the model as context. Items nothing matched are reported rather than
+ * dropped, so a person can price them.
+ */
+import {
+  insertPriceBookItemSchema,
+  type InsertPriceBookItem,
+  type ExtractedLineItem,
+  type LineItemCategory,
+  type PriceBookItem,
+  type PriceBookMarkup,
+  type PricedLineItem
+} from '@shared/schema';
+import { storage } from '../storage';
+import { parseCsvRecords } from './csv';
+import { matchTokens } from './embeddings';
+
+export interface PriceBookEntry extends PriceBookItem {
+  price: number | null; // Sell price excluding tax; null when the entry has neither a price nor a cost
+}
+
+export interface PriceBookApplication {
+  items: PricedLineItem[];
+  unmatched: string[]; // Descriptions of items with no price book entry
+  warnings: string[];
+}
+
+// Dice similarity between an item description and an entry name needed to call it a match
+const MATCH_THRESHOLD = 0.5;
+// Most entries listed in a prompt; bigger books are narrowed to those most relevant to the request
+const MAX_CONTEXT_ENTRIES = 60;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * What an item sells for: its fixed sell price, else its cost plus its own
+ * markup, else plus its category's markup rule
+ */
+export function sellPriceOf(item: PriceBookItem, markups: PriceBookMarkup[]): number | null {
+  if (item.sellPrice !== null) return item.sellPrice;
+  if (item.cost === null) return null;
+
+  const markup = item.markupPercent ?? markups.find(rule => rule.category === item.category)?.markupPercent ?? 0;
+  return roundMoney(item.cost * (1 + markup / 100));
+}
+
+export function toPriceBookEntries(items: PriceBookItem[], markups: PriceBookMarkup[]): PriceBookEntry[] {
+  return items.map(item => ({ ...item, price: sellPriceOf(item, markups) }));
+}
+
+/**
+ * The company's active, priced entries
+ */
+export async function loadPriceBook(companyId: number): Promise<PriceBookEntry[]> {
+  const [items, markups] = await Promise.all([
+    storage.getPriceBookItemsByCompanyId(companyId),
+    storage.getPriceBookMarkups(companyId)
+  ]);
+  return toPriceBookEntries(items.filter(item => item.isActive), markups)
+    .filter(entry => entry.price !== null);
+}
+
+function matchScore(description: string, entry: PriceBookEntry): number {
+  const text = description.toLowerCase();
+  if (entry.sku) {
+    const sku = entry.sku.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`(^|[^a-z0-9])${sku}([^a-z0-9]|$)`).test(text)) return 1;
+  }
+  if (text.trim() === entry.name.toLowerCase().trim()) return 1;
+
+  const words = matchTokens(description);
+  const entryWords = matchTokens(entry.name);
+  if (words.size === 0 || entryWords.size === 0) return 0;
+
+  const shared = Array.from(entryWords).filter(word => words.has(word)).length;
+  return (2 * shared) / (words.size + entryWords.size);
+}
+
+/**
+ * The entry a line item description most likely refers to, if any is close enough
+ */
+export function matchPriceBookEntry(description: string, entries: PriceBookEntry[]): PriceBookEntry | undefined {
+  let best: PriceBookEntry | undefined;
+  let bestScore = MATCH_THRESHOLD;
+  for (const entry of entries) {
+    const score = matchScore(description, entry);
+    if (score >= bestScore) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Price extracted items from the price book: matched items take the entry's
+ * price, unit, category and tax treatment; the rest keep the price the
+ * conversation gave them and are listed as unmatched
+ */
+export function applyPriceBook(items: ExtractedLineItem[], entries: PriceBookEntry[]): PriceBookApplication {
+  const unmatched: string[] = [];
+  const warnings: string[] = [];
+
+  const priced = items.map(item => {
+    const entry = entries.length > 0 ? matchPriceBookEntry(item.description, entries) : undefined;
+    if (!entry || entry.price === null) {
+      if (entries.length > 0) unmatched.push(item.description);
+      return { ...item, priceBookItemId: null, sku: null };
+    }
+
+    if (Math.abs(entry.price - item.unitPrice) >= 0.01) {
+      warnings.push(`Priced "${item.description}" at $${entry.price.toFixed(2)} from the price book instead of $${item.unitPrice.toFixed(2)}`);
+    }
+    return {
+      ...item,
+      unitPrice: entry.price,
+      unit: entry.unit ?? item.unit,
+      category: entry.category as LineItemCategory,
+      taxable: entry.taxable,
+      priceBookItemId: entry.id,
+      sku: entry.sku
+    };
+  });
+
+  if (unmatched.length > 0) {
+    warnings.push(`Not in the price book: ${unmatched.join(', ')}`);
+  }
+  return { items: priced, unmatched, warnings };
+}
+
+/**
+ * Prompt section listing the price book, narrowed to the entries most
+ * relevant to the request when the book is large
+ */
+export function formatPriceBookContext(entries: PriceBookEntry[], request = ''): string {
+  let listed = entries;
+  if (entries.length > MAX_CONTEXT_ENTRIES) {
+    listed = entries
+      .map(entry => ({ entry, score: matchScore(request, entry) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CONTEXT_ENTRIES)
+      .map(({ entry }) => entry);
+  }
+
+  const lines = listed.map(entry => {
+    const sku = entry.sku ? `[${entry.sku}] ` : '';
+    const unit = entry.unit ? ` per ${entry.unit}` : '';
+    return `- ${sku}${entry.name}: $${entry.price!.toFixed(2)}${unit} (${entry.category}${entry.taxable ? '' : ', tax exempt'})`;
+  });
+
+  return `PRICE BOOK for this company, prices excluding tax. Price every item that matches an entry at ` +
+    `the entry's price and use its name, and prefer these prices over past quotes. Never invent a price for ` +
+    `something that isn't listed: ask for it, or give it clearly marked as "not in price book".\n${lines.join('\n')}`;
+}
+
+export interface PriceBookImportRow {
+  row: number; // Line in the file, counting the header as line 1
+  item?: Omit<InsertPriceBookItem, 'companyId'>;
+  error?: string;
+}
+
+// Spellings spreadsheets commonly use for the price book categories
+const CATEGORY_ALIASES: Record<string, string> = {
+  labor: 'labour',
+  materials: 'material',
+  plant: 'equipment',
+  hire: 'equipment'
+};
+
+// Blank is null; anything unreadable is NaN so validation rejects it
+const parseOptionalNumber = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+const parseBoolean = (value: string | undefined, fallback: boolean): boolean =>
+  value ? !/^(false|no|n|0)$/i.test(value) : fallback;
+
+/**
+ * Read price book rows from CSV with a header row. Recognised columns: sku,
+ * name, description, category, unit, cost, sell_price (or price),
+ * markup_percent (or markup), taxable, active.
+ */
+export function parsePriceBookCsv(text: string): PriceBookImportRow[] {
+  return parseCsvRecords(text).map((record, index) => {
+    const row = index + 2;
+    const category = (record.category || 'material').toLowerCase();
+
+    const parsed = insertPriceBookItemSchema.omit({ companyId: true }).safeParse({
+      sku: record.sku || null,
+      name: record.name || record.item || '',
+      description: record.description || null,
+      category: CATEGORY_ALIASES[category] ?? category,
+      unit: record.unit || null,
+      cost: parseOptionalNumber(record.cost),
+      sellPrice: parseOptionalNumber(record.sell_price ?? record.sellprice ?? record.price),
+      markupPercent: parseOptionalNumber(record.markup_percent ?? record.markup),
+      taxable: parseBoolean(record.taxable, true),
+      isActive: parseBoolean(record.active ?? record.is_active, true)
+    });
+
+    if (!parsed.success) {
+      return { row, error: parsed.error.errors.map(e => `${e.path.join('.') || 'row'}: ${e.message}`).join('; ') };
+    }
+    if (parsed.data.cost == null && parsed.data.sellPrice == null) {
+      return { row, error: 'Needs a cost or a sell price' };
+    }
+
+    return { row, item: parsed.data };
+  });
+}
+
+export interface PriceBookImportResult {
+  created: number;
+  updated: number;
+  errors: { row: number; message: string }[];
+}
+
+/**
+ * Add or update price book items from CSV. Rows are matched to existing
+ * items by SKU, then by name; rows with errors are skipped and reported.
+ * With dryRun nothing is saved but the counts are the same.
+ */
+export async function importPriceBookCsv(
+  companyId: number,
+  text: string,
+  options: { dryRun?: boolean } = {}
+): Promise<PriceBookImportResult> {
+  const rows = parsePriceBookCsv(text);
+  const existing = await storage.getPriceBookItemsByCompanyId(companyId);
+  const bySku = new Map(existing.filter(item => item.sku).map(item => [item.sku!.toLowerCase(), item.id]));
+  const byName = new Map(existing.map(item => [item.name.toLowerCase(), item.id]));
+
+  const result: PriceBookImportResult = { created: 0, updated: 0, errors: [] };
+  // Rows created in a dry run get stand-in IDs so later rows for the same item count as updates
+  let dryRunId = -1;
+
+  for (const { row, item, error } of rows) {
+    if (!item) {
+      result.errors.push({ row, message: error || 'Invalid row' });
+      continue;
+    }
+
+    const id = (item.sku && bySku.get(item.sku.toLowerCase())) || byName.get(item.name.toLowerCase());
+    if (id !== undefined) {
+      if (!options.dryRun) await storage.updatePriceBookItem(id, item);
+      result.updated++;
+    } else {
+      const createdId = options.dryRun ? dryRunId-- : (await storage.createPriceBookItem({ ...item, companyId })).id;
+      if (item.sku) bySku.set(item.sku.toLowerCase(), createdId);
+      byName.set(item.name.toLowerCase(), createdId);
+      result.created++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,231 @@
+/**
+ * Prompt evaluation
+ * Runs the stored golden cases through quote drafting with a candidate core
+ * or industry prompt and model, and scores each draft on whether it contains
+ * the expected line items, how far its total falls outside the expected price
+ * range, and whether the reply fit the draft schema. Runs happen in the
+ * background like fine-tuning; results are saved case by case so progress can
+ * be shown, and the finished report is kept to compare prompts side by side.
+ */
+import type {
+  PromptEvalCase,
+  PromptEvalCaseResult,
+  PromptEvalRun,
+  PromptEvalScores,
+  QuoteDraft,
+  SystemPrompt
+} from '@shared/schema';
+import { storage } from '../storage';
+import { getProvider, type ValidatedCompletion } from './llm-provider';
+import { draftQuote } from './ai-client';
+import { calculateQuoteTotals } from './quote-totals';
+import { matchTokens } from './embeddings';
+import { createPollingWorker } from './polling-worker';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+// Share of an expected item's words a drafted item must contain to count as the same item
+const MATCH_THRESHOLD = 0.6;
+
+const worker = createPollingWorker('prompt evaluations', processRuns, 'PROMPT_EVAL_POLL_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS);
+
+export interface PromptEvalCandidate {
+  name?: string | null;
+  industryId?: number | null;
+  corePrompt?: SystemPrompt; // Defaults to no core prompt
+  industryPrompt?: SystemPrompt; // Only with an industry; otherwise each case uses its industry's active prompt
+  provider: string;
+  model: string;
+  createdBy?: number | null;
+}
+
+function itemMatches(expected: string, drafted: string): boolean {
+  const expectedWords = Array.from(matchTokens(expected));
+  if (expectedWords.length === 0) return false;
+  const draftedWords = matchTokens(drafted);
+  return expectedWords.filter(word => draftedWords.has(word)).length / expectedWords.length >= MATCH_THRESHOLD;
+}
+
+// How far a total is outside the range, relative to the bound it missed
+export function priceDeviation(total: number, minTotal: number | null, maxTotal: number | null): number {
+  if (minTotal !== null && total < minTotal) {
+    return minTotal > 0 ? (minTotal - total) / minTotal : 0;
+  }
+  if (maxTotal !== null && total > maxTotal) {
+    return maxTotal > 0 ? (total - maxTotal) / maxTotal : 1;
+  }
+  return 0;
+}
+
+// Recall counts most; a total twice the top of the range or worse scores nothing for price
+const overallScore = (scores: Omit<PromptEvalScores, 'overall'>) =>
+  0.5 * scores.lineItemRecall + 0.25 * scores.formatValidity + 0.25 * (1 - Math.min(1, scores.priceDeviation));
+
+/**
+ * Score one draft against its case. Each drafted item can only satisfy one
+ * expected item.
+ */
+export function scoreDraft(evalCase: PromptEvalCase, completion: ValidatedCompletion<QuoteDraft>): Omit<PromptEvalCaseResult, 'industryPromptId'> {
+  const base = { caseId: evalCase.id, name: evalCase.name, attempts: completion.attempts };
+  const expected = evalCase.expectedLineItems.map(item => item.description);
+
+  if (!completion.success || !completion.data) {
+    return {
+      ...base,
+      lineItemRecall: 0,
+      priceDeviation: 1,
+      formatValidity: 0,
+      overall: 0,
+      total: null,
+      matched: [],
+      missing: expected,
+      error: completion.error || 'No valid draft was produced'
+    };
+  }
+
+  const remaining = completion.data.lineItems.map(item => item.description);
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const description of expected) {
+    const index = remaining.findIndex(drafted => itemMatches(description, drafted));
+    if (index === -1) {
+      missing.push(description);
+    } else {
+      matched.push(description);
+      remaining.splice(index, 1);
+    }
+  }
+
+  const total = calculateQuoteTotals(completion.data.lineItems.map(item => ({ ...item, taxRate: 0 }))).subtotal;
+  const scores = {
+    lineItemRecall: expected.length > 0 ? matched.length / expected.length : 1,
+    priceDeviation: priceDeviation(total, evalCase.minTotal, evalCase.maxTotal),
+    formatValidity: completion.attempts === 1 ? 1 : 0.5
+  };
+
+  return { ...base, ...scores, overall: overallScore(scores), total, matched, missing };
+}
+
+// Averages over the cases in a run
+export function summarizeResults(results: PromptEvalCaseResult[]): PromptEvalScores {
+  const average = (pick: (result: PromptEvalCaseResult) => number) =>
+    results.length > 0 ? results.reduce((sum, result) => sum + pick(result), 0) / results.length : 0;
+
+  return {
+    lineItemRecall: average(result => result.lineItemRecall),
+    priceDeviation: average(result => result.priceDeviation),
+    formatValidity: average(result => result.formatValidity),
+    overall: average(result => result.overall)
+  };
+}
+
+/**
+ * The active cases a run covers: those for the industry plus the general
+ * ones, or every active case when no industry is given
+ */
+export async function selectEvalCases(industryId?: number | null): Promise<PromptEvalCase[]> {
+  const cases = (await storage.getAllPromptEvalCases()).filter(evalCase => evalCase.isActive);
+  return industryId
+    ? cases.filter(evalCase => evalCase.industryId === industryId || evalCase.industryId === null)
+    : cases;
+}
+
+async function failRun(run: PromptEvalRun, message: string): Promise<void> {
+  console.error(`Prompt evaluation ${run.id} failed: ${message}`);
+  await storage.updatePromptEvalRun(run.id, { status: 'failed', error: message, completedAt: new Date() });
+}
+
+// Draft and score each case not yet scored, saving after every one
+async function executeRun(run: PromptEvalRun): Promise<void> {
+  const provider = getProvider(run.provider);
+  if (!provider || !provider.isConfigured()) {
+    return failRun(run, `The ${run.provider} provider is not configured`);
+  }
+
+  if (run.status === 'pending') {
+    await storage.updatePromptEvalRun(run.id, { status: 'running' });
+  }
+
+  const results = [...run.results];
+  const done = new Set(results.map(result => result.caseId));
+  // Cases deleted since the run started are skipped
+  const cases = (await Promise.all(run.caseIds.filter(id => !done.has(id)).map(id => storage.getPromptEvalCase(id))))
+    .filter((evalCase): evalCase is PromptEvalCase => !!evalCase);
+
+  for (const evalCase of cases) {
+    const industryPrompt = run.industryId
+      ? { id: run.industryPromptId, content: run.industryPrompt }
+      : evalCase.industryId ? await storage.getIndustrySystemPrompt(evalCase.industryId) : undefined;
+    const systemPrompts = [run.corePrompt, industryPrompt?.content].filter((content): content is string => !!content);
+
+    let completion: ValidatedCompletion<QuoteDraft>;
+    try {
+      completion = await draftQuote(provider, { model: run.model }, systemPrompts, evalCase.description);
+    } catch (error) {
+      completion = { success: false, warnings: [], attempts: 1, error: (error as Error).message };
+    }
+    results.push({ ...scoreDraft(evalCase, completion), industryPromptId: industryPrompt?.id ?? null });
+
+    // Stops if the run was deleted while this case was being drafted
+    const updated = await storage.updatePromptEvalRun(run.id, { results, completedCases: results.length });
+    if (!updated) return;
+  }
+
+  await storage.updatePromptEvalRun(run.id, {
+    status: 'completed',
+    scores: summarizeResults(results),
+    completedAt: new Date()
+  });
+}
+
+async function processRuns(): Promise<void> {
+  const runs = [
+    ...await storage.getPromptEvalRunsByStatus('running'),
+    ...await storage.getPromptEvalRunsByStatus('pending')
+  ];
+
+  for (const run of runs) {
+    try {
+      await executeRun(run);
+    } catch (error) {
+      await failRun(run, (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Run one pass over pending and unfinished evaluations. Overlapping calls
+ * share the pass already under way.
+ */
+export function processPromptEvaluations(): Promise<void> {
+  return worker.run();
+}
+
+/**
+ * Queue a run of the given cases against a candidate and start working on it
+ */
+export async function startPromptEvaluation(candidate: PromptEvalCandidate, cases: PromptEvalCase[]): Promise<PromptEvalRun> {
+  const run = await storage.createPromptEvalRun({
+    name: candidate.name ?? null,
+    industryId: candidate.industryId ?? null,
+    corePromptId: candidate.corePrompt?.id ?? null,
+    industryPromptId: candidate.industryPrompt?.id ?? null,
+    corePrompt: candidate.corePrompt?.content ?? null,
+    industryPrompt: candidate.industryPrompt?.content ?? null,
+    provider: candidate.provider,
+    model: candidate.model,
+    status: 'pending',
+    caseIds: cases.map(evalCase => evalCase.id),
+    results: [],
+    createdBy: candidate.createdBy ?? null
+  });
+
+  void processPromptEvaluations();
+  return run;
+}
+
+/**
+ * Start running evaluations in the background, every PROMPT_EVAL_POLL_INTERVAL_MS
+ */
+export function startPromptEvalWorker(): void {
+  worker.start();
+}
@@ -0,0 +1,131 @@
+/**
+ * Sending quotes to clients
+ * Emails the quote PDF with a link to the customer portal, records the send
+ * in the outbound email log and moves a draft quote to "sent".
+ */
+import { normalizeQuoteStatus, type OutboundEmail, type Quote, type QuoteShareLink } from '@shared/schema';
+import { storage } from '../storage';
+import { buildQuoteEmail, deliverEmail, getEmailTransport, type EmailDeliveryResult } from './email';
+import { generateQuotePdf, quotePdfFileName } from './quote-pdf';
+import { calculateQuoteTotals } from './quote-totals';
+import { DEFAULT_SHARE_LINK_DAYS, generateShareToken, getShareLinkState, shareLinkUrl } from './quote-portal';
+import { changeQuoteStatus } from './quote-status';
+
+export interface SendQuoteOptions {
+  to: string;
+  recipientName: string;
+  message?: string;
+  sender: { id: number; name?: string | null; username: string; email?: string | null };
+  templateId?: number;
+  requestOrigin?: string; // Links to the portal from here when APP_URL isn't set, in development only
+}
+
+export interface SendQuoteResult {
+  delivered: boolean;
+  quote: Quote;
+  email: OutboundEmail;
+  viewUrl: string;
+}
+
+// Quotes can be (re)sent until the customer has responded
+const SENDABLE_STATUSES = ['draft', 'sent', 'viewed'];
+
+export function canSendQuote(quote: Quote): boolean {
+  const status = normalizeQuoteStatus(quote.status);
+  return !!status && SENDABLE_STATUSES.includes(status);
+}
+
+// Reuse the newest link that still works so repeat sends don't scatter tokens
+async function getOrCreateShareLink(quote: Quote, userId: number): Promise<QuoteShareLink> {
+  const links = await storage.getQuoteShareLinksByQuoteId(quote.id);
+  const active = links.find(link => getShareLinkState(link) === 'active');
+  if (active) {
+    return active;
+  }
+
+  return storage.createQuoteShareLink({
+    quoteId: quote.id,
+    token: generateShareToken(),
+    createdBy: userId,
+    expiresAt: new Date(Date.now() + DEFAULT_SHARE_LINK_DAYS * 24 * 60 * 60 * 1000)
+  });
+}
+
+/**
+ * Email a quote to a client and log the attempt. A failed delivery is logged
+ * and reported rather than thrown, and leaves the quote's status unchanged;
+ * so does an email that was only written to the console. Once the email is
+ * delivered, a quote that can't be moved to "sent" is only logged.
+ */
+export async function sendQuoteToClient(quote: Quote, options: SendQuoteOptions): Promise<SendQuoteResult> {
+  const company = quote.companyId ? await storage.getCompany(quote.companyId) : undefined;
+  const items = await storage.getQuoteLineItems(quote.id);
+  const link = await getOrCreateShareLink(quote, options.sender.id);
+  const viewUrl = shareLinkUrl(link.token, process.env.NODE_ENV !== 'production' ? options.requestOrigin : undefined);
+  if (!/^https?:\/\//.test(viewUrl)) {
+    throw new Error('APP_URL must be set to email quotes with a link to the customer portal');
+  }
+  const pdf = await generateQuotePdf(quote, options.templateId);
+
+  const total = calculateQuoteTotals(items).total;
+  const message = buildQuoteEmail({
+    to: options.to,
+    companyName: company?.name || process.env.APP_NAME || 'PriceBetter.ai',
+    senderName: options.sender.name || options.sender.username,
+    replyTo: options.sender.email || undefined,
+    recipientName: options.recipientName,
+    quoteNumber: quote.quoteNumber,
+    total: `$${total.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+    viewUrl,
+    message: options.message,
+    pdf: { filename: quotePdfFileName(quote), content: pdf, contentType: 'application/pdf' }
+  });
+
+  const logEntry = {
+    quoteId: quote.id,
+    companyId: quote.companyId,
+    userId: options.sender.id,
+    toAddress: message.to,
+    fromAddress: message.from,
+    subject: message.subject,
+    kind: 'quote',
+    attachments: message.attachments?.map(a => a.filename) || []
+  };
+
+  let result: EmailDeliveryResult;
+  try {
+    result = await deliverEmail(message);
+    if (!result.delivered) {
+      throw new Error('No email transport is configured, so the email was only logged');
+    }
+  } catch (error) {
+    console.error(`Failed to email quote ${quote.id} to ${message.to}:`, error);
+    const email = await storage.createOutboundEmail({
+      ...logEntry,
+      transport: getEmailTransport().name,
+      status: 'failed',
+      error: (error as Error).message
+    });
+
+    return { delivered: false, quote, email, viewUrl };
+  }
+
+  // The email has gone out, so nothing from here on may report the send as failed
+  const email = await storage.createOutboundEmail({
+    ...logEntry,
+    transport: result.transport,
+    status: 'sent',
+    messageId: result.messageId ?? null
+  });
+
+  let updatedQuote = quote;
+  if (normalizeQuoteStatus(quote.status) === 'draft') {
+    try {
+      updatedQuote = await changeQuoteStatus(quote, 'sent', { userId: options.sender.id, note: `Emailed to ${message.to}` });
+    } catch (error) {
+      console.error(`Quote ${quote.id} was emailed but could not be marked as sent:`, error);
+    }
+  }
+
+  return { delivered: true, quote: updatedQuote, email, viewUrl };
+}
@@ -0,0 +1,265 @@
+/**
+ * Quote PDF rendering
+ * Lays out a quote as a customer-facing document using the company's
+ * template (colours, header, footer and terms). Rendering happens in-process
+ * with PDFKit's built-in fonts, so no external service is involved.
+ */
+import PDFDocument from 'pdfkit';
+import fs from 'fs';
+import path from 'path';
+import type { Client, Company, Quote, QuoteLineItem, QuoteTemplate } from '@shared/schema';
+import { calculateLineTotal, calculateQuoteTotals } from './quote-totals';
+import { storage } from '../storage';
+
+export interface QuotePdfData {
+  quote: Quote;
+  items: QuoteLineItem[];
+  company?: Company;
+  client?: Client;
+  template?: QuoteTemplate;
+}
+
+// Template fields the renderer needs, with the defaults used when a company has no template
+type TemplateStyle = Pick<QuoteTemplate, 'headerText' | 'footerText' | 'primaryColor' | 'accentColor' | 'termsText' | 'showLogo'>;
+
+const DEFAULT_STYLE: TemplateStyle = {
+  headerText: null,
+  footerText: null,
+  primaryColor: '#111827',
+  accentColor: '#6b7280',
+  termsText: null,
+  showLogo: true
+};
+
+const PAGE_MARGIN = 50;
+
+// Column layout for the line item table, as x offsets from the left margin
+const COLUMNS = {
+  description: { x: 0, width: 235 },
+  quantity: { x: 240, width: 50 },
+  unitPrice: { x: 295, width: 75 },
+  tax: { x: 375, width: 45 },
+  amount: { x: 425, width: 70 }
+};
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatQuantity = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+/**
+ * Resolve an uploaded logo (stored as "/uploads/<file>") to a file PDFKit can embed.
+ * PDFKit only supports PNG and JPEG, so other formats are skipped.
+ */
+function resolveLogoPath(logo: string | null | undefined): string | undefined {
+  if (!logo || !logo.startsWith('/uploads/')) return undefined;
+  if (!/\.(png|jpe?g)$/i.test(logo)) return undefined;
+
+  const logoPath = path.join(process.cwd(), 'uploads', path.basename(logo));
+  return fs.existsSync(logoPath) ? logoPath : undefined;
+}
+
+/**
+ * Render a quote to a PDF buffer
+ */
+export function renderQuotePdf({ quote, items, company, client, template }: QuotePdfData): Promise<Buffer> {
+  const style: TemplateStyle = template || DEFAULT_STYLE;
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const bottomLimit = () => doc.page.height - doc.page.margins.bottom - 40;
+
+    // Header: logo and company details on the left, quote details on the right
+    const logoPath = style.showLogo ? resolveLogoPath(company?.logo) : undefined;
+    let textTop = PAGE_MARGIN;
+    if (logoPath) {
+      try {
+        doc.image(logoPath, left, PAGE_MARGIN, { fit: [140, 60] });
+        textTop = PAGE_MARGIN + 70;
+      } catch (error) {
+        console.error('Failed to embed company logo in quote PDF:', error);
+      }
+    }
+
+    doc.fillColor(style.primaryColor).font('Helvetica-Bold').fontSize(18)
+      .text(company?.name || '', left, textTop, { width: 300 });
+    if (style.headerText) {
+      doc.fillColor(style.accentColor).font('Helvetica').fontSize(9)
+        .text(style.headerText, { width: 300 });
+    }
+    let headerBottom = doc.y;
+
+    const rightX = left + contentWidth - 180;
+    doc.fillColor(style.primaryColor).font('Helvetica-Bold').fontSize(22)
+      .text('QUOTE', rightX, PAGE_MARGIN, { width: 180, align: 'right' });
+    doc.fillColor('#000000').font('Helvetica').fontSize(10)
+      .text(`Quote #: ${quote.quoteNumber}`, rightX, doc.y + 4, { width: 180, align: 'right' })
+      .text(`Date: ${new Date(quote.date).toLocaleDateString('en-US')}`, { width: 180, align: 'right' })
+      .text(`Status: ${quote.status}`, { width: 180, align: 'right' });
+    headerBottom = Math.max(headerBottom, doc.y);
+
+    // Client
+    doc.y = headerBottom + 25;
+    doc.fillColor(style.accentColor).font('Helvetica-Bold').fontSize(9)
+      .text('PREPARED FOR', left, doc.y);
+    doc.fillColor('#000000').font('Helvetica-Bold').fontSize(11)
+      .text(client?.companyName || quote.clientName);
+    doc.font('Helvetica').fontSize(10);
+    if (client) {
+      const contactName = [client.contactFirstName, client.contactLastName].filter(Boolean).join(' ');
+      [contactName, client.email, client.phone, client.address]
+        .filter(Boolean)
+        .forEach(line => doc.text(line as string));
+    }
+
+    // Description
+    if (quote.description) {
+      doc.moveDown();
+      doc.fillColor('#000000').font('Helvetica').fontSize(10)
+        .text(quote.description, left, doc.y, { width: contentWidth });
+    }
+
+    // Line item table
+    const drawTableHeader = () => {
+      const y = doc.y;
+      doc.rect(left, y, contentWidth, 20).fill(style.primaryColor);
+      doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(9);
+      doc.text('Description', left + COLUMNS.description.x + 5, y + 6, { width: COLUMNS.description.width - 5 });
+      doc.text('Qty', left + COLUMNS.quantity.x, y + 6, { width: COLUMNS.quantity.width, align: 'right' });
+      doc.text('Unit price', left + COLUMNS.unitPrice.x, y + 6, { width: COLUMNS.unitPrice.width, align: 'right' });
+      doc.text('Tax', left + COLUMNS.tax.x, y + 6, { width: COLUMNS.tax.width, align: 'right' });
+      doc.text('Amount', left + COLUMNS.amount.x, y + 6, { width: COLUMNS.amount.width - 5, align: 'right' });
+      doc.y = y + 26;
+    };
+
+    doc.moveDown(1.5);
+    drawTableHeader();
+
+    doc.font('Helvetica').fontSize(9);
+    for (const item of items) {
+      const description = item.unit ? `${item.description} (per ${item.unit})` : item.description;
+      const rowHeight = Math.max(
+        doc.heightOfString(description, { width: COLUMNS.description.width - 5 }),
+        12
+      );
+
+      if (doc.y + rowHeight > bottomLimit()) {
+        doc.addPage();
+        drawTableHeader();
+        doc.font('Helvetica').fontSize(9);
+      }
+
+      const y = doc.y;
+      doc.fillColor('#000000');
+      doc.text(description, left + COLUMNS.description.x + 5, y, { width: COLUMNS.description.width - 5 });
+      doc.text(formatQuantity(item.quantity), left + COLUMNS.quantity.x, y, { width: COLUMNS.quantity.width, align: 'right' });
+      doc.text(formatCurrency(item.unitPrice), left + COLUMNS.unitPrice.x, y, { width: COLUMNS.unitPrice.width, align: 'right' });
+      doc.text(item.taxRate ? `${item.taxRate}%` : '-', left + COLUMNS.tax.x, y, { width: COLUMNS.tax.width, align: 'right' });
+      doc.text(formatCurrency(calculateLineTotal(item)), left + COLUMNS.amount.x, y, { width: COLUMNS.amount.width - 5, align: 'right' });
+
+      doc.y = y + rowHeight + 6;
+      doc.moveTo(left, doc.y - 3).lineTo(left + contentWidth, doc.y - 3)
+        .strokeColor('#e5e7eb').lineWidth(0.5).stroke();
+    }
+
+    if (items.length === 0) {
+      doc.fillColor(style.accentColor).text('No line items', left + 5, doc.y);
+      doc.moveDown();
+    }
+
+    // Totals
+    const totals = calculateQuoteTotals(items);
+    if (doc.y + 60 > bottomLimit()) {
+      doc.addPage();
+    }
+
+    const labelX = left + COLUMNS.unitPrice.x;
+    const labelWidth = COLUMNS.unitPrice.width + COLUMNS.tax.width + 5;
+    const valueX = left + COLUMNS.amount.x;
+    const valueWidth = COLUMNS.amount.width - 5;
+    const totalRow = (label: string, value: number, bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 11 : 10)
+        .fillColor(bold ? style.primaryColor : '#000000');
+      doc.text(label, labelX, y, { width: labelWidth, align: 'right' });
+      doc.text(formatCurrency(value), valueX, y, { width: valueWidth, align: 'right' });
+      doc.y = y + (bold ? 18 : 15);
+    };
+
+    doc.moveDown(0.5);
+    totalRow('Subtotal', totals.subtotal);
+    totalRow('Tax', totals.tax);
+    totalRow('Total', totals.total, true);
+
+    // Terms
+    if (style.termsText) {
+      doc.moveDown(1.5);
+      if (doc.y + 40 > bottomLimit()) {
+        doc.addPage();
+      }
+      doc.fillColor(style.accentColor).font('Helvetica-Bold').fontSize(9)
+        .text('TERMS & CONDITIONS', left, doc.y);
+      doc.fillColor('#000000').font('Helvetica').fontSize(9)
+        .text(style.termsText, left, doc.y + 2, { width: contentWidth });
+    }
+
+    // Footer and page numbers on every page. The bottom margin is lifted so
+    // writing into it doesn't trigger an automatic page break.
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+
+      const footerY = doc.page.height - bottomMargin + 10;
+      doc.fillColor(style.accentColor).font('Helvetica').fontSize(8);
+      if (style.footerText) {
+        doc.text(style.footerText, left, footerY, { width: contentWidth - 60, lineBreak: false, ellipsis: true });
+      }
+      doc.text(`Page ${i - range.start + 1} of ${range.count}`, left + contentWidth - 60, footerY, { width: 60, align: 'right' });
+
+      doc.page.margins.bottom = bottomMargin;
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Load everything a quote document needs and render it. Uses the given
+ * template if it belongs to the quote's company, otherwise the company default.
+ */
+export async function generateQuotePdf(quote: Quote, templateId?: number): Promise<Buffer> {
+  const items = await storage.getQuoteLineItems(quote.id);
+  const company = quote.companyId ? await storage.getCompany(quote.companyId) : undefined;
+  const client = quote.clientId ? await storage.getClient(quote.clientId) : undefined;
+
+  let template: QuoteTemplate | undefined;
+  if (templateId) {
+    const requested = await storage.getQuoteTemplate(templateId);
+    if (requested && requested.companyId === quote.companyId) {
+      template = requested;
+    }
+  }
+  if (!template && quote.companyId) {
+    template = await storage.getDefaultQuoteTemplate(quote.companyId);
+  }
+
+  return renderQuotePdf({ quote, items, company, client, template });
+}
+
+/**
+ * A filesystem-safe file name for a quote document
+ */
+export function quotePdfFileName(quote: Quote): string {
+  return `quote-${quote.quoteNumber.replace(/[^a-zA-Z0-9_-]+/g, '-')}.pdf`;
+}
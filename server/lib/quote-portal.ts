@@ -0,0 +1,170 @@
+/**
+ * Customer quote portal
+ * Quotes are shared with customers as unguessable /q/:token links. Anyone
+ * holding the link can view the quote read-only and accept (with a typed
+ * signature) or decline it, without an account.
+ */
+import { randomBytes } from 'crypto';
+import { normalizeQuoteStatus, type Quote, type QuoteShareLink } from '@shared/schema';
+import { storage } from '../storage';
+import { calculateLineTotal, calculateQuoteTotals } from './quote-totals';
+import { canTransitionQuoteStatus, changeQuoteStatus, QuoteStatusConflictError } from './quote-status';
+import { sendQuoteResponseEmail } from './email';
+
+export const DEFAULT_SHARE_LINK_DAYS = 30;
+
+export type ShareLinkState = 'active' | 'expired' | 'revoked' | 'responded';
+
+export interface QuoteResponse {
+  response: 'accepted' | 'declined';
+  signatureName?: string;
+  declineReason?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Public URL for a share link. APP_URL wins so links in emails point at the
+ * public site rather than whichever host served the request.
+ */
+export function shareLinkUrl(token: string, requestOrigin?: string): string {
+  const base = (process.env.APP_URL || requestOrigin || '').replace(/\/$/, '');
+  return `${base}/q/${token}`;
+}
+
+export function getShareLinkState(link: QuoteShareLink): ShareLinkState {
+  if (link.response) return 'responded';
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt.getTime() < Date.now()) return 'expired';
+  return 'active';
+}
+
+/**
+ * Whether the customer can still accept or decline through this link
+ */
+export function canRespond(link: QuoteShareLink, quote: Quote): boolean {
+  return getShareLinkState(link) === 'active'
+    && canTransitionQuoteStatus(quote.status, 'accepted')
+    && canTransitionQuoteStatus(quote.status, 'declined');
+}
+
+/**
+ * The read-only view of a quote a customer sees. Only customer-facing fields
+ * are included; internal ids, owners and integration details are left out.
+ */
+export async function buildPortalView(link: QuoteShareLink, quote: Quote) {
+  const items = await storage.getQuoteLineItems(quote.id);
+  const company = quote.companyId ? await storage.getCompany(quote.companyId) : undefined;
+  const client = quote.clientId ? await storage.getClient(quote.clientId) : undefined;
+  const template = quote.companyId ? await storage.getDefaultQuoteTemplate(quote.companyId) : undefined;
+
+  return {
+    quote: {
+      quoteNumber: quote.quoteNumber,
+      description: quote.description,
+      date: quote.date,
+      status: normalizeQuoteStatus(quote.status) ?? quote.status
+    },
+    items: items.map(item => ({
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unitPrice,
+      taxRate: item.taxRate,
+      total: calculateLineTotal(item)
+    })),
+    totals: calculateQuoteTotals(items),
+    company: company ? { name: company.name, logo: company.logo } : null,
+    client: {
+      name: client?.companyName || quote.clientName,
+      contactName: client ? [client.contactFirstName, client.contactLastName].filter(Boolean).join(' ') || null : null
+    },
+    terms: template?.termsText ?? null,
+    link: {
+      state: getShareLinkState(link),
+      expiresAt: link.expiresAt,
+      response: link.response,
+      signatureName: link.signatureName,
+      respondedAt: link.respondedAt
+    },
+    canRespond: canRespond(link, quote)
+  };
+}
+
+/**
+ * Note that the customer opened the link, moving a sent quote to "viewed"
+ */
+export async function recordPortalView(link: QuoteShareLink, quote: Quote): Promise<Quote> {
+  const now = new Date();
+  await storage.updateQuoteShareLink(link.id, {
+    firstViewedAt: link.firstViewedAt ?? now,
+    lastViewedAt: now
+  });
+
+  if (getShareLinkState(link) === 'active' && normalizeQuoteStatus(quote.status) === 'sent') {
+    try {
+      return await changeQuoteStatus(quote, 'viewed', { source: 'client', note: 'Opened the quote link' });
+    } catch (error) {
+      // Opened in two tabs at once, or the owner changed it meanwhile
+      if (!(error instanceof QuoteStatusConflictError)) throw error;
+      return (await storage.getQuote(quote.id)) ?? quote;
+    }
+  }
+  return quote;
+}
+
+/**
+ * Move the quote to accepted or declined, store the customer's response on the
+ * link and let the quote owner know. Callers check canRespond first; a
+ * response that loses a race with another one throws QuoteStatusConflictError
+ * and changes nothing. The owner's email only links to the quote when the
+ * public app URL is known.
+ */
+export async function recordPortalResponse(
+  link: QuoteShareLink,
+  quote: Quote,
+  response: QuoteResponse,
+  ownerQuoteUrl?: string
+): Promise<Quote> {
+  const respondedAt = new Date();
+
+  const note = response.response === 'accepted'
+    ? `Signed by ${response.signatureName} from ${response.ip || 'unknown IP'}`
+    : `Declined from ${response.ip || 'unknown IP'}${response.declineReason ? `: ${response.declineReason}` : ''}`;
+  const updatedQuote = await changeQuoteStatus(quote, response.response, { source: 'client', note });
+
+  await storage.updateQuoteShareLink(link.id, {
+    response: response.response,
+    signatureName: response.signatureName ?? null,
+    declineReason: response.declineReason ?? null,
+    respondedAt,
+    respondedIp: response.ip ?? null,
+    respondedUserAgent: response.userAgent ?? null
+  });
+
+  // A failed notification shouldn't undo the customer's response
+  try {
+    const owner = quote.userId ? await storage.getUser(quote.userId) : undefined;
+    if (owner?.email) {
+      await sendQuoteResponseEmail({
+        to: owner.email,
+        ownerName: owner.name || owner.username,
+        quoteNumber: quote.quoteNumber,
+        clientName: quote.clientName,
+        response: response.response,
+        signatureName: response.signatureName,
+        declineReason: response.declineReason,
+        respondedAt,
+        quoteUrl: ownerQuoteUrl
+      });
+    }
+  } catch (error) {
+    console.error('Failed to notify quote owner of customer response:', error);
+  }
+
+  return updatedQuote;
+}
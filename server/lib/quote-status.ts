@@ -0,0 +1,98 @@
+/**
+ * Quote status lifecycle
+ * Every status change goes through here so the allowed transitions are
+ * enforced in one place and each change is recorded in the quote's history.
+ */
+import {
+  normalizeQuoteStatus,
+  quoteStatusTransitions,
+  type Quote,
+  type QuoteStatus,
+  type QuoteStatusEvent
+} from '@shared/schema';
+import { storage } from '../storage';
+import { recordQuoteVersion } from './quote-versions';
+
+export type QuoteStatusSource = 'user' | 'client' | 'system';
+
+export interface QuoteStatusChange {
+  userId?: number | null;
+  source?: QuoteStatusSource;
+  note?: string | null;
+}
+
+// Statuses reachable from the given (possibly legacy) status
+export function getAllowedTransitions(status: string): QuoteStatus[] {
+  const current = normalizeQuoteStatus(status);
+  return current ? quoteStatusTransitions[current] : [];
+}
+
+export function canTransitionQuoteStatus(from: string, to: string): boolean {
+  const target = normalizeQuoteStatus(to);
+  return !!target && getAllowedTransitions(from).includes(target);
+}
+
+/**
+ * The quote's status was changed by someone else after it was read
+ */
+export class QuoteStatusConflictError extends Error {}
+
+/**
+ * Record the status a quote was created with as the first entry in its history
+ */
+export async function recordInitialQuoteStatus(quote: Quote, change: QuoteStatusChange = {}): Promise<QuoteStatusEvent> {
+  return storage.createQuoteStatusEvent({
+    quoteId: quote.id,
+    fromStatus: null,
+    toStatus: quote.status,
+    userId: change.userId ?? null,
+    source: change.source || 'user',
+    note: change.note ?? null
+  });
+}
+
+/**
+ * Move a quote to a new status, enforcing the lifecycle and recording who
+ * made the change. Setting the status it already has is a no-op. Callers
+ * should check canTransitionQuoteStatus first to give a friendlier error.
+ * Throws QuoteStatusConflictError when the status changed in the meantime.
+ */
+export async function changeQuoteStatus(
+  quote: Quote,
+  status: string,
+  change: QuoteStatusChange = {}
+): Promise<Quote> {
+  const from = normalizeQuoteStatus(quote.status);
+  const to = normalizeQuoteStatus(status);
+
+  if (to && to === from) {
+    // Still tidy up legacy spellings like "Draft" or "pending"
+    return quote.status === to ? quote : (await storage.updateQuote(quote.id, { status: to })) || quote;
+  }
+
+  if (!to || !canTransitionQuoteStatus(quote.status, to)) {
+    throw new Error(`Cannot change quote status from "${quote.status}" to "${status}"`);
+  }
+
+  // Only move on from the status the caller checked, so two concurrent changes can't both apply
+  const updatedQuote = await storage.updateQuote(quote.id, { status: to }, { status: quote.status });
+  if (!updatedQuote) {
+    throw new QuoteStatusConflictError(`Quote ${quote.id} is no longer ${quote.status}`);
+  }
+
+  await storage.createQuoteStatusEvent({
+    quoteId: quote.id,
+    fromStatus: from ?? quote.status,
+    toStatus: to,
+    userId: change.userId ?? null,
+    source: change.source || 'user',
+    note: change.note ?? null
+  });
+
+  // Keep a copy of exactly what the client was sent
+  if (to === 'sent') {
+    await recordQuoteVersion(updatedQuote, { userId: change.userId, note: 'Sent to client' });
+  }
+
+  return updatedQuote;
+}
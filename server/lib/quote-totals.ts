@@ -0,0 +1,52 @@
+/**
+ * Quote totals
+ * Derives line and quote totals from structured line items so the stored
+ * quote amount always matches what the items add up to.
+ */
+import type { QuoteLineItem } from '@shared/schema';
+
+type PricedItem = Pick<QuoteLineItem, 'quantity' | 'unitPrice' | 'taxRate'>;
+
+export interface QuoteTotals {
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+// Round to cents to avoid floating point drift in displayed totals
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Total for a single line, excluding tax
+ */
+export function calculateLineTotal(item: PricedItem): number {
+  return roundCurrency((item.quantity || 0) * (item.unitPrice || 0));
+}
+
+/**
+ * Tax for a single line, based on its tax rate percentage
+ */
+export function calculateLineTax(item: PricedItem): number {
+  return roundCurrency(calculateLineTotal(item) * (item.taxRate || 0) / 100);
+}
+
+/**
+ * Subtotal, tax and grand total for a set of line items
+ */
+export function calculateQuoteTotals(items: PricedItem[]): QuoteTotals {
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + calculateLineTotal(item), 0));
+  const tax = roundCurrency(items.reduce((sum, item) => sum + calculateLineTax(item), 0));
+
+  return {
+    subtotal,
+    tax,
+    total: roundCurrency(subtotal + tax)
+  };
+}
+
+/**
+ * The value stored in quotes.amount, which is a whole-dollar integer column
+ */
+export function calculateQuoteAmount(items: PricedItem[]): number {
+  return Math.round(calculateQuoteTotals(items).total);
+}
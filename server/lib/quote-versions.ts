@@ -0,0 +1,216 @@
+/**
+ * Quote versions
+ * Once a quote has been sent, every save keeps an immutable snapshot of its
+ * details and line items, so earlier revisions can be compared and restored.
+ */
+import {
+  normalizeQuoteStatus,
+  type Quote,
+  type QuoteLineItem,
+  type QuoteVersion,
+  type QuoteVersionLineItem
+} from '@shared/schema';
+import { storage } from '../storage';
+import { calculateLineTotal, calculateQuoteTotals, type QuoteTotals } from './quote-totals';
+
+export interface QuoteVersionChange {
+  userId?: number | null;
+  note?: string | null;
+}
+
+export interface LineItemDiff {
+  description: string;
+  before?: QuoteVersionLineItem;
+  after?: QuoteVersionLineItem;
+  changes: Array<keyof QuoteVersionLineItem>; // Fields that differ, for changed items
+  delta: number; // Change in the line's total, excluding tax
+}
+
+export interface QuoteVersionDiff {
+  from: number;
+  to: number;
+  fields: Array<{ field: 'quoteNumber' | 'clientName' | 'description' | 'date'; before: unknown; after: unknown }>;
+  added: LineItemDiff[];
+  removed: LineItemDiff[];
+  changed: LineItemDiff[];
+  totals: { before: QuoteTotals; after: QuoteTotals; delta: number };
+}
+
+const ITEM_FIELDS: Array<keyof QuoteVersionLineItem> = ['description', 'quantity', 'unitPrice', 'unit', 'taxRate', 'category'];
+
+// Drafts are edited freely; versions start once the client has been sent the quote
+export function isVersionedQuote(quote: Quote): boolean {
+  const status = normalizeQuoteStatus(quote.status);
+  return !!status && status !== 'draft';
+}
+
+const toVersionLineItems = (items: QuoteLineItem[]): QuoteVersionLineItem[] =>
+  items.map(item => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    unit: item.unit,
+    taxRate: item.taxRate,
+    category: item.category,
+    sortOrder: item.sortOrder
+  }));
+
+// Postgres jsonb doesn't keep key order, so compare line items field by field
+const itemSignature = (items: QuoteVersionLineItem[]) =>
+  JSON.stringify(items.map(item => [...ITEM_FIELDS, 'sortOrder' as const].map(field => item[field] ?? null)));
+
+// Whether a snapshot would record anything new compared to the latest version
+const sameContent = (version: QuoteVersion, quote: Quote, items: QuoteVersionLineItem[]) =>
+  version.quoteNumber === quote.quoteNumber &&
+  version.clientName === quote.clientName &&
+  (version.description || '') === (quote.description || '') &&
+  version.amount === (quote.amount ?? 0) &&
+  new Date(version.date).getTime() === new Date(quote.date).getTime() &&
+  itemSignature(version.lineItems) === itemSignature(items);
+
+/**
+ * Snapshot the quote as it is now. Returns the latest existing version instead
+ * when nothing has changed since it was taken.
+ */
+export async function recordQuoteVersion(quote: Quote, change: QuoteVersionChange = {}): Promise<QuoteVersion> {
+  const items = toVersionLineItems(await storage.getQuoteLineItems(quote.id));
+  const [latest] = await storage.getQuoteVersions(quote.id);
+  if (latest && sameContent(latest, quote, items)) {
+    return latest;
+  }
+
+  return storage.createQuoteVersion({
+    quoteId: quote.id,
+    version: (latest?.version ?? 0) + 1,
+    quoteNumber: quote.quoteNumber,
+    clientName: quote.clientName,
+    description: quote.description,
+    amount: quote.amount ?? 0,
+    date: quote.date,
+    status: normalizeQuoteStatus(quote.status) || quote.status,
+    lineItems: items,
+    createdBy: change.userId ?? null,
+    note: change.note ?? null
+  });
+}
+
+/**
+ * Call before editing a quote. Quotes sent before versioning existed have no
+ * history yet, so their current state becomes version 1 before it is overwritten.
+ */
+export async function prepareQuoteRevision(quote: Quote, change: QuoteVersionChange = {}): Promise<void> {
+  if (!isVersionedQuote(quote)) return;
+
+  const versions = await storage.getQuoteVersions(quote.id);
+  if (versions.length === 0) {
+    await recordQuoteVersion(quote, { userId: change.userId, note: change.note ?? 'Before first revision' });
+  }
+}
+
+/**
+ * Call after saving a quote to keep the new revision
+ */
+export async function recordQuoteRevision(quote: Quote, change: QuoteVersionChange = {}): Promise<QuoteVersion | undefined> {
+  if (!isVersionedQuote(quote)) return undefined;
+  return recordQuoteVersion(quote, { userId: change.userId, note: change.note ?? 'Revised' });
+}
+
+// Match items by description, pairing repeated descriptions in order
+const itemKey = (item: QuoteVersionLineItem) => item.description.trim().toLowerCase();
+
+/**
+ * Compare two versions: changed quote fields, added, removed and changed
+ * line items, and the change in total price
+ */
+export function diffQuoteVersions(from: QuoteVersion, to: QuoteVersion): QuoteVersionDiff {
+  const fields: QuoteVersionDiff['fields'] = [];
+  if (from.quoteNumber !== to.quoteNumber) fields.push({ field: 'quoteNumber', before: from.quoteNumber, after: to.quoteNumber });
+  if (from.clientName !== to.clientName) fields.push({ field: 'clientName', before: from.clientName, after: to.clientName });
+  if ((from.description || '') !== (to.description || '')) fields.push({ field: 'description', before: from.description, after: to.description });
+  if (new Date(from.date).getTime() !== new Date(to.date).getTime()) fields.push({ field: 'date', before: from.date, after: to.date });
+
+  const remaining = new Map<string, QuoteVersionLineItem[]>();
+  for (const item of from.lineItems) {
+    const matches = remaining.get(itemKey(item)) || [];
+    matches.push(item);
+    remaining.set(itemKey(item), matches);
+  }
+
+  const added: LineItemDiff[] = [];
+  const changed: LineItemDiff[] = [];
+  for (const after of to.lineItems) {
+    const before = remaining.get(itemKey(after))?.shift();
+    if (!before) {
+      added.push({ description: after.description, after, changes: [], delta: calculateLineTotal(after) });
+      continue;
+    }
+
+    const changes = ITEM_FIELDS.filter(field => (before[field] ?? null) !== (after[field] ?? null));
+    if (changes.length > 0) {
+      changed.push({
+        description: after.description,
+        before,
+        after,
+        changes,
+        delta: calculateLineTotal(after) - calculateLineTotal(before)
+      });
+    }
+  }
+
+  const removed: LineItemDiff[] = Array.from(remaining.values()).flat().map(before => ({
+    description: before.description,
+    before,
+    changes: [],
+    delta: -calculateLineTotal(before)
+  }));
+
+  const beforeTotals = calculateQuoteTotals(from.lineItems);
+  const afterTotals = calculateQuoteTotals(to.lineItems);
+  // Quotes without line items only have their stored amount to compare
+  const beforeTotal = from.lineItems.length > 0 ? beforeTotals.total : from.amount;
+  const afterTotal = to.lineItems.length > 0 ? afterTotals.total : to.amount;
+
+  return {
+    from: from.version,
+    to: to.version,
+    fields,
+    added,
+    removed,
+    changed,
+    totals: {
+      before: beforeTotals,
+      after: afterTotals,
+      delta: Math.round((afterTotal - beforeTotal) * 100) / 100
+    }
+  };
+}
+
+/**
+ * Put a quote back to an earlier version's details and line items. The status
+ * and quote number are left alone, and the restored state is recorded as a new version.
+ */
+export async function restoreQuoteVersion(
+  quote: Quote,
+  version: QuoteVersion,
+  change: QuoteVersionChange = {}
+): Promise<{ quote: Quote; version: QuoteVersion }> {
+  await prepareQuoteRevision(quote, change);
+
+  await storage.replaceQuoteLineItems(quote.id, version.lineItems.map(item => ({ ...item, quoteId: quote.id })));
+  const restored = await storage.updateQuote(quote.id, {
+    clientName: version.clientName,
+    description: version.description,
+    amount: version.amount,
+    date: version.date
+  });
+  if (!restored) {
+    throw new Error(`Quote ${quote.id} not found`);
+  }
+
+  const recorded = await recordQuoteVersion(restored, {
+    userId: change.userId,
+    note: change.note ?? `Restored version ${version.version}`
+  });
+
+  return { quote: restored, version: recorded };
+}
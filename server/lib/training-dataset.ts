@@ -0,0 +1,207 @@
+/**
+ * Training dataset import and export
+ * Reads training pairs from JSONL (OpenAI chat format, Anthropic-style
+ * system/messages, or plain prompt/response objects) and from CSV, reporting
+ * invalid rows and duplicates line by line; writes a company's approved
+ * examples back out in the same formats.
+ */
+import { insertTrainingDataSchema, type InsertTrainingData, type TrainingData } from '@shared/schema';
+import { storage } from '../storage';
+import { parseCsvRecords, toCsv } from './csv';
+
+export const trainingDatasetFormats = ['jsonl', 'csv'] as const;
+export type TrainingDatasetFormat = typeof trainingDatasetFormats[number];
+
+type DatasetExample = Pick<InsertTrainingData, 'prompt' | 'response' | 'category' | 'tags' | 'quality'>;
+
+export interface TrainingDatasetRow {
+  row: number; // Line in the file; for CSV the header is line 1
+  example?: DatasetExample;
+  error?: string;
+}
+
+export interface TrainingImportResult {
+  created: number;
+  duplicates: number[]; // Rows already in the company's data or earlier in the file
+  errors: { row: number; message: string }[];
+  preview: DatasetExample[]; // The first examples that would be imported
+}
+
+// Most rows read from one file
+export const MAX_IMPORT_ROWS = 5000;
+const PREVIEW_SIZE = 5;
+
+const exampleSchema = insertTrainingDataSchema.pick({
+  prompt: true,
+  response: true,
+  category: true,
+  tags: true,
+  quality: true
+});
+
+type ChatTurn = { role?: unknown; content?: unknown };
+
+// Content may be a string or, in newer chat formats, a list of text parts
+function turnText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => typeof part === 'string' ? part : typeof part?.text === 'string' ? part.text : '').join('');
+  }
+  return '';
+}
+
+// The last assistant turn is the response and the user turn before it the prompt
+function fromChatTurns(turns: ChatTurn[]): { prompt: string; response: string } {
+  const responseIndex = turns.map(turn => turn.role).lastIndexOf('assistant');
+  const promptTurn = turns.slice(0, Math.max(responseIndex, 0)).reverse().find(turn => turn.role === 'user');
+  return {
+    prompt: promptTurn ? turnText(promptTurn.content) : '',
+    response: responseIndex >= 0 ? turnText(turns[responseIndex].content) : ''
+  };
+}
+
+const toTags = (value: unknown): string[] | null => {
+  const tags = Array.isArray(value) ? value.map(String)
+    : typeof value === 'string' ? value.split(/[;|,]/) : [];
+  const cleaned = tags.map(tag => tag.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : null;
+};
+
+const toQuality = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'number' ? value : Number(value);
+};
+
+function validateExample(row: number, fields: Record<string, unknown>): TrainingDatasetRow {
+  const parsed = exampleSchema.safeParse({
+    prompt: typeof fields.prompt === 'string' ? fields.prompt.trim() : '',
+    response: typeof fields.response === 'string' ? fields.response.trim() : '',
+    category: typeof fields.category === 'string' && fields.category.trim() ? fields.category.trim() : null,
+    tags: toTags(fields.tags),
+    quality: toQuality(fields.quality)
+  });
+
+  if (!parsed.success) {
+    return { row, error: parsed.error.errors.map(e => `${e.path.join('.') || 'row'}: ${e.message}`).join('; ') };
+  }
+  if (!parsed.data.prompt || !parsed.data.response) {
+    return { row, error: `Missing ${parsed.data.prompt ? 'response' : 'prompt'}` };
+  }
+  return { row, example: parsed.data };
+}
+
+function parseJsonlDataset(text: string): TrainingDatasetRow[] {
+  const rows: TrainingDatasetRow[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      rows.push({ row: index + 1, error: 'Not valid JSON' });
+      return;
+    }
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      rows.push({ row: index + 1, error: 'Expected a JSON object' });
+      return;
+    }
+
+    const pair = Array.isArray(record.messages)
+      ? fromChatTurns(record.messages as ChatTurn[])
+      : { prompt: record.prompt, response: record.response ?? record.completion };
+    rows.push(validateExample(index + 1, { ...record, ...pair }));
+  });
+  return rows;
+}
+
+function parseCsvDataset(text: string): TrainingDatasetRow[] {
+  return parseCsvRecords(text).map((record, index) => validateExample(index + 2, {
+    ...record,
+    prompt: record.prompt ?? record.question ?? record.request,
+    response: record.response ?? record.completion ?? record.answer
+  }));
+}
+
+/**
+ * Read and validate every example in a dataset file
+ */
+export function parseTrainingDataset(text: string, format: TrainingDatasetFormat): TrainingDatasetRow[] {
+  // Excel adds a byte order mark to UTF-8 exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  return format === 'csv' ? parseCsvDataset(input) : parseJsonlDataset(input);
+}
+
+// Pick the format from a file name, defaulting to JSONL
+export function datasetFormatFor(fileName: string): TrainingDatasetFormat {
+  return /\.csv$/i.test(fileName) ? 'csv' : 'jsonl';
+}
+
+const dedupeKey = (prompt: string, response: string) =>
+  `${prompt}\u0000${response}`.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Import parsed dataset rows into a company's training data. Invalid rows and
+ * duplicates (ignoring case and spacing) are skipped and reported. Imported
+ * examples count as reviewed. With dryRun nothing is saved but the result is
+ * the same.
+ */
+export async function importTrainingDataset(
+  companyId: number,
+  userId: number,
+  rows: TrainingDatasetRow[],
+  options: { dryRun?: boolean } = {}
+): Promise<TrainingImportResult> {
+  const seen = new Set((await storage.getTrainingDataByCompanyId(companyId))
+    .map(example => dedupeKey(example.prompt, example.response)));
+  const result: TrainingImportResult = { created: 0, duplicates: [], errors: [], preview: [] };
+
+  for (const { row, example, error } of rows) {
+    if (!example) {
+      result.errors.push({ row, message: error || 'Invalid row' });
+      continue;
+    }
+
+    const key = dedupeKey(example.prompt, example.response);
+    if (seen.has(key)) {
+      result.duplicates.push(row);
+      continue;
+    }
+    seen.add(key);
+
+    if (!options.dryRun) {
+      await storage.createTrainingData({ ...example, companyId, userId, source: 'import', status: 'approved' });
+    }
+    if (result.preview.length < PREVIEW_SIZE) {
+      result.preview.push(example);
+    }
+    result.created++;
+  }
+
+  return result;
+}
+
+/**
+ * Write examples as JSONL in OpenAI chat format (with an optional system
+ * message) or as CSV with the columns the importer reads
+ */
+export function exportTrainingDataset(
+  examples: TrainingData[],
+  format: TrainingDatasetFormat,
+  systemPrompt?: string
+): string {
+  if (format === 'csv') {
+    return toCsv(
+      ['prompt', 'response', 'category', 'tags', 'quality'],
+      examples.map(example => [example.prompt, example.response, example.category, example.tags?.join(';'), example.quality])
+    );
+  }
+
+  return examples.map(example => JSON.stringify({
+    messages: [
+      ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+      { role: 'user', content: example.prompt },
+      { role: 'assistant', content: example.response }
+    ]
+  })).join('\n') + (examples.length > 0 ? '\n' : '');
+}
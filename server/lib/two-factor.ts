@@ -0,0 +1,335 @@
+/**
+ * Two-factor authentication
+ * Time-based one-time passwords (RFC 6238: HMAC-SHA1, 6 digits, 30-second
+ * steps) from any authenticator app, plus single-use backup codes for when the
+ * phone is lost. Enrollment stores a pending secret that only takes effect once
+ * a code from the app has been confirmed. Admins must use it; everyone else
+ * may opt in.
+ *
+ * Signing in with 2FA is two steps: a correct password earns a short-lived
+ * challenge token, and only the challenge plus a valid code is exchanged for
+ * the real session tokens. Each challenge takes a few guesses and one right
+ * code; after that the password has to be entered again. Wrong codes are also
+ * counted per user, across challenges and restarts, and too many in a row
+ * lock the second factor for a while.
+ */
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import type { TwoFactorCredential, User } from '@shared/schema';
+import { storage } from '../storage';
+
+const ISSUER = 'PriceBetter.ai';
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Steps either side of now that are still accepted, for clock drift
+const DRIFT_STEPS = 1;
+const BACKUP_CODE_COUNT = 10;
+
+const CHALLENGE_SECRET = process.env.TWO_FACTOR_SECRET || process.env.ACCESS_TOKEN_SECRET || 'your-two-factor-secret';
+const CHALLENGE_EXPIRY = '5m';
+const CHALLENGE_PURPOSE = 'two-factor';
+const MAX_CHALLENGE_ATTEMPTS = 5;
+// Wrong codes in a row before a user's codes stop being checked, and for how long
+const MAX_FAILED_ATTEMPTS = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of Array.from(encoded.toUpperCase().replace(/=+$/, ''))) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+const currentStep = () => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+// The code an authenticator app shows for a 30-second step
+export function generateTotp(secret: string, step = currentStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+}
+
+const sameCode = (a: string, b: string) => a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * The step a code belongs to, if it is valid now and newer than the last
+ * accepted one, so each code can only be used once
+ */
+function matchTotpStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const now = currentStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (sameCode(generateTotp(secret, step), code)) return step;
+  }
+  return null;
+}
+
+// Backup codes are compared case- and dash-insensitively and stored hashed
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+const hashBackupCode = (code: string) => createHash('sha256').update(normalizeBackupCode(code)).digest('hex');
+
+function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(5)).toLowerCase();
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+}
+
+// Codes tried per challenge id, kept until the challenge expires
+const challengeAttempts = new Map<string, { count: number; expiresAt: number }>();
+
+// Thrown while a user's codes are locked after too many wrong ones
+export class TwoFactorLockedError extends Error {
+  constructor(readonly lockedUntil: Date) {
+    super('Too many incorrect codes');
+  }
+}
+
+const isEnabled = (credential: TwoFactorCredential | undefined): credential is TwoFactorCredential =>
+  !!credential?.enabledAt;
+
+// Admins can't sign in without a second factor
+export const isTwoFactorRequired = (user: Pick<User, 'role'>) => user.role === 'admin';
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  return isEnabled(await storage.getTwoFactorCredential(userId));
+}
+
+export async function getTwoFactorStatus(user: Pick<User, 'id' | 'role'>): Promise<TwoFactorStatus> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  return {
+    enabled: isEnabled(credential),
+    required: isTwoFactorRequired(user),
+    backupCodesRemaining: isEnabled(credential) ? credential.backupCodes.length : 0
+  };
+}
+
+/**
+ * Start (or restart) enrollment with a fresh secret. Returns null when 2FA is
+ * already on; it has to be disabled before a new secret can be set up.
+ */
+export async function beginTwoFactorEnrollment(user: Pick<User, 'id' | 'username' | 'email'>): Promise<TwoFactorEnrollment | null> {
+  if (await isTwoFactorEnabled(user.id)) {
+    return null;
+  }
+
+  const secret = base32Encode(randomBytes(20));
+  await storage.saveTwoFactorCredential(user.id, { secret, backupCodes: [], lastUsedStep: null, enabledAt: null });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email || user.username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(CODE_DIGITS),
+    period: String(STEP_SECONDS)
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params}`;
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/**
+ * Finish enrollment with a code from the app. Returns the backup codes, which
+ * are shown once, or null when there is no pending enrollment or the code is wrong.
+ */
+export async function enableTwoFactor(userId: number, code: string): Promise<string[] | null> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential || credential.enabledAt) {
+    return null;
+  }
+
+  const step = matchTotpStep(credential.secret, code.trim(), credential.lastUsedStep);
+  if (step === null) {
+    return null;
+  }
+
+  const backupCodes = generateBackupCodes();
+  const enabled = await storage.updateTwoFactorCredential(userId, {
+    backupCodes: backupCodes.map(hashBackupCode),
+    lastUsedStep: step,
+    enabledAt: new Date()
+  }, { secret: credential.secret, lastUsedStep: credential.lastUsedStep, enabledAt: null });
+  return enabled ? backupCodes : null;
+}
+
+/**
+ * Count a code as wrong before it is checked, so parallel guesses can't get
+ * past the limit; a right code clears the count again. Throws
+ * TwoFactorLockedError while locked, and locks once the limit is reached.
+ */
+async function countAttempt(userId: number): Promise<TwoFactorCredential | undefined> {
+  for (let retry = 0; retry < MAX_FAILED_ATTEMPTS; retry++) {
+    const credential = await storage.getTwoFactorCredential(userId);
+    if (!isEnabled(credential)) {
+      return undefined;
+    }
+    if (credential.lockedUntil && credential.lockedUntil.getTime() > Date.now()) {
+      throw new TwoFactorLockedError(credential.lockedUntil);
+    }
+
+    const failedAttempts = credential.failedAttempts + 1;
+    const lockedUntil = failedAttempts >= MAX_FAILED_ATTEMPTS ? new Date(Date.now() + LOCKOUT_MS) : null;
+    const counted = await storage.updateTwoFactorCredential(
+      userId,
+      { failedAttempts: lockedUntil ? 0 : failedAttempts, lockedUntil },
+      { failedAttempts: credential.failedAttempts, lockedUntil: credential.lockedUntil }
+    );
+    if (counted) {
+      return counted;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a code from the app or an unused backup code. A backup code is used
+ * up by a successful check. The credential is only updated if nobody else used
+ * it since it was read, so two requests can't both spend the same code.
+ */
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<boolean> {
+  const credential = await countAttempt(userId);
+  if (!credential) {
+    return false;
+  }
+
+  const cleared = { failedAttempts: 0, lockedUntil: null };
+  const trimmed = code.trim();
+  if (trimmed.length === CODE_DIGITS && /^\d+$/.test(trimmed)) {
+    const step = matchTotpStep(credential.secret, trimmed, credential.lastUsedStep);
+    if (step === null) {
+      return false;
+    }
+    return !!await storage.updateTwoFactorCredential(userId, { lastUsedStep: step, ...cleared }, { lastUsedStep: credential.lastUsedStep });
+  }
+
+  const hash = hashBackupCode(trimmed);
+  if (!credential.backupCodes.includes(hash)) {
+    return false;
+  }
+  return !!await storage.updateTwoFactorCredential(
+    userId,
+    { backupCodes: credential.backupCodes.filter(existing => existing !== hash), ...cleared },
+    { backupCodes: credential.backupCodes }
+  );
+}
+
+// Replace all backup codes; the old ones stop working
+export async function regenerateBackupCodes(userId: number): Promise<string[]> {
+  const backupCodes = generateBackupCodes();
+  await storage.saveTwoFactorCredential(userId, { backupCodes: backupCodes.map(hashBackupCode) });
+  return backupCodes;
+}
+
+export async function disableTwoFactor(userId: number): Promise<boolean> {
+  return storage.deleteTwoFactorCredential(userId);
+}
+
+/**
+ * A short-lived token proving the password was right. It carries none of the
+ * access token claims, so it can't be used to call the API.
+ */
+export function createTwoFactorChallenge(user: Pick<User, 'id'>): string {
+  const now = Date.now();
+  challengeAttempts.forEach((attempts, id) => {
+    if (attempts.expiresAt < now) challengeAttempts.delete(id);
+  });
+
+  return jwt.sign({ sub: String(user.id), purpose: CHALLENGE_PURPOSE }, CHALLENGE_SECRET, {
+    expiresIn: CHALLENGE_EXPIRY,
+    jwtid: randomBytes(16).toString('hex')
+  });
+}
+
+function readChallenge(token: string): { id: string; userId: number; expiresAt: number } | null {
+  try {
+    const payload = jwt.verify(token, CHALLENGE_SECRET);
+    if (typeof payload !== 'object' || payload.purpose !== CHALLENGE_PURPOSE || !payload.jti || !payload.exp) {
+      return null;
+    }
+    const userId = Number(payload.sub);
+    if (!Number.isInteger(userId)) {
+      return null;
+    }
+    const usedUp = (challengeAttempts.get(payload.jti)?.count ?? 0) >= MAX_CHALLENGE_ATTEMPTS;
+    return usedUp ? null : { id: payload.jti, userId, expiresAt: payload.exp * 1000 };
+  } catch (error) {
+    return null;
+  }
+}
+
+// The user a challenge token was issued to, or null when it is invalid, expired or used up
+export function verifyTwoFactorChallenge(token: string): number | null {
+  return readChallenge(token)?.userId ?? null;
+}
+
+/**
+ * Check a sign-in code against its challenge. The attempt is counted before
+ * the code is checked, and a right code uses the challenge up, so it can't be
+ * guessed at or signed in with again.
+ */
+export async function verifyTwoFactorLogin(challengeToken: string, code: string): Promise<boolean> {
+  const challenge = readChallenge(challengeToken);
+  if (!challenge) {
+    return false;
+  }
+
+  const attempts = challengeAttempts.get(challenge.id) ?? { count: 0, expiresAt: challenge.expiresAt };
+  attempts.count++;
+  challengeAttempts.set(challenge.id, attempts);
+
+  const valid = await verifyTwoFactorCode(challenge.userId, code);
+  if (valid) {
+    attempts.count = MAX_CHALLENGE_ATTEMPTS;
+  }
+  return valid;
+}
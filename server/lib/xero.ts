@@ -2,6 +2,7 @@ import { TokenSet } from 'openid-client';
 import { XeroClient } from 'xero-node';
 import { Request, Response } from 'express';
 import { storage } from '../storage';
+import { canTransitionQuoteStatus, changeQuoteStatus } from './quote-status';
 import { log } from '../vite';
 
 // Type definition for Xero token data
@@ -235,6 +236,15 @@ export async function exportQuoteAsInvoice(
       };
     }
     
+    const lineItems = await storage.getQuoteLineItems(quoteId);
+    
+    if (lineItems.length === 0) {
+      return { 
+        success: false, 
+        error: 'Quote has no line items to export' 
+      };
+    }
+    
     // Format the data for Xero
     const invoiceData = {
       Type: 'ACCREC',
@@ -248,12 +258,12 @@ export async function exportQuoteAsInvoice(
       DueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       Status: 'DRAFT',
       LineAmountTypes: 'Exclusive',
-      LineItems: quote.items.map((item: any) => ({
-        Description: item.description,
+      LineItems: lineItems.map(item => ({
+        Description: item.unit ? `${item.description} (per ${item.unit})` : item.description,
         Quantity: item.quantity,
         UnitAmount: item.unitPrice,
         AccountCode: '200', // Default sales account code - change as needed
-        TaxType: 'OUTPUT', // Default tax type - change as needed
+        TaxType: item.taxRate > 0 ? 'OUTPUT' : 'NONE', // Default tax types - change as needed
       })),
       Reference: `Quote #${quote.quoteNumber}`,
     };
@@ -281,6 +291,11 @@ export async function exportQuoteAsInvoice(
         xeroQuoteUrl: invoiceUrl,
       });
       
+      // Invoicing an accepted quote completes its lifecycle
+      if (canTransitionQuoteStatus(quote.status, 'invoiced')) {
+        await changeQuoteStatus(quote, 'invoiced', { userId, source: 'system', note: `Exported to Xero as ${invoiceNumber || invoiceId}` });
+      }
+      
       return { 
         success: true, 
         invoiceId,
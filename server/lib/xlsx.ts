@@ -0,0 +1,196 @@
+/**
+ * Minimal XLSX reader
+ * An .xlsx workbook is a zip of XML parts. This reads the cell values of each
+ * sheet (shared strings, inline strings, numbers and booleans, with dates
+ * converted from Excel serial numbers) without formulas or formatting, which
+ * is all the importers need.
+ */
+import { inflateRawSync } from 'zlib';
+
+export interface XlsxSheet {
+  name: string;
+  rows: string[][];
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Built-in number formats that display dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Read every file in a zip archive, keyed by path
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  // The end record sits at the very end, after an optional comment of up to 64KB
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a valid XLSX file');
+  }
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Not a valid XLSX file');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error('Not a valid XLSX file');
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    // Only stored and deflated entries appear in workbooks
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, inflateRawSync(data));
+  }
+
+  return entries;
+}
+
+const decodeXml = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&amp;/g, '&');
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+// Text of every <t> run inside an element, which is split into runs when partly formatted
+const runText = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+
+function readSharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => runText(match[1]));
+}
+
+// Which cell styles (by index) show a number as a date
+function readDateStyles(xml: string | undefined): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!xml) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  for (const match of Array.from(xml.matchAll(/<numFmt\s([^>]*)\/?>/g))) {
+    const code = decodeXml(attribute(match[1], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dmy]/i.test(code)) {
+      customDateFormats.add(Number(attribute(match[1], 'numFmtId')));
+    }
+  }
+
+  const cellXfs = xml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+  Array.from(cellXfs.matchAll(/<xf\s([^>]*?)\/?>/g)).forEach((match, index) => {
+    const formatId = Number(attribute(match[1], 'numFmtId'));
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+}
+
+// Excel counts days from 1899-12-30 (allowing for its 1900 leap year bug)
+function serialToDate(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  return date.toISOString().slice(0, 10);
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+function readSheetRows(xml: string, sharedStrings: string[], dateStyles: Set<number>): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowMatch of Array.from(xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cell[1];
+      const content = cell[2] || '';
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      const type = attribute(attributes, 't');
+
+      let value = '';
+      if (type === 's' && raw !== undefined) value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = runText(content);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) {
+        value = decodeXml(raw);
+        const style = Number(attribute(attributes, 's') ?? -1);
+        if ((type === undefined || type === 'n') && dateStyles.has(style) && !isNaN(Number(value))) {
+          value = serialToDate(Number(value));
+        }
+      }
+
+      const reference = attribute(attributes, 'r');
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    // Drop trailing empty cells and rows
+    while (row.length > 0 && row[row.length - 1] === '') row.pop();
+    if (row.length > 0) rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read the sheets of an .xlsx workbook in the order they appear in Excel
+ */
+export function readXlsx(buffer: Buffer): XlsxSheet[] {
+  const entries = readZipEntries(buffer);
+  const part = (name: string) => entries.get(name)?.toString('utf-8');
+
+  const workbook = part('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not a valid XLSX file');
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of Array.from((part('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\s([^>]*?)\/?>/g))) {
+    const id = attribute(match[1], 'Id');
+    const target = attribute(match[1], 'Target');
+    if (id && target) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const sharedStrings = readSharedStrings(part('xl/sharedStrings.xml'));
+  const dateStyles = readDateStyles(part('xl/styles.xml'));
+
+  return Array.from(workbook.matchAll(/<sheet\s([^>]*?)\/?>/g)).map(match => {
+    const target = targets.get(attribute(match[1], 'r:id') || '');
+    const xml = target ? part(target) : undefined;
+    return {
+      name: decodeXml(attribute(match[1], 'name') || ''),
+      rows: xml ? readSheetRows(xml, sharedStrings, dateStyles) : []
+    };
+  });
+}
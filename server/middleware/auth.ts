@@ -2,7 +2,9 @@
  * Authentication middleware for JWT token verification and role-based access control
  */
 import { Request, Response, NextFunction } from 'express';
+import type { Permission } from '@shared/schema';
 import { verifyAccessToken, TokenPayload } from '../lib/jwt';
+import { can, type PolicyResource } from '../lib/permissions';
 
 // Extend Express Request to include user information
 declare global {
@@ -56,123 +58,62 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
 };
 
 /**
- * Check if user has Admin role
+ * Reads the record a route acts on so authorize() can check who it belongs to
  */
-export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    return res.status(401).json({
-      success: false,
-      message: 'Authentication required'
-    });
-  }
-  
-  if (req.user.role !== 'admin') {
-    return res.status(403).json({
-      success: false,
-      message: 'Admin access required'
-    });
-  }
-  
-  next();
-};
+export type ResourceLoader<T extends PolicyResource = PolicyResource> = (req: Request) => Promise<T | undefined>;
 
 /**
- * Check if user has Owner role
+ * Loader for a record looked up by a numeric route parameter
  */
-export const requireOwner = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    return res.status(401).json({
-      success: false,
-      message: 'Authentication required'
-    });
-  }
-  
-  if (req.user.role !== 'owner' && req.user.role !== 'admin') {
-    return res.status(403).json({
-      success: false,
-      message: 'Owner access required'
-    });
-  }
-  
-  next();
+export const byRouteId = <T extends PolicyResource>(
+  load: (id: number) => Promise<T | undefined>,
+  param = 'id'
+): ResourceLoader<T> => async (req: Request) => {
+  const id = parseInt(req.params[param]);
+  return isNaN(id) ? undefined : load(id);
 };
 
 /**
- * Check if user belongs to the same company (used for team access)
+ * Require a named permission (or several, all of them), checked by the policy
+ * in lib/permissions. With a resource loader the permissions are checked on
+ * that record, which is left in res.locals.resource for the handler; a missing
+ * record is a 404.
  */
-export const requireSameCompany = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    return res.status(401).json({
-      success: false,
-      message: 'Authentication required'
-    });
-  }
-  
-  // Get company ID from route parameter
-  const companyId = parseInt(req.params.companyId);
-  
-  if (isNaN(companyId)) {
-    return res.status(400).json({
-      success: false,
-      message: 'Invalid company ID'
-    });
-  }
-  
-  // Admin can access any company
-  if (req.user.role === 'admin') {
-    return next();
-  }
-  
-  // Check if user belongs to the requested company
-  if (req.user.companyId !== companyId) {
-    return res.status(403).json({
-      success: false,
-      message: 'You do not have permission to access this company'
-    });
-  }
-  
-  next();
-};
+export const authorize = (permission: Permission | Permission[], resource?: ResourceLoader) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const required = Array.isArray(permission) ? permission : [permission];
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
 
-/**
- * Combined middleware for checking admin, owner, or same company access
- * This allows admin users, company owners, or team members of the same company
- */
-export const requireCompanyAccess = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    return res.status(401).json({
-      success: false,
-      message: 'Authentication required'
-    });
-  }
-  
-  // Admin can access any company
-  if (req.user.role === 'admin') {
-    return next();
-  }
-  
-  // Owner can access their own company
-  if (req.user.role === 'owner' && req.user.companyId) {
-    return next();
-  }
-  
-  // Get company ID from route parameter
-  const companyId = parseInt(req.params.companyId);
-  
-  if (isNaN(companyId)) {
-    return res.status(400).json({
-      success: false,
-      message: 'Invalid company ID'
-    });
-  }
-  
-  // Check if team member belongs to the requested company
-  if (req.user.companyId !== companyId) {
-    return res.status(403).json({
-      success: false,
-      message: 'You do not have permission to access this company'
-    });
-  }
-  
-  next();
-};
\ No newline at end of file
+    try {
+      const record = resource ? await resource(req) : undefined;
+      if (resource && !record) {
+        return res.status(404).json({
+          success: false,
+          message: 'Not found'
+        });
+      }
+
+      for (const name of required) {
+        if (!await can(req.user, name, record)) {
+          return res.status(403).json({
+            success: false,
+            message: `You do not have permission to do this (${name})`
+          });
+        }
+      }
+
+      res.locals.resource = record;
+      next();
+    } catch (error) {
+      console.error('Authorization error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Authorization failed'
+      });
+    }
+  };
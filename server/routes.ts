@@ -5,29 +5,37 @@ import {
   insertUserSchema, 
   insertCompanySchema, 
   insertQuoteSchema, 
-  insertTrainingDataSchema, 
   insertSystemPromptSchema, 
-  insertUserOnboardingSchema
+  insertUserOnboardingSchema,
+  normalizeQuoteStatus,
+  quoteStatuses,
+  type QuoteStatus
 } from "@shared/schema";
 import { z } from "zod";
 import { xeroRouter } from "./routes/xero";
 import { aiRouter } from "./routes/ai";
+import { aiModelsRouter } from "./routes/ai-models";
+import { knowledgeRouter } from "./routes/knowledge";
 import { XeroClient } from "xero-node";
 import { quotesRouter } from "./routes/quotes";
+import { conversationsRouter } from "./routes/conversations";
+import { trainingRouter } from "./routes/training";
+import { quotePortalRouter } from "./routes/quote-portal";
+import { invitationsRouter } from "./routes/invitations";
 import { adminRouter } from "./routes/admin";
+import { promptEvalsRouter } from "./routes/prompt-evals";
 import adminAuthRouter from "./routes/admin-auth";
 import settingsRouter from "./routes/settings";
 import clientsRouter from "./routes/clients";
 import authRouter from "./routes/auth";
 import { profileRouter } from "./routes/profile";
 import { companyRouter } from "./routes/company";
+import { auditRouter } from "./routes/audit";
 import cookieParser from "cookie-parser";
 import { 
   authenticate, 
-  requireAdmin, 
-  requireOwner, 
-  requireSameCompany, 
-  requireCompanyAccess 
+  authorize, 
+  byRouteId 
 } from "./middleware/auth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -108,42 +116,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Quotes routes are now handled by quotesRouter in server/routes/quotes.ts
 
-  // Training Data Routes
-  app.get("/api/training", authenticate, async (req, res) => {
-    try {
-      const user = req.user as any;
-      let trainingData;
-      
-      if (user.role === "admin") {
-        trainingData = await storage.getTrainingDataByCompanyId(user.companyId);
-      } else {
-        trainingData = await storage.getTrainingDataByCompanyId(user.companyId);
-      }
-      
-      res.json(trainingData);
-    } catch (err) {
-      res.status(500).json({ message: "Error fetching training data" });
-    }
-  });
-
-  app.post("/api/training", authenticate, async (req, res) => {
-    try {
-      const user = req.user as any;
-      const trainingData = insertTrainingDataSchema.parse({
-        ...req.body,
-        userId: user.id,
-        companyId: user.companyId
-      });
-      
-      const data = await storage.createTrainingData(trainingData);
-      res.status(201).json(data);
-    } catch (err) {
-      if (err instanceof z.ZodError) {
-        return res.status(400).json({ errors: err.errors });
-      }
-      res.status(500).json({ message: "Error creating training data" });
-    }
-  });
+  // Training data, including rated chat replies and the review queue
+  app.use("/api/training", trainingRouter);
 
   // AI Routes
   // AI Chat endpoint using our custom handler
@@ -187,41 +161,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/ai/generate-quote", authenticate, async (req, res) => {
-    try {
-      const { description } = req.body;
-      
-      if (!description) {
-        return res.status(400).json({ error: "Project description is required" });
-      }
-      
-      // In a real implementation, this would use an LLM to generate a quote
-      // For now, we'll create a placeholder response
-      const aiGeneratedQuote = `
-Based on your project description: "${description}"
-
-Here's a cost estimate:
-
-1. Planning & Analysis: $1,500
-2. Design & Development: $4,800
-3. Testing & Quality Assurance: $1,200
-4. Deployment & Training: $900
-5. Contingency (10%): $840
-
-Total Estimate: $9,240
-
-This is a ballpark figure based on industry averages. Actual costs may vary based on specific requirements and timeline changes.
-`;
-      
-      res.json({ quote: aiGeneratedQuote });
-    } catch (err) {
-      console.error('Error generating quote with AI:', err);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
-
   // Admin Routes
-  app.get("/api/admin/stats", requireAdmin, async (req, res) => {
+  app.get("/api/admin/stats", authenticate, authorize("system:admin"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       const quotes = await storage.getAllQuotes();
@@ -241,7 +182,7 @@ This is a ballpark figure based on industry averages. Actual costs may vary base
     }
   });
 
-  app.get("/api/admin/users", requireAdmin, async (req, res) => {
+  app.get("/api/admin/users", authenticate, authorize("system:admin"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -313,21 +254,31 @@ This is a ballpark figure based on industry averages. Actual costs may vary base
   // Xero Integration Routes
   app.use("/api/xero", xeroRouter);
   
-  // Import AI line items router
-  const aiLinesRouter = (await import('./routes/ai-lines')).default;
-  
   // Enhanced AI Routes
   app.use("/api/ai", aiRouter);
-  app.use("/api/ai", aiLinesRouter);
+  app.use("/api/ai", aiModelsRouter);
+  app.use("/api/ai/knowledge", knowledgeRouter);
   
   // Quotes Routes
   app.use("/api/quotes", quotesRouter);
   
+  // Public customer quote portal behind /q/:token links - no authentication
+  app.use("/api/portal/quotes", quotePortalRouter);
+
+  // Public team invitation links (/invite/:token) - the token is the credential
+  app.use("/api/invitations", invitationsRouter);
+  
+  // AI quote-chat conversation history
+  app.use("/api/conversations", conversationsRouter);
+  
   // Admin authentication routes (separate from regular auth)
   app.use("/api/admin-auth", adminAuthRouter);
   
+  // Prompt evaluation cases and runs, ahead of the general admin routes
+  app.use("/api/admin/prompt-evals", authenticate, authorize("system:admin"), promptEvalsRouter);
+
   // Admin routes - apply auth middleware
-  app.use("/api/admin", authenticate, requireAdmin, adminRouter);
+  app.use("/api/admin", authenticate, authorize("system:admin"), adminRouter);
   
   // Settings routes - no universal authentication required
   // Individual routes handle their own authentication as needed
@@ -341,6 +292,9 @@ This is a ballpark figure based on industry averages. Actual costs may vary base
 
   // Company Routes
   app.use("/api/company", companyRouter);
+
+  // Audit Log Routes
+  app.use("/api/audit-events", auditRouter);
   
   // System Prompt Routes
   app.get("/api/system-prompts", authenticate, async (req, res) => {
@@ -397,7 +351,10 @@ This is a ballpark figure based on industry averages. Actual costs may vary base
     }
   });
   
-  app.post("/api/system-prompts", requireAdmin, async (req, res) => {
+  // Prompts belong to a company; only people who may edit prompts can change them
+  const systemPromptResource = byRouteId(id => storage.getSystemPrompt(id));
+
+  app.post("/api/system-prompts", authenticate, authorize("prompts:edit"), async (req, res) => {
     try {
       const user = req.user as any;
       const promptData = insertSystemPromptSchema.parse({
@@ -416,25 +373,11 @@ This is a ballpark figure based on industry averages. Actual costs may vary base
     }
   });
   
-  app.put("/api/system-prompts/:id", requireAdmin, async (req, res) => {
+  app.put("/api/system-prompts/:id", authenticate, authorize("prompts:edit", systemPromptResource), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const prompt = await storage.getSystemPrompt(id);
-      
-      if (!prompt) {
-        return res.status(404).json({ message: "System prompt not found" });
-      }
-      
-      const user = req.user as any;
-      
-      // Check if user has access to update this prompt
-      if (user.role === "admin" && prompt.companyId === user.companyId) {
-        const updateData = insertSystemPromptSchema.partial().parse(req.body);
-        const updatedPrompt = await storage.updateSystemPrompt(id, updateData);
-        res.json(updatedPrompt);
-      } else {
-        res.status(403).json({ message: "Forbidden" });
-      }
+      const updateData = insertSystemPromptSchema.partial().parse(req.body);
+      const updatedPrompt = await storage.updateSystemPrompt(res.locals.resource.id, updateData);
+      res.json(updatedPrompt);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ errors: err.errors });
@@ -443,24 +386,10 @@ This is a ballpark figure based on industry averages. Actual costs may vary base
     }
   });
   
-  app.delete("/api/system-prompts/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/system-prompts/:id", authenticate, authorize("prompts:edit", systemPromptResource), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const prompt = await storage.getSystemPrompt(id);
-      
-      if (!prompt) {
-        return res.status(404).json({ message: "System prompt not found" });
-      }
-      
-      const user = req.user as any;
-      
-      // Check if user has access to delete this prompt
-      if (user.role === "admin" && prompt.companyId === user.companyId) {
-        await storage.deleteSystemPrompt(id);
-        res.status(204).end();
-      } else {
-        res.status(403).json({ message: "Forbidden" });
-      }
+      await storage.deleteSystemPrompt(res.locals.resource.id);
+      res.status(204).end();
     } catch (err) {
       res.status(500).json({ message: "Error deleting system prompt" });
     }
@@ -583,12 +512,22 @@ This is a ballpark figure based on industry averages. Actual costs may vary base
         valuePercentChange = Math.round((lastMonthValue - previousMonthValue) / previousMonthValue * 100);
       }
       
+      // Count quotes in each lifecycle status, folding legacy spellings into the canonical ones
+      const statusCounts = Object.fromEntries(quoteStatuses.map(status => [status, 0])) as Record<QuoteStatus, number>;
+      for (const quote of quotes) {
+        const status = normalizeQuoteStatus(quote.status);
+        if (status) {
+          statusCounts[status]++;
+        }
+      }
+      
       // Dashboard stats
       const stats = {
         totalQuotes: quotes.length,
         totalQuoteValue,
         quotesPercentChange: quotesPercentChange || 0,
-        valuePercentChange: valuePercentChange || 0
+        valuePercentChange: valuePercentChange || 0,
+        statusCounts
       };
       
       res.json(stats);
@@ -3,6 +3,15 @@ import { storage } from "../storage";
 import { z } from "zod";
 import jwt from "jsonwebtoken";
 import { comparePasswords } from "../lib/auth-helpers";
+import type { User } from "@shared/schema";
+import {
+  createTwoFactorChallenge,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  TwoFactorLockedError,
+  verifyTwoFactorChallenge,
+  verifyTwoFactorLogin
+} from "../lib/two-factor";
 
 // Define schemas for admin login
 const adminLoginSchema = z.object({
@@ -10,6 +19,11 @@ const adminLoginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+const adminTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().trim().min(1, "Code is required"),
+});
+
 // Create router
 const adminAuthRouter = Router();
 
@@ -43,6 +57,32 @@ export const verifyAdminToken = (req: Request, res: Response, next: NextFunction
   }
 };
 
+// Create token with admin information and respond with it
+const sendAdminToken = (user: User, res: Response) => {
+  const token = jwt.sign(
+    { 
+      id: user.id, 
+      username: user.username, 
+      name: user.name, 
+      role: user.role 
+    },
+    JWT_SECRET,
+    { expiresIn: JWT_EXPIRY }
+  );
+  
+  // Return token and admin user info
+  res.status(200).json({
+    success: true,
+    token,
+    user: {
+      id: user.id,
+      username: user.username,
+      name: user.name || "", // Ensure name is not null
+      role: user.role
+    }
+  });
+};
+
 // Admin login endpoint
 adminAuthRouter.post("/login", async (req: Request, res: Response) => {
   try {
@@ -72,29 +112,24 @@ adminAuthRouter.post("/login", async (req: Request, res: Response) => {
       });
     }
     
-    // Create token with admin information
-    const token = jwt.sign(
-      { 
-        id: user.id, 
-        username: user.username, 
-        name: user.name, 
-        role: user.role 
-      },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRY }
-    );
+    // A second factor is checked before the token is issued
+    if (await isTwoFactorEnabled(user.id)) {
+      return res.status(200).json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user)
+      });
+    }
     
-    // Return token and admin user info
-    res.status(200).json({
-      success: true,
-      token,
-      user: {
-        id: user.id,
-        username: user.username,
-        name: user.name || "", // Ensure name is not null
-        role: user.role
-      }
-    });
+    if (isTwoFactorRequired(user)) {
+      return res.status(403).json({
+        success: false,
+        twoFactorSetupRequired: true,
+        message: "Set up two-factor authentication by signing in to the app before using the admin portal"
+      });
+    }
+    
+    sendAdminToken(user, res);
   } catch (error) {
     console.error("Admin login error:", error);
     
@@ -113,6 +148,53 @@ adminAuthRouter.post("/login", async (req: Request, res: Response) => {
   }
 });
 
+// Second step of admin login for users with two-factor authentication
+adminAuthRouter.post("/verify-2fa", async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = adminTwoFactorSchema.parse(req.body);
+    
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId ? await storage.getUser(userId) : undefined;
+    if (!user || !user.isActive || (user.role !== "admin" && user.role !== "owner")) {
+      return res.status(401).json({
+        success: false,
+        message: "Sign-in expired, please log in again"
+      });
+    }
+    
+    if (!await verifyTwoFactorLogin(challengeToken, code)) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid verification code"
+      });
+    }
+    
+    sendAdminToken(user, res);
+  } catch (error) {
+    if (error instanceof TwoFactorLockedError) {
+      return res.status(429).json({
+        success: false,
+        message: "Too many incorrect codes, please try again in a few minutes"
+      });
+    }
+    
+    console.error("Admin two-factor error:", error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        success: false, 
+        message: "Validation error", 
+        errors: error.errors 
+      });
+    }
+    
+    res.status(500).json({ 
+      success: false, 
+      message: "Server error" 
+    });
+  }
+});
+
 // Check admin authentication status
 adminAuthRouter.get("/status", verifyAdminToken, (req: Request, res: Response) => {
   const adminUser = (req as any).adminUser;
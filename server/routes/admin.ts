@@ -5,13 +5,16 @@ import {
   insertIndustrySchema, 
   insertSystemPromptSchema 
 } from "@shared/schema";
-import { authenticate, requireAdmin } from "../middleware/auth";
+import { authenticate, authorize } from "../middleware/auth";
+import { createHierarchicalPromptChain } from "../lib/langchain-ai";
+import { resolveModel } from "../lib/llm-provider";
+import { revokeAllUserRefreshTokens } from "../lib/jwt";
 
 export const adminRouter = Router();
 
 // Apply middleware to all routes in this router
 adminRouter.use(authenticate);
-adminRouter.use(requireAdmin);
+adminRouter.use(authorize("system:admin"));
 
 // Get admin dashboard stats
 adminRouter.get("/stats", async (req: Request, res: Response) => {
@@ -277,6 +280,46 @@ adminRouter.get("/system-prompts/type/:type", async (req: Request, res: Response
   }
 });
 
+// Show the fully assembled prompt stack the model receives for a company and client
+adminRouter.get("/system-prompts/preview", async (req: Request, res: Response) => {
+  try {
+    const companyId = parseInt(req.query.companyId as string);
+    if (isNaN(companyId)) {
+      return res.status(400).json({ error: "Invalid company ID" });
+    }
+
+    const clientId = req.query.clientId ? parseInt(req.query.clientId as string) : undefined;
+    if (clientId !== undefined && isNaN(clientId)) {
+      return res.status(400).json({ error: "Invalid client ID" });
+    }
+
+    const company = await storage.getCompany(companyId);
+    if (!company) {
+      return res.status(404).json({ error: "Company not found" });
+    }
+
+    // The preview still works when no provider is configured, it just can't name the model
+    const resolved = await resolveModel(companyId).catch(() => undefined);
+    const chain = await createHierarchicalPromptChain(storage, companyId, clientId, resolved?.options.model);
+
+    // Optionally include a sample user message so the final turn is shown too
+    const message = typeof req.query.message === 'string' ? req.query.message : '';
+    const messages = await chain.formatMessages(message);
+
+    res.json({
+      companyId,
+      clientId: clientId ?? null,
+      provider: resolved?.provider.name ?? null,
+      model: resolved ? resolved.options.model || resolved.provider.defaultModel : null,
+      layers: chain.layers,
+      messages: messages.map(m => ({ role: m.getType(), content: m.content }))
+    });
+  } catch (err) {
+    console.error("Error assembling system prompt preview:", err);
+    res.status(500).json({ error: "Failed to assemble system prompt preview" });
+  }
+});
+
 // Users management endpoints
 adminRouter.get("/users", async (req: Request, res: Response) => {
   try {
@@ -322,4 +365,24 @@ adminRouter.get("/users/:id", async (req: Request, res: Response) => {
   }
 });
 
+// Sign a user out of every device, e.g. after a lost laptop or a compromised password
+adminRouter.post("/users/:id/force-logout", async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+    
+    if (!await storage.getUser(userId)) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    
+    const revoked = await revokeAllUserRefreshTokens(userId, req.ip);
+    res.json({ success: true, revoked });
+  } catch (err) {
+    console.error("Error forcing logout:", err);
+    res.status(500).json({ error: "Failed to sign the user out" });
+  }
+});
+
 export default adminRouter;
\ No newline at end of file
@@ -0,0 +1,256 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { insertAiModelSchema, type AIModel } from '@shared/schema';
+import { storage } from '../storage';
+import { authenticate, authorize } from '../middleware/auth';
+import { getProvider, getProviderHealth, isProviderConfigured } from '../lib/llm-provider';
+import { getFineTuneProvider } from '../lib/finetune-providers';
+import { processFinetuningSessions } from '../lib/finetune-runner';
+
+// Company AI models, their fine-tuning sessions and the health of the LLM providers behind them
+export const aiModelsRouter = Router();
+
+const modelInputSchema = insertAiModelSchema.pick({
+  name: true,
+  provider: true,
+  baseModel: true,
+  description: true,
+  isActive: true,
+  configuration: true,
+}).extend({
+  name: z.string().trim().min(3, 'Name must be at least 3 characters').max(100),
+  provider: z.string().refine(name => !!getProvider(name), { message: 'Unknown AI provider' })
+    // The fake provider is for tests and development only
+    .refine(name => name !== 'fake' || isProviderConfigured('fake'), { message: 'The fake AI provider is not available here' }),
+  baseModel: z.string().trim().min(1, 'Base model is required'),
+});
+
+const finetuneInputSchema = z.object({
+  modelId: z.coerce.number().int().min(1, 'Model is required'),
+  trainingDataIds: z.array(z.coerce.number().int()).min(1, 'Select at least one training example'),
+  hyperparameters: z.object({
+    epochs: z.number().int().min(1).max(50).optional(),
+    batchSize: z.number().int().min(1).max(256).optional(),
+    learningRateMultiplier: z.number().positive().max(10).optional(),
+  }).optional(),
+});
+
+// Look up a model the current user's company owns, responding with 404 otherwise
+const loadCompanyModel = async (req: Request, res: Response, id: number): Promise<AIModel | undefined> => {
+  if (isNaN(id)) {
+    res.status(400).json({ error: 'Invalid model ID' });
+    return undefined;
+  }
+
+  const model = await storage.getAIModel(id);
+  if (!model || (model.companyId !== req.user!.companyId && req.user!.role !== 'admin')) {
+    res.status(404).json({ error: 'Model not found' });
+    return undefined;
+  }
+
+  return model;
+};
+
+const validationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({ error: 'Validation error', errors: error.errors });
+
+// Provider configuration and a live ping (skip the ping with ?ping=false)
+aiModelsRouter.get('/providers/status', authenticate, async (req: Request, res: Response) => {
+  try {
+    const providers = await getProviderHealth({ ping: req.query.ping !== 'false' });
+    res.json({ providers });
+  } catch (error) {
+    console.error('Error checking AI provider status:', error);
+    res.status(500).json({ error: 'Failed to check AI provider status' });
+  }
+});
+
+// List the company's models
+aiModelsRouter.get('/models', authenticate, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    const models = companyId
+      ? await storage.getAIModelsByCompanyId(companyId)
+      : req.user!.role === 'admin' ? await storage.getAllAIModels() : [];
+
+    res.json(models.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+  } catch (error) {
+    console.error('Error fetching AI models:', error);
+    res.status(500).json({ error: 'Failed to fetch AI models' });
+  }
+});
+
+aiModelsRouter.get('/models/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const model = await loadCompanyModel(req, res, parseInt(req.params.id));
+    if (!model) return;
+
+    res.json(model);
+  } catch (error) {
+    console.error('Error fetching AI model:', error);
+    res.status(500).json({ error: 'Failed to fetch AI model' });
+  }
+});
+
+aiModelsRouter.post('/models', authenticate, authorize('ai:manage'), async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    if (!companyId) {
+      return res.status(400).json({ error: 'No company associated with this user' });
+    }
+
+    const modelData = modelInputSchema.parse(req.body);
+    if (await storage.getAIModelByName(modelData.name, companyId)) {
+      return res.status(409).json({ error: `A model named "${modelData.name}" already exists` });
+    }
+
+    const model = await storage.createAIModel({ ...modelData, companyId });
+    res.status(201).json(model);
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error creating AI model:', error);
+    res.status(500).json({ error: 'Failed to create AI model' });
+  }
+});
+
+aiModelsRouter.put('/models/:id', authenticate, authorize('ai:manage'), async (req: Request, res: Response) => {
+  try {
+    const model = await loadCompanyModel(req, res, parseInt(req.params.id));
+    if (!model) return;
+
+    const modelData = modelInputSchema.partial().parse(req.body);
+    if (modelData.name && modelData.name !== model.name && model.companyId) {
+      const existing = await storage.getAIModelByName(modelData.name, model.companyId);
+      if (existing && existing.id !== model.id) {
+        return res.status(409).json({ error: `A model named "${modelData.name}" already exists` });
+      }
+    }
+
+    res.json(await storage.updateAIModel(model.id, modelData));
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error updating AI model:', error);
+    res.status(500).json({ error: 'Failed to update AI model' });
+  }
+});
+
+// Delete a model along with its fine-tuning history
+aiModelsRouter.delete('/models/:id', authenticate, authorize('ai:manage'), async (req: Request, res: Response) => {
+  try {
+    const model = await loadCompanyModel(req, res, parseInt(req.params.id));
+    if (!model) return;
+
+    const sessions = await storage.getFinetuningSessionsByModelId(model.id);
+    if (sessions.some(session => session.status === 'pending' || session.status === 'running')) {
+      return res.status(409).json({ error: 'This model is being fine-tuned. Wait for training to finish before deleting it.' });
+    }
+
+    for (const session of sessions) {
+      await storage.deleteFinetuningSession(session.id);
+    }
+    await storage.deleteAIModel(model.id);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting AI model:', error);
+    res.status(500).json({ error: 'Failed to delete AI model' });
+  }
+});
+
+// List fine-tuning sessions, newest first, optionally for one model (?modelId=)
+aiModelsRouter.get('/finetune', authenticate, async (req: Request, res: Response) => {
+  try {
+    let sessions;
+    if (req.query.modelId) {
+      const model = await loadCompanyModel(req, res, parseInt(req.query.modelId as string));
+      if (!model) return;
+      sessions = await storage.getFinetuningSessionsByModelId(model.id);
+    } else {
+      sessions = req.user!.companyId ? await storage.getAllFinetuningSessionsByCompanyId(req.user!.companyId) : [];
+    }
+
+    res.json(sessions.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()));
+  } catch (error) {
+    console.error('Error fetching fine-tuning sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch fine-tuning sessions' });
+  }
+});
+
+aiModelsRouter.get('/finetune/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const sessionId = parseInt(req.params.id);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    const session = await storage.getFinetuningSession(sessionId);
+    if (!session || (session.companyId !== req.user!.companyId && req.user!.role !== 'admin')) {
+      return res.status(404).json({ error: 'Fine-tuning session not found' });
+    }
+
+    res.json(session);
+  } catch (error) {
+    console.error('Error fetching fine-tuning session:', error);
+    res.status(500).json({ error: 'Failed to fetch fine-tuning session' });
+  }
+});
+
+// Queue a fine-tuning session for a model on a selection of the company's training examples.
+// The fine-tuning runner submits it to the provider and tracks it from there.
+aiModelsRouter.post('/finetune', authenticate, authorize('ai:manage'), async (req: Request, res: Response) => {
+  try {
+    const { modelId, trainingDataIds, hyperparameters } = finetuneInputSchema.parse(req.body);
+
+    const model = await loadCompanyModel(req, res, modelId);
+    if (!model) return;
+
+    const finetuneProvider = getFineTuneProvider(model.provider);
+    if (!finetuneProvider) {
+      return res.status(400).json({ error: `Fine-tuning is not supported for ${model.provider} models` });
+    }
+    if (!finetuneProvider.isConfigured()) {
+      return res.status(400).json({ error: `The ${finetuneProvider.name} fine-tuning provider is not configured` });
+    }
+
+    const sessions = await storage.getFinetuningSessionsByModelId(model.id);
+    if (sessions.some(session => session.status === 'pending' || session.status === 'running')) {
+      return res.status(409).json({ error: 'This model already has a fine-tuning session in progress' });
+    }
+
+    // Only train on reviewed examples that belong to the model's company
+    const examples = (await storage.getTrainingDataByIds(trainingDataIds))
+      .filter(example => example.companyId === model.companyId && example.status === 'approved');
+    if (examples.length === 0) {
+      return res.status(400).json({ error: 'None of the selected training examples were found or approved' });
+    }
+
+    const session = await storage.createFinetuningSession({
+      modelId: model.id,
+      companyId: model.companyId,
+      userId: req.user!.id,
+      status: 'pending',
+      datasetSize: examples.length,
+      trainingHyperparams: {
+        ...hyperparameters,
+        trainingDataIds: examples.map(example => example.id)
+      }
+    });
+
+    await storage.updateAIModel(model.id, {
+      finetuneStatus: 'in_progress',
+      trainingDataIds: examples.map(example => example.id)
+    });
+
+    // Submit straight away rather than waiting for the worker's next poll
+    void processFinetuningSessions();
+
+    res.status(201).json(session);
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error starting fine-tuning:', error);
+    res.status(500).json({ error: 'Failed to start fine-tuning' });
+  }
+});
@@ -1,9 +1,22 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { streamingChatHandler, extractLineItems } from '../lib/vercel-ai';
-import { Message } from 'ai';
+import { z } from 'zod';
+import multer from 'multer';
+import type { Client, Quote } from '@shared/schema';
+import { storage } from '../storage';
+import { streamingChatHandler } from '../lib/vercel-ai';
 import { handleAIChat } from '../lib/ai-handler';
+import { hasConfiguredProvider } from '../lib/llm-provider';
+import { extractLineItems } from '../lib/line-item-extraction';
+import { generateQuote, type GeneratedQuoteDraft } from '../lib/ai-client';
+import { isReadableAttachment, readAttachmentText } from '../lib/attachments';
+import { calculateQuoteAmount } from '../lib/quote-totals';
+import { recordInitialQuoteStatus } from '../lib/quote-status';
+import type { TokenPayload } from '../lib/jwt';
 import { authenticate } from '../middleware/auth';
 
+// Most documents accepted alongside a quote description
+const MAX_ATTACHMENTS = 5;
+
 // Use JWT authentication middleware OR allow unauthenticated access in development
 const aiAuthMiddleware = (req: Request, res: Response, next: NextFunction) => {
   // In development, allow unauthenticated access to AI endpoints for testing
@@ -42,8 +55,8 @@ aiRouter.post('/chat', aiAuthMiddleware, async (req: Request, res: Response) =>
       return res.status(400).json({ error: 'Last message must be from user' });
     }
     
-    // Check for OpenAI API key
-    if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
+    // Check that an AI provider is available
+    if (!hasConfiguredProvider()) {
       console.error('No AI provider API keys configured');
       return res.status(500).json({ 
         error: 'No AI provider configured. Please set up OpenAI or Anthropic API keys.'
@@ -52,7 +65,7 @@ aiRouter.post('/chat', aiAuthMiddleware, async (req: Request, res: Response) =>
     
     // Call our streaming handler with messages and response object
     console.log('Calling streaming handler...');
-    return await streamingChatHandler(messages, res);
+    return await streamingChatHandler(messages, res, req.user?.companyId ?? undefined);
   } catch (err) {
     console.error('Error in AI chat endpoint:', err);
     
@@ -74,80 +87,162 @@ aiRouter.post('/chat', aiAuthMiddleware, async (req: Request, res: Response) =>
   }
 });
 
-// Extract line items from conversation
+const extractLineItemsSchema = z.object({
+  text: z.string().optional(),
+  messages: z.array(z.object({ role: z.string(), content: z.string() })).optional(),
+}).refine(body => !!body.text?.trim() || !!body.messages?.some(message => message.content.trim()), {
+  message: 'Provide text or messages to extract line items from',
+});
+
+// Extract structured line items from free text, a conversation, or both
 aiRouter.post('/extract-line-items', aiAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    console.log('Extract line items endpoint called');
-    const { messages } = req.body;
-    
-    if (!messages || !Array.isArray(messages)) {
-      console.error('Invalid messages format in extract line items request');
-      return res.status(400).json({ error: 'Invalid messages format' });
-    }
-    
-    // Log the received messages for debugging
-    console.log('Extract line items request received with messages:', JSON.stringify(messages.map(m => ({
-      role: m.role,
-      contentPreview: m.content.substring(0, 50) + (m.content.length > 50 ? '...' : '')
-    }))));
-    
-    // Check for OpenAI API key
-    if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-      console.error('No AI provider API keys configured for line item extraction');
-      return res.status(500).json({ 
+    const input = extractLineItemsSchema.parse(req.body);
+
+    if (!hasConfiguredProvider()) {
+      return res.status(500).json({
         error: 'No AI provider configured. Please set up OpenAI or Anthropic API keys.'
       });
     }
-    
-    console.log('Calling extractLineItems function...');
-    const lineItems = await extractLineItems(messages as Message[]);
-    console.log('Line items extracted:', lineItems);
-    
-    return res.status(200).json({ items: lineItems });
+
+    const result = await extractLineItems(input, { companyId: req.user?.companyId });
+    if (!result.success) {
+      return res.status(422).json({ error: result.error, attempts: result.attempts });
+    }
+
+    res.json({
+      items: result.items,
+      unmatched: result.unmatched,
+      notes: result.notes,
+      warnings: result.warnings,
+      attempts: result.attempts
+    });
   } catch (err) {
-    console.error('Error extracting line items:', err);
-    
-    // Provide more specific error message if possible
-    let errorMessage = 'Failed to extract line items';
-    if (err instanceof Error) {
-      console.error('Detailed extraction error:', {
-        name: err.name,
-        message: err.message,
-        stack: err.stack
-      });
-      
-      if (err.message.includes('API key')) {
-        errorMessage = 'There was an issue with the AI provider API key for line item extraction.';
-      }
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', errors: err.errors });
     }
-    
-    res.status(500).json({ error: errorMessage });
+
+    console.error('Error extracting line items:', err);
+    res.status(500).json({ error: 'Failed to extract line items' });
   }
 });
 
-// Generate quote from description (placeholder for now)
-aiRouter.post('/generate-quote', aiAuthMiddleware, async (req: Request, res: Response) => {
+const generateQuoteSchema = z.object({
+  description: z.string().trim().min(1, 'Description is required'),
+  clientId: z.coerce.number().int().positive().nullish(),
+  // Multipart forms send booleans as strings
+  persist: z.union([z.boolean(), z.enum(['true', 'false']).transform(value => value === 'true')]).default(false),
+  // Documents already read on the client, for callers that can't send multipart
+  attachments: z.array(z.object({ name: z.string(), text: z.string() })).max(MAX_ATTACHMENTS).optional(),
+});
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+    files: MAX_ATTACHMENTS,
+  },
+  fileFilter: (req, file, cb) => {
+    cb(null, isReadableAttachment(file));
+  }
+});
+
+// The draft's prose parts as the quote description
+function draftDescription(draft: GeneratedQuoteDraft): string {
+  const sections = [draft.title, draft.scope];
+  if (draft.assumptions.length > 0) {
+    sections.push(`Assumptions:\n${draft.assumptions.map(entry => `- ${entry}`).join('\n')}`);
+  }
+  if (draft.exclusions.length > 0) {
+    sections.push(`Exclusions:\n${draft.exclusions.map(entry => `- ${entry}`).join('\n')}`);
+  }
+  if (draft.timeline) {
+    sections.push(`Timeline: ${draft.timeline}`);
+  }
+  return sections.join('\n\n');
+}
+
+// Save a generated draft as a new draft quote with its line items
+async function saveQuoteDraft(draft: GeneratedQuoteDraft, user: TokenPayload, client: Client | undefined): Promise<Quote> {
+  const quote = await storage.createQuote({
+    clientId: client?.id ?? null,
+    clientName: client?.companyName ?? 'New client',
+    description: draftDescription(draft),
+    date: new Date(),
+    status: 'draft',
+    userId: user.id,
+    companyId: user.companyId
+  });
+
+  const items = await storage.replaceQuoteLineItems(quote.id, draft.lineItems.map((item, index) => ({
+    quoteId: quote.id,
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    unit: item.unit,
+    category: item.category,
+    sortOrder: index
+  })));
+  await recordInitialQuoteStatus(quote, { userId: user.id });
+
+  return (await storage.updateQuote(quote.id, { amount: calculateQuoteAmount(items) })) ?? quote;
+}
+
+// Draft a structured quote from a job description, optionally saving it as a new draft quote
+aiRouter.post('/generate-quote', authenticate, attachmentUpload.array('attachments', MAX_ATTACHMENTS), async (req: Request, res: Response) => {
   try {
-    const { description } = req.body;
-    
-    if (!description) {
-      return res.status(400).json({ error: 'Description is required' });
+    const input = generateQuoteSchema.parse(req.body);
+    const user = req.user!;
+
+    if (!user.companyId) {
+      return res.status(400).json({ error: 'User is not associated with a company' });
     }
-    
-    // In a real implementation, this would call an LLM with a structured prompt
-    const mockQuote = {
-      title: "Generated Quote",
-      description: `Project based on: ${description}`,
-      amount: 5000,
-      lineItems: [
-        { description: "Initial consultation", quantity: 1, unitPrice: 500 },
-        { description: "Project implementation", quantity: 1, unitPrice: 4500 }
-      ]
-    };
-    
-    return res.status(200).json({ quote: mockQuote });
+
+    let client: Client | undefined;
+    if (input.clientId) {
+      client = await storage.getClient(input.clientId);
+      if (!client || client.companyId !== user.companyId) {
+        return res.status(404).json({ error: 'Client not found' });
+      }
+    }
+
+    if (!hasConfiguredProvider()) {
+      return res.status(500).json({
+        error: 'No AI provider configured. Please set up OpenAI or Anthropic API keys.'
+      });
+    }
+
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const attachments = [
+      ...(input.attachments ?? []),
+      ...await Promise.all(files.map(readAttachmentText))
+    ];
+
+    const result = await generateQuote({
+      description: input.description,
+      companyId: user.companyId,
+      clientId: client?.id,
+      attachments
+    });
+    if (!result.success || !result.draft) {
+      return res.status(422).json({ error: result.error, attempts: result.attempts });
+    }
+
+    const quote = input.persist ? await saveQuoteDraft(result.draft, user, client) : undefined;
+
+    res.status(quote ? 201 : 200).json({
+      draft: result.draft,
+      unmatched: result.unmatched,
+      warnings: result.warnings,
+      attempts: result.attempts,
+      quote
+    });
   } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', errors: err.errors });
+    }
+
     console.error('Error generating quote:', err);
-    res.status(500).json({ error: 'Internal server error' });
+    res.status(500).json({ error: 'Failed to generate quote' });
   }
-});
\ No newline at end of file
+});
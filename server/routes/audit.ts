@@ -0,0 +1,84 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage, type AuditEventFilter } from '../storage';
+import { authenticate, authorize } from '../middleware/auth';
+import { can } from '../lib/permissions';
+import { auditedEntityTypes, auditEventsToCsv } from '../lib/audit';
+
+// The audit log: owners see their company's events, admins everyone's
+const router = Router();
+
+router.use(authenticate, authorize('audit:read'));
+
+const MAX_EXPORT_EVENTS = 10000;
+
+const auditQuerySchema = z.object({
+  companyId: z.coerce.number().int().positive().optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  action: z.string().trim().min(1).optional(),
+  entityType: z.string().trim().min(1).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * Turn the query string into a search, keeping non-admins to their own company.
+ * Responds and returns undefined when the request can't be served.
+ */
+const parseFilter = async (req: Request, res: Response): Promise<AuditEventFilter | undefined> => {
+  const query = auditQuerySchema.parse(req.query);
+  if (await can(req.user!, 'system:admin')) {
+    return query;
+  }
+
+  if (!req.user!.companyId) {
+    res.status(400).json({ message: 'User is not associated with a company' });
+    return undefined;
+  }
+  return { ...query, companyId: req.user!.companyId };
+};
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filter = await parseFilter(req, res);
+    if (!filter) return;
+
+    // One extra tells the viewer whether there is another page
+    const events = await storage.getAuditEvents({ ...filter, limit: filter.limit! + 1 });
+    res.json({
+      events: events.slice(0, filter.limit),
+      hasMore: events.length > filter.limit!,
+      entityTypes: auditedEntityTypes
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error fetching audit events:', err);
+    res.status(500).json({ message: 'Error fetching audit events' });
+  }
+});
+
+// Download the matching events as CSV, ignoring paging
+router.get('/export', async (req: Request, res: Response) => {
+  try {
+    const filter = await parseFilter(req, res);
+    if (!filter) return;
+
+    const events = await storage.getAuditEvents({ ...filter, limit: MAX_EXPORT_EVENTS, offset: 0 });
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="audit-log.csv"');
+    res.send(auditEventsToCsv(events));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error exporting audit events:', err);
+    res.status(500).json({ message: 'Error exporting audit events' });
+  }
+});
+
+export const auditRouter = router;
@@ -2,21 +2,39 @@
  * Authentication Routes
  * Handles login, logout, token refresh, and auth status
  */
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import bcrypt from 'bcrypt';
 import { db } from '../db';
-import { users } from '../../shared/schema';
+import { users, type User } from '../../shared/schema';
 import { loginSchema } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
 import { 
   generateTokens, 
   refreshTokensWithRefreshToken, 
   revokeRefreshToken,
+  revokeAllUserRefreshTokens,
+  revokeUserSession,
+  getUserSessions,
   TokenPayload
 } from '../lib/jwt';
 import { authenticate } from '../middleware/auth';
 import { comparePasswords, hashPassword } from '../lib/auth-helpers';
+import { storage } from '../storage';
+import {
+  beginTwoFactorEnrollment,
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  regenerateBackupCodes,
+  TwoFactorLockedError,
+  verifyTwoFactorChallenge,
+  verifyTwoFactorCode,
+  verifyTwoFactorLogin
+} from '../lib/two-factor';
 
 const router = Router();
 
@@ -25,6 +43,53 @@ interface RequestWithIp extends Request {
   ip: string;
 }
 
+/**
+ * Issue the JWT pair for a user whose password (and second factor, if any)
+ * checked out, and respond as a successful login
+ */
+const completeLogin = async (user: User, req: Request, res: Response, extra: Record<string, unknown> = {}) => {
+  // Generate tokens
+  const ipAddress = (req as RequestWithIp).ip;
+  const tokens = await generateTokens(user, ipAddress, req.get('user-agent'));
+  
+  // Update last login time
+  if (db) {
+    await db
+      .update(users)
+      .set({ lastLogin: new Date() })
+      .where(eq(users.id, user.id));
+  }
+  
+  // Extract user data to return (exclude sensitive fields)
+  const { password: _password, ...userWithoutPassword } = user;
+  
+  // Create a cookie with httpOnly flag to store the refresh token
+  const cookieOptions = {
+    httpOnly: true,
+    expires: tokens.expires,
+    sameSite: 'strict' as const, 
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+  };
+  
+  // Set the cookie with refresh token
+  res.cookie('refreshToken', tokens.refreshToken, cookieOptions);
+  
+  // Calculate token expiry in milliseconds (15 minutes)
+  const expiresIn = 15 * 60 * 1000;
+  
+  // Return user, access token, and include refresh token as fallback
+  return res.status(200).json({
+    success: true,
+    message: 'Authentication successful',
+    user: userWithoutPassword,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken, // Include refresh token for client-side fallback
+    expiresIn: expiresIn,
+    ...extra
+  });
+};
+
 // Login endpoint - returns JWT tokens
 router.post('/login', async (req: Request, res: Response) => {
   try {
@@ -129,43 +194,25 @@ router.post('/login', async (req: Request, res: Response) => {
     
     console.log(`Authentication successful for user: ${username} with role: ${user.role}`);
     
-    // Generate tokens
-    const ipAddress = (req as RequestWithIp).ip;
-    const tokens = await generateTokens(user, ipAddress);
-    
-    // Update last login time
-    await db
-      .update(users)
-      .set({ lastLogin: new Date() })
-      .where(eq(users.id, user.id));
-    
-    // Extract user data to return (exclude sensitive fields)
-    const { password: _password, ...userWithoutPassword } = user;
-    
-    // Create a cookie with httpOnly flag to store the refresh token
-    const cookieOptions = {
-      httpOnly: true,
-      expires: tokens.expires,
-      sameSite: 'strict' as const, 
-      secure: process.env.NODE_ENV === 'production',
-      path: '/',
-    };
-    
-    // Set the cookie with refresh token
-    res.cookie('refreshToken', tokens.refreshToken, cookieOptions);
+    // With 2FA the password only earns a challenge; tokens come after the code
+    if (await isTwoFactorEnabled(user.id)) {
+      return res.status(200).json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user)
+      });
+    }
     
-    // Calculate token expiry in milliseconds (15 minutes)
-    const expiresIn = 15 * 60 * 1000;
+    // Admins have to enroll before they can sign in
+    if (isTwoFactorRequired(user)) {
+      return res.status(200).json({
+        success: true,
+        twoFactorSetupRequired: true,
+        challengeToken: createTwoFactorChallenge(user)
+      });
+    }
     
-    // Return user, access token, and include refresh token as fallback
-    return res.status(200).json({
-      success: true,
-      message: 'Authentication successful',
-      user: userWithoutPassword,
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken, // Include refresh token for client-side fallback
-      expiresIn: expiresIn
-    });
+    return completeLogin(user, req, res);
     
   } catch (error) {
     console.error('Login error:', error);
@@ -193,7 +240,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
     const ipAddress = (req as RequestWithIp).ip;
     
     // Refresh tokens
-    const tokens = await refreshTokensWithRefreshToken(refreshToken, ipAddress);
+    const tokens = await refreshTokensWithRefreshToken(refreshToken, ipAddress, req.get('user-agent'));
     
     if (!tokens) {
       return res.status(401).json({ 
@@ -281,6 +328,45 @@ router.get('/status', authenticate, async (req: Request, res: Response) => {
   });
 });
 
+// The signed-in user's sessions; the one making the request is marked current
+router.get('/sessions', authenticate, async (req: Request, res: Response) => {
+  try {
+    const sessions = await getUserSessions(req.user!.id);
+    return res.status(200).json({
+      sessions: sessions.map(session => ({ ...session, current: session.id === req.user!.sid }))
+    });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return res.status(500).json({ success: false, message: 'Failed to load sessions' });
+  }
+});
+
+// Sign out everywhere except this device
+router.post('/sessions/revoke-others', authenticate, async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeAllUserRefreshTokens(req.user!.id, (req as RequestWithIp).ip, req.user!.sid);
+    return res.status(200).json({ success: true, revoked });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return res.status(500).json({ success: false, message: 'Failed to sign out other sessions' });
+  }
+});
+
+// Sign out one device
+router.delete('/sessions/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    // Session ids are token family uuids; anything else can't match one
+    const sessionId = z.string().uuid().safeParse(req.params.id);
+    if (!sessionId.success || !await revokeUserSession(req.user!.id, sessionId.data, (req as RequestWithIp).ip)) {
+      return res.status(404).json({ success: false, message: 'Session not found' });
+    }
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return res.status(500).json({ success: false, message: 'Failed to sign out session' });
+  }
+});
+
 // Get initial auth status - doesn't use middleware to avoid redirect loops
 router.get('/initial-status', async (req: Request, res: Response) => {
   try {
@@ -313,6 +399,186 @@ router.get('/initial-status', async (req: Request, res: Response) => {
   }
 });
 
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required')
+});
+
+const twoFactorChallengeSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, 'Challenge token is required')
+});
+
+const invalidCode = (res: Response) => res.status(401).json({
+  success: false,
+  message: 'Invalid verification code'
+});
+
+const tooManyAttempts = (res: Response) => res.status(429).json({
+  success: false,
+  message: 'Too many incorrect codes, please try again in a few minutes'
+});
+
+/**
+ * The user managing 2FA, from the access token or, while signing in, from a
+ * challenge token in the body (admins enroll before they have a session).
+ * Leaves the user in res.locals.user.
+ */
+const twoFactorUser = async (req: Request, res: Response, next: NextFunction) => {
+  const challengeToken = req.body?.challengeToken;
+  if (typeof challengeToken !== 'string') {
+    return authenticate(req, res, async () => {
+      res.locals.user = await storage.getUser(req.user!.id);
+      res.locals.user ? next() : res.status(404).json({ success: false, message: 'User not found' });
+    });
+  }
+  
+  const userId = verifyTwoFactorChallenge(challengeToken);
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user || !user.isActive) {
+    return res.status(401).json({
+      success: false,
+      message: 'Sign-in expired, please log in again'
+    });
+  }
+  res.locals.user = user;
+  res.locals.signingIn = true;
+  next();
+};
+
+// Second login step: trade the challenge and a code (or backup code) for tokens
+router.post('/2fa/verify', async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = twoFactorChallengeSchema.parse(req.body);
+    
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId ? await storage.getUser(userId) : undefined;
+    if (!user || !user.isActive) {
+      return res.status(401).json({
+        success: false,
+        message: 'Sign-in expired, please log in again'
+      });
+    }
+    
+    if (!await verifyTwoFactorLogin(challengeToken, code)) {
+      return invalidCode(res);
+    }
+    
+    return completeLogin(user, req, res);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, message: 'Validation error', errors: error.errors });
+    }
+    if (error instanceof TwoFactorLockedError) {
+      return tooManyAttempts(res);
+    }
+    console.error('Two-factor verification error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred during two-factor verification'
+    });
+  }
+});
+
+// Whether 2FA is on for the signed-in user
+router.get('/2fa', authenticate, async (req: Request, res: Response) => {
+  try {
+    return res.status(200).json(await getTwoFactorStatus(req.user!));
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to load two-factor status' });
+  }
+});
+
+// Start enrollment: a new secret and the QR code to scan
+router.post('/2fa/setup', twoFactorUser, async (req: Request, res: Response) => {
+  try {
+    const enrollment = await beginTwoFactorEnrollment(res.locals.user);
+    if (!enrollment) {
+      return res.status(409).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+    return res.status(200).json({ success: true, ...enrollment });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm enrollment with a code from the app; signs in when enrolling during login
+router.post('/2fa/enable', twoFactorUser, async (req: Request, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const user: User = res.locals.user;
+    
+    const backupCodes = await enableTwoFactor(user.id, code);
+    if (!backupCodes) {
+      return invalidCode(res);
+    }
+    
+    if (res.locals.signingIn) {
+      return completeLogin(user, req, res, { backupCodes });
+    }
+    return res.status(200).json({ success: true, backupCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, message: 'Validation error', errors: error.errors });
+    }
+    console.error('Two-factor enable error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to enable two-factor authentication' });
+  }
+});
+
+// New backup codes, replacing any left over
+router.post('/2fa/backup-codes', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    if (!await verifyTwoFactorCode(req.user!.id, code)) {
+      return invalidCode(res);
+    }
+    
+    return res.status(200).json({ success: true, backupCodes: await regenerateBackupCodes(req.user!.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, message: 'Validation error', errors: error.errors });
+    }
+    if (error instanceof TwoFactorLockedError) {
+      return tooManyAttempts(res);
+    }
+    console.error('Backup code regeneration error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to create backup codes' });
+  }
+});
+
+// Turn 2FA off; admins can't
+router.post('/2fa/disable', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    if (isTwoFactorRequired(req.user!)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication is required for your role'
+      });
+    }
+    
+    if (!await verifyTwoFactorCode(req.user!.id, code)) {
+      return invalidCode(res);
+    }
+    
+    await disableTwoFactor(req.user!.id);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, message: 'Validation error', errors: error.errors });
+    }
+    if (error instanceof TwoFactorLockedError) {
+      return tooManyAttempts(res);
+    }
+    console.error('Two-factor disable error:', error);
+    return res.status(500).json({ success: false, message: 'Failed to disable two-factor authentication' });
+  }
+});
+
 // Debug route for testing password verification in development environments
 if (process.env.NODE_ENV !== 'production') {
   // Enhanced debug login route
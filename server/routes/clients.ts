@@ -2,15 +2,18 @@ import express from "express";
 import { storage } from "../storage";
 import { insertClientSchema } from "@shared/schema";
 import { validateRequest } from "../middlewares/validate";
-import { isAuthenticated } from "../middlewares/auth";
+import { authenticate, authorize, byRouteId } from "../middleware/auth";
 
 const router = express.Router();
 
 // Apply authentication middleware to all routes
-router.use(isAuthenticated);
+router.use(authenticate);
+
+// The client named by the :id route parameter, for authorize()
+const clientResource = byRouteId(id => storage.getClient(id));
 
 // Get all clients
-router.get("/", async (req, res) => {
+router.get("/", authorize("clients:read"), async (req, res) => {
   try {
     // Get query parameters
     const userId = req.user?.id;
@@ -30,24 +33,9 @@ router.get("/", async (req, res) => {
 });
 
 // Get client by ID
-router.get("/:id", async (req, res) => {
+router.get("/:id", authorize("clients:read", clientResource), async (req, res) => {
   try {
-    const clientId = parseInt(req.params.id);
-    if (isNaN(clientId)) {
-      return res.status(400).json({ error: "Invalid client ID" });
-    }
-    
-    const client = await storage.getClient(clientId);
-    if (!client) {
-      return res.status(404).json({ error: "Client not found" });
-    }
-    
-    // Check if user has access to this client (same company)
-    if (client.companyId !== req.user?.companyId) {
-      return res.status(403).json({ error: "Unauthorized access to client data" });
-    }
-    
-    res.json(client);
+    res.json(res.locals.resource);
   } catch (error) {
     console.error("Error fetching client:", error);
     res.status(500).json({ error: "Failed to fetch client" });
@@ -55,7 +43,7 @@ router.get("/:id", async (req, res) => {
 });
 
 // Create new client
-router.post("/", validateRequest(insertClientSchema), async (req, res) => {
+router.post("/", authorize("clients:edit"), validateRequest(insertClientSchema), async (req, res) => {
   try {
     const companyId = req.user?.companyId;
     const userId = req.user?.id;
@@ -79,26 +67,10 @@ router.post("/", validateRequest(insertClientSchema), async (req, res) => {
 });
 
 // Update client
-router.patch("/:id", async (req, res) => {
+router.patch("/:id", authorize("clients:edit", clientResource), async (req, res) => {
   try {
-    const clientId = parseInt(req.params.id);
-    if (isNaN(clientId)) {
-      return res.status(400).json({ error: "Invalid client ID" });
-    }
-    
-    // Verify the client exists
-    const existingClient = await storage.getClient(clientId);
-    if (!existingClient) {
-      return res.status(404).json({ error: "Client not found" });
-    }
-    
-    // Check if user has access to this client (same company)
-    if (existingClient.companyId !== req.user?.companyId) {
-      return res.status(403).json({ error: "Unauthorized access to client data" });
-    }
-    
     // Update client
-    const updatedClient = await storage.updateClient(clientId, req.body);
+    const updatedClient = await storage.updateClient(res.locals.resource.id, req.body);
     res.json(updatedClient);
   } catch (error) {
     console.error("Error updating client:", error);
@@ -107,26 +79,10 @@ router.patch("/:id", async (req, res) => {
 });
 
 // Delete client
-router.delete("/:id", async (req, res) => {
+router.delete("/:id", authorize("clients:edit", clientResource), async (req, res) => {
   try {
-    const clientId = parseInt(req.params.id);
-    if (isNaN(clientId)) {
-      return res.status(400).json({ error: "Invalid client ID" });
-    }
-    
-    // Verify the client exists
-    const existingClient = await storage.getClient(clientId);
-    if (!existingClient) {
-      return res.status(404).json({ error: "Client not found" });
-    }
-    
-    // Check if user has access to this client (same company)
-    if (existingClient.companyId !== req.user?.companyId) {
-      return res.status(403).json({ error: "Unauthorized access to client data" });
-    }
-    
     // Delete client
-    const success = await storage.deleteClient(clientId);
+    const success = await storage.deleteClient(res.locals.resource.id);
     if (success) {
       res.status(204).send();
     } else {
@@ -1,10 +1,28 @@
 import { Router, Request, Response } from 'express';
-import { authenticate, requireOwner } from '../middleware/auth';
+import { authenticate, authorize, byRouteId } from '../middleware/auth';
 import { storage } from '../storage';
 import multer from 'multer';
 import fs from 'fs';
 import path from 'path';
-import { insertCompanySchema } from '../../shared/schema';
+import {
+  insertCompanySchema,
+  insertPriceBookItemSchema,
+  priceBookMarkupRulesSchema,
+  insertQuoteTemplateSchema,
+  defaultQuoteNumberFormat,
+  formatQuoteNumber,
+  type PriceBookItem,
+  type QuoteNumberSequence,
+  type QuoteTemplate,
+  type Invitation,
+  type User,
+  invitationRoles,
+  insertCompanyRoleSchema,
+  companyPermissions
+} from '../../shared/schema';
+import { importPriceBookCsv, toPriceBookEntries } from '../lib/price-book';
+import { getInvitationState, inviteToCompany, resendInvitation } from '../lib/invitations';
+import { BUILT_IN_ROLE_PERMISSIONS, can, getPermissions, isBuiltInRole } from '../lib/permissions';
 import { z } from 'zod';
 
 const router = Router();
@@ -18,6 +36,18 @@ const debugLog = (req: Request, res: Response, next: Function) => {
 // Apply debugging to all routes
 router.use(debugLog);
 
+// Settings routes act on the current user's company; who may change what is up to authorize()
+const requireCompany = (req: Request, res: Response, next: Function) => {
+  if (!req.user?.companyId) {
+    return res.status(404).json({
+      success: false,
+      message: 'No company associated with this user'
+    });
+  }
+
+  next();
+};
+
 // Setup uploads directory for company logos
 const uploadsDir = path.join(process.cwd(), 'uploads');
 if (!fs.existsSync(uploadsDir)) {
@@ -84,25 +114,9 @@ router.get('/', authenticate, async (req, res) => {
 });
 
 // Update company information
-router.put('/', authenticate, async (req, res) => {
+router.put('/', authenticate, requireCompany, authorize('company:edit'), async (req, res) => {
   try {
-    const userCompanyId = req.user?.companyId;
-    const userRole = req.user?.role;
-    
-    if (!userCompanyId) {
-      return res.status(404).json({
-        success: false,
-        message: 'No company associated with this user'
-      });
-    }
-
-    // Only admin or owner can update company info
-    if (userRole !== 'admin' && userRole !== 'owner') {
-      return res.status(403).json({
-        success: false,
-        message: 'Only admins or company owners can update company information'
-      });
-    }
+    const userCompanyId = req.user!.companyId!;
 
     // Validate input data
     const updateData = insertCompanySchema.partial().safeParse(req.body);
@@ -139,25 +153,9 @@ router.put('/', authenticate, async (req, res) => {
 });
 
 // Upload company logo
-router.post('/upload-logo', authenticate, upload.single('logo'), async (req, res) => {
+router.post('/upload-logo', authenticate, requireCompany, authorize('company:edit'), upload.single('logo'), async (req, res) => {
   try {
-    const userCompanyId = req.user?.companyId;
-    const userRole = req.user?.role;
-    
-    if (!userCompanyId) {
-      return res.status(404).json({
-        success: false,
-        message: 'No company associated with this user'
-      });
-    }
-
-    // Only admin or owner can update company logo
-    if (userRole !== 'admin' && userRole !== 'owner') {
-      return res.status(403).json({
-        success: false,
-        message: 'Only admins or company owners can update company logo'
-      });
-    }
+    const userCompanyId = req.user!.companyId!;
 
     if (!req.file) {
       return res.status(400).json({
@@ -194,8 +192,875 @@ router.post('/upload-logo', authenticate, upload.single('logo'), async (req, res
   }
 });
 
+// Quote document templates
+
+// Template fields a user can set; the company always comes from the session
+const quoteTemplateInputSchema = insertQuoteTemplateSchema.omit({ companyId: true });
+
+// Load a template belonging to the user's company, responding on failure
+const loadCompanyTemplate = async (req: Request, res: Response): Promise<QuoteTemplate | undefined> => {
+  const templateId = parseInt(req.params.id);
+  if (isNaN(templateId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid template ID'
+    });
+    return undefined;
+  }
+
+  const template = await storage.getQuoteTemplate(templateId);
+  if (!template || template.companyId !== req.user?.companyId) {
+    res.status(404).json({
+      success: false,
+      message: 'Template not found'
+    });
+    return undefined;
+  }
+
+  return template;
+};
+
+// List the company's quote templates
+router.get('/templates', authenticate, async (req, res) => {
+  try {
+    const userCompanyId = req.user?.companyId;
+
+    if (!userCompanyId) {
+      return res.status(404).json({
+        success: false,
+        message: 'No company associated with this user'
+      });
+    }
+
+    const templates = await storage.getQuoteTemplatesByCompanyId(userCompanyId);
+
+    return res.json({
+      success: true,
+      templates
+    });
+  } catch (error) {
+    console.error('Error fetching quote templates:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Get a single quote template
+router.get('/templates/:id', authenticate, async (req, res) => {
+  try {
+    const template = await loadCompanyTemplate(req, res);
+    if (!template) return;
+
+    return res.json({
+      success: true,
+      template
+    });
+  } catch (error) {
+    console.error('Error fetching quote template:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Create a quote template
+router.post('/templates', authenticate, requireCompany, authorize('company:edit'), async (req, res) => {
+  try {
+    const templateData = quoteTemplateInputSchema.parse(req.body);
+
+    // The first template a company creates becomes its default
+    const existingTemplates = await storage.getQuoteTemplatesByCompanyId(req.user!.companyId!);
+
+    const template = await storage.createQuoteTemplate({
+      ...templateData,
+      companyId: req.user!.companyId!,
+      isDefault: templateData.isDefault || existingTemplates.length === 0
+    });
+
+    return res.status(201).json({
+      success: true,
+      template
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error creating quote template:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Update a quote template
+router.put('/templates/:id', authenticate, requireCompany, authorize('company:edit'), async (req, res) => {
+  try {
+    const template = await loadCompanyTemplate(req, res);
+    if (!template) return;
+
+    const templateData = quoteTemplateInputSchema.partial().parse(req.body);
+    const updatedTemplate = await storage.updateQuoteTemplate(template.id, templateData);
+
+    return res.json({
+      success: true,
+      template: updatedTemplate
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating quote template:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Delete a quote template
+router.delete('/templates/:id', authenticate, requireCompany, authorize('company:edit'), async (req, res) => {
+  try {
+    const template = await loadCompanyTemplate(req, res);
+    if (!template) return;
+
+    await storage.deleteQuoteTemplate(template.id);
+
+    return res.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error deleting quote template:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+const quoteNumberingSchema = z.object({
+  prefix: z.string().max(20).regex(/^[A-Za-z0-9\-_/.#]*$/, 'Prefix may only contain letters, numbers and - _ / . #'),
+  includeYear: z.boolean(),
+  padding: z.number().int().min(1).max(10),
+  resetYearly: z.boolean(),
+  nextNumber: z.number().int().min(1).max(999999999),
+}).partial();
+
+// The numbering settings with the number the next quote will get
+const toQuoteNumbering = (sequence: QuoteNumberSequence | undefined) => {
+  const year = new Date().getFullYear();
+  const settings = sequence || { ...defaultQuoteNumberFormat, resetYearly: true, nextNumber: 1, year };
+  const nextNumber = settings.resetYearly && settings.year !== null && settings.year !== year ? 1 : settings.nextNumber;
+
+  return {
+    prefix: settings.prefix,
+    includeYear: settings.includeYear,
+    padding: settings.padding,
+    resetYearly: settings.resetYearly,
+    nextNumber,
+    preview: formatQuoteNumber(settings, nextNumber, year)
+  };
+};
+
+// Get the company's quote numbering scheme
+router.get('/quote-numbering', authenticate, requireCompany, authorize('company:edit'), async (req, res) => {
+  try {
+    const sequence = await storage.getQuoteNumberSequence(req.user!.companyId!);
+
+    return res.json({
+      success: true,
+      numbering: toQuoteNumbering(sequence)
+    });
+  } catch (error) {
+    console.error('Error fetching quote numbering:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Change the numbering scheme, or set the next number when migrating from another system
+router.put('/quote-numbering', authenticate, requireCompany, authorize('company:edit'), async (req, res) => {
+  try {
+    const settings = quoteNumberingSchema.parse(req.body);
+
+    // Pin an explicit next number to this year so a yearly reset doesn't undo it
+    const sequence = await storage.saveQuoteNumberSequence(req.user!.companyId!, {
+      ...settings,
+      ...(settings.nextNumber !== undefined ? { year: new Date().getFullYear() } : {})
+    });
+
+    return res.json({
+      success: true,
+      numbering: toQuoteNumbering(sequence)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating quote numbering:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Company price book
+
+// Price book fields a user can set; the company always comes from the session
+const priceBookItemInputSchema = insertPriceBookItemSchema.omit({ companyId: true });
+
+const hasPrice = (item: { cost?: number | null; sellPrice?: number | null }) =>
+  (item.cost !== null && item.cost !== undefined) || (item.sellPrice !== null && item.sellPrice !== undefined);
+
+// Price book CSVs are read in memory, never written to disk
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    cb(null, /\.csv$/i.test(file.originalname));
+  }
+});
+
+// Load a price book item belonging to the user's company, responding on failure
+const loadCompanyPriceBookItem = async (req: Request, res: Response): Promise<PriceBookItem | undefined> => {
+  const itemId = parseInt(req.params.id);
+  if (isNaN(itemId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid price book item ID'
+    });
+    return undefined;
+  }
+
+  const item = await storage.getPriceBookItem(itemId);
+  if (!item || item.companyId !== req.user?.companyId) {
+    res.status(404).json({
+      success: false,
+      message: 'Price book item not found'
+    });
+    return undefined;
+  }
+
+  return item;
+};
+
+// An item as returned by the API, with the price it sells for after markup
+const withSellPrice = async (item: PriceBookItem) =>
+  toPriceBookEntries([item], await storage.getPriceBookMarkups(item.companyId))[0];
+
+// Respond 409 if another of the company's items already has this SKU
+const rejectDuplicateSku = async (res: Response, companyId: number, sku: string | null | undefined, itemId?: number): Promise<boolean> => {
+  if (!sku) return false;
+
+  const existing = await storage.getPriceBookItemBySku(companyId, sku);
+  if (existing && existing.id !== itemId) {
+    res.status(409).json({
+      success: false,
+      message: `Another price book item already has SKU ${sku}`
+    });
+    return true;
+  }
+  return false;
+};
+
+// List the company's price book with sell prices and markup rules
+router.get('/price-book', authenticate, async (req, res) => {
+  try {
+    const userCompanyId = req.user?.companyId;
+
+    if (!userCompanyId) {
+      return res.status(404).json({
+        success: false,
+        message: 'No company associated with this user'
+      });
+    }
+
+    const [items, markups] = await Promise.all([
+      storage.getPriceBookItemsByCompanyId(userCompanyId),
+      storage.getPriceBookMarkups(userCompanyId)
+    ]);
+
+    return res.json({
+      success: true,
+      items: toPriceBookEntries(items, markups),
+      markups
+    });
+  } catch (error) {
+    console.error('Error fetching price book:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Replace the markup applied to cost for each category
+router.put('/price-book/markups', authenticate, requireCompany, authorize('pricebook:edit'), async (req, res) => {
+  try {
+    const rules = priceBookMarkupRulesSchema.parse(req.body.markups);
+    const markups = await storage.savePriceBookMarkups(req.user!.companyId!, rules);
+
+    return res.json({
+      success: true,
+      markups
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating price book markups:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Add or update items from a CSV file (multipart field "file", or { csv } as JSON). ?dryRun=true only validates.
+router.post('/price-book/import', authenticate, requireCompany, authorize('pricebook:edit'), csvUpload.single('file'), async (req, res) => {
+  try {
+    const csv = req.file ? req.file.buffer.toString('utf-8') : req.body.csv;
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload a CSV file or send its contents as csv'
+      });
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const result = await importPriceBookCsv(req.user!.companyId!, csv, { dryRun });
+
+    return res.json({
+      success: true,
+      dryRun,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error importing price book:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Get a single price book item
+router.get('/price-book/:id', authenticate, async (req, res) => {
+  try {
+    const item = await loadCompanyPriceBookItem(req, res);
+    if (!item) return;
+
+    return res.json({
+      success: true,
+      item: await withSellPrice(item)
+    });
+  } catch (error) {
+    console.error('Error fetching price book item:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Add a price book item
+router.post('/price-book', authenticate, requireCompany, authorize('pricebook:edit'), async (req, res) => {
+  try {
+    const itemData = priceBookItemInputSchema.parse(req.body);
+    const companyId = req.user!.companyId!;
+
+    if (!hasPrice(itemData)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A price book item needs a cost or a sell price'
+      });
+    }
+    if (await rejectDuplicateSku(res, companyId, itemData.sku)) return;
+
+    const item = await storage.createPriceBookItem({ ...itemData, companyId });
+
+    return res.status(201).json({
+      success: true,
+      item: await withSellPrice(item)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error creating price book item:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Update a price book item
+router.put('/price-book/:id', authenticate, requireCompany, authorize('pricebook:edit'), async (req, res) => {
+  try {
+    const item = await loadCompanyPriceBookItem(req, res);
+    if (!item) return;
+
+    const itemData = priceBookItemInputSchema.partial().parse(req.body);
+
+    if (!hasPrice({ ...item, ...itemData })) {
+      return res.status(400).json({
+        success: false,
+        message: 'A price book item needs a cost or a sell price'
+      });
+    }
+    if (await rejectDuplicateSku(res, item.companyId, itemData.sku, item.id)) return;
+
+    const updatedItem = await storage.updatePriceBookItem(item.id, itemData);
+
+    return res.json({
+      success: true,
+      item: updatedItem && await withSellPrice(updatedItem)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error updating price book item:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Delete a price book item
+router.delete('/price-book/:id', authenticate, requireCompany, authorize('pricebook:edit'), async (req, res) => {
+  try {
+    const item = await loadCompanyPriceBookItem(req, res);
+    if (!item) return;
+
+    await storage.deletePriceBookItem(item.id);
+
+    return res.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error deleting price book item:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+const invitationInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Please enter a valid email address'),
+  role: z.enum(invitationRoles).default('member')
+});
+
+// The token is left out: it only travels in the invitation email and the create/resend responses
+const toInvitationView = ({ token: _token, ...invitation }: Invitation) => ({
+  ...invitation,
+  state: getInvitationState(invitation)
+});
+
+// Look up an invitation belonging to the current user's company, responding with 404 otherwise
+const loadCompanyInvitation = async (req: Request, res: Response): Promise<Invitation | undefined> => {
+  const invitationId = parseInt(req.params.id);
+  if (isNaN(invitationId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid invitation ID'
+    });
+    return undefined;
+  }
+
+  const invitation = await storage.getInvitation(invitationId);
+  if (!invitation || invitation.companyId !== req.user?.companyId) {
+    res.status(404).json({
+      success: false,
+      message: 'Invitation not found'
+    });
+    return undefined;
+  }
+
+  return invitation;
+};
+
+// List the company's invitations, newest first
+router.get('/invitations', authenticate, requireCompany, authorize('users:invite'), async (req, res) => {
+  try {
+    const invitations = await storage.getInvitationsByCompanyId(req.user!.companyId!);
+
+    return res.json({
+      success: true,
+      invitations: invitations.map(toInvitationView)
+    });
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Invite someone to join the company by email
+router.post('/invitations', authenticate, requireCompany, authorize('users:invite'), async (req, res) => {
+  try {
+    const { email, role } = invitationInputSchema.parse(req.body);
+    const companyId = req.user!.companyId!;
+
+    // Making someone an owner hands them every company permission
+    if (role === 'owner' && !await can(req.user!, 'roles:manage')) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to invite owners'
+      });
+    }
+
+    const existingUser = await storage.getUserByEmail(email);
+    if (existingUser?.companyId === companyId) {
+      return res.status(409).json({
+        success: false,
+        message: `${email} is already a member of your team`
+      });
+    }
+
+    const invitations = await storage.getInvitationsByCompanyId(companyId);
+    if (invitations.some(invitation => invitation.email === email && getInvitationState(invitation) === 'pending')) {
+      return res.status(409).json({
+        success: false,
+        message: `${email} already has a pending invitation; resend it instead`
+      });
+    }
+
+    const sender = await storage.getUser(req.user!.id);
+    const sent = await inviteToCompany(
+      companyId,
+      email,
+      role,
+      { id: req.user!.id, name: sender?.name, username: req.user!.username },
+      `${req.protocol}://${req.get('host')}`
+    );
+
+    return res.status(201).json({
+      success: true,
+      invitation: toInvitationView(sent.invitation),
+      delivered: sent.delivered,
+      inviteUrl: sent.inviteUrl
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error creating invitation:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Email an invitation again with a new link, which also restarts its expiry
+router.post('/invitations/:id/resend', authenticate, requireCompany, authorize('users:invite'), async (req, res) => {
+  try {
+    const invitation = await loadCompanyInvitation(req, res);
+    if (!invitation) return;
+
+    const state = getInvitationState(invitation);
+    if (state === 'accepted' || state === 'revoked') {
+      return res.status(409).json({
+        success: false,
+        message: `This invitation has been ${state}`
+      });
+    }
+
+    const sender = await storage.getUser(req.user!.id);
+    const sent = await resendInvitation(
+      invitation,
+      { name: sender?.name, username: req.user!.username },
+      `${req.protocol}://${req.get('host')}`
+    );
+
+    return res.json({
+      success: true,
+      invitation: toInvitationView(sent.invitation),
+      delivered: sent.delivered,
+      inviteUrl: sent.inviteUrl
+    });
+  } catch (error) {
+    console.error('Error resending invitation:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Revoke an invitation so its link can no longer be used
+router.post('/invitations/:id/revoke', authenticate, requireCompany, authorize('users:invite'), async (req, res) => {
+  try {
+    const invitation = await loadCompanyInvitation(req, res);
+    if (!invitation) return;
+
+    if (invitation.acceptedAt) {
+      return res.status(409).json({
+        success: false,
+        message: 'This invitation has already been accepted'
+      });
+    }
+
+    const revoked = invitation.revokedAt
+      ? invitation
+      : await storage.updateInvitation(invitation.id, { revokedAt: new Date() });
+
+    return res.json({
+      success: true,
+      invitation: toInvitationView(revoked ?? invitation)
+    });
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Roles and permissions
+
+const roleInputSchema = insertCompanyRoleSchema.omit({ companyId: true });
+
+// The name is what users.role stores, so it can't change once people may hold the role
+const roleUpdateSchema = roleInputSchema.omit({ name: true }).partial();
+
+const userRoleSchema = z.object({
+  role: z.string().trim().min(1)
+});
+
+// A custom role of the current user's company; other companies' roles are not found
+const companyRoleResource = byRouteId(id => storage.getCompanyRole(id));
+
+// A user in the current user's company
+const companyUserResource = byRouteId<User>(id => storage.getUser(id));
+
+const validationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    errors: error.errors
+  });
+
+// What the current user may do, for showing and hiding parts of the app
+router.get('/permissions', authenticate, async (req, res) => {
+  try {
+    return res.json({
+      success: true,
+      role: req.user!.role,
+      permissions: await getPermissions(req.user!)
+    });
+  } catch (error) {
+    console.error('Error fetching permissions:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Built-in and custom roles with what each allows
+router.get('/roles', authenticate, requireCompany, authorize('roles:manage'), async (req, res) => {
+  try {
+    const companyId = req.user!.companyId!;
+    const roles = await storage.getCompanyRoles(companyId);
+    const members = await storage.getUsersByCompanyId(companyId);
+
+    return res.json({
+      success: true,
+      permissions: companyPermissions,
+      builtInRoles: (['owner', 'member'] as const).map(name => ({
+        name,
+        permissions: BUILT_IN_ROLE_PERMISSIONS[name]
+      })),
+      roles,
+      // Who holds which role, for assigning them
+      members: members
+        .filter(member => member.role !== 'admin')
+        .map(({ id, name, email, role, isActive }) => ({ id, name, email, role, isActive }))
+    });
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+router.post('/roles', authenticate, requireCompany, authorize('roles:manage'), async (req, res) => {
+  try {
+    const roleData = roleInputSchema.parse(req.body);
+    const companyId = req.user!.companyId!;
+
+    if (await storage.getCompanyRoleByName(companyId, roleData.name)) {
+      return res.status(409).json({
+        success: false,
+        message: `There is already a role called ${roleData.name}`
+      });
+    }
+
+    const role = await storage.createCompanyRole({ ...roleData, companyId });
+    return res.status(201).json({
+      success: true,
+      role
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error creating role:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+router.put('/roles/:id', authenticate, requireCompany, authorize('roles:manage', companyRoleResource), async (req, res) => {
+  try {
+    const roleData = roleUpdateSchema.parse(req.body);
+    const role = await storage.updateCompanyRole(res.locals.resource.id, roleData);
+
+    return res.json({
+      success: true,
+      role
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error updating role:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// A role can only go once nobody holds it
+router.delete('/roles/:id', authenticate, requireCompany, authorize('roles:manage', companyRoleResource), async (req, res) => {
+  try {
+    const role = res.locals.resource;
+    const members = await storage.getUsersByCompanyId(role.companyId);
+    const holders = members.filter(member => member.role === role.name).length;
+    if (holders > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `${holders} ${holders === 1 ? 'person has' : 'people have'} this role; give them another role first`
+      });
+    }
+
+    await storage.deleteCompanyRole(role.id);
+    return res.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error deleting role:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
+// Give a teammate a built-in or custom role. The company always keeps an owner.
+router.put('/users/:id/role', authenticate, requireCompany, authorize('roles:manage', companyUserResource), async (req, res) => {
+  try {
+    const member: User = res.locals.resource;
+    const { role } = userRoleSchema.parse(req.body);
+
+    if (member.role === 'admin' || role === 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Administrator roles cannot be changed here'
+      });
+    }
+
+    if (!isBuiltInRole(role) && !await storage.getCompanyRoleByName(member.companyId!, role)) {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown role: ${role}`
+      });
+    }
+
+    if (member.role === 'owner' && role !== 'owner') {
+      const members = await storage.getUsersByCompanyId(member.companyId!);
+      if (!members.some(other => other.id !== member.id && other.role === 'owner' && other.isActive)) {
+        return res.status(409).json({
+          success: false,
+          message: 'The company needs at least one other owner first'
+        });
+      }
+    }
+
+    const updated = await storage.updateUser(member.id, { role });
+    const { password: _password, ...user } = updated ?? member;
+    return res.json({
+      success: true,
+      user
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error changing user role:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'An unknown error occurred'
+    });
+  }
+});
+
 // Create a new company (admin only)
-router.post('/', requireOwner, async (req, res) => {
+router.post('/', authenticate, authorize('system:admin'), async (req, res) => {
   try {
     // Validate the request data
     const companyData = insertCompanySchema.parse(req.body);
@@ -0,0 +1,170 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { insertConversationSchema, type Conversation } from '@shared/schema';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { can, canAccessConversation } from '../lib/permissions';
+
+const router = Router();
+
+// All conversation routes require an authenticated user
+router.use(authenticate);
+
+const renameSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200)
+});
+
+// Load a conversation and check access, responding on failure
+const loadConversation = async (req: Request, res: Response): Promise<Conversation | undefined> => {
+  const conversationId = parseInt(req.params.id);
+  if (isNaN(conversationId)) {
+    res.status(400).json({ message: 'Invalid conversation ID' });
+    return undefined;
+  }
+
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation) {
+    res.status(404).json({ message: 'Conversation not found' });
+    return undefined;
+  }
+
+  if (!canAccessConversation(req.user, conversation)) {
+    res.status(403).json({ message: 'You do not have permission to access this conversation' });
+    return undefined;
+  }
+
+  return conversation;
+};
+
+// List conversations, optionally for a single quote or client
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const quoteId = req.query.quoteId ? parseInt(req.query.quoteId as string) : undefined;
+    const clientId = req.query.clientId ? parseInt(req.query.clientId as string) : undefined;
+
+    if ((quoteId !== undefined && isNaN(quoteId)) || (clientId !== undefined && isNaN(clientId))) {
+      return res.status(400).json({ message: 'Invalid quote or client ID' });
+    }
+
+    let conversations: Conversation[];
+    if (quoteId !== undefined) {
+      conversations = await storage.getConversationsByQuoteId(quoteId);
+    } else if (clientId !== undefined) {
+      conversations = await storage.getConversationsByClientId(clientId);
+    } else if (req.user!.companyId) {
+      conversations = await storage.getConversationsByCompanyId(req.user!.companyId);
+    } else {
+      conversations = [];
+    }
+
+    res.json(conversations.filter(conversation => canAccessConversation(req.user, conversation)));
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    res.status(500).json({ message: 'Failed to fetch conversations', error: (error as Error).message });
+  }
+});
+
+// Get a conversation together with its full message history, for resuming
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const conversation = await loadConversation(req, res);
+    if (!conversation) return;
+
+    const messages = await storage.getConversationMessages(conversation.id);
+    res.json({ ...conversation, messages });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    res.status(500).json({ message: 'Failed to fetch conversation', error: (error as Error).message });
+  }
+});
+
+// Start a new conversation, usually attached to a quote
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const conversationData = insertConversationSchema.parse({
+      ...req.body,
+      userId: req.user!.id,
+      companyId: req.user!.companyId
+    });
+
+    // Make sure the quote belongs to the user's company and inherit its client
+    if (conversationData.quoteId) {
+      const quote = await storage.getQuote(conversationData.quoteId);
+      if (!quote) {
+        return res.status(404).json({ message: 'Quote not found' });
+      }
+
+      if (!await can(req.user!, 'quotes:read-all', quote)) {
+        return res.status(403).json({ message: 'You do not have permission to access this quote' });
+      }
+
+      if (!conversationData.clientId && quote.clientId) {
+        conversationData.clientId = quote.clientId;
+      }
+    }
+
+    // A client can only be attached from the user's own company
+    if (conversationData.clientId) {
+      const client = await storage.getClient(conversationData.clientId);
+      if (!client || client.companyId !== req.user!.companyId) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+    }
+
+    const conversation = await storage.createConversation(conversationData);
+    res.status(201).json({ ...conversation, messages: [] });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error creating conversation:', error);
+    res.status(500).json({ message: 'Failed to create conversation', error: (error as Error).message });
+  }
+});
+
+// Rename a conversation
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const conversation = await loadConversation(req, res);
+    if (!conversation) return;
+
+    const { title } = renameSchema.parse(req.body);
+    const updatedConversation = await storage.updateConversation(conversation.id, { title });
+
+    res.json(updatedConversation);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error renaming conversation:', error);
+    res.status(500).json({ message: 'Failed to rename conversation', error: (error as Error).message });
+  }
+});
+
+// Delete a conversation and its messages
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const conversation = await loadConversation(req, res);
+    if (!conversation) return;
+
+    const success = await storage.deleteConversation(conversation.id);
+    if (success) {
+      res.status(204).send();
+    } else {
+      res.status(500).json({ message: 'Failed to delete conversation' });
+    }
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    res.status(500).json({ message: 'Failed to delete conversation', error: (error as Error).message });
+  }
+});
+
+export const conversationsRouter = router;
@@ -0,0 +1,193 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import type { InsertUser, Invitation, User } from '@shared/schema';
+import { storage } from '../storage';
+import { generateTokens, verifyAccessToken } from '../lib/jwt';
+import { hashPassword } from '../lib/auth-helpers';
+import { acceptInvitation, claimInvitation, getInvitationState } from '../lib/invitations';
+
+// Public routes behind the /invite/:token links emailed to invitees.
+// The token is the only credential, so nothing here trusts ids from the request.
+const router = Router();
+
+// Only needed when the invited address has no account yet
+const newAccountSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  username: z.string().trim().min(3, 'Username must be at least 3 characters').max(50),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+// Look up the invitation, responding with 404 for unknown tokens
+const loadInvitation = async (req: Request, res: Response): Promise<Invitation | undefined> => {
+  const invitation = await storage.getInvitationByToken(req.params.token);
+  if (!invitation) {
+    res.status(404).json({
+      success: false,
+      message: 'This invitation link is not valid'
+    });
+    return undefined;
+  }
+  return invitation;
+};
+
+// Respond with an explanation when the invitation can no longer be used
+const checkPending = (invitation: Invitation, res: Response): boolean => {
+  const state = getInvitationState(invitation);
+  if (state === 'pending') return true;
+
+  const message = state === 'expired'
+    ? 'This invitation has expired. Ask for a new one to be sent.'
+    : state === 'accepted'
+      ? 'This invitation has already been accepted.'
+      : 'This invitation has been withdrawn.';
+  res.status(state === 'expired' ? 410 : 409).json({ success: false, message });
+  return false;
+};
+
+// The signed-in user, if the request carries a valid access token
+const signedInUser = async (req: Request): Promise<User | undefined> => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) return undefined;
+
+  const payload = verifyAccessToken(authHeader.split(' ')[1]);
+  return payload ? storage.getUser(payload.id) : undefined;
+};
+
+// What the accept page shows before anyone signs in
+router.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const invitation = await loadInvitation(req, res);
+    if (!invitation) return;
+
+    const company = await storage.getCompany(invitation.companyId);
+    const inviter = invitation.invitedBy ? await storage.getUser(invitation.invitedBy) : undefined;
+
+    return res.json({
+      success: true,
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        companyName: company?.name ?? null,
+        inviterName: inviter?.name ?? null,
+        expiresAt: invitation.expiresAt,
+        state: getInvitationState(invitation)
+      },
+      hasAccount: !!await storage.getUserByEmail(invitation.email)
+    });
+  } catch (error) {
+    console.error('Error loading invitation:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load invitation'
+    });
+  }
+});
+
+/**
+ * Accept an invitation. Someone new gets an account with the invited email;
+ * an existing account has to be signed in with that email. Either way the
+ * response signs them in with tokens for their new company, like /api/auth/login.
+ */
+router.post('/:token/accept', async (req: Request, res: Response) => {
+  try {
+    const invitation = await loadInvitation(req, res);
+    if (!invitation || !checkPending(invitation, res)) return;
+
+    const existing = await storage.getUserByEmail(invitation.email);
+    let newUser: InsertUser | undefined;
+
+    if (existing) {
+      const currentUser = await signedInUser(req);
+      if (!currentUser) {
+        return res.status(401).json({
+          success: false,
+          message: `An account for ${invitation.email} already exists. Sign in to accept the invitation.`
+        });
+      }
+      if (currentUser.id !== existing.id) {
+        return res.status(403).json({
+          success: false,
+          message: `This invitation was sent to ${invitation.email}. Sign in with that account to accept it.`
+        });
+      }
+      if (existing.role === 'admin') {
+        return res.status(409).json({
+          success: false,
+          message: 'Administrator accounts cannot join a company through an invitation'
+        });
+      }
+      if (existing.companyId && existing.companyId !== invitation.companyId) {
+        return res.status(409).json({
+          success: false,
+          message: 'Your account already belongs to another company'
+        });
+      }
+    } else {
+      const account = newAccountSchema.parse(req.body);
+      if (await storage.getUserByUsername(account.username)) {
+        return res.status(409).json({
+          success: false,
+          message: 'Username already exists'
+        });
+      }
+
+      newUser = {
+        username: account.username,
+        email: invitation.email,
+        name: account.name,
+        password: await hashPassword(account.password),
+        role: invitation.role,
+        companyId: invitation.companyId,
+        isActive: true
+      };
+    }
+
+    // Claim the invitation before any account changes, so a second request with the same link can't also join
+    const claimed = await claimInvitation(invitation);
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        message: 'This invitation has already been accepted.'
+      });
+    }
+
+    const user = existing ?? await storage.createUser(newUser!);
+
+    const joined = await acceptInvitation(claimed, user);
+    const tokens = await generateTokens(joined, req.ip, req.get('user-agent'));
+
+    res.cookie('refreshToken', tokens.refreshToken, {
+      httpOnly: true,
+      expires: tokens.expires,
+      sameSite: 'strict' as const,
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+    });
+
+    const { password: _password, ...userWithoutPassword } = joined;
+    return res.status(200).json({
+      success: true,
+      message: 'Invitation accepted',
+      user: userWithoutPassword,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: 15 * 60 * 1000
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Error accepting invitation:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to accept invitation'
+    });
+  }
+});
+
+export const invitationsRouter = router;
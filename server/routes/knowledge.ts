@@ -0,0 +1,48 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { searchKnowledge, syncKnowledgeIndex } from '../lib/knowledge-index';
+
+// Search and maintain the company knowledge index the AI chat retrieves past work from
+export const knowledgeRouter = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search text is required'),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+// The past quotes and training examples most similar to ?q=
+knowledgeRouter.get('/search', authenticate, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    if (!companyId) {
+      return res.status(400).json({ error: 'No company associated with this user' });
+    }
+
+    const { q, limit } = searchQuerySchema.parse(req.query);
+    const results = await searchKnowledge(companyId, q, { limit });
+    res.json({ results });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', errors: error.errors });
+    }
+
+    console.error('Error searching company knowledge:', error);
+    res.status(500).json({ error: 'Failed to search company knowledge' });
+  }
+});
+
+// Index new and changed quotes and training data now rather than on the worker's next pass
+knowledgeRouter.post('/reindex', authenticate, async (req: Request, res: Response) => {
+  try {
+    const companyId = req.user!.companyId;
+    if (!companyId) {
+      return res.status(400).json({ error: 'No company associated with this user' });
+    }
+
+    res.json(await syncKnowledgeIndex(companyId));
+  } catch (error) {
+    console.error('Error reindexing company knowledge:', error);
+    res.status(500).json({ error: 'Failed to reindex company knowledge' });
+  }
+});
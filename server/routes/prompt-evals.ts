@@ -0,0 +1,223 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { insertPromptEvalCaseSchema, type SystemPrompt } from '@shared/schema';
+import { storage } from '../storage';
+import { getDefaultProvider, getProvider } from '../lib/llm-provider';
+import { selectEvalCases, startPromptEvaluation } from '../lib/prompt-eval';
+
+// Evaluation cases for the quote drafting prompts and scored runs of them against candidate prompts
+export const promptEvalsRouter = Router();
+
+const caseInputSchema = insertPromptEvalCaseSchema.omit({ createdBy: true });
+
+const runInputSchema = z.object({
+  name: z.string().trim().max(100).nullish(),
+  industryId: z.number().int().nullish(),
+  corePromptId: z.number().int().nullish(),
+  industryPromptId: z.number().int().nullish(),
+  provider: z.string().optional(),
+  model: z.string().trim().min(1).optional(),
+  caseIds: z.array(z.number().int()).min(1).optional(),
+});
+
+const validationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({ error: 'Validation error', errors: error.errors });
+
+const invalidRange = (minTotal?: number | null, maxTotal?: number | null) =>
+  minTotal != null && maxTotal != null && minTotal > maxTotal;
+
+// Look up a prompt of the given type, responding with 400 otherwise
+const loadPrompt = async (res: Response, id: number, promptType: 'core' | 'industry'): Promise<SystemPrompt | undefined> => {
+  const prompt = await storage.getSystemPrompt(id);
+  if (!prompt || prompt.promptType !== promptType) {
+    res.status(400).json({ error: `That is not ${promptType === 'core' ? 'a core' : 'an industry'} prompt` });
+    return undefined;
+  }
+  return prompt;
+};
+
+promptEvalsRouter.get('/cases', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getAllPromptEvalCases());
+  } catch (error) {
+    console.error('Error fetching evaluation cases:', error);
+    res.status(500).json({ error: 'Failed to fetch evaluation cases' });
+  }
+});
+
+promptEvalsRouter.post('/cases', async (req: Request, res: Response) => {
+  try {
+    const caseData = caseInputSchema.parse(req.body);
+    if (invalidRange(caseData.minTotal, caseData.maxTotal)) {
+      return res.status(400).json({ error: 'The minimum total is above the maximum' });
+    }
+
+    const evalCase = await storage.createPromptEvalCase({ ...caseData, createdBy: req.user!.id });
+    res.status(201).json(evalCase);
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error creating evaluation case:', error);
+    res.status(500).json({ error: 'Failed to create evaluation case' });
+  }
+});
+
+promptEvalsRouter.put('/cases/:id', async (req: Request, res: Response) => {
+  try {
+    const caseId = parseInt(req.params.id);
+    if (isNaN(caseId)) {
+      return res.status(400).json({ error: 'Invalid evaluation case ID' });
+    }
+
+    const evalCase = await storage.getPromptEvalCase(caseId);
+    if (!evalCase) {
+      return res.status(404).json({ error: 'Evaluation case not found' });
+    }
+
+    const caseData = caseInputSchema.partial().parse(req.body);
+    const minTotal = caseData.minTotal !== undefined ? caseData.minTotal : evalCase.minTotal;
+    const maxTotal = caseData.maxTotal !== undefined ? caseData.maxTotal : evalCase.maxTotal;
+    if (invalidRange(minTotal, maxTotal)) {
+      return res.status(400).json({ error: 'The minimum total is above the maximum' });
+    }
+
+    res.json(await storage.updatePromptEvalCase(evalCase.id, caseData));
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error updating evaluation case:', error);
+    res.status(500).json({ error: 'Failed to update evaluation case' });
+  }
+});
+
+promptEvalsRouter.delete('/cases/:id', async (req: Request, res: Response) => {
+  try {
+    const caseId = parseInt(req.params.id);
+    if (isNaN(caseId)) {
+      return res.status(400).json({ error: 'Invalid evaluation case ID' });
+    }
+
+    if (!await storage.deletePromptEvalCase(caseId)) {
+      return res.status(404).json({ error: 'Evaluation case not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting evaluation case:', error);
+    res.status(500).json({ error: 'Failed to delete evaluation case' });
+  }
+});
+
+promptEvalsRouter.get('/runs', async (req: Request, res: Response) => {
+  try {
+    res.json(await storage.getAllPromptEvalRuns());
+  } catch (error) {
+    console.error('Error fetching evaluation runs:', error);
+    res.status(500).json({ error: 'Failed to fetch evaluation runs' });
+  }
+});
+
+promptEvalsRouter.get('/runs/:id', async (req: Request, res: Response) => {
+  try {
+    const runId = parseInt(req.params.id);
+    if (isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid evaluation run ID' });
+    }
+
+    const run = await storage.getPromptEvalRun(runId);
+    if (!run) {
+      return res.status(404).json({ error: 'Evaluation run not found' });
+    }
+    res.json(run);
+  } catch (error) {
+    console.error('Error fetching evaluation run:', error);
+    res.status(500).json({ error: 'Failed to fetch evaluation run' });
+  }
+});
+
+/**
+ * Start a run against a candidate. The core prompt defaults to the active one;
+ * an industry prompt needs its industry, and without an industry each case
+ * runs with its own industry's active prompt. The run finishes in the
+ * background, so poll it for progress.
+ */
+promptEvalsRouter.post('/runs', async (req: Request, res: Response) => {
+  try {
+    const runData = runInputSchema.parse(req.body);
+
+    let corePrompt: SystemPrompt | undefined;
+    if (runData.corePromptId) {
+      corePrompt = await loadPrompt(res, runData.corePromptId, 'core');
+      if (!corePrompt) return;
+    } else {
+      corePrompt = await storage.getCoreSystemPrompt();
+    }
+
+    let industryPrompt: SystemPrompt | undefined;
+    let industryId = runData.industryId ?? null;
+    if (runData.industryPromptId) {
+      industryPrompt = await loadPrompt(res, runData.industryPromptId, 'industry');
+      if (!industryPrompt) return;
+      if (industryId && industryPrompt.industryId !== industryId) {
+        return res.status(400).json({ error: 'The industry prompt is for a different industry' });
+      }
+      industryId = industryPrompt.industryId;
+    } else if (industryId) {
+      if (!await storage.getIndustry(industryId)) {
+        return res.status(400).json({ error: 'Industry not found' });
+      }
+      industryPrompt = await storage.getIndustrySystemPrompt(industryId);
+    }
+
+    let provider;
+    try {
+      provider = runData.provider ? getProvider(runData.provider) : getDefaultProvider();
+    } catch {
+      provider = undefined;
+    }
+    if (!provider || !provider.isConfigured()) {
+      return res.status(400).json({ error: 'The AI provider is not configured' });
+    }
+
+    const available = await selectEvalCases(industryId);
+    const cases = runData.caseIds
+      ? available.filter(evalCase => runData.caseIds!.includes(evalCase.id))
+      : available;
+    if (cases.length === 0) {
+      return res.status(400).json({ error: 'There are no active evaluation cases to run' });
+    }
+
+    const run = await startPromptEvaluation({
+      name: runData.name,
+      industryId,
+      corePrompt,
+      industryPrompt,
+      provider: provider.name,
+      model: runData.model || provider.defaultModel,
+      createdBy: req.user!.id
+    }, cases);
+
+    res.status(202).json(run);
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError(res, error);
+
+    console.error('Error starting evaluation run:', error);
+    res.status(500).json({ error: 'Failed to start evaluation run' });
+  }
+});
+
+promptEvalsRouter.delete('/runs/:id', async (req: Request, res: Response) => {
+  try {
+    const runId = parseInt(req.params.id);
+    if (isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid evaluation run ID' });
+    }
+
+    if (!await storage.deletePromptEvalRun(runId)) {
+      return res.status(404).json({ error: 'Evaluation run not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting evaluation run:', error);
+    res.status(500).json({ error: 'Failed to delete evaluation run' });
+  }
+});
@@ -0,0 +1,175 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import type { Quote, QuoteShareLink } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  buildPortalView,
+  canRespond,
+  getShareLinkState,
+  recordPortalResponse,
+  recordPortalView
+} from '../lib/quote-portal';
+import { QuoteStatusConflictError } from '../lib/quote-status';
+import { generateQuotePdf, quotePdfFileName } from '../lib/quote-pdf';
+
+// Public, unauthenticated routes behind the customer-facing /q/:token links.
+// The token is the only credential, so nothing here trusts ids from the request.
+const router = Router();
+
+const acceptSchema = z.object({
+  signatureName: z.string().trim().min(2, 'Please type your full name to sign').max(200),
+  agreed: z.literal(true, { errorMap: () => ({ message: 'You must agree to the quote terms' }) })
+});
+
+const declineSchema = z.object({
+  reason: z.string().trim().max(2000).optional()
+});
+
+const LINK_EXPIRED = 'This quote link has expired. Please contact us for an updated quote.';
+
+// Look up the link and its quote, responding with 404 for unknown or revoked tokens and 410 once it has expired
+const loadShareLink = async (req: Request, res: Response): Promise<{ link: QuoteShareLink; quote: Quote } | undefined> => {
+  const link = await storage.getQuoteShareLinkByToken(req.params.token);
+  if (!link || link.revokedAt) {
+    res.status(404).json({ message: 'This quote link is not valid' });
+    return undefined;
+  }
+
+  if (link.expiresAt && link.expiresAt.getTime() < Date.now()) {
+    res.status(410).json({ message: LINK_EXPIRED });
+    return undefined;
+  }
+
+  const quote = await storage.getQuote(link.quoteId);
+  if (!quote) {
+    res.status(404).json({ message: 'This quote link is not valid' });
+    return undefined;
+  }
+
+  return { link, quote };
+};
+
+const ALREADY_RESPONDED = 'This quote can no longer be accepted or declined online.';
+
+// Respond with an explanation when the customer can no longer accept or decline
+const checkCanRespond = (link: QuoteShareLink, quote: Quote, res: Response): boolean => {
+  if (canRespond(link, quote)) return true;
+
+  const state = getShareLinkState(link);
+  const message = state === 'expired'
+    ? LINK_EXPIRED
+    : state === 'responded'
+      ? `This quote has already been ${link.response}.`
+      : ALREADY_RESPONDED;
+  res.status(state === 'expired' ? 410 : 409).json({ message });
+  return false;
+};
+
+// Anyone can call these routes, so the link in the owner's email never comes from the request
+const ownerQuoteUrl = (quote: Quote) =>
+  process.env.APP_URL ? `${process.env.APP_URL.replace(/\/$/, '')}/edit-quote/${quote.id}` : undefined;
+
+// View a shared quote. Opening the link marks a sent quote as viewed.
+router.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadShareLink(req, res);
+    if (!loaded) return;
+
+    const quote = await recordPortalView(loaded.link, loaded.quote);
+    res.json(await buildPortalView(loaded.link, quote));
+  } catch (error) {
+    console.error('Error loading shared quote:', error);
+    res.status(500).json({ message: 'Failed to load quote' });
+  }
+});
+
+// Download the shared quote as a PDF
+router.get('/:token/pdf', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadShareLink(req, res);
+    if (!loaded) return;
+
+    const pdf = await generateQuotePdf(loaded.quote);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${quotePdfFileName(loaded.quote)}"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error rendering shared quote PDF:', error);
+    res.status(500).json({ message: 'Failed to render quote PDF' });
+  }
+});
+
+// Accept the quote with a typed signature
+router.post('/:token/accept', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadShareLink(req, res);
+    if (!loaded) return;
+
+    const { signatureName } = acceptSchema.parse(req.body);
+    if (!checkCanRespond(loaded.link, loaded.quote, res)) return;
+
+    await recordPortalResponse(loaded.link, loaded.quote, {
+      response: 'accepted',
+      signatureName,
+      ip: req.ip,
+      userAgent: req.get('user-agent')
+    }, ownerQuoteUrl(loaded.quote));
+
+    const link = await storage.getQuoteShareLinkByToken(req.params.token);
+    const quote = await storage.getQuote(loaded.quote.id);
+    res.json(await buildPortalView(link!, quote!));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    if (error instanceof QuoteStatusConflictError) {
+      return res.status(409).json({ message: ALREADY_RESPONDED });
+    }
+
+    console.error('Error accepting shared quote:', error);
+    res.status(500).json({ message: 'Failed to accept quote' });
+  }
+});
+
+// Decline the quote, optionally saying why
+router.post('/:token/decline', async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadShareLink(req, res);
+    if (!loaded) return;
+
+    const { reason } = declineSchema.parse(req.body);
+    if (!checkCanRespond(loaded.link, loaded.quote, res)) return;
+
+    await recordPortalResponse(loaded.link, loaded.quote, {
+      response: 'declined',
+      declineReason: reason || undefined,
+      ip: req.ip,
+      userAgent: req.get('user-agent')
+    }, ownerQuoteUrl(loaded.quote));
+
+    const link = await storage.getQuoteShareLinkByToken(req.params.token);
+    const quote = await storage.getQuote(loaded.quote.id);
+    res.json(await buildPortalView(link!, quote!));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    if (error instanceof QuoteStatusConflictError) {
+      return res.status(409).json({ message: ALREADY_RESPONDED });
+    }
+
+    console.error('Error declining shared quote:', error);
+    res.status(500).json({ message: 'Failed to decline quote' });
+  }
+});
+
+export const quotePortalRouter = router;
@@ -1,8 +1,40 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { storage } from '../storage';
-import { insertQuoteSchema, type Quote } from '@shared/schema';
+import {
+  insertQuoteSchema,
+  insertQuoteLineItemSchema,
+  normalizeQuoteStatus,
+  quoteStatuses,
+  type Quote,
+  type InsertQuoteLineItem,
+  type QuoteStatus,
+  type QuoteShareLink
+} from '@shared/schema';
 import { z } from 'zod';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize, byRouteId } from '../middleware/auth';
+import { can, type PolicyResource } from '../lib/permissions';
+import { calculateQuoteAmount } from '../lib/quote-totals';
+import { generateQuotePdf, quotePdfFileName } from '../lib/quote-pdf';
+import {
+  canTransitionQuoteStatus,
+  changeQuoteStatus,
+  getAllowedTransitions,
+  QuoteStatusConflictError,
+  recordInitialQuoteStatus
+} from '../lib/quote-status';
+import {
+  DEFAULT_SHARE_LINK_DAYS,
+  generateShareToken,
+  getShareLinkState,
+  shareLinkUrl
+} from '../lib/quote-portal';
+import { canSendQuote, sendQuoteToClient } from '../lib/quote-email';
+import {
+  diffQuoteVersions,
+  prepareQuoteRevision,
+  recordQuoteRevision,
+  restoreQuoteVersion
+} from '../lib/quote-versions';
 
 // Log whenever quotes route is accessed for debugging
 const debugLog = (req: Request, res: Response, next: NextFunction) => {
@@ -17,6 +49,122 @@ const debugLog = (req: Request, res: Response, next: NextFunction) => {
 
 const router = Router();
 
+// Line items arrive from forms and the AI chat, so numeric fields are coerced from strings
+const lineItemInputSchema = insertQuoteLineItemSchema.omit({ quoteId: true }).extend({
+  description: z.string().min(1, 'Description is required'),
+  quantity: z.coerce.number().min(0, 'Quantity must be a positive number').default(1),
+  unitPrice: z.coerce.number().min(0, 'Unit price must be a positive number').default(0),
+  taxRate: z.coerce.number().min(0).max(100).default(0),
+  sortOrder: z.coerce.number().int().optional(),
+});
+
+// Accept either an array or the JSON-encoded string older clients send
+const lineItemListSchema = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value; // Let the array check report the error
+    }
+  },
+  z.array(lineItemInputSchema)
+);
+
+// Give items without an explicit position their index in the submitted list
+const toInsertLineItems = (quoteId: number, items: z.infer<typeof lineItemInputSchema>[]): InsertQuoteLineItem[] =>
+  items.map((item, index) => ({
+    ...item,
+    quoteId,
+    sortOrder: item.sortOrder !== undefined ? item.sortOrder : index
+  }));
+
+// Recompute quotes.amount from the stored line items
+const syncQuoteAmount = async (quoteId: number) => {
+  const items = await storage.getQuoteLineItems(quoteId);
+  return storage.updateQuote(quoteId, { amount: calculateQuoteAmount(items) });
+};
+
+// Who owns a quote comes from the signed-in user, never from the request body
+const quoteInputSchema = insertQuoteSchema.omit({ companyId: true, userId: true });
+
+// Admins may file a quote under another company or user
+const quoteOwnerSchema = z.object({
+  companyId: z.coerce.number().int().nullable().optional(),
+  userId: z.coerce.number().int().optional(),
+});
+
+const statusChangeSchema = z.object({
+  status: z.string().min(1, 'Status is required'),
+  note: z.string().max(1000).optional(),
+});
+
+const shareLinkSchema = z.object({
+  expiresInDays: z.coerce.number().int().min(1).max(365).default(DEFAULT_SHARE_LINK_DAYS),
+});
+
+const versionDiffSchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+const sendQuoteSchema = z.object({
+  to: z.string().trim().email('Please enter a valid email address').optional(),
+  message: z.string().max(5000).optional(),
+  templateId: z.coerce.number().int().optional(),
+});
+
+// Share links as shown to the quote owner, with their public URL and current state
+const toShareLinkResponse = (req: Request, link: QuoteShareLink) => ({
+  ...link,
+  url: shareLinkUrl(link.token, `${req.protocol}://${req.get('host')}`),
+  state: getShareLinkState(link)
+});
+
+// Parse a ?status= filter: one or more comma-separated statuses, matched case-insensitively.
+// Returns null for "all" or no filter, and undefined when a status isn't recognised.
+const parseStatusFilter = (value: unknown): QuoteStatus[] | null | undefined => {
+  if (typeof value !== 'string' || value === '' || value === 'all') return null;
+  
+  const statuses: QuoteStatus[] = [];
+  for (const part of value.split(',')) {
+    const status = normalizeQuoteStatus(part);
+    if (!status) return undefined;
+    statuses.push(status);
+  }
+  return statuses;
+};
+
+// Respond with 400 unless the quote may move to the requested status
+const checkStatusTransition = (quote: Quote, status: string, res: Response): boolean => {
+  if (canTransitionQuoteStatus(quote.status, status)) {
+    return true;
+  }
+  
+  res.status(400).json({
+    message: `Cannot change quote status from "${quote.status}" to "${status}"`,
+    allowedStatuses: getAllowedTransitions(quote.status)
+  });
+  return false;
+};
+
+// The quote named by the :id route parameter, for authorize()
+const quoteResource = byRouteId(id => storage.getQuote(id));
+
+// Releasing a quote to the client, or recording that they accepted it, needs quotes:approve
+const APPROVAL_STATUSES: QuoteStatus[] = ['sent', 'accepted'];
+
+// Respond with 403 unless the user may move the quote to the requested status
+const checkStatusApproval = async (req: Request, quote: PolicyResource, status: string, res: Response): Promise<boolean> => {
+  const target = normalizeQuoteStatus(status);
+  if (!target || !APPROVAL_STATUSES.includes(target) || await can(req.user!, 'quotes:approve', quote)) {
+    return true;
+  }
+  
+  res.status(403).json({ message: `You do not have permission to mark quotes as ${target}` });
+  return false;
+};
+
 // Get all quotes - add debugLog middleware to track all API requests
 router.get('/', debugLog, async (req: Request, res: Response) => {
   try {
@@ -30,6 +178,14 @@ router.get('/', debugLog, async (req: Request, res: Response) => {
     
     console.log(`Quote request params - userId: ${userId}, companyId: ${companyId}, status filter: ${status}`);
     
+    const statusFilter = parseStatusFilter(status);
+    if (statusFilter === undefined) {
+      return res.status(400).json({ 
+        message: `Unknown quote status: ${status}`, 
+        validStatuses: quoteStatuses 
+      });
+    }
+    
     // Provide sample quotes if user is not authenticated
     if (!userId) {
       console.log('No authentication provided, returning sample quotes');
@@ -41,7 +197,7 @@ router.get('/', debugLog, async (req: Request, res: Response) => {
           clientName: "Demo Client",
           date: new Date(),
           amount: 12500,
-          status: "Draft",
+          status: "draft",
           description: "This is a sample quote for kitchen renovation. Includes demolition, cabinetry, countertops, and appliance installation.",
           userId: 0,
           companyId: 0,
@@ -56,7 +212,7 @@ router.get('/', debugLog, async (req: Request, res: Response) => {
           clientName: "Example Company",
           date: new Date(),
           amount: 7800,
-          status: "Sent",
+          status: "sent",
           description: "Sample bathroom remodel quote. Includes fixture replacement, tiling, and vanity installation.",
           userId: 0,
           companyId: 0,
@@ -68,8 +224,8 @@ router.get('/', debugLog, async (req: Request, res: Response) => {
       ];
       
       // Apply status filter if provided
-      if (status && status !== 'all') {
-        return res.json(sampleQuotes.filter(q => q.status.toLowerCase() === status.toLowerCase()));
+      if (statusFilter) {
+        return res.json(sampleQuotes.filter(q => statusFilter.includes(q.status as QuoteStatus)));
       }
       
       return res.json(sampleQuotes);
@@ -78,8 +234,8 @@ router.get('/', debugLog, async (req: Request, res: Response) => {
     let quotes: Quote[] = [];
     
     try {
-      // Get quotes based on filters
-      if (companyId) {
+      // Get quotes based on filters; without quotes:read-all only your own are listed
+      if (companyId && await can(req.user!, 'quotes:read-all')) {
         console.log(`Fetching quotes by company ID: ${companyId}`);
         quotes = await storage.getQuotesByCompanyId(companyId);
       } else {
@@ -95,10 +251,13 @@ router.get('/', debugLog, async (req: Request, res: Response) => {
       });
     }
 
-    // Apply status filter if provided
-    if (status && status !== 'all' && quotes && quotes.length > 0) {
-      console.log(`Applying status filter: ${status}`);
-      quotes = quotes.filter(quote => quote.status === status);
+    // Apply status filter if provided, matching legacy spellings like "Draft" too
+    if (statusFilter && quotes && quotes.length > 0) {
+      console.log(`Applying status filter: ${statusFilter.join(', ')}`);
+      quotes = quotes.filter(quote => {
+        const quoteStatus = normalizeQuoteStatus(quote.status);
+        return !!quoteStatus && statusFilter.includes(quoteStatus);
+      });
       console.log(`${quotes.length} quotes remain after filtering`);
     }
     
@@ -150,7 +309,7 @@ router.get('/:id', debugLog, async (req: Request, res: Response) => {
           clientName: quoteId === 999 ? "Demo Client" : "Example Company",
           date: new Date(),
           amount: quoteId === 999 ? 12500 : 7800,
-          status: quoteId === 999 ? "Draft" : "Sent",
+          status: quoteId === 999 ? "draft" : "sent",
           description: quoteId === 999 
             ? "This is a sample quote for kitchen renovation. Includes demolition, cabinetry, countertops, and appliance installation."
             : "Sample bathroom remodel quote. Includes fixture replacement, tiling, and vanity installation.",
@@ -175,10 +334,7 @@ router.get('/:id', debugLog, async (req: Request, res: Response) => {
     }
     
     // Check if the user has access to this quote
-    const userId = (req.user as any).id;
-    const userCompanyId = (req.user as any).companyId;
-    
-    if (quote.userId !== userId && quote.companyId !== userCompanyId && (req.user as any).role !== 'admin') {
+    if (!await can(req.user, 'quotes:read-all', quote)) {
       return res.status(403).json({ message: 'You do not have permission to view this quote' });
     }
     
@@ -211,19 +367,43 @@ router.post('/', authenticate, debugLog, async (req: Request, res: Response) =>
     console.log('Prepared data for validation:', requestData);
     
     // Validate the request body with the converted date
-    const quoteData = insertQuoteSchema.parse(requestData);
+    const quoteData = quoteInputSchema.parse(requestData);
+    
+    // A quote created with line items gets its amount from them; without any, the amount is entered by hand
+    const lineItems = requestData.lineItems !== undefined
+      ? lineItemListSchema.parse(requestData.lineItems)
+      : undefined;
+    if (lineItems) {
+      quoteData.amount = calculateQuoteAmount(lineItems);
+    }
     
     console.log('Validation passed, parsed data:', quoteData);
     
-    // Set the userId and companyId if not provided
-    if (!quoteData.userId) {
-      quoteData.userId = (req.user as any).id;
-      console.log('Set userId from current user:', quoteData.userId);
+    // New quotes may start in any lifecycle status, stored in its canonical form,
+    // but starting one as sent or accepted needs the same approval as moving it there
+    if (quoteData.status !== undefined) {
+      const status = normalizeQuoteStatus(quoteData.status);
+      if (!status) {
+        return res.status(400).json({ 
+          message: `Unknown quote status: ${quoteData.status}`, 
+          validStatuses: quoteStatuses 
+        });
+      }
+      quoteData.status = status;
+    }
+    
+    // The quote belongs to the signed-in user and their company
+    const owner = await can(req.user!, 'system:admin') ? quoteOwnerSchema.parse(requestData) : {};
+    const userId: number = owner.userId ?? (req.user as any).id;
+    const companyId: number | null = owner.companyId !== undefined ? owner.companyId : (req.user as any).companyId ?? null;
+    
+    if (quoteData.status && !await checkStatusApproval(req, { companyId, userId }, quoteData.status, res)) {
+      return;
     }
     
-    if (!quoteData.companyId) {
-      quoteData.companyId = (req.user as any).companyId;
-      console.log('Set companyId from current user:', quoteData.companyId);
+    // Numbers are allocated from the company's sequence; an explicit one must not be in use
+    if (quoteData.quoteNumber && await storage.getQuoteByNumber(companyId, quoteData.quoteNumber)) {
+      return res.status(409).json({ message: `Quote number ${quoteData.quoteNumber} is already in use` });
     }
     
     console.log('About to create quote with data:', quoteData);
@@ -231,7 +411,10 @@ router.post('/', authenticate, debugLog, async (req: Request, res: Response) =>
     // Create the quote
     let newQuote;
     try {
-      newQuote = await storage.createQuote(quoteData);
+      newQuote = await storage.createQuote({ ...quoteData, companyId, userId });
+      if (lineItems) {
+        await storage.replaceQuoteLineItems(newQuote.id, toInsertLineItems(newQuote.id, lineItems));
+      }
       console.log('Quote created successfully:', newQuote);
     } catch (dbError) {
       console.error('Database error when creating quote:', dbError);
@@ -242,6 +425,8 @@ router.post('/', authenticate, debugLog, async (req: Request, res: Response) =>
       return res.status(500).json({ message: 'Failed to create quote' });
     }
     
+    await recordInitialQuoteStatus(newQuote, { userId: (req.user as any).id });
+    
     res.status(201).json(newQuote);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -258,33 +443,11 @@ router.post('/', authenticate, debugLog, async (req: Request, res: Response) =>
 });
 
 // Update a quote
-router.put('/:id', authenticate, debugLog, async (req: Request, res: Response) => {
+router.put('/:id', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
   try {
-    const quoteId = parseInt(req.params.id);
-    if (isNaN(quoteId)) {
-      return res.status(400).json({ message: 'Invalid quote ID' });
-    }
-    
-    // Fetch the existing quote
-    let existingQuote: Quote | undefined;
-    try {
-      existingQuote = await storage.getQuote(quoteId);
-    } catch (dbError) {
-      console.error('Database error when fetching quote for update:', dbError);
-      return res.status(500).json({ message: 'Database error when fetching quote', error: (dbError as Error).message });
-    }
-    
-    if (!existingQuote) {
-      return res.status(404).json({ message: 'Quote not found' });
-    }
-    
-    // Check if the user has permission to update the quote
+    const existingQuote: Quote = res.locals.resource;
+    const quoteId = existingQuote.id;
     const userId = (req.user as any).id;
-    const userCompanyId = (req.user as any).companyId;
-    
-    if (existingQuote.userId !== userId && existingQuote.companyId !== userCompanyId && (req.user as any).role !== 'admin') {
-      return res.status(403).json({ message: 'You do not have permission to update this quote' });
-    }
     
     // Prepare the data with date conversion
     const requestData = { ...req.body };
@@ -295,13 +458,61 @@ router.put('/:id', authenticate, debugLog, async (req: Request, res: Response) =
     }
     
     // Validate the request body
-    const quoteData = insertQuoteSchema.partial().parse(requestData);
+    const { status: requestedStatus, ...quoteData } = quoteInputSchema.partial().parse(requestData);
     
-    // Update the quote
+    // Status changes must follow the lifecycle and are recorded in the quote's history
+    const statusChanged = requestedStatus !== undefined
+      && normalizeQuoteStatus(requestedStatus) !== normalizeQuoteStatus(existingQuote.status);
+    if (statusChanged && !checkStatusTransition(existingQuote, requestedStatus, res)) {
+      return;
+    }
+    if (statusChanged && !await checkStatusApproval(req, existingQuote, requestedStatus, res)) {
+      return;
+    }
+    
+    // A blank quote number keeps the current one
+    if (quoteData.quoteNumber !== undefined && !quoteData.quoteNumber.trim()) {
+      delete quoteData.quoteNumber;
+    }
+    if (quoteData.quoteNumber && quoteData.quoteNumber !== existingQuote.quoteNumber) {
+      const conflict = await storage.getQuoteByNumber(existingQuote.companyId, quoteData.quoteNumber);
+      if (conflict && conflict.id !== existingQuote.id) {
+        return res.status(409).json({ message: `Quote number ${quoteData.quoteNumber} is already in use` });
+      }
+    }
+    
+    // Line items are stored in their own table; when supplied they replace the current set.
+    // A quote with items always takes its amount from them rather than from the client.
+    const lineItems = requestData.lineItems !== undefined
+      ? lineItemListSchema.parse(requestData.lineItems)
+      : undefined;
+    if (!lineItems) {
+      const storedItems = await storage.getQuoteLineItems(quoteId);
+      if (storedItems.length > 0) {
+        quoteData.amount = calculateQuoteAmount(storedItems);
+      }
+    }
+    
+    // Update the quote, keeping a version of each revision once it has been sent
     let updatedQuote;
     try {
+      await prepareQuoteRevision(existingQuote, { userId });
+      // The status moves first, so losing a race for it leaves the rest of the quote untouched
+      if (requestedStatus !== undefined) {
+        await changeQuoteStatus(existingQuote, requestedStatus, { userId });
+      }
+      if (lineItems) {
+        const savedItems = await storage.replaceQuoteLineItems(quoteId, toInsertLineItems(quoteId, lineItems));
+        quoteData.amount = calculateQuoteAmount(savedItems);
+      }
       updatedQuote = await storage.updateQuote(quoteId, quoteData);
+      if (updatedQuote) {
+        await recordQuoteRevision(updatedQuote, { userId });
+      }
     } catch (dbError) {
+      if (dbError instanceof QuoteStatusConflictError) {
+        return res.status(409).json({ message: 'The quote status was changed by someone else, please reload and try again' });
+      }
       console.error('Database error when updating quote:', dbError);
       return res.status(500).json({ message: 'Database error when updating quote', error: (dbError as Error).message });
     }
@@ -325,33 +536,9 @@ router.put('/:id', authenticate, debugLog, async (req: Request, res: Response) =
 });
 
 // Delete a quote
-router.delete('/:id', authenticate, debugLog, async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
   try {
-    const quoteId = parseInt(req.params.id);
-    if (isNaN(quoteId)) {
-      return res.status(400).json({ message: 'Invalid quote ID' });
-    }
-    
-    // Fetch the existing quote
-    let existingQuote: Quote | undefined;
-    try {
-      existingQuote = await storage.getQuote(quoteId);
-    } catch (dbError) {
-      console.error('Database error when fetching quote for deletion:', dbError);
-      return res.status(500).json({ message: 'Database error when fetching quote', error: (dbError as Error).message });
-    }
-    
-    if (!existingQuote) {
-      return res.status(404).json({ message: 'Quote not found' });
-    }
-    
-    // Check if the user has permission to delete the quote
-    const userId = (req.user as any).id;
-    const userCompanyId = (req.user as any).companyId;
-    
-    if (existingQuote.userId !== userId && existingQuote.companyId !== userCompanyId && (req.user as any).role !== 'admin') {
-      return res.status(403).json({ message: 'You do not have permission to delete this quote' });
-    }
+    const quoteId = (res.locals.resource as Quote).id;
     
     // Delete the quote
     let success = false;
@@ -373,4 +560,440 @@ router.delete('/:id', authenticate, debugLog, async (req: Request, res: Response
   }
 });
 
+// List the line items of a quote
+router.get('/:id/items', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const items = await storage.getQuoteLineItems(quote.id);
+    res.json(items);
+  } catch (error) {
+    console.error('Error fetching quote line items:', error);
+    res.status(500).json({ message: 'Failed to fetch line items', error: (error as Error).message });
+  }
+});
+
+// Add a line item to a quote
+router.post('/:id/items', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const itemData = lineItemInputSchema.parse(req.body);
+    
+    // Append to the end of the list unless a position was given
+    let sortOrder = itemData.sortOrder;
+    if (sortOrder === undefined) {
+      const existingItems = await storage.getQuoteLineItems(quote.id);
+      sortOrder = existingItems.reduce((max, item) => Math.max(max, item.sortOrder + 1), 0);
+    }
+    
+    const userId = (req.user as any).id;
+    await prepareQuoteRevision(quote, { userId });
+    const item = await storage.createQuoteLineItem({ ...itemData, sortOrder, quoteId: quote.id });
+    const updatedQuote = await syncQuoteAmount(quote.id);
+    if (updatedQuote) await recordQuoteRevision(updatedQuote, { userId });
+    
+    res.status(201).json({ item, amount: updatedQuote?.amount ?? 0 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors 
+      });
+    }
+    
+    console.error('Error creating quote line item:', error);
+    res.status(500).json({ message: 'Failed to create line item', error: (error as Error).message });
+  }
+});
+
+// Replace all line items of a quote
+router.put('/:id/items', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const items = lineItemListSchema.parse(req.body.items ?? req.body);
+    const userId = (req.user as any).id;
+    await prepareQuoteRevision(quote, { userId });
+    const savedItems = await storage.replaceQuoteLineItems(quote.id, toInsertLineItems(quote.id, items));
+    const updatedQuote = await syncQuoteAmount(quote.id);
+    if (updatedQuote) await recordQuoteRevision(updatedQuote, { userId });
+    
+    res.json({ items: savedItems, amount: updatedQuote?.amount ?? 0 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors 
+      });
+    }
+    
+    console.error('Error replacing quote line items:', error);
+    res.status(500).json({ message: 'Failed to save line items', error: (error as Error).message });
+  }
+});
+
+// Update a single line item
+router.put('/:id/items/:itemId', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const itemId = parseInt(req.params.itemId);
+    if (isNaN(itemId)) {
+      return res.status(400).json({ message: 'Invalid line item ID' });
+    }
+    
+    const existingItem = await storage.getQuoteLineItem(itemId);
+    if (!existingItem || existingItem.quoteId !== quote.id) {
+      return res.status(404).json({ message: 'Line item not found' });
+    }
+    
+    const itemData = lineItemInputSchema.partial().parse(req.body);
+    const userId = (req.user as any).id;
+    await prepareQuoteRevision(quote, { userId });
+    const item = await storage.updateQuoteLineItem(itemId, itemData);
+    const updatedQuote = await syncQuoteAmount(quote.id);
+    if (updatedQuote) await recordQuoteRevision(updatedQuote, { userId });
+    
+    res.json({ item, amount: updatedQuote?.amount ?? 0 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors 
+      });
+    }
+    
+    console.error('Error updating quote line item:', error);
+    res.status(500).json({ message: 'Failed to update line item', error: (error as Error).message });
+  }
+});
+
+// Remove a single line item
+router.delete('/:id/items/:itemId', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const itemId = parseInt(req.params.itemId);
+    if (isNaN(itemId)) {
+      return res.status(400).json({ message: 'Invalid line item ID' });
+    }
+    
+    const existingItem = await storage.getQuoteLineItem(itemId);
+    if (!existingItem || existingItem.quoteId !== quote.id) {
+      return res.status(404).json({ message: 'Line item not found' });
+    }
+    
+    const userId = (req.user as any).id;
+    await prepareQuoteRevision(quote, { userId });
+    await storage.deleteQuoteLineItem(itemId);
+    const updatedQuote = await syncQuoteAmount(quote.id);
+    if (updatedQuote) await recordQuoteRevision(updatedQuote, { userId });
+    
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting quote line item:', error);
+    res.status(500).json({ message: 'Failed to delete line item', error: (error as Error).message });
+  }
+});
+
+// Move a quote along its lifecycle, e.g. draft -> sent
+router.post('/:id/status', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const { status, note } = statusChangeSchema.parse(req.body);
+    if (!checkStatusTransition(quote, status, res)) return;
+    if (!await checkStatusApproval(req, quote, status, res)) return;
+    
+    const updatedQuote = await changeQuoteStatus(quote, status, { userId: (req.user as any).id, note });
+    res.json(updatedQuote);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors 
+      });
+    }
+    
+    if (error instanceof QuoteStatusConflictError) {
+      return res.status(409).json({ message: 'The quote status was changed by someone else, please reload and try again' });
+    }
+    
+    console.error('Error changing quote status:', error);
+    res.status(500).json({ message: 'Failed to change quote status', error: (error as Error).message });
+  }
+});
+
+// Status history of a quote, oldest first, plus the statuses it can move to next
+router.get('/:id/status-events', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const events = await storage.getQuoteStatusEvents(quote.id);
+    res.json({ 
+      status: normalizeQuoteStatus(quote.status) ?? quote.status, 
+      allowedStatuses: getAllowedTransitions(quote.status), 
+      events 
+    });
+  } catch (error) {
+    console.error('Error fetching quote status history:', error);
+    res.status(500).json({ message: 'Failed to fetch quote status history', error: (error as Error).message });
+  }
+});
+
+// List the saved versions of a quote, newest first
+router.get('/:id/versions', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    res.json(await storage.getQuoteVersions(quote.id));
+  } catch (error) {
+    console.error('Error fetching quote versions:', error);
+    res.status(500).json({ message: 'Failed to fetch quote versions', error: (error as Error).message });
+  }
+});
+
+// Compare two versions (?from=&to=). By default the latest version is compared with the one before it.
+router.get('/:id/versions/diff', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const { from, to } = versionDiffSchema.parse(req.query);
+    const versions = await storage.getQuoteVersions(quote.id);
+    const toVersion = to !== undefined ? versions.find(v => v.version === to) : versions[0];
+    if (!toVersion) {
+      return res.status(404).json({ message: 'Quote version not found' });
+    }
+    
+    const fromVersion = versions.find(v => v.version === (from ?? toVersion.version - 1));
+    if (!fromVersion) {
+      return res.status(404).json({ message: from !== undefined ? 'Quote version not found' : 'There is no earlier version to compare with' });
+    }
+    
+    res.json(diffQuoteVersions(fromVersion, toVersion));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors 
+      });
+    }
+    
+    console.error('Error comparing quote versions:', error);
+    res.status(500).json({ message: 'Failed to compare quote versions', error: (error as Error).message });
+  }
+});
+
+// Get a single version with its line items
+router.get('/:id/versions/:version', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const versionNumber = parseInt(req.params.version);
+    if (isNaN(versionNumber)) {
+      return res.status(400).json({ message: 'Invalid version number' });
+    }
+    
+    const version = await storage.getQuoteVersion(quote.id, versionNumber);
+    if (!version) {
+      return res.status(404).json({ message: 'Quote version not found' });
+    }
+    
+    res.json(version);
+  } catch (error) {
+    console.error('Error fetching quote version:', error);
+    res.status(500).json({ message: 'Failed to fetch quote version', error: (error as Error).message });
+  }
+});
+
+// Restore a quote's details and line items from an earlier version
+router.post('/:id/versions/:version/restore', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const versionNumber = parseInt(req.params.version);
+    if (isNaN(versionNumber)) {
+      return res.status(400).json({ message: 'Invalid version number' });
+    }
+    
+    const version = await storage.getQuoteVersion(quote.id, versionNumber);
+    if (!version) {
+      return res.status(404).json({ message: 'Quote version not found' });
+    }
+    
+    const restored = await restoreQuoteVersion(quote, version, { userId: (req.user as any).id });
+    res.json(restored);
+  } catch (error) {
+    console.error('Error restoring quote version:', error);
+    res.status(500).json({ message: 'Failed to restore quote version', error: (error as Error).message });
+  }
+});
+
+// List the customer links created for a quote, newest first
+router.get('/:id/share-links', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const links = await storage.getQuoteShareLinksByQuoteId(quote.id);
+    res.json(links.map(link => toShareLinkResponse(req, link)));
+  } catch (error) {
+    console.error('Error fetching quote share links:', error);
+    res.status(500).json({ message: 'Failed to fetch share links', error: (error as Error).message });
+  }
+});
+
+// Create a link the customer can use to view and accept or decline the quote.
+// Sharing a draft counts as sending it.
+router.post('/:id/share-links', authenticate, authorize(['quotes:read-all', 'quotes:approve'], quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    let quote: Quote = res.locals.resource;
+    
+    const { expiresInDays } = shareLinkSchema.parse(req.body ?? {});
+    const userId = (req.user as any).id;
+    
+    const link = await storage.createQuoteShareLink({
+      quoteId: quote.id,
+      token: generateShareToken(),
+      createdBy: userId,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+    });
+    
+    if (normalizeQuoteStatus(quote.status) === 'draft') {
+      quote = await changeQuoteStatus(quote, 'sent', { userId, note: 'Shared with the customer by link' });
+    }
+    
+    res.status(201).json({ ...toShareLinkResponse(req, link), quoteStatus: quote.status });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors 
+      });
+    }
+    
+    console.error('Error creating quote share link:', error);
+    res.status(500).json({ message: 'Failed to create share link', error: (error as Error).message });
+  }
+});
+
+// Revoke a customer link so it no longer opens the quote
+router.delete('/:id/share-links/:linkId', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const linkId = parseInt(req.params.linkId);
+    if (isNaN(linkId)) {
+      return res.status(400).json({ message: 'Invalid share link ID' });
+    }
+    
+    const links = await storage.getQuoteShareLinksByQuoteId(quote.id);
+    const link = links.find(l => l.id === linkId);
+    if (!link) {
+      return res.status(404).json({ message: 'Share link not found' });
+    }
+    
+    if (!link.revokedAt) {
+      await storage.updateQuoteShareLink(link.id, { revokedAt: new Date() });
+    }
+    
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking quote share link:', error);
+    res.status(500).json({ message: 'Failed to revoke share link', error: (error as Error).message });
+  }
+});
+
+// Email the quote to the client with the PDF attached and a link to the customer portal.
+// Sending a draft marks it as sent; every attempt is logged, including failures.
+router.post('/:id/send', authenticate, authorize(['quotes:read-all', 'quotes:approve'], quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const { to, message, templateId } = sendQuoteSchema.parse(req.body ?? {});
+    
+    if (!canSendQuote(quote)) {
+      return res.status(409).json({ 
+        message: `A quote that is ${normalizeQuoteStatus(quote.status) || quote.status} can no longer be sent`
+      });
+    }
+    
+    const client = quote.clientId ? await storage.getClient(quote.clientId) : undefined;
+    const recipient = to || client?.email;
+    if (!recipient) {
+      return res.status(400).json({ message: 'The client has no email address. Add one to the client or enter a recipient.' });
+    }
+    
+    const sender = await storage.getUser((req.user as any).id);
+    if (!sender) {
+      return res.status(401).json({ message: 'User not found' });
+    }
+    
+    const result = await sendQuoteToClient(quote, {
+      to: recipient,
+      recipientName: client?.contactFirstName || client?.companyName || quote.clientName,
+      message,
+      sender,
+      templateId,
+      requestOrigin: `${req.protocol}://${req.get('host')}`
+    });
+    
+    if (!result.delivered) {
+      return res.status(502).json({ 
+        message: 'The email could not be delivered', 
+        error: result.email.error,
+        email: result.email 
+      });
+    }
+    
+    res.json({ email: result.email, quoteStatus: result.quote.status, viewUrl: result.viewUrl });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: error.errors 
+      });
+    }
+    
+    console.error('Error sending quote:', error);
+    res.status(500).json({ message: 'Failed to send quote', error: (error as Error).message });
+  }
+});
+
+// List the emails sent for a quote, newest first
+router.get('/:id/emails', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    res.json(await storage.getOutboundEmailsByQuoteId(quote.id));
+  } catch (error) {
+    console.error('Error fetching quote emails:', error);
+    res.status(500).json({ message: 'Failed to fetch quote emails', error: (error as Error).message });
+  }
+});
+
+// Render the quote as a PDF document, optionally with a specific template (?templateId=)
+router.get('/:id/pdf', authenticate, authorize('quotes:read-all', quoteResource), debugLog, async (req: Request, res: Response) => {
+  try {
+    const quote: Quote = res.locals.resource;
+    
+    const templateId = req.query.templateId ? parseInt(req.query.templateId as string) : undefined;
+    if (templateId !== undefined && isNaN(templateId)) {
+      return res.status(400).json({ message: 'Invalid template ID' });
+    }
+    
+    const pdf = await generateQuotePdf(quote, templateId);
+    
+    // ?download=true saves the file instead of opening it in the browser
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `${disposition}; filename="${quotePdfFileName(quote)}"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error rendering quote PDF:', error);
+    res.status(500).json({ message: 'Failed to render quote PDF', error: (error as Error).message });
+  }
+});
+
 export const quotesRouter = router;
\ No newline at end of file
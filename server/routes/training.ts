@@ -0,0 +1,461 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import multer from 'multer';
+import { storage } from '../storage';
+import {
+  historicalQuoteSchema,
+  insertTrainingDataSchema,
+  quoteStatuses,
+  trainingDataStatuses,
+  trainingFeedbackSchema,
+  type DocumentImport,
+  type TrainingData
+} from '@shared/schema';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  datasetFormatFor,
+  exportTrainingDataset,
+  importTrainingDataset,
+  parseTrainingDataset,
+  trainingDatasetFormats,
+  MAX_IMPORT_ROWS
+} from '../lib/training-dataset';
+import {
+  confirmDocumentImport,
+  startDocumentImport,
+  MAX_IMPORT_DOCUMENTS
+} from '../lib/document-import';
+import { isReadableAttachment, type UploadedFile } from '../lib/attachments';
+import { can, canAccessConversation } from '../lib/permissions';
+
+const router = Router();
+
+// All training data routes require an authenticated user
+router.use(authenticate);
+
+const reviewSchema = insertTrainingDataSchema.pick({
+  response: true,
+  tags: true,
+  category: true,
+  quality: true,
+  status: true,
+}).partial();
+
+const bulkActionSchema = z.object({
+  action: z.enum(['approve', 'delete']),
+  ids: z.array(z.number().int().positive()).min(1, 'Select at least one example').max(500),
+});
+
+const importSchema = z.object({
+  content: z.string().min(1, 'The file is empty'),
+  format: z.enum(trainingDatasetFormats).optional(),
+  fileName: z.string().optional(),
+});
+
+const exportSchema = z.object({
+  format: z.enum(trainingDatasetFormats).default('jsonl'),
+  systemPrompt: z.string().max(10000).optional(),
+});
+
+const datasetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    cb(null, /\.(jsonl|json|csv)$/i.test(file.originalname));
+  }
+});
+
+// Past quotes as JSON, for clients that can't send multipart; content is base64
+const documentUploadSchema = z.object({
+  files: z.array(z.object({
+    name: z.string().min(1),
+    content: z.string().min(1, 'The file is empty'),
+  })).min(1, 'Choose at least one file').max(MAX_IMPORT_DOCUMENTS),
+});
+
+const confirmImportSchema = z.object({
+  // Past quotes were usually sent; any status can be given
+  status: z.enum(quoteStatuses).default('sent'),
+  documents: z.array(z.object({
+    index: z.number().int().min(0),
+    quote: historicalQuoteSchema.optional(),
+  })).min(1, 'Select at least one document'),
+});
+
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+    files: MAX_IMPORT_DOCUMENTS
+  },
+  fileFilter: (req, file, cb) => {
+    cb(null, isReadableAttachment(file));
+  }
+});
+
+// Ratings map onto the 1-5 quality scale; a person's correction is the best answer there is
+const feedbackQuality = (feedback: z.infer<typeof trainingFeedbackSchema>) =>
+  feedback.correction ? 5 : feedback.rating === 'up' ? 4 : 1;
+
+// Approving, editing and deleting examples decides what the company's models learn from
+const requireTrainingReviewer = authorize('training:review');
+
+const statusFilterSchema = z.enum(trainingDataStatuses).optional();
+
+// Load a training example belonging to the user's company, responding on failure
+const loadTrainingExample = async (req: Request, res: Response): Promise<TrainingData | undefined> => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: 'Invalid training data ID' });
+    return undefined;
+  }
+
+  const example = await storage.getTrainingData(id);
+  if (!example || example.companyId !== req.user!.companyId) {
+    res.status(404).json({ message: 'Training data not found' });
+    return undefined;
+  }
+
+  return example;
+};
+
+// Load a document import belonging to the user's company, responding on failure
+const loadDocumentImport = async (req: Request, res: Response): Promise<DocumentImport | undefined> => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: 'Invalid import ID' });
+    return undefined;
+  }
+
+  const documentImport = await storage.getDocumentImport(id);
+  if (!documentImport || documentImport.companyId !== req.user!.companyId) {
+    res.status(404).json({ message: 'Import not found' });
+    return undefined;
+  }
+
+  return documentImport;
+};
+
+// Document text is only needed by the worker
+const withoutDocumentText = (documentImport: DocumentImport) => ({
+  ...documentImport,
+  documents: documentImport.documents.map(({ text, ...document }) => document)
+});
+
+// List the company's training examples, newest first, optionally only those with a review status
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = statusFilterSchema.safeParse(req.query.status);
+    if (!parsed.success) {
+      return res.status(400).json({ message: `Unknown status: ${req.query.status}`, validStatuses: trainingDataStatuses });
+    }
+    const status = parsed.data;
+
+    const examples = req.user!.companyId ? await storage.getTrainingDataByCompanyId(req.user!.companyId) : [];
+    res.json(examples
+      .filter(example => !status || example.status === status)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+  } catch (err) {
+    res.status(500).json({ message: 'Error fetching training data' });
+  }
+});
+
+// Add an example by hand; a reviewer's count as already reviewed, anyone else's join the review queue
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const isReviewer = await can(req.user!, 'training:review');
+    const trainingData = insertTrainingDataSchema.parse({
+      ...req.body,
+      ...(isReviewer ? {} : { status: 'pending' }),
+      source: 'manual',
+      userId: req.user!.id,
+      companyId: req.user!.companyId
+    });
+
+    if (trainingData.conversationId) {
+      const conversation = await storage.getConversation(trainingData.conversationId);
+      if (!conversation || !canAccessConversation(req.user, conversation)) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+    }
+
+    const data = await storage.createTrainingData(trainingData);
+    res.status(201).json(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ errors: err.errors });
+    }
+    res.status(500).json({ message: 'Error creating training data' });
+  }
+});
+
+// Save a rated or corrected chat reply as a training pair, queued for review
+router.post('/feedback', async (req: Request, res: Response) => {
+  try {
+    const feedback = trainingFeedbackSchema.parse(req.body);
+    const user = req.user!;
+
+    if (!user.companyId) {
+      return res.status(400).json({ message: 'User is not associated with a company' });
+    }
+
+    if (feedback.conversationId) {
+      const conversation = await storage.getConversation(feedback.conversationId);
+      if (!conversation || !canAccessConversation(user, conversation)) {
+        return res.status(404).json({ message: 'Conversation not found' });
+      }
+    }
+
+    const data = {
+      prompt: feedback.prompt,
+      response: feedback.correction ?? feedback.response,
+      originalResponse: feedback.correction ? feedback.response : null,
+      rating: feedback.correction ? 'down' : feedback.rating,
+      quality: feedbackQuality(feedback),
+      conversationId: feedback.conversationId ?? null,
+      status: 'pending' as const
+    };
+
+    // Changing a vote replaces the earlier example, unless a reviewer has already approved it
+    if (feedback.trainingDataId) {
+      const existing = await storage.getTrainingData(feedback.trainingDataId);
+      if (existing && existing.companyId === user.companyId && existing.source === 'chat_feedback' && existing.status === 'pending') {
+        return res.json(await storage.updateTrainingData(existing.id, data));
+      }
+    }
+
+    const example = await storage.createTrainingData({
+      ...data,
+      source: 'chat_feedback',
+      category: 'chat',
+      userId: user.id,
+      companyId: user.companyId
+    });
+    res.status(201).json(example);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error saving chat feedback:', err);
+    res.status(500).json({ message: 'Error saving feedback' });
+  }
+});
+
+// Import examples from a JSONL or CSV file (multipart field "file", or { content, format } as JSON).
+// ?dryRun=true reports what would be imported without saving anything.
+router.post('/import', requireTrainingReviewer, datasetUpload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const input = importSchema.parse(req.file
+      ? { content: req.file.buffer.toString('utf-8'), fileName: req.file.originalname, format: req.body.format || undefined }
+      : req.body);
+    const user = req.user!;
+
+    if (!user.companyId) {
+      return res.status(400).json({ message: 'User is not associated with a company' });
+    }
+
+    const format = input.format ?? datasetFormatFor(input.fileName ?? '');
+    const rows = parseTrainingDataset(input.content, format);
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return res.status(413).json({ message: `Files are limited to ${MAX_IMPORT_ROWS} rows; this one has ${rows.length}` });
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const result = await importTrainingDataset(user.companyId, user.id, rows, { dryRun });
+
+    res.json({ dryRun, format, ...result });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error importing training data:', err);
+    res.status(500).json({ message: 'Error importing training data' });
+  }
+});
+
+// Download the company's approved examples as JSONL (OpenAI chat format) or CSV
+router.get('/export', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const { format, systemPrompt } = exportSchema.parse(req.query);
+    const examples = req.user!.companyId
+      ? (await storage.getTrainingDataByCompanyId(req.user!.companyId)).filter(example => example.status === 'approved')
+      : [];
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/jsonl; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="training-data.${format}"`);
+    res.send(exportTrainingDataset(examples, format, systemPrompt));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error exporting training data:', err);
+    res.status(500).json({ message: 'Error exporting training data' });
+  }
+});
+
+// Upload past quotes (PDF, XLSX or CSV) to be read in the background. Multipart field
+// "files", or { files: [{ name, content }] } as JSON with base64 content.
+router.post('/documents', requireTrainingReviewer, documentUpload.array('files', MAX_IMPORT_DOCUMENTS), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    if (!user.companyId) {
+      return res.status(400).json({ message: 'User is not associated with a company' });
+    }
+
+    const uploaded = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const files: UploadedFile[] = uploaded.length > 0
+      ? uploaded
+      : documentUploadSchema.parse(req.body).files.map(file => ({
+        originalname: file.name,
+        mimetype: 'application/octet-stream',
+        buffer: Buffer.from(file.content, 'base64')
+      }));
+
+    const unreadable = files.find(file => !isReadableAttachment(file));
+    if (unreadable) {
+      return res.status(400).json({ message: `${unreadable.originalname} is not a PDF, spreadsheet or text file` });
+    }
+
+    const documentImport = await startDocumentImport(user.companyId, user.id, files);
+    res.status(202).json(withoutDocumentText(documentImport));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error importing documents:', err);
+    res.status(500).json({ message: 'Error importing documents' });
+  }
+});
+
+// The company's document imports, newest first
+router.get('/documents', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const imports = req.user!.companyId ? await storage.getDocumentImportsByCompanyId(req.user!.companyId) : [];
+    res.json(imports.map(withoutDocumentText));
+  } catch (err) {
+    res.status(500).json({ message: 'Error fetching document imports' });
+  }
+});
+
+// An import's progress and, once ready, what was read from each document
+router.get('/documents/:id', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const documentImport = await loadDocumentImport(req, res);
+    if (!documentImport) return;
+
+    res.json(withoutDocumentText(documentImport));
+  } catch (err) {
+    res.status(500).json({ message: 'Error fetching document import' });
+  }
+});
+
+// Create quotes and training examples from the chosen documents, with any corrections
+router.post('/documents/:id/confirm', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const documentImport = await loadDocumentImport(req, res);
+    if (!documentImport) return;
+
+    if (documentImport.status !== 'ready') {
+      return res.status(409).json({
+        message: documentImport.status === 'confirmed'
+          ? 'This import has already been confirmed'
+          : documentImport.status === 'confirming'
+            ? 'This import is already being confirmed'
+            : 'The documents are still being read'
+      });
+    }
+
+    const { status, documents } = confirmImportSchema.parse(req.body);
+    const unknown = documents.find(({ index, quote }) => !documentImport.documents[index] || (!quote && !documentImport.documents[index].quote));
+    if (unknown) {
+      return res.status(400).json({ message: `Document ${unknown.index + 1} has no quote to import` });
+    }
+
+    const result = await confirmDocumentImport(documentImport, req.user!.id, documents, status);
+    if (!result) {
+      return res.status(409).json({ message: 'This import is already being confirmed' });
+    }
+    res.status(201).json(result);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error confirming document import:', err);
+    res.status(500).json({ message: 'Error confirming document import' });
+  }
+});
+
+// Discard an import; quotes already created from it are kept
+router.delete('/documents/:id', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const documentImport = await loadDocumentImport(req, res);
+    if (!documentImport) return;
+
+    await storage.deleteDocumentImport(documentImport.id);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting document import:', err);
+    res.status(500).json({ message: 'Error deleting document import' });
+  }
+});
+
+// Approve or delete several examples at once
+router.post('/bulk', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const { action, ids } = bulkActionSchema.parse(req.body);
+
+    // Silently skip IDs from other companies
+    const examples = (await storage.getTrainingDataByIds(ids))
+      .filter(example => example.companyId === req.user!.companyId);
+
+    for (const example of examples) {
+      if (action === 'delete') {
+        await storage.deleteTrainingData(example.id);
+      } else {
+        await storage.updateTrainingData(example.id, { status: 'approved' });
+      }
+    }
+
+    res.json({ action, count: examples.length });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error applying bulk training data action:', err);
+    res.status(500).json({ message: 'Error updating training data' });
+  }
+});
+
+// Review an example: approve it, edit the response, or tag and grade it
+router.patch('/:id', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const example = await loadTrainingExample(req, res);
+    if (!example) return;
+
+    const changes = reviewSchema.parse(req.body);
+    res.json(await storage.updateTrainingData(example.id, changes));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: err.errors });
+    }
+    console.error('Error updating training data:', err);
+    res.status(500).json({ message: 'Error updating training data' });
+  }
+});
+
+router.delete('/:id', requireTrainingReviewer, async (req: Request, res: Response) => {
+  try {
+    const example = await loadTrainingExample(req, res);
+    if (!example) return;
+
+    await storage.deleteTrainingData(example.id);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting training data:', err);
+    res.status(500).json({ message: 'Error deleting training data' });
+  }
+});
+
+export const trainingRouter = router;
@@ -11,6 +11,8 @@ import {
   getRedirectUri
 } from '../lib/xero';
 import { log } from '../vite';
+import { storage } from '../storage';
+import { authenticate, authorize, byRouteId } from '../middleware/auth';
 
 // Define our own isAuthenticated middleware to avoid circular imports
 const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
@@ -22,6 +24,9 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
 
 export const xeroRouter = Router();
 
+// The quote being exported or synced, checked against the user's company
+const quoteResource = byRouteId(id => storage.getQuote(id), 'quoteId');
+
 // Get Xero authorization URL
 xeroRouter.get('/auth-url', isAuthenticated, async (req: Request, res: Response) => {
   try {
@@ -104,7 +109,7 @@ xeroRouter.get('/organization', isAuthenticated, async (req: Request, res: Respo
 });
 
 // Export quote to invoice in Xero
-xeroRouter.post('/export-quote/:quoteId', isAuthenticated, async (req: Request, res: Response) => {
+xeroRouter.post('/export-quote/:quoteId', authenticate, authorize(['quotes:read-all', 'xero:export'], quoteResource), async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
     const quoteId = parseInt(req.params.quoteId, 10);
@@ -132,7 +137,7 @@ xeroRouter.post('/export-quote/:quoteId', isAuthenticated, async (req: Request,
 });
 
 // Sync quote details with Xero
-xeroRouter.post('/sync-quote/:quoteId', isAuthenticated, async (req: Request, res: Response) => {
+xeroRouter.post('/sync-quote/:quoteId', authenticate, authorize(['quotes:read-all', 'xero:export'], quoteResource), async (req: Request, res: Response) => {
   try {
     const user = req.user as any;
     const quoteId = parseInt(req.params.quoteId, 10);
@@ -1,17 +1,37 @@
 import { 
   users, type User, type InsertUser,
   companies, type Company, type InsertCompany,
+  invitations, type Invitation, type InsertInvitation,
+  companyRoles, type CompanyRole, type InsertCompanyRole,
   clients, type Client, type InsertClient,
   quotes, type Quote, type InsertQuote,
+  quoteNumberSequences, type QuoteNumberSequence, type InsertQuoteNumberSequence,
+  defaultQuoteNumberFormat, formatQuoteNumber,
+  quoteLineItems, type QuoteLineItem, type InsertQuoteLineItem,
+  quoteStatusEvents, type QuoteStatusEvent, type InsertQuoteStatusEvent,
+  quoteVersions, type QuoteVersion, type InsertQuoteVersion,
+  quoteShareLinks, type QuoteShareLink, type InsertQuoteShareLink,
+  outboundEmails, type OutboundEmail, type InsertOutboundEmail,
+  conversations, type Conversation, type InsertConversation,
+  conversationMessages, type ConversationMessage, type InsertConversationMessage,
+  quoteTemplates, type QuoteTemplate, type InsertQuoteTemplate,
+  priceBookItems, type PriceBookItem, type InsertPriceBookItem,
+  priceBookMarkups, type PriceBookMarkup, type PriceBookMarkupRules,
   trainingData, type TrainingData, type InsertTrainingData,
   aiModels, type AIModel, type InsertAIModel,
   finetuningSessions, type FinetuningSession, type InsertFinetuningSession,
+  documentImports, type DocumentImport, type InsertDocumentImport,
+  knowledgeEmbeddings, type KnowledgeEmbedding, type InsertKnowledgeEmbedding,
   systemPrompts, type SystemPrompt, type InsertSystemPrompt,
   userOnboarding, type UserOnboarding, type InsertUserOnboarding,
   userPreferences, type UserPreferences, type InsertUserPreferences,
   passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
   refreshTokens, type RefreshToken, type InsertRefreshToken,
-  industries, type Industry, type InsertIndustry
+  twoFactorCredentials, type TwoFactorCredential, type InsertTwoFactorCredential,
+  industries, type Industry, type InsertIndustry,
+  promptEvalCases, type PromptEvalCase, type InsertPromptEvalCase,
+  promptEvalRuns, type PromptEvalRun, type InsertPromptEvalRun,
+  auditEvents, type AuditEvent, type InsertAuditEvent
 } from "@shared/schema";
 
 // Xero token data interface
@@ -27,14 +47,42 @@ export interface XeroTokenData {
   updatedAt: Date;
 }
 import { db, hasDatabaseConnection } from "./db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, sql, asc, desc, gte, lte, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { randomUUID } from "crypto";
+import { withAuditTrail } from "./lib/audit";
+
+// Whether a record still holds every expected value, for compare-and-set updates
+const stillMatches = (record: object, expected: object = {}): boolean =>
+  Object.entries(expected).every(([field, value]) =>
+    JSON.stringify((record as Record<string, unknown>)[field] ?? null) === JSON.stringify(value ?? null));
+
+// The same check as SQL conditions, one per expected field
+function matchingColumns(table: PgTable, expected: object = {}): SQL[] {
+  const columns = getTableColumns(table) as Record<string, PgColumn>;
+  return Object.entries(expected).map(([field, value]) =>
+    value === null || value === undefined ? isNull(columns[field]) : eq(columns[field], value));
+}
+
+// Audit log search; every field narrows the results
+export interface AuditEventFilter {
+  companyId?: number;
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
 
 // Storage interface
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>; // case-insensitive
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
@@ -51,6 +99,12 @@ export interface IStorage {
   getPasswordResetToken(token: string): Promise<PasswordResetToken | undefined>;
   deletePasswordResetToken(token: string): Promise<void>;
   
+  // Two-factor authentication operations (one credential per user)
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  saveTwoFactorCredential(userId: number, data: Partial<InsertTwoFactorCredential>): Promise<TwoFactorCredential>; // creates or updates
+  updateTwoFactorCredential(userId: number, data: Partial<InsertTwoFactorCredential>, expected?: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined>;
+  deleteTwoFactorCredential(userId: number): Promise<boolean>;
+  
   // Company operations
   getCompany(id: number): Promise<Company | undefined>;
   getCompanyByName(name: string): Promise<Company | undefined>;
@@ -58,6 +112,21 @@ export interface IStorage {
   updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company | undefined>;
   getAllCompanies(): Promise<Company[]>;
   
+  // Team invitation operations
+  getInvitation(id: number): Promise<Invitation | undefined>;
+  getInvitationByToken(token: string): Promise<Invitation | undefined>;
+  getInvitationsByCompanyId(companyId: number): Promise<Invitation[]>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  updateInvitation(id: number, invitation: Partial<InsertInvitation>, expected?: Partial<Invitation>): Promise<Invitation | undefined>;
+  
+  // Custom company role operations
+  getCompanyRole(id: number): Promise<CompanyRole | undefined>;
+  getCompanyRoleByName(companyId: number, name: string): Promise<CompanyRole | undefined>;
+  getCompanyRoles(companyId: number): Promise<CompanyRole[]>;
+  createCompanyRole(role: InsertCompanyRole): Promise<CompanyRole>;
+  updateCompanyRole(id: number, role: Partial<InsertCompanyRole>): Promise<CompanyRole | undefined>;
+  deleteCompanyRole(id: number): Promise<boolean>;
+  
   // Client operations
   getClient(id: number): Promise<Client | undefined>;
   getClientByCompanyName(companyName: string): Promise<Client | undefined>;
@@ -71,14 +140,78 @@ export interface IStorage {
   
   // Quote operations
   getQuote(id: number): Promise<Quote | undefined>;
-  getQuoteByNumber(quoteNumber: string): Promise<Quote | undefined>;
+  getQuoteByNumber(companyId: number | null, quoteNumber: string): Promise<Quote | undefined>;
   createQuote(quote: InsertQuote): Promise<Quote>;
-  updateQuote(id: number, quote: Partial<InsertQuote>): Promise<Quote | undefined>;
+  // Updates given `expected` values are compare-and-set: nothing is written, and
+  // undefined returned, unless the record still holds those values
+  updateQuote(id: number, quote: Partial<InsertQuote>, expected?: Partial<Quote>): Promise<Quote | undefined>;
   deleteQuote(id: number): Promise<boolean>;
   getAllQuotes(): Promise<Quote[]>;
   getQuotesByUserId(userId: number): Promise<Quote[]>;
   getQuotesByCompanyId(companyId: number): Promise<Quote[]>;
   
+  // Quote numbering operations
+  getQuoteNumberSequence(companyId: number): Promise<QuoteNumberSequence | undefined>;
+  saveQuoteNumberSequence(companyId: number, settings: Partial<InsertQuoteNumberSequence>): Promise<QuoteNumberSequence>;
+  
+  // Quote line item operations
+  getQuoteLineItem(id: number): Promise<QuoteLineItem | undefined>;
+  getQuoteLineItems(quoteId: number): Promise<QuoteLineItem[]>;
+  getQuoteLineItemsByQuoteIds(quoteIds: number[]): Promise<QuoteLineItem[]>;
+  createQuoteLineItem(item: InsertQuoteLineItem): Promise<QuoteLineItem>;
+  updateQuoteLineItem(id: number, item: Partial<InsertQuoteLineItem>): Promise<QuoteLineItem | undefined>;
+  deleteQuoteLineItem(id: number): Promise<boolean>;
+  replaceQuoteLineItems(quoteId: number, items: InsertQuoteLineItem[]): Promise<QuoteLineItem[]>;
+  
+  // Quote status history operations
+  getQuoteStatusEvents(quoteId: number): Promise<QuoteStatusEvent[]>;
+  createQuoteStatusEvent(event: InsertQuoteStatusEvent): Promise<QuoteStatusEvent>;
+  
+  // Quote version operations
+  getQuoteVersions(quoteId: number): Promise<QuoteVersion[]>;
+  getQuoteVersion(quoteId: number, version: number): Promise<QuoteVersion | undefined>;
+  createQuoteVersion(version: InsertQuoteVersion): Promise<QuoteVersion>;
+  
+  // Quote share link operations
+  getQuoteShareLink(id: number): Promise<QuoteShareLink | undefined>;
+  getQuoteShareLinkByToken(token: string): Promise<QuoteShareLink | undefined>;
+  getQuoteShareLinksByQuoteId(quoteId: number): Promise<QuoteShareLink[]>;
+  createQuoteShareLink(link: InsertQuoteShareLink): Promise<QuoteShareLink>;
+  updateQuoteShareLink(id: number, link: Partial<InsertQuoteShareLink>): Promise<QuoteShareLink | undefined>;
+  
+  // Outbound email log operations
+  getOutboundEmailsByQuoteId(quoteId: number): Promise<OutboundEmail[]>;
+  createOutboundEmail(email: InsertOutboundEmail): Promise<OutboundEmail>;
+  
+  // Conversation operations
+  getConversation(id: number): Promise<Conversation | undefined>;
+  getConversationsByCompanyId(companyId: number): Promise<Conversation[]>;
+  getConversationsByQuoteId(quoteId: number): Promise<Conversation[]>;
+  getConversationsByClientId(clientId: number): Promise<Conversation[]>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: number, conversation: Partial<InsertConversation>): Promise<Conversation | undefined>;
+  deleteConversation(id: number): Promise<boolean>;
+  getConversationMessages(conversationId: number): Promise<ConversationMessage[]>;
+  createConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage>;
+  
+  // Quote template operations
+  getQuoteTemplate(id: number): Promise<QuoteTemplate | undefined>;
+  getQuoteTemplatesByCompanyId(companyId: number): Promise<QuoteTemplate[]>;
+  getDefaultQuoteTemplate(companyId: number): Promise<QuoteTemplate | undefined>;
+  createQuoteTemplate(template: InsertQuoteTemplate): Promise<QuoteTemplate>;
+  updateQuoteTemplate(id: number, template: Partial<InsertQuoteTemplate>): Promise<QuoteTemplate | undefined>;
+  deleteQuoteTemplate(id: number): Promise<boolean>;
+  
+  // Price book operations
+  getPriceBookItem(id: number): Promise<PriceBookItem | undefined>;
+  getPriceBookItemsByCompanyId(companyId: number): Promise<PriceBookItem[]>;
+  getPriceBookItemBySku(companyId: number, sku: string): Promise<PriceBookItem | undefined>;
+  createPriceBookItem(item: InsertPriceBookItem): Promise<PriceBookItem>;
+  updatePriceBookItem(id: number, item: Partial<InsertPriceBookItem>): Promise<PriceBookItem | undefined>;
+  deletePriceBookItem(id: number): Promise<boolean>;
+  getPriceBookMarkups(companyId: number): Promise<PriceBookMarkup[]>;
+  savePriceBookMarkups(companyId: number, rules: PriceBookMarkupRules): Promise<PriceBookMarkup[]>;
+  
   // Training data operations
   getTrainingData(id: number): Promise<TrainingData | undefined>;
   createTrainingData(data: InsertTrainingData): Promise<TrainingData>;
@@ -112,6 +245,19 @@ export interface IStorage {
   getFinetuningSessionsByUserId(userId: number): Promise<FinetuningSession[]>;
   getFinetuningSessionsByStatus(status: string): Promise<FinetuningSession[]>;
   
+  // Document import operations
+  getDocumentImport(id: number): Promise<DocumentImport | undefined>;
+  getDocumentImportsByCompanyId(companyId: number): Promise<DocumentImport[]>;
+  getDocumentImportsByStatus(status: string): Promise<DocumentImport[]>;
+  createDocumentImport(documentImport: InsertDocumentImport): Promise<DocumentImport>;
+  updateDocumentImport(id: number, documentImport: Partial<InsertDocumentImport>, expected?: Partial<DocumentImport>): Promise<DocumentImport | undefined>;
+  deleteDocumentImport(id: number): Promise<boolean>;
+  
+  // Knowledge index operations
+  getKnowledgeEmbeddings(companyId: number): Promise<KnowledgeEmbedding[]>;
+  saveKnowledgeEmbedding(entry: InsertKnowledgeEmbedding): Promise<KnowledgeEmbedding>;
+  deleteKnowledgeEmbedding(id: number): Promise<boolean>;
+  
   // Industry operations
   getIndustry(id: number): Promise<Industry | undefined>;
   getIndustryByName(name: string): Promise<Industry | undefined>;
@@ -133,6 +279,23 @@ export interface IStorage {
   getAllSystemPrompts(): Promise<SystemPrompt[]>;
   getAllSystemPromptsByCompanyId(companyId: number): Promise<SystemPrompt[]>;
   
+  // Prompt evaluation operations
+  getPromptEvalCase(id: number): Promise<PromptEvalCase | undefined>;
+  getAllPromptEvalCases(): Promise<PromptEvalCase[]>;
+  createPromptEvalCase(evalCase: InsertPromptEvalCase): Promise<PromptEvalCase>;
+  updatePromptEvalCase(id: number, evalCase: Partial<InsertPromptEvalCase>): Promise<PromptEvalCase | undefined>;
+  deletePromptEvalCase(id: number): Promise<boolean>;
+  getPromptEvalRun(id: number): Promise<PromptEvalRun | undefined>;
+  getAllPromptEvalRuns(): Promise<PromptEvalRun[]>;
+  getPromptEvalRunsByStatus(status: string): Promise<PromptEvalRun[]>;
+  createPromptEvalRun(run: InsertPromptEvalRun): Promise<PromptEvalRun>;
+  updatePromptEvalRun(id: number, run: Partial<InsertPromptEvalRun>): Promise<PromptEvalRun | undefined>;
+  deletePromptEvalRun(id: number): Promise<boolean>;
+  
+  // Audit log operations (append-only: there is no update or delete)
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]>; // newest first
+  
   // User Onboarding operations
   getUserOnboarding(userId: number): Promise<UserOnboarding | undefined>;
   createUserOnboarding(onboarding: InsertUserOnboarding): Promise<UserOnboarding>;
@@ -154,25 +317,57 @@ export interface IStorage {
 class MemStorage implements IStorage {
   private users: User[] = [];
   private companies: Company[] = [];
+  private invitations: Invitation[] = [];
+  private companyRoles: CompanyRole[] = [];
   private clients: Client[] = [];
   private quotes: Quote[] = [];
+  private quoteNumberSequences: QuoteNumberSequence[] = [];
+  private quoteLineItems: QuoteLineItem[] = [];
+  private quoteStatusEvents: QuoteStatusEvent[] = [];
+  private quoteVersions: QuoteVersion[] = [];
+  private quoteShareLinks: QuoteShareLink[] = [];
+  private outboundEmails: OutboundEmail[] = [];
+  private conversations: Conversation[] = [];
+  private conversationMessages: ConversationMessage[] = [];
+  private quoteTemplates: QuoteTemplate[] = [];
+  private priceBookItems: PriceBookItem[] = [];
+  private priceBookMarkups: PriceBookMarkup[] = [];
   private trainingData: TrainingData[] = [];
   private aiModels: AIModel[] = [];
   private finetuningSessions: FinetuningSession[] = [];
+  private documentImports: DocumentImport[] = [];
+  private knowledgeEmbeddings: KnowledgeEmbedding[] = [];
   private xeroTokens: XeroTokenData[] = [];
   private industries: Industry[] = [];
   private passwordResetTokens: PasswordResetToken[] = [];
+  private twoFactorCredentials: TwoFactorCredential[] = [];
   private userPreferences: UserPreferences[] = [];
   private userIdCounter = 1;
   private companyIdCounter = 1;
+  private invitationIdCounter = 1;
+  private companyRoleIdCounter = 1;
   private clientIdCounter = 1;
   private quoteIdCounter = 1;
+  private quoteNumberSequenceIdCounter = 1;
+  private quoteLineItemIdCounter = 1;
+  private quoteStatusEventIdCounter = 1;
+  private quoteVersionIdCounter = 1;
+  private quoteShareLinkIdCounter = 1;
+  private outboundEmailIdCounter = 1;
+  private conversationIdCounter = 1;
+  private conversationMessageIdCounter = 1;
+  private quoteTemplateIdCounter = 1;
+  private priceBookItemIdCounter = 1;
+  private priceBookMarkupIdCounter = 1;
   private trainingDataIdCounter = 1;
   private aiModelIdCounter = 1;
+  private knowledgeEmbeddingIdCounter = 1;
   private finetuningSessionIdCounter = 1;
+  private documentImportIdCounter = 1;
   private xeroTokenIdCounter = 1;
   private industryIdCounter = 1;
   private passwordResetTokenIdCounter = 1;
+  private twoFactorCredentialIdCounter = 1;
   private userPreferencesIdCounter = 1;
   
   // Xero token operations
@@ -250,7 +445,7 @@ class MemStorage implements IStorage {
   }
   
   async getUserByEmail(email: string): Promise<User | undefined> {
-    return this.users.find(u => u.email === email);
+    return this.users.find(u => u.email.toLowerCase() === email.toLowerCase());
   }
   
   async getUserByGoogleId(googleId: string): Promise<User | undefined> {
@@ -337,6 +532,97 @@ class MemStorage implements IStorage {
     return [...this.companies];
   }
   
+  // Team invitation operations
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    return this.invitations.find(invitation => invitation.id === id);
+  }
+  
+  async getInvitationByToken(token: string): Promise<Invitation | undefined> {
+    return this.invitations.find(invitation => invitation.token === token);
+  }
+  
+  async getInvitationsByCompanyId(companyId: number): Promise<Invitation[]> {
+    return this.invitations
+      .filter(invitation => invitation.companyId === companyId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const invitation: Invitation = {
+      id: this.invitationIdCounter++,
+      companyId: insertInvitation.companyId,
+      email: insertInvitation.email,
+      role: insertInvitation.role || "member",
+      token: insertInvitation.token,
+      invitedBy: insertInvitation.invitedBy ?? null,
+      expiresAt: insertInvitation.expiresAt,
+      sentAt: insertInvitation.sentAt ?? null,
+      sendCount: insertInvitation.sendCount ?? 0,
+      revokedAt: insertInvitation.revokedAt ?? null,
+      acceptedAt: insertInvitation.acceptedAt ?? null,
+      acceptedBy: insertInvitation.acceptedBy ?? null,
+      createdAt: new Date()
+    };
+    this.invitations.push(invitation);
+    return invitation;
+  }
+  
+  async updateInvitation(id: number, invitationData: Partial<InsertInvitation>, expected?: Partial<Invitation>): Promise<Invitation | undefined> {
+    const index = this.invitations.findIndex(invitation => invitation.id === id);
+    if (index === -1 || !stillMatches(this.invitations[index], expected)) return undefined;
+    
+    const updated: Invitation = { ...this.invitations[index], ...invitationData };
+    this.invitations[index] = updated;
+    return updated;
+  }
+  
+  // Custom company role operations
+  async getCompanyRole(id: number): Promise<CompanyRole | undefined> {
+    return this.companyRoles.find(role => role.id === id);
+  }
+  
+  async getCompanyRoleByName(companyId: number, name: string): Promise<CompanyRole | undefined> {
+    return this.companyRoles.find(role => role.companyId === companyId && role.name === name);
+  }
+  
+  async getCompanyRoles(companyId: number): Promise<CompanyRole[]> {
+    return this.companyRoles
+      .filter(role => role.companyId === companyId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async createCompanyRole(insertRole: InsertCompanyRole): Promise<CompanyRole> {
+    const now = new Date();
+    const role: CompanyRole = {
+      id: this.companyRoleIdCounter++,
+      companyId: insertRole.companyId,
+      name: insertRole.name,
+      description: insertRole.description ?? null,
+      permissions: insertRole.permissions,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.companyRoles.push(role);
+    return role;
+  }
+  
+  async updateCompanyRole(id: number, roleData: Partial<InsertCompanyRole>): Promise<CompanyRole | undefined> {
+    const index = this.companyRoles.findIndex(role => role.id === id);
+    if (index === -1) return undefined;
+    
+    const updated: CompanyRole = { ...this.companyRoles[index], ...roleData, updatedAt: new Date() };
+    this.companyRoles[index] = updated;
+    return updated;
+  }
+  
+  async deleteCompanyRole(id: number): Promise<boolean> {
+    const index = this.companyRoles.findIndex(role => role.id === id);
+    if (index === -1) return false;
+    
+    this.companyRoles.splice(index, 1);
+    return true;
+  }
+  
   // Client operations
   async getClient(id: number): Promise<Client | undefined> {
     return this.clients.find(c => c.id === id);
@@ -419,14 +705,23 @@ class MemStorage implements IStorage {
     return this.quotes.find(q => q.id === id);
   }
   
-  async getQuoteByNumber(quoteNumber: string): Promise<Quote | undefined> {
-    return this.quotes.find(q => q.quoteNumber === quoteNumber);
+  // Quote numbers are unique within a company
+  async getQuoteByNumber(companyId: number | null, quoteNumber: string): Promise<Quote | undefined> {
+    return this.quotes.find(q => q.companyId === companyId && q.quoteNumber === quoteNumber);
   }
   
   async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    const id = this.quoteIdCounter++;
+    // Allocate the next number from the company's sequence unless one was given.
+    // Quotes without a company are numbered from their id.
+    const quoteNumber = insertQuote.quoteNumber
+      || (insertQuote.companyId
+        ? this.allocateQuoteNumber(insertQuote.companyId)
+        : formatQuoteNumber(defaultQuoteNumberFormat, id));
+    
     const quote: Quote = {
-      id: this.quoteIdCounter++,
-      quoteNumber: insertQuote.quoteNumber,
+      id,
+      quoteNumber,
       clientId: insertQuote.clientId || null,
       clientName: insertQuote.clientName,
       description: insertQuote.description || null,
@@ -443,11 +738,12 @@ class MemStorage implements IStorage {
     return quote;
   }
   
-  async updateQuote(id: number, quoteData: Partial<InsertQuote>): Promise<Quote | undefined> {
+  async updateQuote(id: number, quoteData: Partial<InsertQuote>, expected?: Partial<Quote>): Promise<Quote | undefined> {
     const quoteIndex = this.quotes.findIndex(q => q.id === id);
     if (quoteIndex === -1) return undefined;
     
     const currentQuote = this.quotes[quoteIndex];
+    if (!stillMatches(currentQuote, expected)) return undefined;
     const updatedQuote: Quote = {
       id: currentQuote.id,
       quoteNumber: quoteData.quoteNumber !== undefined ? quoteData.quoteNumber : currentQuote.quoteNumber,
@@ -473,6 +769,14 @@ class MemStorage implements IStorage {
     if (quoteIndex === -1) return false;
     
     this.quotes.splice(quoteIndex, 1);
+    this.quoteLineItems = this.quoteLineItems.filter(item => item.quoteId !== id);
+    this.quoteStatusEvents = this.quoteStatusEvents.filter(event => event.quoteId !== id);
+    this.quoteVersions = this.quoteVersions.filter(version => version.quoteId !== id);
+    this.quoteShareLinks = this.quoteShareLinks.filter(link => link.quoteId !== id);
+    this.outboundEmails = this.outboundEmails.map(email => email.quoteId === id ? { ...email, quoteId: null } : email);
+    const conversationIds = this.conversations.filter(c => c.quoteId === id).map(c => c.id);
+    this.conversations = this.conversations.filter(c => c.quoteId !== id);
+    this.conversationMessages = this.conversationMessages.filter(m => !conversationIds.includes(m.conversationId));
     return true;
   }
   
@@ -488,6 +792,535 @@ class MemStorage implements IStorage {
     return this.quotes.filter(q => q.companyId === companyId);
   }
   
+  // Quote numbering operations
+  async getQuoteNumberSequence(companyId: number): Promise<QuoteNumberSequence | undefined> {
+    return this.quoteNumberSequences.find(sequence => sequence.companyId === companyId);
+  }
+  
+  async saveQuoteNumberSequence(companyId: number, settings: Partial<InsertQuoteNumberSequence>): Promise<QuoteNumberSequence> {
+    const current = await this.getQuoteNumberSequence(companyId);
+    const sequence: QuoteNumberSequence = {
+      id: current ? current.id : this.quoteNumberSequenceIdCounter++,
+      companyId,
+      prefix: settings.prefix !== undefined ? settings.prefix : current?.prefix ?? defaultQuoteNumberFormat.prefix,
+      includeYear: settings.includeYear !== undefined ? settings.includeYear : current?.includeYear ?? defaultQuoteNumberFormat.includeYear,
+      padding: settings.padding !== undefined ? settings.padding : current?.padding ?? defaultQuoteNumberFormat.padding,
+      resetYearly: settings.resetYearly !== undefined ? settings.resetYearly : current?.resetYearly ?? true,
+      nextNumber: settings.nextNumber !== undefined ? settings.nextNumber : current?.nextNumber ?? 1,
+      year: settings.year !== undefined ? settings.year : current?.year ?? null,
+      updatedAt: new Date()
+    };
+    this.quoteNumberSequences = [...this.quoteNumberSequences.filter(s => s.companyId !== companyId), sequence];
+    return sequence;
+  }
+  
+  // Take the next free number from the company's sequence, starting over each year if configured
+  private allocateQuoteNumber(companyId: number): string {
+    const year = new Date().getFullYear();
+    let sequence = this.quoteNumberSequences.find(s => s.companyId === companyId);
+    if (!sequence) {
+      sequence = {
+        id: this.quoteNumberSequenceIdCounter++,
+        companyId,
+        ...defaultQuoteNumberFormat,
+        resetYearly: true,
+        nextNumber: 1,
+        year,
+        updatedAt: new Date()
+      };
+      this.quoteNumberSequences.push(sequence);
+    }
+    
+    for (;;) {
+      if (sequence.resetYearly && sequence.year !== year) {
+        sequence.nextNumber = 1;
+      }
+      sequence.year = year;
+      sequence.updatedAt = new Date();
+      
+      const quoteNumber = formatQuoteNumber(sequence, sequence.nextNumber++, year);
+      if (!this.quotes.some(q => q.companyId === companyId && q.quoteNumber === quoteNumber)) {
+        return quoteNumber;
+      }
+    }
+  }
+  
+  // Quote line item operations
+  async getQuoteLineItem(id: number): Promise<QuoteLineItem | undefined> {
+    return this.quoteLineItems.find(item => item.id === id);
+  }
+  
+  async getQuoteLineItems(quoteId: number): Promise<QuoteLineItem[]> {
+    return this.quoteLineItems
+      .filter(item => item.quoteId === quoteId)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+  
+  async getQuoteLineItemsByQuoteIds(quoteIds: number[]): Promise<QuoteLineItem[]> {
+    return this.quoteLineItems
+      .filter(item => quoteIds.includes(item.quoteId))
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+  
+  async createQuoteLineItem(insertItem: InsertQuoteLineItem): Promise<QuoteLineItem> {
+    const now = new Date();
+    const item: QuoteLineItem = {
+      id: this.quoteLineItemIdCounter++,
+      quoteId: insertItem.quoteId,
+      description: insertItem.description,
+      quantity: insertItem.quantity !== undefined ? insertItem.quantity : 1,
+      unitPrice: insertItem.unitPrice !== undefined ? insertItem.unitPrice : 0,
+      unit: insertItem.unit || null,
+      taxRate: insertItem.taxRate !== undefined ? insertItem.taxRate : 0,
+      sortOrder: insertItem.sortOrder !== undefined ? insertItem.sortOrder : 0,
+      category: insertItem.category || null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.quoteLineItems.push(item);
+    return item;
+  }
+  
+  async updateQuoteLineItem(id: number, itemData: Partial<InsertQuoteLineItem>): Promise<QuoteLineItem | undefined> {
+    const index = this.quoteLineItems.findIndex(item => item.id === id);
+    if (index === -1) return undefined;
+    
+    const current = this.quoteLineItems[index];
+    const updated: QuoteLineItem = {
+      ...current,
+      description: itemData.description !== undefined ? itemData.description : current.description,
+      quantity: itemData.quantity !== undefined ? itemData.quantity : current.quantity,
+      unitPrice: itemData.unitPrice !== undefined ? itemData.unitPrice : current.unitPrice,
+      unit: itemData.unit !== undefined ? itemData.unit : current.unit,
+      taxRate: itemData.taxRate !== undefined ? itemData.taxRate : current.taxRate,
+      sortOrder: itemData.sortOrder !== undefined ? itemData.sortOrder : current.sortOrder,
+      category: itemData.category !== undefined ? itemData.category : current.category,
+      updatedAt: new Date()
+    };
+    
+    this.quoteLineItems[index] = updated;
+    return updated;
+  }
+  
+  async deleteQuoteLineItem(id: number): Promise<boolean> {
+    const index = this.quoteLineItems.findIndex(item => item.id === id);
+    if (index === -1) return false;
+    
+    this.quoteLineItems.splice(index, 1);
+    return true;
+  }
+  
+  async replaceQuoteLineItems(quoteId: number, items: InsertQuoteLineItem[]): Promise<QuoteLineItem[]> {
+    this.quoteLineItems = this.quoteLineItems.filter(item => item.quoteId !== quoteId);
+    
+    const created: QuoteLineItem[] = [];
+    for (const item of items) {
+      created.push(await this.createQuoteLineItem({ ...item, quoteId }));
+    }
+    return created;
+  }
+  
+  // Quote status history operations
+  async getQuoteStatusEvents(quoteId: number): Promise<QuoteStatusEvent[]> {
+    return this.quoteStatusEvents
+      .filter(event => event.quoteId === quoteId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+  
+  async createQuoteStatusEvent(insertEvent: InsertQuoteStatusEvent): Promise<QuoteStatusEvent> {
+    const event: QuoteStatusEvent = {
+      id: this.quoteStatusEventIdCounter++,
+      quoteId: insertEvent.quoteId,
+      fromStatus: insertEvent.fromStatus ?? null,
+      toStatus: insertEvent.toStatus,
+      userId: insertEvent.userId ?? null,
+      source: insertEvent.source || "user",
+      note: insertEvent.note ?? null,
+      createdAt: new Date()
+    };
+    this.quoteStatusEvents.push(event);
+    return event;
+  }
+  
+  // Quote version operations
+  async getQuoteVersions(quoteId: number): Promise<QuoteVersion[]> {
+    return this.quoteVersions
+      .filter(version => version.quoteId === quoteId)
+      .sort((a, b) => b.version - a.version);
+  }
+  
+  async getQuoteVersion(quoteId: number, version: number): Promise<QuoteVersion | undefined> {
+    return this.quoteVersions.find(v => v.quoteId === quoteId && v.version === version);
+  }
+  
+  async createQuoteVersion(insertVersion: InsertQuoteVersion): Promise<QuoteVersion> {
+    // Same as the unique (quote_id, version) constraint
+    if (this.quoteVersions.some(v => v.quoteId === insertVersion.quoteId && v.version === insertVersion.version)) {
+      throw new Error(`Version ${insertVersion.version} of quote ${insertVersion.quoteId} already exists`);
+    }
+    
+    const version: QuoteVersion = {
+      id: this.quoteVersionIdCounter++,
+      quoteId: insertVersion.quoteId,
+      version: insertVersion.version,
+      quoteNumber: insertVersion.quoteNumber,
+      clientName: insertVersion.clientName,
+      description: insertVersion.description ?? null,
+      amount: insertVersion.amount ?? 0,
+      date: insertVersion.date,
+      status: insertVersion.status,
+      lineItems: insertVersion.lineItems as QuoteVersion['lineItems'],
+      createdBy: insertVersion.createdBy ?? null,
+      note: insertVersion.note ?? null,
+      createdAt: new Date()
+    };
+    this.quoteVersions.push(version);
+    return version;
+  }
+  
+  // Quote share link operations
+  async getQuoteShareLink(id: number): Promise<QuoteShareLink | undefined> {
+    return this.quoteShareLinks.find(link => link.id === id);
+  }
+  
+  async getQuoteShareLinkByToken(token: string): Promise<QuoteShareLink | undefined> {
+    return this.quoteShareLinks.find(link => link.token === token);
+  }
+  
+  async getQuoteShareLinksByQuoteId(quoteId: number): Promise<QuoteShareLink[]> {
+    return this.quoteShareLinks
+      .filter(link => link.quoteId === quoteId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createQuoteShareLink(insertLink: InsertQuoteShareLink): Promise<QuoteShareLink> {
+    const link: QuoteShareLink = {
+      id: this.quoteShareLinkIdCounter++,
+      quoteId: insertLink.quoteId,
+      token: insertLink.token,
+      createdBy: insertLink.createdBy ?? null,
+      expiresAt: insertLink.expiresAt ?? null,
+      revokedAt: insertLink.revokedAt ?? null,
+      firstViewedAt: insertLink.firstViewedAt ?? null,
+      lastViewedAt: insertLink.lastViewedAt ?? null,
+      response: insertLink.response ?? null,
+      signatureName: insertLink.signatureName ?? null,
+      declineReason: insertLink.declineReason ?? null,
+      respondedAt: insertLink.respondedAt ?? null,
+      respondedIp: insertLink.respondedIp ?? null,
+      respondedUserAgent: insertLink.respondedUserAgent ?? null,
+      createdAt: new Date()
+    };
+    this.quoteShareLinks.push(link);
+    return link;
+  }
+  
+  async updateQuoteShareLink(id: number, linkData: Partial<InsertQuoteShareLink>): Promise<QuoteShareLink | undefined> {
+    const index = this.quoteShareLinks.findIndex(link => link.id === id);
+    if (index === -1) return undefined;
+    
+    const current = this.quoteShareLinks[index];
+    const updated: QuoteShareLink = {
+      ...current,
+      expiresAt: linkData.expiresAt !== undefined ? linkData.expiresAt : current.expiresAt,
+      revokedAt: linkData.revokedAt !== undefined ? linkData.revokedAt : current.revokedAt,
+      firstViewedAt: linkData.firstViewedAt !== undefined ? linkData.firstViewedAt : current.firstViewedAt,
+      lastViewedAt: linkData.lastViewedAt !== undefined ? linkData.lastViewedAt : current.lastViewedAt,
+      response: linkData.response !== undefined ? linkData.response : current.response,
+      signatureName: linkData.signatureName !== undefined ? linkData.signatureName : current.signatureName,
+      declineReason: linkData.declineReason !== undefined ? linkData.declineReason : current.declineReason,
+      respondedAt: linkData.respondedAt !== undefined ? linkData.respondedAt : current.respondedAt,
+      respondedIp: linkData.respondedIp !== undefined ? linkData.respondedIp : current.respondedIp,
+      respondedUserAgent: linkData.respondedUserAgent !== undefined ? linkData.respondedUserAgent : current.respondedUserAgent
+    };
+    this.quoteShareLinks[index] = updated;
+    return updated;
+  }
+  
+  // Outbound email log operations
+  async getOutboundEmailsByQuoteId(quoteId: number): Promise<OutboundEmail[]> {
+    return this.outboundEmails
+      .filter(email => email.quoteId === quoteId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async createOutboundEmail(insertEmail: InsertOutboundEmail): Promise<OutboundEmail> {
+    const email: OutboundEmail = {
+      id: this.outboundEmailIdCounter++,
+      quoteId: insertEmail.quoteId ?? null,
+      companyId: insertEmail.companyId ?? null,
+      userId: insertEmail.userId ?? null,
+      toAddress: insertEmail.toAddress,
+      fromAddress: insertEmail.fromAddress,
+      subject: insertEmail.subject,
+      kind: insertEmail.kind || "quote",
+      transport: insertEmail.transport,
+      status: insertEmail.status,
+      messageId: insertEmail.messageId ?? null,
+      error: insertEmail.error ?? null,
+      attachments: (insertEmail.attachments as string[] | null | undefined) ?? null,
+      createdAt: new Date()
+    };
+    this.outboundEmails.push(email);
+    return email;
+  }
+  
+  // Conversation operations
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.conversations.find(c => c.id === id);
+  }
+  
+  async getConversationsByCompanyId(companyId: number): Promise<Conversation[]> {
+    return this.conversations
+      .filter(c => c.companyId === companyId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+  
+  async getConversationsByQuoteId(quoteId: number): Promise<Conversation[]> {
+    return this.conversations
+      .filter(c => c.quoteId === quoteId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+  
+  async getConversationsByClientId(clientId: number): Promise<Conversation[]> {
+    return this.conversations
+      .filter(c => c.clientId === clientId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+  
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: this.conversationIdCounter++,
+      title: insertConversation.title || "New conversation",
+      quoteId: insertConversation.quoteId || null,
+      clientId: insertConversation.clientId || null,
+      userId: insertConversation.userId || null,
+      companyId: insertConversation.companyId || null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.conversations.push(conversation);
+    return conversation;
+  }
+  
+  async updateConversation(id: number, conversationData: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const index = this.conversations.findIndex(c => c.id === id);
+    if (index === -1) return undefined;
+    
+    const current = this.conversations[index];
+    const updated: Conversation = {
+      ...current,
+      title: conversationData.title !== undefined ? conversationData.title : current.title,
+      quoteId: conversationData.quoteId !== undefined ? conversationData.quoteId : current.quoteId,
+      clientId: conversationData.clientId !== undefined ? conversationData.clientId : current.clientId,
+      userId: conversationData.userId !== undefined ? conversationData.userId : current.userId,
+      companyId: conversationData.companyId !== undefined ? conversationData.companyId : current.companyId,
+      updatedAt: new Date()
+    };
+    
+    this.conversations[index] = updated;
+    return updated;
+  }
+  
+  async deleteConversation(id: number): Promise<boolean> {
+    const index = this.conversations.findIndex(c => c.id === id);
+    if (index === -1) return false;
+    
+    this.conversations.splice(index, 1);
+    this.conversationMessages = this.conversationMessages.filter(m => m.conversationId !== id);
+    return true;
+  }
+  
+  async getConversationMessages(conversationId: number): Promise<ConversationMessage[]> {
+    return this.conversationMessages
+      .filter(m => m.conversationId === conversationId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createConversationMessage(insertMessage: InsertConversationMessage): Promise<ConversationMessage> {
+    const message: ConversationMessage = {
+      id: this.conversationMessageIdCounter++,
+      conversationId: insertMessage.conversationId,
+      role: insertMessage.role,
+      content: insertMessage.content,
+      createdAt: new Date()
+    };
+    this.conversationMessages.push(message);
+    
+    // Keep the thread's last activity current so lists sort by recency
+    const conversation = this.conversations.find(c => c.id === insertMessage.conversationId);
+    if (conversation) {
+      conversation.updatedAt = message.createdAt;
+    }
+    
+    return message;
+  }
+  
+  // Quote template operations
+  async getQuoteTemplate(id: number): Promise<QuoteTemplate | undefined> {
+    return this.quoteTemplates.find(t => t.id === id);
+  }
+  
+  async getQuoteTemplatesByCompanyId(companyId: number): Promise<QuoteTemplate[]> {
+    return this.quoteTemplates
+      .filter(t => t.companyId === companyId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getDefaultQuoteTemplate(companyId: number): Promise<QuoteTemplate | undefined> {
+    return this.quoteTemplates.find(t => t.companyId === companyId && t.isDefault);
+  }
+  
+  async createQuoteTemplate(insertTemplate: InsertQuoteTemplate): Promise<QuoteTemplate> {
+    // Only one default template per company
+    if (insertTemplate.isDefault) {
+      this.quoteTemplates
+        .filter(t => t.companyId === insertTemplate.companyId)
+        .forEach(t => { t.isDefault = false; });
+    }
+    
+    const now = new Date();
+    const template: QuoteTemplate = {
+      id: this.quoteTemplateIdCounter++,
+      companyId: insertTemplate.companyId,
+      name: insertTemplate.name,
+      headerText: insertTemplate.headerText || null,
+      footerText: insertTemplate.footerText || null,
+      primaryColor: insertTemplate.primaryColor || "#111827",
+      accentColor: insertTemplate.accentColor || "#6b7280",
+      termsText: insertTemplate.termsText || null,
+      showLogo: insertTemplate.showLogo !== undefined ? insertTemplate.showLogo : true,
+      isDefault: insertTemplate.isDefault || false,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.quoteTemplates.push(template);
+    return template;
+  }
+  
+  async updateQuoteTemplate(id: number, templateData: Partial<InsertQuoteTemplate>): Promise<QuoteTemplate | undefined> {
+    const index = this.quoteTemplates.findIndex(t => t.id === id);
+    if (index === -1) return undefined;
+    
+    const current = this.quoteTemplates[index];
+    if (templateData.isDefault) {
+      this.quoteTemplates
+        .filter(t => t.companyId === current.companyId && t.id !== id)
+        .forEach(t => { t.isDefault = false; });
+    }
+    
+    const updated: QuoteTemplate = {
+      ...current,
+      name: templateData.name !== undefined ? templateData.name : current.name,
+      headerText: templateData.headerText !== undefined ? templateData.headerText : current.headerText,
+      footerText: templateData.footerText !== undefined ? templateData.footerText : current.footerText,
+      primaryColor: templateData.primaryColor !== undefined ? templateData.primaryColor : current.primaryColor,
+      accentColor: templateData.accentColor !== undefined ? templateData.accentColor : current.accentColor,
+      termsText: templateData.termsText !== undefined ? templateData.termsText : current.termsText,
+      showLogo: templateData.showLogo !== undefined ? templateData.showLogo : current.showLogo,
+      isDefault: templateData.isDefault !== undefined ? templateData.isDefault : current.isDefault,
+      updatedAt: new Date()
+    };
+    
+    this.quoteTemplates[index] = updated;
+    return updated;
+  }
+  
+  async deleteQuoteTemplate(id: number): Promise<boolean> {
+    const index = this.quoteTemplates.findIndex(t => t.id === id);
+    if (index === -1) return false;
+    
+    this.quoteTemplates.splice(index, 1);
+    return true;
+  }
+  
+  // Price book operations
+  async getPriceBookItem(id: number): Promise<PriceBookItem | undefined> {
+    return this.priceBookItems.find(i => i.id === id);
+  }
+  
+  async getPriceBookItemsByCompanyId(companyId: number): Promise<PriceBookItem[]> {
+    return this.priceBookItems
+      .filter(i => i.companyId === companyId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getPriceBookItemBySku(companyId: number, sku: string): Promise<PriceBookItem | undefined> {
+    return this.priceBookItems.find(i => i.companyId === companyId && i.sku === sku);
+  }
+  
+  async createPriceBookItem(insertItem: InsertPriceBookItem): Promise<PriceBookItem> {
+    const now = new Date();
+    const item: PriceBookItem = {
+      id: this.priceBookItemIdCounter++,
+      companyId: insertItem.companyId,
+      sku: insertItem.sku || null,
+      name: insertItem.name,
+      description: insertItem.description || null,
+      category: insertItem.category || "material",
+      unit: insertItem.unit || null,
+      cost: insertItem.cost ?? null,
+      sellPrice: insertItem.sellPrice ?? null,
+      markupPercent: insertItem.markupPercent ?? null,
+      taxable: insertItem.taxable !== undefined ? insertItem.taxable : true,
+      isActive: insertItem.isActive !== undefined ? insertItem.isActive : true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.priceBookItems.push(item);
+    return item;
+  }
+  
+  async updatePriceBookItem(id: number, itemData: Partial<InsertPriceBookItem>): Promise<PriceBookItem | undefined> {
+    const index = this.priceBookItems.findIndex(i => i.id === id);
+    if (index === -1) return undefined;
+    
+    const current = this.priceBookItems[index];
+    const updated: PriceBookItem = {
+      ...current,
+      sku: itemData.sku !== undefined ? itemData.sku : current.sku,
+      name: itemData.name !== undefined ? itemData.name : current.name,
+      description: itemData.description !== undefined ? itemData.description : current.description,
+      category: itemData.category !== undefined ? itemData.category : current.category,
+      unit: itemData.unit !== undefined ? itemData.unit : current.unit,
+      cost: itemData.cost !== undefined ? itemData.cost : current.cost,
+      sellPrice: itemData.sellPrice !== undefined ? itemData.sellPrice : current.sellPrice,
+      markupPercent: itemData.markupPercent !== undefined ? itemData.markupPercent : current.markupPercent,
+      taxable: itemData.taxable !== undefined ? itemData.taxable : current.taxable,
+      isActive: itemData.isActive !== undefined ? itemData.isActive : current.isActive,
+      updatedAt: new Date()
+    };
+    
+    this.priceBookItems[index] = updated;
+    return updated;
+  }
+  
+  async deletePriceBookItem(id: number): Promise<boolean> {
+    const index = this.priceBookItems.findIndex(i => i.id === id);
+    if (index === -1) return false;
+    
+    this.priceBookItems.splice(index, 1);
+    return true;
+  }
+  
+  async getPriceBookMarkups(companyId: number): Promise<PriceBookMarkup[]> {
+    return this.priceBookMarkups.filter(m => m.companyId === companyId);
+  }
+  
+  // Replaces the company's whole set of rules
+  async savePriceBookMarkups(companyId: number, rules: PriceBookMarkupRules): Promise<PriceBookMarkup[]> {
+    this.priceBookMarkups = this.priceBookMarkups.filter(m => m.companyId !== companyId);
+    const saved = rules.map(rule => ({
+      id: this.priceBookMarkupIdCounter++,
+      companyId,
+      category: rule.category,
+      markupPercent: rule.markupPercent
+    }));
+    this.priceBookMarkups.push(...saved);
+    return saved;
+  }
+  
   // Training data operations
   async getTrainingData(id: number): Promise<TrainingData | undefined> {
     return this.trainingData.find(td => td.id === id);
@@ -503,7 +1336,12 @@ class MemStorage implements IStorage {
       timestamp: insertData.timestamp || new Date(),
       tags: insertData.tags || null,
       category: insertData.category || null,
-      quality: insertData.quality || null
+      quality: insertData.quality || null,
+      source: insertData.source || 'manual',
+      status: insertData.status || 'approved',
+      rating: insertData.rating || null,
+      originalResponse: insertData.originalResponse || null,
+      conversationId: insertData.conversationId || null
     };
     this.trainingData.push(trainingEntry);
     return trainingEntry;
@@ -531,7 +1369,12 @@ class MemStorage implements IStorage {
       timestamp: data.timestamp !== undefined ? data.timestamp : currentData.timestamp,
       tags: data.tags !== undefined ? data.tags : currentData.tags,
       category: data.category !== undefined ? data.category : currentData.category,
-      quality: data.quality !== undefined ? data.quality : currentData.quality
+      quality: data.quality !== undefined ? data.quality : currentData.quality,
+      source: data.source !== undefined ? data.source : currentData.source,
+      status: data.status !== undefined ? data.status : currentData.status,
+      rating: data.rating !== undefined ? data.rating : currentData.rating,
+      originalResponse: data.originalResponse !== undefined ? data.originalResponse : currentData.originalResponse,
+      conversationId: data.conversationId !== undefined ? data.conversationId : currentData.conversationId
     };
     
     this.trainingData[index] = updatedData;
@@ -580,6 +1423,7 @@ class MemStorage implements IStorage {
       name: model.name,
       provider: model.provider,
       baseModel: model.baseModel,
+      description: model.description || null,
       companyId: model.companyId || null,
       isActive: model.isActive !== undefined ? model.isActive : true,
       createdAt: new Date(),
@@ -604,6 +1448,7 @@ class MemStorage implements IStorage {
       name: modelData.name !== undefined ? modelData.name : currentModel.name,
       provider: modelData.provider !== undefined ? modelData.provider : currentModel.provider,
       baseModel: modelData.baseModel !== undefined ? modelData.baseModel : currentModel.baseModel,
+      description: modelData.description !== undefined ? modelData.description : currentModel.description,
       companyId: modelData.companyId !== undefined ? modelData.companyId : currentModel.companyId,
       isActive: modelData.isActive !== undefined ? modelData.isActive : currentModel.isActive,
       updatedAt: new Date(),
@@ -720,6 +1565,51 @@ class MemStorage implements IStorage {
     this.passwordResetTokens = this.passwordResetTokens.filter(t => t.token !== token);
   }
   
+  // Two-factor authentication operations
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentials.find(c => c.userId === userId);
+  }
+  
+  async saveTwoFactorCredential(userId: number, data: Partial<InsertTwoFactorCredential>): Promise<TwoFactorCredential> {
+    const index = this.twoFactorCredentials.findIndex(c => c.userId === userId);
+    if (index !== -1) {
+      const updated = { ...this.twoFactorCredentials[index], ...data, userId, updatedAt: new Date() };
+      this.twoFactorCredentials[index] = updated;
+      return updated;
+    }
+    
+    const now = new Date();
+    const credential: TwoFactorCredential = {
+      id: this.twoFactorCredentialIdCounter++,
+      userId,
+      secret: data.secret ?? "",
+      backupCodes: data.backupCodes ?? [],
+      lastUsedStep: data.lastUsedStep ?? null,
+      failedAttempts: data.failedAttempts ?? 0,
+      lockedUntil: data.lockedUntil ?? null,
+      enabledAt: data.enabledAt ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.twoFactorCredentials.push(credential);
+    return credential;
+  }
+  
+  async updateTwoFactorCredential(userId: number, data: Partial<InsertTwoFactorCredential>, expected?: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const index = this.twoFactorCredentials.findIndex(c => c.userId === userId);
+    if (index === -1 || !stillMatches(this.twoFactorCredentials[index], expected)) return undefined;
+    
+    const updated = { ...this.twoFactorCredentials[index], ...data, userId, updatedAt: new Date() };
+    this.twoFactorCredentials[index] = updated;
+    return updated;
+  }
+  
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    const initialLength = this.twoFactorCredentials.length;
+    this.twoFactorCredentials = this.twoFactorCredentials.filter(c => c.userId !== userId);
+    return this.twoFactorCredentials.length < initialLength;
+  }
+  
   // Fine-tuning operations
   async getFinetuningSession(id: number): Promise<FinetuningSession | undefined> {
     return this.finetuningSessions.find(s => s.id === id);
@@ -736,8 +1626,10 @@ class MemStorage implements IStorage {
       companyId: session.companyId || null,
       userId: session.userId || null,
       status: session.status || "running",
+      providerJobId: session.providerJobId || null,
+      progress: session.progress ?? 0,
       startedAt: new Date(),
-      completedAt: null,
+      completedAt: session.completedAt || null,
       datasetSize: session.datasetSize,
       trainingHyperparams: session.trainingHyperparams || null,
       resultMetrics: session.resultMetrics || null,
@@ -755,7 +1647,8 @@ class MemStorage implements IStorage {
     const updatedSession: FinetuningSession = {
       ...currentSession,
       ...sessionData,
-      completedAt: sessionData.status === "completed" ? new Date() : currentSession.completedAt,
+      completedAt: sessionData.completedAt !== undefined ? sessionData.completedAt
+        : sessionData.status === "completed" ? new Date() : currentSession.completedAt,
     };
     
     this.finetuningSessions[index] = updatedSession;
@@ -786,20 +1679,116 @@ class MemStorage implements IStorage {
     return this.finetuningSessions.filter(s => s.status === status);
   }
   
-  // System Prompt operations
-  private systemPrompts: SystemPrompt[] = [];
-  private systemPromptIdCounter = 1;
+  // Document import operations
+  async getDocumentImport(id: number): Promise<DocumentImport | undefined> {
+    return this.documentImports.find(i => i.id === id);
+  }
   
-  async getSystemPrompt(id: number): Promise<SystemPrompt | undefined> {
-    return this.systemPrompts.find(p => p.id === id);
+  async getDocumentImportsByCompanyId(companyId: number): Promise<DocumentImport[]> {
+    return this.documentImports
+      .filter(i => i.companyId === companyId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
   }
   
-  async getActiveSystemPrompt(companyId: number): Promise<SystemPrompt | undefined> {
-    return this.systemPrompts.find(p => p.companyId === companyId && p.isActive);
+  async getDocumentImportsByStatus(status: string): Promise<DocumentImport[]> {
+    return this.documentImports.filter(i => i.status === status);
   }
   
-  async getCoreSystemPrompt(): Promise<SystemPrompt | undefined> {
-    return this.systemPrompts.find(p => p.promptType === "core" && p.isActive);
+  async createDocumentImport(insertImport: InsertDocumentImport): Promise<DocumentImport> {
+    const now = new Date();
+    const documentImport: DocumentImport = {
+      id: this.documentImportIdCounter++,
+      companyId: insertImport.companyId,
+      userId: insertImport.userId ?? null,
+      status: insertImport.status || "pending",
+      totalDocuments: insertImport.totalDocuments,
+      processedDocuments: insertImport.processedDocuments ?? 0,
+      documents: insertImport.documents as DocumentImport['documents'],
+      error: insertImport.error ?? null,
+      createdAt: now,
+      updatedAt: now,
+      confirmedAt: insertImport.confirmedAt ?? null
+    };
+    this.documentImports.push(documentImport);
+    return documentImport;
+  }
+  
+  async updateDocumentImport(id: number, importData: Partial<InsertDocumentImport>, expected?: Partial<DocumentImport>): Promise<DocumentImport | undefined> {
+    const index = this.documentImports.findIndex(i => i.id === id);
+    if (index === -1 || !stillMatches(this.documentImports[index], expected)) return undefined;
+    
+    const updatedImport: DocumentImport = {
+      ...this.documentImports[index],
+      ...importData,
+      documents: (importData.documents ?? this.documentImports[index].documents) as DocumentImport['documents'],
+      updatedAt: new Date()
+    };
+    this.documentImports[index] = updatedImport;
+    return updatedImport;
+  }
+  
+  async deleteDocumentImport(id: number): Promise<boolean> {
+    const index = this.documentImports.findIndex(i => i.id === id);
+    if (index === -1) return false;
+    
+    this.documentImports.splice(index, 1);
+    return true;
+  }
+  
+  // Knowledge index operations
+  async getKnowledgeEmbeddings(companyId: number): Promise<KnowledgeEmbedding[]> {
+    return this.knowledgeEmbeddings.filter(e => e.companyId === companyId);
+  }
+  
+  // One entry per source: saving a source that's already indexed replaces it
+  async saveKnowledgeEmbedding(entry: InsertKnowledgeEmbedding): Promise<KnowledgeEmbedding> {
+    const index = this.knowledgeEmbeddings.findIndex(e =>
+      e.companyId === entry.companyId && e.sourceType === entry.sourceType && e.sourceId === entry.sourceId
+    );
+    const saved: KnowledgeEmbedding = {
+      id: index === -1 ? this.knowledgeEmbeddingIdCounter++ : this.knowledgeEmbeddings[index].id,
+      companyId: entry.companyId,
+      sourceType: entry.sourceType,
+      sourceId: entry.sourceId,
+      title: entry.title,
+      content: entry.content,
+      contentHash: entry.contentHash,
+      metadata: entry.metadata ?? null,
+      embeddingModel: entry.embeddingModel,
+      embedding: entry.embedding,
+      updatedAt: new Date()
+    };
+    
+    if (index === -1) {
+      this.knowledgeEmbeddings.push(saved);
+    } else {
+      this.knowledgeEmbeddings[index] = saved;
+    }
+    return saved;
+  }
+  
+  async deleteKnowledgeEmbedding(id: number): Promise<boolean> {
+    const index = this.knowledgeEmbeddings.findIndex(e => e.id === id);
+    if (index === -1) return false;
+    
+    this.knowledgeEmbeddings.splice(index, 1);
+    return true;
+  }
+  
+  // System Prompt operations
+  private systemPrompts: SystemPrompt[] = [];
+  private systemPromptIdCounter = 1;
+  
+  async getSystemPrompt(id: number): Promise<SystemPrompt | undefined> {
+    return this.systemPrompts.find(p => p.id === id);
+  }
+  
+  async getActiveSystemPrompt(companyId: number): Promise<SystemPrompt | undefined> {
+    return this.systemPrompts.find(p => p.companyId === companyId && p.isActive);
+  }
+  
+  async getCoreSystemPrompt(): Promise<SystemPrompt | undefined> {
+    return this.systemPrompts.find(p => p.promptType === "core" && p.isActive);
   }
   
   async getIndustrySystemPrompt(industryId: number): Promise<SystemPrompt | undefined> {
@@ -884,6 +1873,159 @@ class MemStorage implements IStorage {
     return this.systemPrompts.filter(p => p.companyId === companyId);
   }
 
+  // Prompt evaluation operations
+  private promptEvalCases: PromptEvalCase[] = [];
+  private promptEvalCaseIdCounter = 1;
+  private promptEvalRuns: PromptEvalRun[] = [];
+  private promptEvalRunIdCounter = 1;
+
+  async getPromptEvalCase(id: number): Promise<PromptEvalCase | undefined> {
+    return this.promptEvalCases.find(c => c.id === id);
+  }
+
+  async getAllPromptEvalCases(): Promise<PromptEvalCase[]> {
+    return [...this.promptEvalCases];
+  }
+
+  async createPromptEvalCase(evalCase: InsertPromptEvalCase): Promise<PromptEvalCase> {
+    const now = new Date();
+    const newCase: PromptEvalCase = {
+      id: this.promptEvalCaseIdCounter++,
+      name: evalCase.name,
+      industryId: evalCase.industryId ?? null,
+      description: evalCase.description,
+      expectedLineItems: evalCase.expectedLineItems as PromptEvalCase['expectedLineItems'],
+      minTotal: evalCase.minTotal ?? null,
+      maxTotal: evalCase.maxTotal ?? null,
+      isActive: evalCase.isActive ?? true,
+      createdBy: evalCase.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.promptEvalCases.push(newCase);
+    return newCase;
+  }
+
+  async updatePromptEvalCase(id: number, caseData: Partial<InsertPromptEvalCase>): Promise<PromptEvalCase | undefined> {
+    const index = this.promptEvalCases.findIndex(c => c.id === id);
+    if (index === -1) return undefined;
+
+    const updatedCase: PromptEvalCase = {
+      ...this.promptEvalCases[index],
+      ...caseData,
+      expectedLineItems: (caseData.expectedLineItems ?? this.promptEvalCases[index].expectedLineItems) as PromptEvalCase['expectedLineItems'],
+      updatedAt: new Date()
+    };
+    this.promptEvalCases[index] = updatedCase;
+    return updatedCase;
+  }
+
+  async deletePromptEvalCase(id: number): Promise<boolean> {
+    const index = this.promptEvalCases.findIndex(c => c.id === id);
+    if (index === -1) return false;
+
+    this.promptEvalCases.splice(index, 1);
+    return true;
+  }
+
+  async getPromptEvalRun(id: number): Promise<PromptEvalRun | undefined> {
+    return this.promptEvalRuns.find(r => r.id === id);
+  }
+
+  async getAllPromptEvalRuns(): Promise<PromptEvalRun[]> {
+    return [...this.promptEvalRuns].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getPromptEvalRunsByStatus(status: string): Promise<PromptEvalRun[]> {
+    return this.promptEvalRuns.filter(r => r.status === status);
+  }
+
+  async createPromptEvalRun(run: InsertPromptEvalRun): Promise<PromptEvalRun> {
+    const newRun: PromptEvalRun = {
+      id: this.promptEvalRunIdCounter++,
+      name: run.name ?? null,
+      industryId: run.industryId ?? null,
+      corePromptId: run.corePromptId ?? null,
+      industryPromptId: run.industryPromptId ?? null,
+      corePrompt: run.corePrompt ?? null,
+      industryPrompt: run.industryPrompt ?? null,
+      provider: run.provider,
+      model: run.model,
+      status: run.status || "pending",
+      caseIds: run.caseIds,
+      completedCases: run.completedCases ?? 0,
+      scores: (run.scores ?? null) as PromptEvalRun['scores'],
+      results: run.results as PromptEvalRun['results'],
+      error: run.error ?? null,
+      createdBy: run.createdBy ?? null,
+      createdAt: new Date(),
+      completedAt: run.completedAt ?? null
+    };
+    this.promptEvalRuns.push(newRun);
+    return newRun;
+  }
+
+  async updatePromptEvalRun(id: number, runData: Partial<InsertPromptEvalRun>): Promise<PromptEvalRun | undefined> {
+    const index = this.promptEvalRuns.findIndex(r => r.id === id);
+    if (index === -1) return undefined;
+
+    const currentRun = this.promptEvalRuns[index];
+    const updatedRun: PromptEvalRun = {
+      ...currentRun,
+      ...runData,
+      scores: (runData.scores !== undefined ? runData.scores : currentRun.scores) as PromptEvalRun['scores'],
+      results: (runData.results ?? currentRun.results) as PromptEvalRun['results']
+    };
+    this.promptEvalRuns[index] = updatedRun;
+    return updatedRun;
+  }
+
+  async deletePromptEvalRun(id: number): Promise<boolean> {
+    const index = this.promptEvalRuns.findIndex(r => r.id === id);
+    if (index === -1) return false;
+
+    this.promptEvalRuns.splice(index, 1);
+    return true;
+  }
+
+  // Audit log operations
+  private auditEvents: AuditEvent[] = [];
+  private auditEventIdCounter = 1;
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const newEvent: AuditEvent = {
+      id: this.auditEventIdCounter++,
+      actorId: event.actorId ?? null,
+      actorName: event.actorName ?? null,
+      companyId: event.companyId ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      changes: event.changes as AuditEvent['changes'],
+      ipAddress: event.ipAddress ?? null,
+      userAgent: event.userAgent ?? null,
+      createdAt: new Date()
+    };
+    this.auditEvents.push(newEvent);
+    return newEvent;
+  }
+
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    const matches = this.auditEvents.filter(e =>
+      (filter.companyId === undefined || e.companyId === filter.companyId) &&
+      (filter.actorId === undefined || e.actorId === filter.actorId) &&
+      (filter.action === undefined || e.action === filter.action) &&
+      (filter.entityType === undefined || e.entityType === filter.entityType) &&
+      (filter.entityId === undefined || e.entityId === filter.entityId) &&
+      (filter.from === undefined || e.createdAt >= filter.from) &&
+      (filter.to === undefined || e.createdAt <= filter.to)
+    );
+    const offset = filter.offset ?? 0;
+    return matches
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(offset, filter.limit === undefined ? undefined : offset + filter.limit);
+  }
+
   // User Onboarding operations
   private userOnboardingData: UserOnboarding[] = [];
   private userOnboardingIdCounter = 1;
@@ -1043,7 +2185,7 @@ class DatabaseStorage implements IStorage {
   
   async getUserByEmail(email: string): Promise<User | undefined> {
     if (!db) throw new Error("Database connection not available");
-    const result = await db.select().from(users).where(eq(users.email, email));
+    const result = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
     return result[0];
   }
   
@@ -1231,6 +2373,83 @@ class DatabaseStorage implements IStorage {
     return await db.select().from(companies);
   }
   
+  // Team invitation operations
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(invitations).where(eq(invitations.id, id));
+    return result[0];
+  }
+  
+  async getInvitationByToken(token: string): Promise<Invitation | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(invitations).where(eq(invitations.token, token));
+    return result[0];
+  }
+  
+  async getInvitationsByCompanyId(companyId: number): Promise<Invitation[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(invitations)
+      .where(eq(invitations.companyId, companyId))
+      .orderBy(desc(invitations.createdAt), desc(invitations.id));
+  }
+  
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(invitations).values(invitation).returning();
+    return result[0];
+  }
+  
+  async updateInvitation(id: number, invitation: Partial<InsertInvitation>, expected?: Partial<Invitation>): Promise<Invitation | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(invitations)
+      .set(invitation)
+      .where(and(eq(invitations.id, id), ...matchingColumns(invitations, expected)))
+      .returning();
+    return result[0];
+  }
+  
+  // Custom company role operations
+  async getCompanyRole(id: number): Promise<CompanyRole | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(companyRoles).where(eq(companyRoles.id, id));
+    return result[0];
+  }
+  
+  async getCompanyRoleByName(companyId: number, name: string): Promise<CompanyRole | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(companyRoles)
+      .where(and(eq(companyRoles.companyId, companyId), eq(companyRoles.name, name)));
+    return result[0];
+  }
+  
+  async getCompanyRoles(companyId: number): Promise<CompanyRole[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(companyRoles)
+      .where(eq(companyRoles.companyId, companyId))
+      .orderBy(asc(companyRoles.name));
+  }
+  
+  async createCompanyRole(role: InsertCompanyRole): Promise<CompanyRole> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(companyRoles).values(role as typeof companyRoles.$inferInsert).returning();
+    return result[0];
+  }
+  
+  async updateCompanyRole(id: number, role: Partial<InsertCompanyRole>): Promise<CompanyRole | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(companyRoles)
+      .set({ ...role, updatedAt: new Date() } as Partial<typeof companyRoles.$inferInsert>)
+      .where(eq(companyRoles.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteCompanyRole(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(companyRoles).where(eq(companyRoles.id, id)).returning();
+    return result.length > 0;
+  }
+  
   // Quote operations
   async getQuote(id: number): Promise<Quote | undefined> {
     if (!db) throw new Error("Database connection not available");
@@ -1270,7 +2489,8 @@ class DatabaseStorage implements IStorage {
     }
   }
   
-  async getQuoteByNumber(quoteNumber: string): Promise<Quote | undefined> {
+  // Quote numbers are unique within a company
+  async getQuoteByNumber(companyId: number | null, quoteNumber: string): Promise<Quote | undefined> {
     if (!db) throw new Error("Database connection not available");
     
     try {
@@ -1278,7 +2498,8 @@ class DatabaseStorage implements IStorage {
       const result = await db.execute(
         sql`SELECT id, quote_number, client_name, description, amount, date, status, 
             user_id, company_id, xero_quote_id, xero_quote_number, xero_quote_url
-            FROM quotes WHERE quote_number = ${quoteNumber}`
+            FROM quotes WHERE quote_number = ${quoteNumber}
+            AND company_id IS NOT DISTINCT FROM ${companyId}`
       );
       
       if (result.rows.length === 0) {
@@ -1318,11 +2539,53 @@ class DatabaseStorage implements IStorage {
       
       console.log("Creating quote with data:", quoteData);
       
-      const result = await db.insert(quotes).values(quoteData).returning();
+      // Allocate the number and insert together so a failed insert doesn't use up a number
+      const created = await db.transaction(async (tx) => {
+        if (quoteData.quoteNumber) {
+          const result = await tx.insert(quotes).values({ ...quoteData, quoteNumber: quoteData.quoteNumber }).returning();
+          return result[0];
+        }
+        
+        if (!quoteData.companyId) {
+          // Quotes without a company are numbered from their id
+          const [inserted] = await tx.insert(quotes).values({ ...quoteData, quoteNumber: `pending-${randomUUID()}` }).returning();
+          const result = await tx.update(quotes)
+            .set({ quoteNumber: formatQuoteNumber(defaultQuoteNumberFormat, inserted.id) })
+            .where(eq(quotes.id, inserted.id))
+            .returning();
+          return result[0];
+        }
+        
+        // Bumping the counter with an upsert locks the company's sequence row until
+        // the transaction ends, so concurrent quotes can't get the same number.
+        // Numbers already taken (e.g. imported quotes) are skipped.
+        const year = new Date().getFullYear();
+        for (;;) {
+          const [sequence] = await tx.insert(quoteNumberSequences)
+            .values({ companyId: quoteData.companyId, nextNumber: 2, year })
+            .onConflictDoUpdate({
+              target: quoteNumberSequences.companyId,
+              set: {
+                nextNumber: sql`CASE WHEN ${quoteNumberSequences.resetYearly} AND ${quoteNumberSequences.year} IS DISTINCT FROM ${year} THEN 2 ELSE ${quoteNumberSequences.nextNumber} + 1 END`,
+                year,
+                updatedAt: new Date()
+              }
+            })
+            .returning();
+          
+          const quoteNumber = formatQuoteNumber(sequence, sequence.nextNumber - 1, year);
+          const taken = await tx.select({ id: quotes.id }).from(quotes)
+            .where(and(eq(quotes.companyId, quoteData.companyId), eq(quotes.quoteNumber, quoteNumber)));
+          if (taken.length === 0) {
+            const result = await tx.insert(quotes).values({ ...quoteData, quoteNumber }).returning();
+            return result[0];
+          }
+        }
+      });
       
       // Add clientId back to the returned object to match the expected schema
       return {
-        ...result[0],
+        ...created,
         clientId: null
       };
     } catch (error) {
@@ -1331,7 +2594,7 @@ class DatabaseStorage implements IStorage {
     }
   }
   
-  async updateQuote(id: number, quoteData: Partial<InsertQuote>): Promise<Quote | undefined> {
+  async updateQuote(id: number, quoteData: Partial<InsertQuote>, expected?: Partial<Quote>): Promise<Quote | undefined> {
     if (!db) throw new Error("Database connection not available");
     
     try {
@@ -1342,7 +2605,7 @@ class DatabaseStorage implements IStorage {
       
       const result = await db.update(quotes)
         .set(updateData)
-        .where(eq(quotes.id, id))
+        .where(and(eq(quotes.id, id), ...matchingColumns(quotes, expected)))
         .returning();
         
       // Add clientId back to the returned object to match the expected schema
@@ -1464,6 +2727,364 @@ class DatabaseStorage implements IStorage {
     }
   }
   
+  // Quote numbering operations
+  async getQuoteNumberSequence(companyId: number): Promise<QuoteNumberSequence | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(quoteNumberSequences).where(eq(quoteNumberSequences.companyId, companyId));
+    return result[0];
+  }
+  
+  async saveQuoteNumberSequence(companyId: number, settings: Partial<InsertQuoteNumberSequence>): Promise<QuoteNumberSequence> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(quoteNumberSequences)
+      .values({ ...settings, companyId })
+      .onConflictDoUpdate({
+        target: quoteNumberSequences.companyId,
+        set: { ...settings, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+  
+  // Quote line item operations
+  async getQuoteLineItem(id: number): Promise<QuoteLineItem | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(quoteLineItems).where(eq(quoteLineItems.id, id));
+    return result[0];
+  }
+  
+  async getQuoteLineItems(quoteId: number): Promise<QuoteLineItem[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(quoteLineItems)
+      .where(eq(quoteLineItems.quoteId, quoteId))
+      .orderBy(asc(quoteLineItems.sortOrder), asc(quoteLineItems.id));
+  }
+  
+  async getQuoteLineItemsByQuoteIds(quoteIds: number[]): Promise<QuoteLineItem[]> {
+    if (!db) throw new Error("Database connection not available");
+    if (quoteIds.length === 0) return [];
+    return await db.select().from(quoteLineItems)
+      .where(sql`${quoteLineItems.quoteId} IN ${quoteIds}`)
+      .orderBy(asc(quoteLineItems.sortOrder), asc(quoteLineItems.id));
+  }
+  
+  async createQuoteLineItem(item: InsertQuoteLineItem): Promise<QuoteLineItem> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(quoteLineItems).values(item).returning();
+    return result[0];
+  }
+  
+  async updateQuoteLineItem(id: number, item: Partial<InsertQuoteLineItem>): Promise<QuoteLineItem | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(quoteLineItems)
+      .set({ ...item, updatedAt: new Date() })
+      .where(eq(quoteLineItems.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteQuoteLineItem(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(quoteLineItems).where(eq(quoteLineItems.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async replaceQuoteLineItems(quoteId: number, items: InsertQuoteLineItem[]): Promise<QuoteLineItem[]> {
+    if (!db) throw new Error("Database connection not available");
+    
+    // Swap the whole set in one transaction so a failed insert never leaves a quote half-emptied
+    return await db.transaction(async (tx) => {
+      await tx.delete(quoteLineItems).where(eq(quoteLineItems.quoteId, quoteId));
+      
+      if (items.length === 0) {
+        return [];
+      }
+      
+      return await tx.insert(quoteLineItems)
+        .values(items.map(item => ({ ...item, quoteId })))
+        .returning();
+    });
+  }
+  
+  // Quote status history operations
+  async getQuoteStatusEvents(quoteId: number): Promise<QuoteStatusEvent[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(quoteStatusEvents)
+      .where(eq(quoteStatusEvents.quoteId, quoteId))
+      .orderBy(asc(quoteStatusEvents.createdAt), asc(quoteStatusEvents.id));
+  }
+  
+  async createQuoteStatusEvent(event: InsertQuoteStatusEvent): Promise<QuoteStatusEvent> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(quoteStatusEvents).values(event).returning();
+    return result[0];
+  }
+  
+  // Quote version operations
+  async getQuoteVersions(quoteId: number): Promise<QuoteVersion[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(quoteVersions)
+      .where(eq(quoteVersions.quoteId, quoteId))
+      .orderBy(desc(quoteVersions.version));
+  }
+  
+  async getQuoteVersion(quoteId: number, version: number): Promise<QuoteVersion | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(quoteVersions)
+      .where(and(eq(quoteVersions.quoteId, quoteId), eq(quoteVersions.version, version)));
+    return result[0];
+  }
+  
+  async createQuoteVersion(version: InsertQuoteVersion): Promise<QuoteVersion> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(quoteVersions).values(version as typeof quoteVersions.$inferInsert).returning();
+    return result[0];
+  }
+  
+  // Quote share link operations
+  async getQuoteShareLink(id: number): Promise<QuoteShareLink | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(quoteShareLinks).where(eq(quoteShareLinks.id, id));
+    return result[0];
+  }
+  
+  async getQuoteShareLinkByToken(token: string): Promise<QuoteShareLink | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(quoteShareLinks).where(eq(quoteShareLinks.token, token));
+    return result[0];
+  }
+  
+  async getQuoteShareLinksByQuoteId(quoteId: number): Promise<QuoteShareLink[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(quoteShareLinks)
+      .where(eq(quoteShareLinks.quoteId, quoteId))
+      .orderBy(desc(quoteShareLinks.createdAt), desc(quoteShareLinks.id));
+  }
+  
+  async createQuoteShareLink(link: InsertQuoteShareLink): Promise<QuoteShareLink> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(quoteShareLinks).values(link).returning();
+    return result[0];
+  }
+  
+  async updateQuoteShareLink(id: number, link: Partial<InsertQuoteShareLink>): Promise<QuoteShareLink | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(quoteShareLinks)
+      .set(link)
+      .where(eq(quoteShareLinks.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  // Outbound email log operations
+  async getOutboundEmailsByQuoteId(quoteId: number): Promise<OutboundEmail[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(outboundEmails)
+      .where(eq(outboundEmails.quoteId, quoteId))
+      .orderBy(desc(outboundEmails.createdAt), desc(outboundEmails.id));
+  }
+  
+  async createOutboundEmail(email: InsertOutboundEmail): Promise<OutboundEmail> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(outboundEmails).values(email as typeof outboundEmails.$inferInsert).returning();
+    return result[0];
+  }
+  
+  // Conversation operations
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(conversations).where(eq(conversations.id, id));
+    return result[0];
+  }
+  
+  async getConversationsByCompanyId(companyId: number): Promise<Conversation[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(conversations)
+      .where(eq(conversations.companyId, companyId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+  
+  async getConversationsByQuoteId(quoteId: number): Promise<Conversation[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(conversations)
+      .where(eq(conversations.quoteId, quoteId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+  
+  async getConversationsByClientId(clientId: number): Promise<Conversation[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(conversations)
+      .where(eq(conversations.clientId, clientId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+  
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(conversations).values(conversation).returning();
+    return result[0];
+  }
+  
+  async updateConversation(id: number, conversation: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(conversations)
+      .set({ ...conversation, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteConversation(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(conversations).where(eq(conversations.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async getConversationMessages(conversationId: number): Promise<ConversationMessage[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(asc(conversationMessages.id));
+  }
+  
+  async createConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(conversationMessages).values(message).returning();
+    
+    // Keep the thread's last activity current so lists sort by recency
+    await db.update(conversations)
+      .set({ updatedAt: result[0].createdAt })
+      .where(eq(conversations.id, message.conversationId));
+    
+    return result[0];
+  }
+  
+  // Quote template operations
+  async getQuoteTemplate(id: number): Promise<QuoteTemplate | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(quoteTemplates).where(eq(quoteTemplates.id, id));
+    return result[0];
+  }
+  
+  async getQuoteTemplatesByCompanyId(companyId: number): Promise<QuoteTemplate[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(quoteTemplates)
+      .where(eq(quoteTemplates.companyId, companyId))
+      .orderBy(asc(quoteTemplates.id));
+  }
+  
+  async getDefaultQuoteTemplate(companyId: number): Promise<QuoteTemplate | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(quoteTemplates)
+      .where(and(eq(quoteTemplates.companyId, companyId), eq(quoteTemplates.isDefault, true)));
+    return result[0];
+  }
+  
+  async createQuoteTemplate(template: InsertQuoteTemplate): Promise<QuoteTemplate> {
+    if (!db) throw new Error("Database connection not available");
+    
+    // Only one default template per company
+    return await db.transaction(async (tx) => {
+      if (template.isDefault) {
+        await tx.update(quoteTemplates)
+          .set({ isDefault: false })
+          .where(eq(quoteTemplates.companyId, template.companyId));
+      }
+      
+      const result = await tx.insert(quoteTemplates).values(template).returning();
+      return result[0];
+    });
+  }
+  
+  async updateQuoteTemplate(id: number, templateData: Partial<InsertQuoteTemplate>): Promise<QuoteTemplate | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    
+    return await db.transaction(async (tx) => {
+      if (templateData.isDefault) {
+        const current = await tx.select().from(quoteTemplates).where(eq(quoteTemplates.id, id));
+        if (current[0]) {
+          await tx.update(quoteTemplates)
+            .set({ isDefault: false })
+            .where(eq(quoteTemplates.companyId, current[0].companyId));
+        }
+      }
+      
+      const result = await tx.update(quoteTemplates)
+        .set({ ...templateData, updatedAt: new Date() })
+        .where(eq(quoteTemplates.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+  
+  async deleteQuoteTemplate(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(quoteTemplates).where(eq(quoteTemplates.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Price book operations
+  async getPriceBookItem(id: number): Promise<PriceBookItem | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(priceBookItems).where(eq(priceBookItems.id, id));
+    return result[0];
+  }
+  
+  async getPriceBookItemsByCompanyId(companyId: number): Promise<PriceBookItem[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(priceBookItems)
+      .where(eq(priceBookItems.companyId, companyId))
+      .orderBy(asc(priceBookItems.name));
+  }
+  
+  async getPriceBookItemBySku(companyId: number, sku: string): Promise<PriceBookItem | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(priceBookItems)
+      .where(and(eq(priceBookItems.companyId, companyId), eq(priceBookItems.sku, sku)));
+    return result[0];
+  }
+  
+  async createPriceBookItem(item: InsertPriceBookItem): Promise<PriceBookItem> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(priceBookItems).values(item).returning();
+    return result[0];
+  }
+  
+  async updatePriceBookItem(id: number, itemData: Partial<InsertPriceBookItem>): Promise<PriceBookItem | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(priceBookItems)
+      .set({ ...itemData, updatedAt: new Date() })
+      .where(eq(priceBookItems.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  async deletePriceBookItem(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(priceBookItems).where(eq(priceBookItems.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async getPriceBookMarkups(companyId: number): Promise<PriceBookMarkup[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(priceBookMarkups).where(eq(priceBookMarkups.companyId, companyId));
+  }
+  
+  async savePriceBookMarkups(companyId: number, rules: PriceBookMarkupRules): Promise<PriceBookMarkup[]> {
+    if (!db) throw new Error("Database connection not available");
+    
+    return await db.transaction(async (tx) => {
+      await tx.delete(priceBookMarkups).where(eq(priceBookMarkups.companyId, companyId));
+      
+      if (rules.length === 0) {
+        return [];
+      }
+      
+      return await tx.insert(priceBookMarkups)
+        .values(rules.map(rule => ({ ...rule, companyId })))
+        .returning();
+    });
+  }
+  
   // Training data operations
   async getTrainingData(id: number): Promise<TrainingData | undefined> {
     if (!db) throw new Error("Database connection not available");
@@ -1629,6 +3250,70 @@ class DatabaseStorage implements IStorage {
     return await db.select().from(finetuningSessions).where(eq(finetuningSessions.status, status));
   }
   
+  // Document import operations
+  async getDocumentImport(id: number): Promise<DocumentImport | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(documentImports).where(eq(documentImports.id, id));
+    return result[0];
+  }
+  
+  async getDocumentImportsByCompanyId(companyId: number): Promise<DocumentImport[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(documentImports)
+      .where(eq(documentImports.companyId, companyId))
+      .orderBy(desc(documentImports.createdAt), desc(documentImports.id));
+  }
+  
+  async getDocumentImportsByStatus(status: string): Promise<DocumentImport[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(documentImports).where(eq(documentImports.status, status));
+  }
+  
+  async createDocumentImport(documentImport: InsertDocumentImport): Promise<DocumentImport> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(documentImports).values(documentImport as typeof documentImports.$inferInsert).returning();
+    return result[0];
+  }
+  
+  async updateDocumentImport(id: number, documentImport: Partial<InsertDocumentImport>, expected?: Partial<DocumentImport>): Promise<DocumentImport | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(documentImports)
+      .set({ ...documentImport, updatedAt: new Date() } as Partial<typeof documentImports.$inferInsert>)
+      .where(and(eq(documentImports.id, id), ...matchingColumns(documentImports, expected)))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteDocumentImport(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(documentImports).where(eq(documentImports.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Knowledge index operations
+  async getKnowledgeEmbeddings(companyId: number): Promise<KnowledgeEmbedding[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(knowledgeEmbeddings).where(eq(knowledgeEmbeddings.companyId, companyId));
+  }
+  
+  async saveKnowledgeEmbedding(entry: InsertKnowledgeEmbedding): Promise<KnowledgeEmbedding> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(knowledgeEmbeddings)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [knowledgeEmbeddings.companyId, knowledgeEmbeddings.sourceType, knowledgeEmbeddings.sourceId],
+        set: { ...entry, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+  
+  async deleteKnowledgeEmbedding(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(knowledgeEmbeddings).where(eq(knowledgeEmbeddings.id, id)).returning();
+    return result.length > 0;
+  }
+  
   // System Prompt operations
   async getSystemPrompt(id: number): Promise<SystemPrompt | undefined> {
     if (!db) throw new Error("Database connection not available");
@@ -1737,6 +3422,103 @@ class DatabaseStorage implements IStorage {
     return await db.select().from(systemPrompts).where(eq(systemPrompts.companyId, companyId));
   }
 
+  // Prompt evaluation operations
+  async getPromptEvalCase(id: number): Promise<PromptEvalCase | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(promptEvalCases).where(eq(promptEvalCases.id, id));
+    return result[0];
+  }
+
+  async getAllPromptEvalCases(): Promise<PromptEvalCase[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(promptEvalCases).orderBy(asc(promptEvalCases.id));
+  }
+
+  async createPromptEvalCase(evalCase: InsertPromptEvalCase): Promise<PromptEvalCase> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(promptEvalCases).values(evalCase as typeof promptEvalCases.$inferInsert).returning();
+    return result[0];
+  }
+
+  async updatePromptEvalCase(id: number, evalCase: Partial<InsertPromptEvalCase>): Promise<PromptEvalCase | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(promptEvalCases)
+      .set({ ...evalCase, updatedAt: new Date() } as Partial<typeof promptEvalCases.$inferInsert>)
+      .where(eq(promptEvalCases.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deletePromptEvalCase(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(promptEvalCases).where(eq(promptEvalCases.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getPromptEvalRun(id: number): Promise<PromptEvalRun | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.select().from(promptEvalRuns).where(eq(promptEvalRuns.id, id));
+    return result[0];
+  }
+
+  async getAllPromptEvalRuns(): Promise<PromptEvalRun[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(promptEvalRuns).orderBy(desc(promptEvalRuns.createdAt), desc(promptEvalRuns.id));
+  }
+
+  async getPromptEvalRunsByStatus(status: string): Promise<PromptEvalRun[]> {
+    if (!db) throw new Error("Database connection not available");
+    return await db.select().from(promptEvalRuns).where(eq(promptEvalRuns.status, status));
+  }
+
+  async createPromptEvalRun(run: InsertPromptEvalRun): Promise<PromptEvalRun> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(promptEvalRuns).values(run as typeof promptEvalRuns.$inferInsert).returning();
+    return result[0];
+  }
+
+  async updatePromptEvalRun(id: number, run: Partial<InsertPromptEvalRun>): Promise<PromptEvalRun | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.update(promptEvalRuns)
+      .set(run as Partial<typeof promptEvalRuns.$inferInsert>)
+      .where(eq(promptEvalRuns.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deletePromptEvalRun(id: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.delete(promptEvalRuns).where(eq(promptEvalRuns.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Audit log operations
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db.insert(auditEvents).values(event as typeof auditEvents.$inferInsert).returning();
+    return result[0];
+  }
+
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    if (!db) throw new Error("Database connection not available");
+    const conditions: SQL[] = [];
+    if (filter.companyId !== undefined) conditions.push(eq(auditEvents.companyId, filter.companyId));
+    if (filter.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filter.actorId));
+    if (filter.action !== undefined) conditions.push(eq(auditEvents.action, filter.action));
+    if (filter.entityType !== undefined) conditions.push(eq(auditEvents.entityType, filter.entityType));
+    if (filter.entityId !== undefined) conditions.push(eq(auditEvents.entityId, filter.entityId));
+    if (filter.from !== undefined) conditions.push(gte(auditEvents.createdAt, filter.from));
+    if (filter.to !== undefined) conditions.push(lte(auditEvents.createdAt, filter.to));
+
+    const query = db.select().from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .$dynamic();
+    if (filter.limit !== undefined) query.limit(filter.limit);
+    if (filter.offset) query.offset(filter.offset);
+    return query;
+  }
+
   // User Onboarding operations
   async getUserOnboarding(userId: number): Promise<UserOnboarding | undefined> {
     if (!db) throw new Error("Database connection not available");
@@ -1819,6 +3601,46 @@ class DatabaseStorage implements IStorage {
       .where(eq(passwordResetTokens.token, token));
   }
   
+  // Two-factor authentication operations
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db
+      .select()
+      .from(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId));
+    return result[0];
+  }
+  
+  async saveTwoFactorCredential(userId: number, data: Partial<InsertTwoFactorCredential>): Promise<TwoFactorCredential> {
+    if (!db) throw new Error("Database connection not available");
+    const values = { ...data, userId, updatedAt: new Date() } as typeof twoFactorCredentials.$inferInsert;
+    const result = await db
+      .insert(twoFactorCredentials)
+      .values(values)
+      .onConflictDoUpdate({ target: twoFactorCredentials.userId, set: values })
+      .returning();
+    return result[0];
+  }
+  
+  async updateTwoFactorCredential(userId: number, data: Partial<InsertTwoFactorCredential>, expected?: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db
+      .update(twoFactorCredentials)
+      .set({ ...data, userId, updatedAt: new Date() } as Partial<typeof twoFactorCredentials.$inferInsert>)
+      .where(and(eq(twoFactorCredentials.userId, userId), ...matchingColumns(twoFactorCredentials, expected)))
+      .returning();
+    return result[0];
+  }
+  
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    if (!db) throw new Error("Database connection not available");
+    const result = await db
+      .delete(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    return result.length > 0;
+  }
+  
   // Xero operations
   async saveXeroToken(tokenData: XeroTokenData): Promise<XeroTokenData> {
     if (!db) throw new Error("Database connection not available");
@@ -1991,5 +3813,5 @@ export class StorageFactory {
   }
 }
 
-// Create a storage instance using the factory
-export const storage = StorageFactory.getStorage();
+// Create a storage instance using the factory, recording audited changes
+export const storage = withAuditTrail(StorageFactory.getStorage());
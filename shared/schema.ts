@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, uuid, doublePrecision, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +6,7 @@ import { z } from "zod";
 // - "admin" (system administrator)
 // - "owner" (company account owner)
 // - "member" (team member within a company)
+// - or the name of one of the company's custom roles (see companyRoles)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -31,6 +32,64 @@ export const companies = pgTable("companies", {
   isActive: boolean("is_active").notNull().default(true),
 });
 
+// Roles an owner can invite someone into their company with
+export const invitationRoles = ["owner", "member"] as const;
+export type InvitationRole = typeof invitationRoles[number];
+
+// Emailed invitations to join a company. The token is the only credential on the accept link.
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  email: text("email").notNull(),
+  role: text("role").notNull().default("member"), // owner or member
+  token: text("token").notNull().unique(),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  sentAt: timestamp("sent_at"), // Last time the invitation email went out
+  sendCount: integer("send_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Named permissions checked by the policy in server/lib/permissions.ts.
+// Company permissions can be granted by custom roles; system:admin cannot.
+export const companyPermissions = [
+  "quotes:read-all", // work on teammates' quotes, not just your own
+  "quotes:approve", // send quotes to clients and mark them accepted
+  "clients:read",
+  "clients:edit",
+  "pricebook:edit",
+  "prompts:edit", // the company's own system prompts
+  "training:review", // approve, edit, import and export training data
+  "ai:manage", // the company's AI models and fine-tuning
+  "company:edit", // company details, logo, templates and numbering
+  "users:invite",
+  "roles:manage",
+  "xero:export",
+  "audit:read", // the company's audit log
+] as const;
+export const permissions = [...companyPermissions, "system:admin"] as const;
+export type CompanyPermission = typeof companyPermissions[number];
+export type Permission = typeof permissions[number];
+
+export const builtInRoles = ["admin", "owner", "member"] as const;
+export type BuiltInRole = typeof builtInRoles[number];
+
+// Roles a company defines for itself; users.role holds the role's name
+export const companyRoles = pgTable("company_roles", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<CompanyPermission[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  companyRoleNameUnique: unique("company_roles_company_id_name_unique").on(table.companyId, table.name),
+}));
+
 // Client table to store company and contact information
 export const clients = pgTable("clients", {
   id: serial("id").primaryKey(),
@@ -48,9 +107,44 @@ export const clients = pgTable("clients", {
   xeroContactId: text("xero_contact_id"),
 });
 
+// Quote lifecycle: draft → sent → viewed → accepted/declined/expired → invoiced
+export const quoteStatuses = ["draft", "sent", "viewed", "accepted", "declined", "expired", "invoiced"] as const;
+export type QuoteStatus = typeof quoteStatuses[number];
+
+// The statuses a quote may move to from each status
+export const quoteStatusTransitions: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ["sent"],
+  sent: ["viewed", "accepted", "declined", "expired"],
+  viewed: ["accepted", "declined", "expired"],
+  accepted: ["invoiced"],
+  declined: ["draft"], // Reopen for revision
+  expired: ["draft"],
+  invoiced: [],
+};
+
+// Older rows and clients used other casings and names for the same states
+const legacyQuoteStatuses: Record<string, QuoteStatus> = {
+  pending: "draft",
+  approved: "accepted",
+  rejected: "declined",
+};
+
+/**
+ * Map a status string from any source onto the canonical lifecycle,
+ * or undefined if it isn't a known status
+ */
+export function normalizeQuoteStatus(status: string | null | undefined): QuoteStatus | undefined {
+  if (!status) return undefined;
+  const value = status.trim().toLowerCase();
+  if ((quoteStatuses as readonly string[]).includes(value)) {
+    return value as QuoteStatus;
+  }
+  return legacyQuoteStatuses[value];
+}
+
 export const quotes = pgTable("quotes", {
   id: serial("id").primaryKey(),
-  quoteNumber: text("quote_number").notNull().unique(),
+  quoteNumber: text("quote_number").notNull(), // Unique within the company, see quoteNumberSequences
   clientId: integer("client_id").references(() => clients.id),
   clientName: text("client_name").notNull(), // Keep for backward compatibility
   description: text("description"),
@@ -62,8 +156,194 @@ export const quotes = pgTable("quotes", {
   xeroQuoteId: text("xero_quote_id"),
   xeroQuoteNumber: text("xero_quote_number"),
   xeroQuoteUrl: text("xero_quote_url"),
+}, (table) => ({
+  companyQuoteNumberUnique: unique("quotes_company_quote_number_unique").on(table.companyId, table.quoteNumber),
+}));
+
+// Per-company quote numbering. The defaults give numbers like Q-2026-0001.
+export const quoteNumberSequences = pgTable("quote_number_sequences", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull().unique(),
+  prefix: text("prefix").notNull().default("Q-"),
+  includeYear: boolean("include_year").notNull().default(true),
+  padding: integer("padding").notNull().default(4), // Digits the counter is zero-padded to
+  resetYearly: boolean("reset_yearly").notNull().default(true),
+  nextNumber: integer("next_number").notNull().default(1),
+  year: integer("year"), // Year the counter belongs to, for yearly resets
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type QuoteNumberFormat = Pick<typeof quoteNumberSequences.$inferSelect, 'prefix' | 'includeYear' | 'padding'>;
+
+export const defaultQuoteNumberFormat: QuoteNumberFormat = { prefix: "Q-", includeYear: true, padding: 4 };
+
+/**
+ * Render a counter value in a company's numbering format, e.g. Q-2026-0042
+ */
+export function formatQuoteNumber(format: QuoteNumberFormat, counter: number, year = new Date().getFullYear()): string {
+  return `${format.prefix}${format.includeYear ? `${year}-` : ""}${String(counter).padStart(format.padding, "0")}`;
+}
+
+// Structured line items belonging to a quote. The quote's amount is derived from these.
+export const quoteLineItems = pgTable("quote_line_items", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "cascade" }).notNull(),
+  description: text("description").notNull(),
+  quantity: doublePrecision("quantity").notNull().default(1),
+  unitPrice: doublePrecision("unit_price").notNull().default(0),
+  unit: text("unit"), // e.g. "hour", "each", "m2"
+  taxRate: doublePrecision("tax_rate").notNull().default(0), // Percentage, e.g. 15 for 15% GST
+  sortOrder: integer("sort_order").notNull().default(0),
+  category: text("category"), // Optional grouping, e.g. "labour", "material"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Audit trail of quote status changes
+export const quoteStatusEvents = pgTable("quote_status_events", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status"), // Null for the status a quote was created with
+  toStatus: text("to_status").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  source: text("source").notNull().default("user"), // "user", "client" (acceptance portal) or "system"
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Line item as captured in a quote version snapshot
+export interface QuoteVersionLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  unit: string | null;
+  taxRate: number;
+  category: string | null;
+  sortOrder: number;
+}
+
+// Immutable snapshots of a quote once it has been sent, so revisions can be compared and restored
+export const quoteVersions = pgTable("quote_versions", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(), // 1, 2, 3... per quote
+  quoteNumber: text("quote_number").notNull(),
+  clientName: text("client_name").notNull(),
+  description: text("description"),
+  amount: integer("amount").notNull().default(0),
+  date: timestamp("date").notNull(),
+  status: text("status").notNull(), // Quote status when the snapshot was taken
+  lineItems: jsonb("line_items").$type<QuoteVersionLineItem[]>().notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  note: text("note"), // Why the version was taken, e.g. "Sent to client" or "Restored version 2"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  versionUnique: unique("quote_versions_quote_id_version_unique").on(table.quoteId, table.version),
+}));
+
+// Unauthenticated links customers use to view and accept or decline a quote (/q/:token)
+export const quoteShareLinks = pgTable("quote_share_links", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "cascade" }).notNull(),
+  token: text("token").notNull().unique(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  firstViewedAt: timestamp("first_viewed_at"),
+  lastViewedAt: timestamp("last_viewed_at"),
+  response: text("response"), // "accepted" or "declined"
+  signatureName: text("signature_name"), // Typed signature given on acceptance
+  declineReason: text("decline_reason"),
+  respondedAt: timestamp("responded_at"),
+  respondedIp: text("responded_ip"),
+  respondedUserAgent: text("responded_user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Log of every email the app sends to customers, successful or not
+export const outboundEmails = pgTable("outbound_emails", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "set null" }),
+  companyId: integer("company_id").references(() => companies.id),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Who sent it
+  toAddress: text("to_address").notNull(),
+  fromAddress: text("from_address").notNull(),
+  subject: text("subject").notNull(),
+  kind: text("kind").notNull().default("quote"), // What the email was for, e.g. "quote"
+  transport: text("transport").notNull(), // "mailgun", "smtp", "file" or "console"
+  status: text("status").notNull(), // "sent" or "failed"
+  messageId: text("message_id"), // Provider's id, for matching delivery reports
+  error: text("error"),
+  attachments: jsonb("attachments").$type<string[]>(), // Attached file names
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Persisted AI quote-chat threads, so an estimator can resume a negotiation later
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull().default("New conversation"),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").references(() => clients.id, { onDelete: "set null" }),
+  userId: integer("user_id").references(() => users.id),
+  companyId: integer("company_id").references(() => companies.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const conversationMessages = pgTable("conversation_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  role: text("role").notNull(), // "user" or "assistant"
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Branded layouts used when rendering quotes as PDF documents
+export const quoteTemplates = pgTable("quote_templates", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  headerText: text("header_text"), // Shown under the company name, e.g. address or tagline
+  footerText: text("footer_text"),
+  primaryColor: text("primary_color").notNull().default("#111827"), // Hex colour for headings and table header
+  accentColor: text("accent_color").notNull().default("#6b7280"),
+  termsText: text("terms_text"),
+  showLogo: boolean("show_logo").notNull().default(true),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// The items, services and labour rates a company charges for, used to price AI-drafted quotes
+export const priceBookItems = pgTable("price_book_items", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  sku: text("sku"), // Optional, unique within the company
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category").notNull().default("material"), // labour, material, equipment, other; labour rates are labour items priced per hour
+  unit: text("unit"), // e.g. "hour", "each", "m2"
+  cost: doublePrecision("cost"), // What the company pays, excluding tax
+  sellPrice: doublePrecision("sell_price"), // Fixed price excluding tax; when null, cost plus markup
+  markupPercent: doublePrecision("markup_percent"), // Overrides the category's markup rule
+  taxable: boolean("taxable").notNull().default(true),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  skuUnique: unique("price_book_items_sku_unique").on(table.companyId, table.sku),
+}));
+
+// Default markup on cost for each price book category
+export const priceBookMarkups = pgTable("price_book_markups", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  category: text("category").notNull(),
+  markupPercent: doublePrecision("markup_percent").notNull(),
+}, (table) => ({
+  categoryUnique: unique("price_book_markups_category_unique").on(table.companyId, table.category),
+}));
+
 export const trainingData = pgTable("training_data", {
   id: serial("id").primaryKey(),
   prompt: text("prompt").notNull(),
@@ -73,7 +353,13 @@ export const trainingData = pgTable("training_data", {
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   tags: text("tags").array(),
   category: text("category"),
-  quality: integer("quality"),
+  quality: integer("quality"), // 1 (poor) to 5 (gold)
+  source: text("source").notNull().default("manual"), // "manual", "chat_feedback", "import" or "document"
+  // Feedback from chat waits for review; only approved examples are used for fine-tuning and grounding
+  status: text("status").notNull().default("approved"), // "pending" or "approved"
+  rating: text("rating"), // "up" or "down" for chat feedback
+  originalResponse: text("original_response"), // The AI's answer when the response is a correction of it
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
 });
 
 export const aiModels = pgTable("ai_models", {
@@ -81,6 +367,7 @@ export const aiModels = pgTable("ai_models", {
   name: text("name").notNull(),
   provider: text("provider").notNull(), // 'openai', 'anthropic', etc.
   baseModel: text("base_model").notNull(), // gpt-4o, claude-3-7-sonnet, etc.
+  description: text("description"),
   companyId: integer("company_id").references(() => companies.id),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -97,7 +384,9 @@ export const finetuningSessions = pgTable("finetuning_sessions", {
   modelId: integer("model_id").references(() => aiModels.id),
   companyId: integer("company_id").references(() => companies.id),
   userId: integer("user_id").references(() => users.id),
-  status: text("status").notNull().default("running"),
+  status: text("status").notNull().default("running"), // pending, running, completed, failed
+  providerJobId: text("provider_job_id"), // Job ID at the fine-tuning provider once submitted
+  progress: integer("progress").notNull().default(0), // 0-100
   startedAt: timestamp("started_at").notNull().defaultNow(),
   completedAt: timestamp("completed_at"),
   datasetSize: integer("dataset_size").notNull(),
@@ -106,6 +395,55 @@ export const finetuningSessions = pgTable("finetuning_sessions", {
   error: text("error"),
 });
 
+export const documentImportStatuses = ["pending", "processing", "ready", "confirming", "confirmed", "failed"] as const;
+export type DocumentImportStatus = typeof documentImportStatuses[number];
+
+// One file (or spreadsheet sheet) in a document import
+export interface ImportedDocument {
+  name: string;
+  text: string;
+  status: "pending" | "extracted" | "failed";
+  quote?: HistoricalQuote; // What the AI read from it, as edited before confirming
+  warnings?: string[];
+  error?: string;
+  quoteId?: number; // The quote created from it on confirmation
+}
+
+// Past quote documents being read by AI in the background, then confirmed into quotes and training data
+export const documentImports = pgTable("document_imports", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("pending"), // pending, processing, ready, confirming, confirmed, failed
+  totalDocuments: integer("total_documents").notNull(),
+  processedDocuments: integer("processed_documents").notNull().default(0),
+  documents: jsonb("documents").$type<ImportedDocument[]>().notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  confirmedAt: timestamp("confirmed_at"),
+});
+
+export const knowledgeSourceTypes = ["quote", "training"] as const;
+export type KnowledgeSourceType = typeof knowledgeSourceTypes[number];
+
+// Embeddings of a company's past quotes and training examples, searched to ground AI answers
+export const knowledgeEmbeddings = pgTable("knowledge_embeddings", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  sourceType: text("source_type").notNull(), // quote, training
+  sourceId: integer("source_id").notNull(),
+  title: text("title").notNull(), // e.g. the quote number, shown when citing the source
+  content: text("content").notNull(), // The text that was embedded
+  contentHash: text("content_hash").notNull(), // Skips re-embedding unchanged sources
+  metadata: jsonb("metadata"),
+  embeddingModel: text("embedding_model").notNull(),
+  embedding: real("embedding").array().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  sourceUnique: unique("knowledge_embeddings_source_unique").on(table.companyId, table.sourceType, table.sourceId),
+}));
+
 export const industries = pgTable("industries", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -130,6 +468,88 @@ export const systemPrompts = pgTable("system_prompts", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+export const promptEvalRunStatuses = ["pending", "running", "completed", "failed"] as const;
+export type PromptEvalRunStatus = typeof promptEvalRunStatuses[number];
+
+// Scores for one evaluation case, or averaged over a run
+export interface PromptEvalScores {
+  lineItemRecall: number; // 0-1, share of the expected line items the draft contained
+  priceDeviation: number; // How far the total fell outside the expected range, as a fraction of the nearest bound; 0 within it
+  formatValidity: number; // 1 if the reply fit the schema first time, 0.5 if it needed a retry, 0 if it never did
+  overall: number; // 0-1, higher is better
+}
+
+export interface PromptEvalCaseResult extends PromptEvalScores {
+  caseId: number;
+  name: string;
+  industryPromptId: number | null; // The industry prompt the case ran with
+  total: number | null; // Draft total excluding tax
+  matched: string[]; // Expected items the draft contained
+  missing: string[]; // Expected items it left out
+  attempts: number;
+  error?: string;
+}
+
+// Golden test cases for the quote drafting prompts: a job description and what a good draft contains
+export const promptEvalCases = pgTable("prompt_eval_cases", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  industryId: integer("industry_id").references(() => industries.id, { onDelete: "cascade" }), // Null applies to every industry
+  description: text("description").notNull(),
+  expectedLineItems: jsonb("expected_line_items").$type<ExpectedLineItem[]>().notNull(),
+  minTotal: doublePrecision("min_total"), // Acceptable range for the draft total excluding tax
+  maxTotal: doublePrecision("max_total"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Scored runs of the evaluation cases against a candidate prompt and model, kept for comparison
+export const promptEvalRuns = pgTable("prompt_eval_runs", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+  industryId: integer("industry_id").references(() => industries.id, { onDelete: "set null" }),
+  corePromptId: integer("core_prompt_id").references(() => systemPrompts.id, { onDelete: "set null" }),
+  industryPromptId: integer("industry_prompt_id").references(() => systemPrompts.id, { onDelete: "set null" }),
+  // The prompt text as it was when the run started, since prompts are edited in place
+  corePrompt: text("core_prompt"),
+  industryPrompt: text("industry_prompt"),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  status: text("status").notNull().default("pending"), // pending, running, completed, failed
+  caseIds: integer("case_ids").array().notNull(),
+  completedCases: integer("completed_cases").notNull().default(0),
+  scores: jsonb("scores").$type<PromptEvalScores>(),
+  results: jsonb("results").$type<PromptEvalCaseResult[]>().notNull(),
+  error: text("error"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// What changed on a record: the fields that differ, before and after
+export interface AuditChanges {
+  before: Record<string, unknown> | null; // Null when the record was created
+  after: Record<string, unknown> | null; // Null when the record was deleted
+}
+
+// Append-only log of changes made through the storage layer, written by server/lib/audit.ts.
+// No foreign keys, so events outlive the users, companies and records they mention.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // Null for background jobs and signed-out requests
+  actorName: text("actor_name"), // Username at the time, in case the user is later removed
+  companyId: integer("company_id"),
+  action: text("action").notNull(), // e.g. client.delete, system_prompt.update
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const userOnboarding = pgTable("user_onboarding", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -192,6 +612,36 @@ export const insertCompanySchema = createInsertSchema(companies).pick({
   isActive: true,
 });
 
+export const insertInvitationSchema = createInsertSchema(invitations, {
+  email: (schema) => schema.trim().toLowerCase().email('Please enter a valid email address'),
+  role: z.enum(invitationRoles),
+}).pick({
+  companyId: true,
+  email: true,
+  role: true,
+  token: true,
+  invitedBy: true,
+  expiresAt: true,
+  sentAt: true,
+  sendCount: true,
+  revokedAt: true,
+  acceptedAt: true,
+  acceptedBy: true,
+});
+
+export const insertCompanyRoleSchema = createInsertSchema(companyRoles, {
+  name: (schema) => schema.trim().toLowerCase()
+    .regex(/^[a-z][a-z0-9-]{1,29}$/, 'Role names are 2-30 lowercase letters, numbers or dashes')
+    .refine(name => !(builtInRoles as readonly string[]).includes(name), 'That name is reserved for a built-in role'),
+  description: (schema) => schema.trim().max(200),
+  permissions: z.array(z.enum(companyPermissions)),
+}).pick({
+  companyId: true,
+  name: true,
+  description: true,
+  permissions: true,
+});
+
 export const insertClientSchema = createInsertSchema(clients).pick({
   companyName: true,
   contactFirstName: true,
@@ -205,6 +655,7 @@ export const insertClientSchema = createInsertSchema(clients).pick({
   xeroContactId: true,
 });
 
+// The quote number is allocated from the company's sequence when left out
 export const insertQuoteSchema = createInsertSchema(quotes).pick({
   quoteNumber: true,
   clientId: true,
@@ -218,9 +669,160 @@ export const insertQuoteSchema = createInsertSchema(quotes).pick({
   xeroQuoteId: true,
   xeroQuoteNumber: true,
   xeroQuoteUrl: true,
+}).partial({ quoteNumber: true });
+
+export const insertQuoteNumberSequenceSchema = createInsertSchema(quoteNumberSequences).pick({
+  companyId: true,
+  prefix: true,
+  includeYear: true,
+  padding: true,
+  resetYearly: true,
+  nextNumber: true,
+  year: true,
+});
+
+export const insertQuoteLineItemSchema = createInsertSchema(quoteLineItems).pick({
+  quoteId: true,
+  description: true,
+  quantity: true,
+  unitPrice: true,
+  unit: true,
+  taxRate: true,
+  sortOrder: true,
+  category: true,
+});
+
+// Line items as extracted by AI from a conversation or free text
+export const lineItemCategories = ["labour", "material", "equipment", "other"] as const;
+export type LineItemCategory = typeof lineItemCategories[number];
+
+export const extractedLineItemSchema = z.object({
+  description: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  unit: z.string().trim().min(1).nullable(), // e.g. "hour", "m2", "each"
+  unitPrice: z.number().min(0), // Excluding tax
+  category: z.enum(lineItemCategories),
+  taxable: z.boolean(),
+  confidence: z.number().min(0).max(1), // How clearly the item and its price were stated
+});
+
+export const lineItemExtractionSchema = z.object({
+  items: z.array(extractedLineItemSchema),
+  notes: z.string().nullable(), // e.g. items mentioned without a price
+});
+
+// One-shot AI quote draft from a job description
+export const quoteDraftSchema = z.object({
+  title: z.string().trim().min(1),
+  scope: z.string().trim().min(1),
+  lineItems: z.array(extractedLineItemSchema),
+  assumptions: z.array(z.string()),
+  exclusions: z.array(z.string()),
+  timeline: z.string().nullable(),
+});
+
+// A past quote read from a PDF or spreadsheet; dates are YYYY-MM-DD
+export const historicalQuoteSchema = z.object({
+  clientName: z.string().trim().min(1).nullable(),
+  quoteNumber: z.string().trim().min(1).nullable(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable(),
+  description: z.string().trim().min(1).nullable(),
+  lineItems: z.array(extractedLineItemSchema),
+  total: z.number().min(0).nullable(),
 });
 
-export const insertTrainingDataSchema = createInsertSchema(trainingData).pick({
+export const insertQuoteStatusEventSchema = createInsertSchema(quoteStatusEvents).pick({
+  quoteId: true,
+  fromStatus: true,
+  toStatus: true,
+  userId: true,
+  source: true,
+  note: true,
+});
+
+export const insertQuoteVersionSchema = createInsertSchema(quoteVersions).pick({
+  quoteId: true,
+  version: true,
+  quoteNumber: true,
+  clientName: true,
+  description: true,
+  amount: true,
+  date: true,
+  status: true,
+  lineItems: true,
+  createdBy: true,
+  note: true,
+});
+
+export const insertQuoteShareLinkSchema = createInsertSchema(quoteShareLinks).pick({
+  quoteId: true,
+  token: true,
+  createdBy: true,
+  expiresAt: true,
+  revokedAt: true,
+  firstViewedAt: true,
+  lastViewedAt: true,
+  response: true,
+  signatureName: true,
+  declineReason: true,
+  respondedAt: true,
+  respondedIp: true,
+  respondedUserAgent: true,
+});
+
+export const insertOutboundEmailSchema = createInsertSchema(outboundEmails).pick({
+  quoteId: true,
+  companyId: true,
+  userId: true,
+  toAddress: true,
+  fromAddress: true,
+  subject: true,
+  kind: true,
+  transport: true,
+  status: true,
+  messageId: true,
+  error: true,
+  attachments: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  title: true,
+  quoteId: true,
+  clientId: true,
+  userId: true,
+  companyId: true,
+});
+
+export const insertConversationMessageSchema = createInsertSchema(conversationMessages).pick({
+  conversationId: true,
+  role: true,
+  content: true,
+});
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex colour like #1a2b3c");
+
+export const insertQuoteTemplateSchema = createInsertSchema(quoteTemplates, {
+  primaryColor: hexColor,
+  accentColor: hexColor,
+}).pick({
+  companyId: true,
+  name: true,
+  headerText: true,
+  footerText: true,
+  primaryColor: true,
+  accentColor: true,
+  termsText: true,
+  showLogo: true,
+  isDefault: true,
+});
+
+export const trainingDataStatuses = ["pending", "approved"] as const;
+export type TrainingDataStatus = typeof trainingDataStatuses[number];
+
+export const insertTrainingDataSchema = createInsertSchema(trainingData, {
+  quality: z.number().int().min(1).max(5).nullish(),
+  status: z.enum(trainingDataStatuses).optional(),
+}).pick({
   prompt: true,
   response: true,
   userId: true,
@@ -229,12 +831,42 @@ export const insertTrainingDataSchema = createInsertSchema(trainingData).pick({
   tags: true,
   category: true,
   quality: true,
+  source: true,
+  status: true,
+  rating: true,
+  originalResponse: true,
+  conversationId: true,
+});
+
+// A thumbs up or down, or a correction, on an assistant reply in the quote chat
+export const trainingFeedbackSchema = z.object({
+  prompt: z.string().trim().min(1), // The user message the reply answered
+  response: z.string().trim().min(1), // The AI's reply
+  rating: z.enum(["up", "down"]),
+  correction: z.string().trim().min(1).optional(), // What the reply should have said
+  conversationId: z.number().int().positive().nullish(),
+  // Replaces an earlier rating of the same reply
+  trainingDataId: z.number().int().positive().optional(),
+});
+
+export const insertDocumentImportSchema = createInsertSchema(documentImports, {
+  status: z.enum(documentImportStatuses).optional(),
+}).pick({
+  companyId: true,
+  userId: true,
+  status: true,
+  totalDocuments: true,
+  processedDocuments: true,
+  documents: true,
+  error: true,
+  confirmedAt: true,
 });
 
 export const insertAiModelSchema = createInsertSchema(aiModels).pick({
   name: true,
   provider: true,
   baseModel: true,
+  description: true,
   companyId: true,
   isActive: true,
   configuration: true,
@@ -249,12 +881,54 @@ export const insertFinetuningSessionSchema = createInsertSchema(finetuningSessio
   companyId: true,
   userId: true,
   status: true,
+  providerJobId: true,
+  progress: true,
+  completedAt: true,
   datasetSize: true,
   trainingHyperparams: true,
   resultMetrics: true,
   error: true,
 });
 
+export const insertPriceBookItemSchema = createInsertSchema(priceBookItems, {
+  name: (schema) => schema.trim().min(1, 'Name is required'),
+  category: z.enum(lineItemCategories).optional(),
+  cost: z.number().min(0).nullish(),
+  sellPrice: z.number().min(0).nullish(),
+  markupPercent: z.number().min(-100).max(10000).nullish(),
+}).pick({
+  companyId: true,
+  sku: true,
+  name: true,
+  description: true,
+  category: true,
+  unit: true,
+  cost: true,
+  sellPrice: true,
+  markupPercent: true,
+  taxable: true,
+  isActive: true,
+});
+
+export const priceBookMarkupRulesSchema = z.array(z.object({
+  category: z.enum(lineItemCategories),
+  markupPercent: z.number().min(-100).max(10000),
+})).refine(rules => new Set(rules.map(rule => rule.category)).size === rules.length, {
+  message: 'Each category can only have one markup',
+});
+
+export const insertKnowledgeEmbeddingSchema = createInsertSchema(knowledgeEmbeddings).pick({
+  companyId: true,
+  sourceType: true,
+  sourceId: true,
+  title: true,
+  content: true,
+  contentHash: true,
+  metadata: true,
+  embeddingModel: true,
+  embedding: true,
+});
+
 export const insertIndustrySchema = createInsertSchema(industries).pick({
   name: true,
   description: true,
@@ -272,6 +946,62 @@ export const insertSystemPromptSchema = createInsertSchema(systemPrompts).pick({
   companyId: true,
 });
 
+// A line item a good draft for an evaluation case contains
+export const expectedLineItemSchema = z.object({
+  description: z.string().trim().min(1),
+  quantity: z.number().positive().nullish(),
+});
+
+export const insertPromptEvalCaseSchema = createInsertSchema(promptEvalCases, {
+  name: (schema) => schema.trim().min(1, 'Name is required'),
+  description: (schema) => schema.trim().min(1, 'Description is required'),
+  expectedLineItems: z.array(expectedLineItemSchema).min(1, 'Add at least one expected line item'),
+  minTotal: z.number().min(0).nullish(),
+  maxTotal: z.number().min(0).nullish(),
+}).pick({
+  name: true,
+  industryId: true,
+  description: true,
+  expectedLineItems: true,
+  minTotal: true,
+  maxTotal: true,
+  isActive: true,
+  createdBy: true,
+});
+
+export const insertPromptEvalRunSchema = createInsertSchema(promptEvalRuns, {
+  status: z.enum(promptEvalRunStatuses).optional(),
+}).pick({
+  name: true,
+  industryId: true,
+  corePromptId: true,
+  industryPromptId: true,
+  corePrompt: true,
+  industryPrompt: true,
+  provider: true,
+  model: true,
+  status: true,
+  caseIds: true,
+  completedCases: true,
+  scores: true,
+  results: true,
+  error: true,
+  createdBy: true,
+  completedAt: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).pick({
+  actorId: true,
+  actorName: true,
+  companyId: true,
+  action: true,
+  entityType: true,
+  entityId: true,
+  changes: true,
+  ipAddress: true,
+  userAgent: true,
+});
+
 export const insertUserOnboardingSchema = createInsertSchema(userOnboarding).pick({
   userId: true,
   tutorialCompleted: true,
@@ -300,27 +1030,92 @@ export type Register = z.infer<typeof registerSchema>;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Company = typeof companies.$inferSelect;
 
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+
+export type InsertCompanyRole = z.infer<typeof insertCompanyRoleSchema>;
+export type CompanyRole = typeof companyRoles.$inferSelect;
+
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Client = typeof clients.$inferSelect;
 
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
 export type Quote = typeof quotes.$inferSelect;
 
+export type InsertQuoteNumberSequence = z.infer<typeof insertQuoteNumberSequenceSchema>;
+export type QuoteNumberSequence = typeof quoteNumberSequences.$inferSelect;
+
+export type InsertQuoteLineItem = z.infer<typeof insertQuoteLineItemSchema>;
+export type QuoteLineItem = typeof quoteLineItems.$inferSelect;
+
+export type ExtractedLineItem = z.infer<typeof extractedLineItemSchema>;
+export type LineItemExtraction = z.infer<typeof lineItemExtractionSchema>;
+export type QuoteDraft = z.infer<typeof quoteDraftSchema>;
+
+// An extracted item after it has been looked up in the company price book
+export type PricedLineItem = ExtractedLineItem & {
+  priceBookItemId: number | null; // Null when nothing in the price book matched
+  sku: string | null;
+};
+
+export type InsertQuoteStatusEvent = z.infer<typeof insertQuoteStatusEventSchema>;
+export type QuoteStatusEvent = typeof quoteStatusEvents.$inferSelect;
+
+export type InsertQuoteVersion = z.infer<typeof insertQuoteVersionSchema>;
+export type QuoteVersion = typeof quoteVersions.$inferSelect;
+
+export type InsertQuoteShareLink = z.infer<typeof insertQuoteShareLinkSchema>;
+export type QuoteShareLink = typeof quoteShareLinks.$inferSelect;
+
+export type InsertOutboundEmail = z.infer<typeof insertOutboundEmailSchema>;
+export type OutboundEmail = typeof outboundEmails.$inferSelect;
+
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+
+export type InsertConversationMessage = z.infer<typeof insertConversationMessageSchema>;
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+
+export type InsertQuoteTemplate = z.infer<typeof insertQuoteTemplateSchema>;
+export type QuoteTemplate = typeof quoteTemplates.$inferSelect;
+
 export type InsertTrainingData = z.infer<typeof insertTrainingDataSchema>;
+export type TrainingFeedback = z.infer<typeof trainingFeedbackSchema>;
 export type TrainingData = typeof trainingData.$inferSelect;
 
+export type HistoricalQuote = z.infer<typeof historicalQuoteSchema>;
+export type InsertDocumentImport = z.infer<typeof insertDocumentImportSchema>;
+export type DocumentImport = typeof documentImports.$inferSelect;
+
 export type InsertAIModel = z.infer<typeof insertAiModelSchema>;
 export type AIModel = typeof aiModels.$inferSelect;
 
 export type InsertFinetuningSession = z.infer<typeof insertFinetuningSessionSchema>;
 export type FinetuningSession = typeof finetuningSessions.$inferSelect;
 
+export type InsertPriceBookItem = z.infer<typeof insertPriceBookItemSchema>;
+export type PriceBookItem = typeof priceBookItems.$inferSelect;
+export type PriceBookMarkupRules = z.infer<typeof priceBookMarkupRulesSchema>;
+export type PriceBookMarkup = typeof priceBookMarkups.$inferSelect;
+
+export type InsertKnowledgeEmbedding = z.infer<typeof insertKnowledgeEmbeddingSchema>;
+export type KnowledgeEmbedding = typeof knowledgeEmbeddings.$inferSelect;
+
 export type InsertIndustry = z.infer<typeof insertIndustrySchema>;
 export type Industry = typeof industries.$inferSelect;
 
 export type InsertSystemPrompt = z.infer<typeof insertSystemPromptSchema>;
 export type SystemPrompt = typeof systemPrompts.$inferSelect;
 
+export type ExpectedLineItem = z.infer<typeof expectedLineItemSchema>;
+export type InsertPromptEvalCase = z.infer<typeof insertPromptEvalCaseSchema>;
+export type PromptEvalCase = typeof promptEvalCases.$inferSelect;
+export type InsertPromptEvalRun = z.infer<typeof insertPromptEvalRunSchema>;
+export type PromptEvalRun = typeof promptEvalRuns.$inferSelect;
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
 export type InsertUserOnboarding = z.infer<typeof insertUserOnboardingSchema>;
 export type UserOnboarding = typeof userOnboarding.$inferSelect;
 
@@ -344,6 +1139,10 @@ export const refreshTokens = pgTable("refresh_tokens", {
   expires: timestamp("expires").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   createdByIp: text("created_by_ip"),
+  userAgent: text("user_agent"),
+  // Every token rotated from one login shares a family: the family is the session
+  familyId: uuid("family_id").notNull().defaultRandom(),
+  sessionStartedAt: timestamp("session_started_at").notNull().defaultNow(),
   revokedAt: timestamp("revoked_at"),
   revokedByIp: text("revoked_by_ip"),
   replacedByToken: uuid("replaced_by_token"),
@@ -352,6 +1151,21 @@ export const refreshTokens = pgTable("refresh_tokens", {
   isActive: boolean("is_active").notNull().default(true)
 });
 
+// TOTP two-factor authentication, one row per user. Until enabledAt is set the
+// secret is only a pending enrollment and isn't asked for at login.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // base32, as shown to authenticator apps
+  backupCodes: jsonb("backup_codes").$type<string[]>().notNull().default([]), // SHA-256 hashes of unused codes
+  lastUsedStep: integer("last_used_step"), // 30-second step of the last accepted code, so a code works once
+  failedAttempts: integer("failed_attempts").notNull().default(0), // codes tried since the last right one or lockout
+  lockedUntil: timestamp("locked_until"), // no codes are checked until then
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
 export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens);
 export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
@@ -364,3 +1178,17 @@ export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({
 });
 export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
 export type RefreshToken = typeof refreshTokens.$inferSelect;
+
+export const insertTwoFactorCredentialSchema = createInsertSchema(twoFactorCredentials, {
+  backupCodes: z.array(z.string()),
+}).pick({
+  userId: true,
+  secret: true,
+  backupCodes: true,
+  lastUsedStep: true,
+  failedAttempts: true,
+  lockedUntil: true,
+  enabledAt: true
+});
+export type InsertTwoFactorCredential = z.infer<typeof insertTwoFactorCredentialSchema>;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;